@@ -5,19 +5,24 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { BetaNoticeBanner } from "@/components/beta-notice-banner";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useLiveEvents } from "@/hooks/use-live-events";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Leaderboard from "@/pages/leaderboard";
 import Profile from "@/pages/profile";
 import Community from "@/pages/community";
+import Admin from "@/pages/admin";
 
 function Router() {
+  useLiveEvents();
+
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/leaderboard" component={Leaderboard} />
       <Route path="/profile" component={Profile} />
       <Route path="/community" component={Community} />
+      <Route path="/admin" component={Admin} />
       <Route component={NotFound} />
     </Switch>
   );
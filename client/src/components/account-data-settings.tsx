@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { deleteAccount, downloadAccountData, getLinkedProviders } from "@/lib/auth";
+import { PROVIDERS_KEY } from "@/components/linked-providers";
+import { ACCOUNT_DELETION_CONFIRMATION, ACCOUNT_DELETION_GRACE_DAYS } from "@shared/schema";
+import { Database, Download, Loader2, Trash2 } from "lucide-react";
+
+// Personal data export and account deletion
+export function AccountDataSettings() {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [downloading, setDownloading] = useState<"json" | "zip" | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState("");
+
+  const { data: providers = [] } = useQuery({
+    queryKey: [PROVIDERS_KEY, user?.id],
+    queryFn: getLinkedProviders,
+    enabled: !!user,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const hasPassword = providers.some((provider) => provider.type === "password" && provider.linked);
+  const hasTwoFactor = !!user.totpEnabledAt;
+
+  const handleDownload = async (format: "json" | "zip") => {
+    setDownloading(format);
+    try {
+      await downloadAccountData(format);
+    } catch (error: any) {
+      toast({ title: "No se pudieron exportar tus datos", description: error.message, variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const cancelDelete = () => {
+    setConfirmingDelete(false);
+    setPassword("");
+    setCode("");
+    setConfirmation("");
+    setError("");
+  };
+
+  const handleDelete = async () => {
+    setError("");
+    setIsDeleting(true);
+    try {
+      const purgeAt = await deleteAccount({
+        confirmation: ACCOUNT_DELETION_CONFIRMATION,
+        password: hasPassword ? password : undefined,
+        code: hasTwoFactor ? code : undefined,
+      });
+      logout();
+      setLocation("/");
+      toast({
+        title: "Cuenta eliminada",
+        description: `Tus datos personales se borrarán definitivamente el ${purgeAt.toLocaleDateString("es-ES", { dateStyle: "long" })}.`,
+      });
+    } catch (error: any) {
+      setError(error.message || "Error al eliminar la cuenta");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm" data-testid="card-account-data">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Database className="w-5 h-5 text-veg-primary" />
+          <span>Tus datos</span>
+        </CardTitle>
+        <CardDescription>
+          Descarga una copia de todo lo que VEG21 guarda sobre ti o elimina tu cuenta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleDownload("json")} disabled={!!downloading} data-testid="button-export-json">
+            {downloading === "json" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Descargar (JSON)
+          </Button>
+          <Button variant="outline" onClick={() => handleDownload("zip")} disabled={!!downloading} data-testid="button-export-zip">
+            {downloading === "zip" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Descargar (ZIP)
+          </Button>
+        </div>
+
+        {!confirmingDelete ? (
+          <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setConfirmingDelete(true)} data-testid="button-delete-account">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Eliminar mi cuenta
+          </Button>
+        ) : (
+          <div className="space-y-3 border border-red-200 bg-red-50/50 p-4 rounded-lg" data-testid="delete-account-form">
+            <div className="text-sm text-gray-700">
+              Se cerrará tu sesión en todos los dispositivos y tu nombre dejará de aparecer en la comunidad.
+              Pasados {ACCOUNT_DELETION_GRACE_DAYS} días se borrarán tus datos personales, check-ins y tokens;
+              tus publicaciones y comentarios quedarán como anónimos.
+            </div>
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-delete-account">
+                {error}
+              </div>
+            )}
+            {hasPassword && (
+              <div className="space-y-1">
+                <Label htmlFor="delete-password">Contraseña</Label>
+                <Input id="delete-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} data-testid="input-delete-password" />
+              </div>
+            )}
+            {hasTwoFactor && (
+              <div className="space-y-1">
+                <Label htmlFor="delete-code">Código de verificación</Label>
+                <Input id="delete-code" inputMode="numeric" maxLength={6} value={code} onChange={(e) => setCode(e.target.value)} data-testid="input-delete-code" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="delete-confirmation">Escribe {ACCOUNT_DELETION_CONFIRMATION} para confirmar</Label>
+              <Input id="delete-confirmation" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} data-testid="input-delete-confirmation" />
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={isDeleting || confirmation !== ACCOUNT_DELETION_CONFIRMATION || (hasPassword && !password) || (hasTwoFactor && code.length !== 6)}
+                data-testid="button-confirm-delete-account"
+              >
+                {isDeleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Eliminar cuenta
+              </Button>
+              <Button variant="ghost" onClick={cancelDelete} data-testid="button-cancel-delete-account">
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
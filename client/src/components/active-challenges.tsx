@@ -1,69 +1,30 @@
 import { useState } from "react";
-import { Trophy, Utensils, Heart, Plus, Check, Clock, Star } from "lucide-react";
+import { Plus, Check, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { MessageModal } from "./message-modal";
 import { ChallengeProgressTracker } from "./challenge-progress-tracker";
 import { useWallet } from "@/hooks/use-wallet";
-
-interface Challenge {
-  id: number;
-  title: string;
-  description: string;
-  progress: number;
-  reward: number;
-  participants: number;
-  daysLeft: number;
-  icon: any;
-  status: 'active' | 'upcoming' | 'specialist';
-  gradient: string;
-  requirement?: string;
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getChallengeIcon,
+  useChallengeCatalog,
+  useEnrollChallenge,
+  useMyChallenge,
+  type ChallengeCatalogEntry
+} from "@/lib/challenge-service";
+
+const DIFFICULTY_GRADIENTS: Record<string, string> = {
+  Principiante: "from-veg-primary to-veg-secondary",
+  Intermedio: "from-blue-500 to-blue-600",
+  Avanzado: "from-purple-500 to-purple-600"
+};
+
+function getGradient(challenge: ChallengeCatalogEntry): string {
+  return DIFFICULTY_GRADIENTS[challenge.difficulty] ?? DIFFICULTY_GRADIENTS.Principiante;
 }
 
-const challenges: Challenge[] = [
-  {
-    id: 1,
-    title: "Desafío Noviembre 2024",
-    description: "Adopta 21 hábitos veganos consecutivos y contribuye al impacto ambiental positivo.",
-    progress: 68,
-    reward: 100,
-    participants: 342,
-    daysLeft: 7,
-    icon: Trophy,
-    status: 'active',
-    gradient: "from-veg-primary to-veg-secondary"
-  },
-  {
-    id: 2,
-    title: "Cocina Vegana Avanzada",
-    description: "Aprende 21 recetas veganas únicas y compártelas con la comunidad para ganar tokens extra.",
-    progress: 0,
-    reward: 150,
-    participants: 0,
-    daysLeft: 0,
-    icon: Utensils,
-    status: 'upcoming',
-    gradient: "from-blue-500 to-blue-600",
-    requirement: "Inicia: 1 Dic 2024"
-  },
-  {
-    id: 3,
-    title: "Activismo Digital",
-    description: "Promociona el veganismo en redes sociales y educa sobre sostenibilidad durante 21 días.",
-    progress: 0,
-    reward: 200,
-    participants: 0,
-    daysLeft: 0,
-    icon: Heart,
-    status: 'specialist',
-    gradient: "from-purple-500 to-purple-600",
-    requirement: "1 reto completado"
-  }
-];
-
 export function ActiveChallenges() {
-  const [joinedChallenges, setJoinedChallenges] = useState<Set<number>>(new Set());
-  const [joiningChallenge, setJoiningChallenge] = useState<number | null>(null);
-  const [challengeProgress, setChallengeProgress] = useState<Record<number, number>>({});
+  const [joiningChallenge, setJoiningChallenge] = useState<string | null>(null);
   const [modalState, setModalState] = useState<{
     isOpen: boolean;
     type: 'success' | 'error';
@@ -71,13 +32,20 @@ export function ActiveChallenges() {
     message: string;
   }>({ isOpen: false, type: 'success', title: '', message: '' });
 
-  const { isConnected, connectDemo } = useWallet();
+  const { isConnected } = useWallet();
+  const { isAuthenticated } = useAuth();
+  const { data: catalog = [] } = useChallengeCatalog();
+  const { data: enrollment } = useMyChallenge({ enabled: isAuthenticated });
+  const enrollChallenge = useEnrollChallenge();
+
+  const challenges = catalog.filter((challenge) => challenge.status !== 'retired');
+  const joinedChallengeId = enrollment?.status === 'active' ? enrollment.challenge.id : null;
 
   const showMessage = (type: 'success' | 'error', title: string, message: string) => {
     setModalState({ isOpen: true, type, title, message });
   };
 
-  const handleJoinChallenge = async (challenge: Challenge) => {
+  const handleJoinChallenge = async (challenge: ChallengeCatalogEntry) => {
     // Check both hook state AND localStorage for demo mode (handles state sync race condition)
     const isDemoActive = localStorage.getItem('veg21_demo') === 'true';
     if (!isConnected && !isDemoActive) {
@@ -85,33 +53,29 @@ export function ActiveChallenges() {
       return;
     }
 
-    if (challenge.status === 'upcoming') {
-      showMessage('error', 'Reto No Disponible', 'Este reto aún no está disponible. Regresa pronto.');
+    if (!isAuthenticated) {
+      showMessage('error', 'Inicia Sesión', 'Para unirte al reto necesitas una cuenta. Inicia sesión o regístrate desde la barra superior.');
       return;
     }
 
-    if (challenge.status === 'specialist' && !joinedChallenges.has(1)) {
-      showMessage('error', 'Requisitos No Cumplidos', 'Necesitas completar al menos un reto antes de acceder a este desafío especialista.');
+    if (challenge.status === 'upcoming') {
+      showMessage('error', 'Reto No Disponible', 'Este reto aún no está disponible. Regresa pronto.');
       return;
     }
 
     setJoiningChallenge(challenge.id);
 
     try {
-      // Simulate joining challenge
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      setJoinedChallenges(prev => new Set([...Array.from(prev), challenge.id]));
-      setChallengeProgress(prev => ({ ...prev, [challenge.id]: 1 }));
+      await enrollChallenge.mutateAsync(challenge.id);
       showMessage('success', '¡Te has unido al reto!', 'Ahora formas parte del desafío. ¡Completa tus objetivos diarios para ganar tokens VEG21!');
     } catch (error) {
-      showMessage('error', 'Error', 'Hubo un problema al unirse al reto. Intenta de nuevo.');
+      showMessage('error', 'Error', error instanceof Error ? error.message : 'Hubo un problema al unirse al reto. Intenta de nuevo.');
     } finally {
       setJoiningChallenge(null);
     }
   };
 
-  const getButtonContent = (challenge: Challenge) => {
+  const getButtonContent = (challenge: ChallengeCatalogEntry) => {
     if (joiningChallenge === challenge.id) {
       return (
         <>
@@ -121,7 +85,7 @@ export function ActiveChallenges() {
       );
     }
 
-    if (joinedChallenges.has(challenge.id)) {
+    if (joinedChallengeId === challenge.id) {
       return (
         <>
           <Check className="mr-2 h-4 w-4" />
@@ -139,15 +103,6 @@ export function ActiveChallenges() {
       );
     }
 
-    if (challenge.status === 'specialist') {
-      return (
-        <>
-          <Star className="mr-2 h-4 w-4" />
-          Unirse al Reto
-        </>
-      );
-    }
-
     return (
       <>
         <Plus className="mr-2 h-4 w-4" />
@@ -156,8 +111,8 @@ export function ActiveChallenges() {
     );
   };
 
-  const getButtonStyle = (challenge: Challenge) => {
-    if (joinedChallenges.has(challenge.id)) {
+  const getButtonStyle = (challenge: ChallengeCatalogEntry) => {
+    if (joinedChallengeId === challenge.id) {
       return "bg-green-600 hover:bg-green-700";
     }
 
@@ -165,7 +120,7 @@ export function ActiveChallenges() {
       return "bg-gray-200 text-gray-500 cursor-not-allowed";
     }
 
-    return `bg-gradient-to-r ${challenge.gradient} text-white hover:opacity-90 transform hover:scale-105 transition-all duration-200 shadow-lg`;
+    return `bg-gradient-to-r ${getGradient(challenge)} text-white hover:opacity-90 transform hover:scale-105 transition-all duration-200 shadow-lg`;
   };
 
   return (
@@ -179,57 +134,49 @@ export function ActiveChallenges() {
             </p>
           </div>
 
-          {/* Progress Trackers for Joined Challenges */}
-          {Array.from(joinedChallenges).length > 0 && (
+          {/* Progress Tracker for the Joined Challenge */}
+          {enrollment && joinedChallengeId && (
             <div className="mb-12">
               <h3 className="text-2xl font-bold text-veg-dark mb-6 text-center">Mis Retos Activos</h3>
               <div className="grid md:grid-cols-1 lg:grid-cols-2 gap-6">
-                {Array.from(joinedChallenges).map((challengeId) => {
-                  const challenge = challenges.find(c => c.id === challengeId);
-                  if (!challenge) return null;
-                  
-                  return (
-                    <ChallengeProgressTracker
-                      key={challengeId}
-                      challengeId={challengeId}
-                      challengeName={challenge.title}
-                      currentDay={challengeProgress[challengeId] || 1}
-                      totalDays={21}
-                      isActive={true}
-                    />
-                  );
-                })}
+                <ChallengeProgressTracker
+                  challengeId={enrollment.challenge.id}
+                  challengeName={enrollment.challenge.title}
+                  currentDay={enrollment.progress.currentDay}
+                  totalDays={enrollment.challenge.durationDays}
+                  isActive={enrollment.progress.isActive}
+                />
               </div>
             </div>
           )}
 
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
             {challenges.map((challenge) => {
-              const IconComponent = challenge.icon;
-              const isJoined = joinedChallenges.has(challenge.id);
+              const IconComponent = getChallengeIcon(challenge.icon);
+              const gradient = getGradient(challenge);
+              const isJoined = joinedChallengeId === challenge.id;
               const isJoining = joiningChallenge === challenge.id;
+              const progress = isJoined && enrollment
+                ? Math.round((enrollment.progress.completedDays.length / challenge.durationDays) * 100)
+                : 0;
 
               return (
                 <div 
                   key={challenge.id}
                   className={`bg-gradient-to-br from-white ${
                     challenge.status === 'active' ? 'to-green-50 border-green-100' : 
-                    challenge.status === 'upcoming' ? 'to-blue-50 border-blue-100' : 
-                    'to-purple-50 border-purple-100'
+                    'to-blue-50 border-blue-100'
                   } rounded-2xl p-8 shadow-lg border hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1`}
                 >
                   <div className="flex items-center justify-between mb-6">
-                    <div className={`w-16 h-16 bg-gradient-to-br ${challenge.gradient} rounded-2xl flex items-center justify-center`}>
+                    <div className={`w-16 h-16 bg-gradient-to-br ${gradient} rounded-2xl flex items-center justify-center`}>
                       <IconComponent className="text-white text-2xl" />
                     </div>
                     <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
                       challenge.status === 'active' ? 'bg-veg-accent/20 text-veg-accent' :
-                      challenge.status === 'upcoming' ? 'bg-blue-100 text-blue-600' :
-                      'bg-purple-100 text-purple-600'
+                      'bg-blue-100 text-blue-600'
                     }`}>
-                      {challenge.status === 'active' ? `${challenge.daysLeft} días restantes` :
-                       challenge.status === 'upcoming' ? 'Próximamente' :
-                       'Especialista'}
+                      {challenge.status === 'active' ? `${challenge.durationDays} días` : 'Próximamente'}
                     </span>
                   </div>
                   
@@ -241,16 +188,16 @@ export function ActiveChallenges() {
                   </p>
                   
                   <div className="space-y-4 mb-6">
-                    {challenge.status === 'active' && (
+                    {isJoined && (
                       <>
                         <div className="flex justify-between items-center">
-                          <span className="text-sm text-gray-600">Progreso Global:</span>
-                          <span className="text-sm font-semibold text-veg-primary">{challenge.progress}%</span>
+                          <span className="text-sm text-gray-600">Tu Progreso:</span>
+                          <span className="text-sm font-semibold text-veg-primary">{progress}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div 
                             className="bg-gradient-to-r from-veg-primary to-veg-secondary h-2 rounded-full transition-all duration-500" 
-                            style={{ width: `${challenge.progress}%` }}
+                            style={{ width: `${progress}%` }}
                           ></div>
                         </div>
                       </>
@@ -259,20 +206,12 @@ export function ActiveChallenges() {
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">
                         Recompensa: <span className={`font-semibold ${
-                          challenge.status === 'active' ? 'text-veg-primary' :
-                          challenge.status === 'upcoming' ? 'text-blue-600' :
-                          'text-purple-600'
-                        }`}>{challenge.reward} VEG21</span>
+                          challenge.status === 'active' ? 'text-veg-primary' : 'text-blue-600'
+                        }`}>{challenge.rewardAmount} VEG21</span>
+                      </span>
+                      <span className="text-gray-600">
+                        <span className="font-semibold">{challenge.participants}</span> participantes
                       </span>
-                      {challenge.status === 'active' ? (
-                        <span className="text-gray-600">
-                          <span className="font-semibold">{challenge.participants}</span> participantes
-                        </span>
-                      ) : (
-                        <span className="text-gray-600">
-                          {challenge.requirement}
-                        </span>
-                      )}
                     </div>
                   </div>
                   
@@ -1,26 +1,48 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Leaf, Mail, Lock, User, MapPin, Loader2 } from "lucide-react";
+import { requestPasswordReset, confirmPasswordReset, requestEmailVerification, confirmEmailVerification, getPendingOAuthLink, sendOAuthLinkCode, getOidcProviders, type MfaChallenge } from "@/lib/auth";
+import type { PendingOAuthLinkInfo } from "@shared/schema";
+import { Leaf, Mail, Lock, User, MapPin, Loader2, Wallet, ArrowLeft, CheckCircle2, KeyRound, ShieldCheck } from "lucide-react";
 import { SiGoogle, SiFacebook } from "react-icons/si";
 
+export type AuthModalView = "auth" | "forgot" | "reset" | "verify" | "mfa" | "link";
+
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
   defaultTab?: "login" | "register";
+  // "reset" and "verify" are opened from emailed links, "link" after a
+  // provider login that matched an existing account and "mfa" after one that
+  // needs the second factor; they receive its token
+  defaultView?: AuthModalView;
+  token?: string | null;
+  // Connects the wallet and signs in with Sign-In With Ethereum; resolves with
+  // a challenge when the account has two-factor authentication
+  onWalletSignIn?: () => Promise<MfaChallenge | null>;
 }
 
-export function AuthModal({ isOpen, onClose, defaultTab = "login" }: AuthModalProps) {
+export function AuthModal({ isOpen, onClose, defaultTab = "login", defaultView = "auth", token, onWalletSignIn }: AuthModalProps) {
   const { login, register } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState(defaultTab);
+  const [view, setView] = useState<AuthModalView>(defaultView);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  // A login started in the modal, or a provider login passed in as the token
+  const challengeToken = mfaToken ?? token;
+
+  useEffect(() => {
+    if (isOpen) setView(defaultView);
+  }, [isOpen, defaultView]);
 
   const [loginData, setLoginData] = useState({ email: "", password: "" });
   const [registerData, setRegisterData] = useState({
@@ -44,7 +66,12 @@ export function AuthModal({ isOpen, onClose, defaultTab = "login" }: AuthModalPr
     
     setIsLoading(true);
     try {
-      await login(loginData.email, loginData.password);
+      const challenge = await login(loginData.email, loginData.password);
+      if (challenge) {
+        setMfaToken(challenge.mfaToken);
+        setView("mfa");
+        return;
+      }
       toast({
         title: "¡Bienvenido de vuelta! 🌱",
         description: "Has iniciado sesión correctamente.",
@@ -57,6 +84,25 @@ export function AuthModal({ isOpen, onClose, defaultTab = "login" }: AuthModalPr
     }
   };
 
+  const handleWalletSignIn = async () => {
+    if (!onWalletSignIn) return;
+    setErrors({});
+    setIsLoading(true);
+    try {
+      const challenge = await onWalletSignIn();
+      if (challenge) {
+        setMfaToken(challenge.mfaToken);
+        setView("mfa");
+        return;
+      }
+      onClose();
+    } catch (error: any) {
+      setErrors({ general: error.message || "Error al iniciar sesión con wallet" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
@@ -112,253 +158,914 @@ export function AuthModal({ isOpen, onClose, defaultTab = "login" }: AuthModalPr
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "login" | "register")} className="mt-4">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="login" data-testid="tab-login">Iniciar Sesión</TabsTrigger>
-            <TabsTrigger value="register" data-testid="tab-register">Registrarse</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="login" className="space-y-4 mt-4">
-            <div className="space-y-3">
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full"
-                onClick={() => window.location.href = '/api/auth/google'}
-                data-testid="button-google-login"
-              >
-                <SiGoogle className="mr-2 h-4 w-4 text-red-500" />
-                Continuar con Google
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full"
-                onClick={() => window.location.href = '/api/auth/facebook'}
-                data-testid="button-facebook-login"
-              >
-                <SiFacebook className="mr-2 h-4 w-4 text-blue-600" />
-                Continuar con Facebook
-              </Button>
-            </div>
+        {view === "forgot" && (
+          <ForgotPasswordScreen
+            initialEmail={loginData.email}
+            onBack={() => setView("auth")}
+          />
+        )}
+
+        {view === "reset" && (
+          <ResetPasswordScreen
+            token={token ?? ""}
+            onDone={() => {
+              setActiveTab("login");
+              setView("auth");
+            }}
+            onRequestNewLink={() => setView("forgot")}
+          />
+        )}
+
+        {view === "verify" && (
+          <VerifyEmailScreen token={token ?? null} onClose={onClose} />
+        )}
 
-            <div className="relative my-4">
-              <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t" />
+        {view === "link" && (
+          <LinkAccountScreen
+            linkToken={token ?? ""}
+            onDone={onClose}
+            onMfaRequired={(challenge) => {
+              setMfaToken(challenge.mfaToken);
+              setView("mfa");
+            }}
+          />
+        )}
+
+        {view === "mfa" && challengeToken && (
+          <MfaScreen
+            mfaToken={challengeToken}
+            onDone={onClose}
+            onBack={() => {
+              setMfaToken(null);
+              setView("auth");
+            }}
+          />
+        )}
+
+        {view === "auth" && (
+          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "login" | "register")} className="mt-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Iniciar Sesión</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Registrarse</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login" className="space-y-4 mt-4">
+              <div className="space-y-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => window.location.href = '/api/auth/google'}
+                  data-testid="button-google-login"
+                >
+                  <SiGoogle className="mr-2 h-4 w-4 text-red-500" />
+                  Continuar con Google
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => window.location.href = '/api/auth/facebook'}
+                  data-testid="button-facebook-login"
+                >
+                  <SiFacebook className="mr-2 h-4 w-4 text-blue-600" />
+                  Continuar con Facebook
+                </Button>
+                <OidcProviderButtons action="login" />
+                {onWalletSignIn && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleWalletSignIn}
+                    disabled={isLoading}
+                    data-testid="button-wallet-login"
+                  >
+                    <Wallet className="mr-2 h-4 w-4 text-veg-primary" />
+                    Continuar con Wallet
+                  </Button>
+                )}
               </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-background px-2 text-muted-foreground">
-                  O continúa con email
-                </span>
+
+              <div className="relative my-4">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-background px-2 text-muted-foreground">
+                    O continúa con email
+                  </span>
+                </div>
               </div>
-            </div>
 
-            <form onSubmit={handleLogin} className="space-y-4">
-              {errors.general && (
-                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-general">
-                  {errors.general}
+              <form onSubmit={handleLogin} className="space-y-4">
+                {errors.general && (
+                  <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-general">
+                    {errors.general}
+                  </div>
+                )}
+              
+                <div className="space-y-2">
+                  <Label htmlFor="login-email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="login-email"
+                      type="email"
+                      placeholder="tu@email.com"
+                      className="pl-10"
+                      value={loginData.email}
+                      onChange={(e) => setLoginData({ ...loginData, email: e.target.value })}
+                      data-testid="input-login-email"
+                    />
+                  </div>
                 </div>
-              )}
               
-              <div className="space-y-2">
-                <Label htmlFor="login-email">Email</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="login-email"
-                    type="email"
-                    placeholder="tu@email.com"
-                    className="pl-10"
-                    value={loginData.email}
-                    onChange={(e) => setLoginData({ ...loginData, email: e.target.value })}
-                    data-testid="input-login-email"
-                  />
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">Contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="login-password"
+                      type="password"
+                      placeholder="••••••••"
+                      className="pl-10"
+                      value={loginData.password}
+                      onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                      data-testid="input-login-password"
+                    />
+                  </div>
                 </div>
-              </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="login-password">Contraseña</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="login-password"
-                    type="password"
-                    placeholder="••••••••"
-                    className="pl-10"
-                    value={loginData.password}
-                    onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
-                    data-testid="input-login-password"
-                  />
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    className="text-sm text-veg-primary hover:underline"
+                    onClick={() => setView("forgot")}
+                    data-testid="link-forgot-password"
+                  >
+                    ¿Olvidaste tu contraseña?
+                  </button>
                 </div>
-              </div>
               
-              <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-login">
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Iniciando...
-                  </>
-                ) : (
-                  "Iniciar Sesión"
-                )}
-              </Button>
-            </form>
-          </TabsContent>
-
-          <TabsContent value="register" className="space-y-4 mt-4">
-            <div className="space-y-3">
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full"
-                onClick={() => window.location.href = '/api/auth/google'}
-                data-testid="button-google-register"
-              >
-                <SiGoogle className="mr-2 h-4 w-4 text-red-500" />
-                Continuar con Google
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full"
-                onClick={() => window.location.href = '/api/auth/facebook'}
-                data-testid="button-facebook-register"
-              >
-                <SiFacebook className="mr-2 h-4 w-4 text-blue-600" />
-                Continuar con Facebook
-              </Button>
-            </div>
+                <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-login">
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Iniciando...
+                    </>
+                  ) : (
+                    "Iniciar Sesión"
+                  )}
+                </Button>
+              </form>
+            </TabsContent>
 
-            <div className="relative my-4">
-              <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-background px-2 text-muted-foreground">
-                  O regístrate con email
-                </span>
+            <TabsContent value="register" className="space-y-4 mt-4">
+              <div className="space-y-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => window.location.href = '/api/auth/google'}
+                  data-testid="button-google-register"
+                >
+                  <SiGoogle className="mr-2 h-4 w-4 text-red-500" />
+                  Continuar con Google
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => window.location.href = '/api/auth/facebook'}
+                  data-testid="button-facebook-register"
+                >
+                  <SiFacebook className="mr-2 h-4 w-4 text-blue-600" />
+                  Continuar con Facebook
+                </Button>
+                <OidcProviderButtons action="register" />
+                {onWalletSignIn && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleWalletSignIn}
+                    disabled={isLoading}
+                    data-testid="button-wallet-register"
+                  >
+                    <Wallet className="mr-2 h-4 w-4 text-veg-primary" />
+                    Continuar con Wallet
+                  </Button>
+                )}
               </div>
-            </div>
 
-            <form onSubmit={handleRegister} className="space-y-4">
-              {errors.general && (
-                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-register-general">
-                  {errors.general}
+              <div className="relative my-4">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
                 </div>
-              )}
-              
-              <div className="space-y-2">
-                <Label htmlFor="register-name">Nombre *</Label>
-                <div className="relative">
-                  <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="register-name"
-                    placeholder="Tu nombre"
-                    className="pl-10"
-                    value={registerData.name}
-                    onChange={(e) => setRegisterData({ ...registerData, name: e.target.value })}
-                    data-testid="input-register-name"
-                  />
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-background px-2 text-muted-foreground">
+                    O regístrate con email
+                  </span>
                 </div>
-                {errors.name && <p className="text-sm text-red-600">{errors.name}</p>}
               </div>
+
+              <form onSubmit={handleRegister} className="space-y-4">
+                {errors.general && (
+                  <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-register-general">
+                    {errors.general}
+                  </div>
+                )}
               
-              <div className="space-y-2">
-                <Label htmlFor="register-email">Email *</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="register-email"
-                    type="email"
-                    placeholder="tu@email.com"
-                    className="pl-10"
-                    value={registerData.email}
-                    onChange={(e) => setRegisterData({ ...registerData, email: e.target.value })}
-                    data-testid="input-register-email"
-                  />
+                <div className="space-y-2">
+                  <Label htmlFor="register-name">Nombre *</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="register-name"
+                      placeholder="Tu nombre"
+                      className="pl-10"
+                      value={registerData.name}
+                      onChange={(e) => setRegisterData({ ...registerData, name: e.target.value })}
+                      data-testid="input-register-name"
+                    />
+                  </div>
+                  {errors.name && <p className="text-sm text-red-600">{errors.name}</p>}
                 </div>
-                {errors.email && <p className="text-sm text-red-600">{errors.email}</p>}
-              </div>
               
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="register-password">Contraseña *</Label>
+                  <Label htmlFor="register-email">Email *</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                     <Input
-                      id="register-password"
-                      type="password"
-                      placeholder="••••••"
+                      id="register-email"
+                      type="email"
+                      placeholder="tu@email.com"
                       className="pl-10"
-                      value={registerData.password}
-                      onChange={(e) => setRegisterData({ ...registerData, password: e.target.value })}
-                      data-testid="input-register-password"
+                      value={registerData.email}
+                      onChange={(e) => setRegisterData({ ...registerData, email: e.target.value })}
+                      data-testid="input-register-email"
                     />
                   </div>
-                  {errors.password && <p className="text-sm text-red-600">{errors.password}</p>}
+                  {errors.email && <p className="text-sm text-red-600">{errors.email}</p>}
                 </div>
+              
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="register-password">Contraseña *</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="register-password"
+                        type="password"
+                        placeholder="••••••"
+                        className="pl-10"
+                        value={registerData.password}
+                        onChange={(e) => setRegisterData({ ...registerData, password: e.target.value })}
+                        data-testid="input-register-password"
+                      />
+                    </div>
+                    {errors.password && <p className="text-sm text-red-600">{errors.password}</p>}
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="register-confirm">Confirmar *</Label>
-                  <Input
-                    id="register-confirm"
-                    type="password"
-                    placeholder="••••••"
-                    value={registerData.confirmPassword}
-                    onChange={(e) => setRegisterData({ ...registerData, confirmPassword: e.target.value })}
-                    data-testid="input-register-confirm"
-                  />
-                  {errors.confirmPassword && <p className="text-sm text-red-600">{errors.confirmPassword}</p>}
+                  <div className="space-y-2">
+                    <Label htmlFor="register-confirm">Confirmar *</Label>
+                    <Input
+                      id="register-confirm"
+                      type="password"
+                      placeholder="••••••"
+                      value={registerData.confirmPassword}
+                      onChange={(e) => setRegisterData({ ...registerData, confirmPassword: e.target.value })}
+                      data-testid="input-register-confirm"
+                    />
+                    {errors.confirmPassword && <p className="text-sm text-red-600">{errors.confirmPassword}</p>}
+                  </div>
                 </div>
-              </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="register-location">Ubicación</Label>
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="register-location"
-                    placeholder="Tu ciudad"
-                    className="pl-10"
-                    value={registerData.location}
-                    onChange={(e) => setRegisterData({ ...registerData, location: e.target.value })}
-                    data-testid="input-register-location"
-                  />
+                <div className="space-y-2">
+                  <Label htmlFor="register-location">Ubicación</Label>
+                  <div className="relative">
+                    <MapPin className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="register-location"
+                      placeholder="Tu ciudad"
+                      className="pl-10"
+                      value={registerData.location}
+                      onChange={(e) => setRegisterData({ ...registerData, location: e.target.value })}
+                      data-testid="input-register-location"
+                    />
+                  </div>
                 </div>
-              </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="register-diet">Preferencia dietética</Label>
-                <Select
-                  value={registerData.dietaryPreference}
-                  onValueChange={(v) => setRegisterData({ ...registerData, dietaryPreference: v })}
-                >
-                  <SelectTrigger data-testid="select-dietary-preference">
-                    <SelectValue placeholder="Selecciona una opción" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="omnivore">Omnívoro</SelectItem>
-                    <SelectItem value="vegetarian">Vegetariano</SelectItem>
-                    <SelectItem value="vegan">Vegano</SelectItem>
-                    <SelectItem value="curious">Curioso</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-diet">Preferencia dietética</Label>
+                  <Select
+                    value={registerData.dietaryPreference}
+                    onValueChange={(v) => setRegisterData({ ...registerData, dietaryPreference: v })}
+                  >
+                    <SelectTrigger data-testid="select-dietary-preference">
+                      <SelectValue placeholder="Selecciona una opción" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="omnivore">Omnívoro</SelectItem>
+                      <SelectItem value="vegetarian">Vegetariano</SelectItem>
+                      <SelectItem value="vegan">Vegano</SelectItem>
+                      <SelectItem value="curious">Curioso</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               
-              <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-register">
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Creando cuenta...
-                  </>
-                ) : (
-                  "Crear Cuenta"
-                )}
-              </Button>
-            </form>
-          </TabsContent>
-        </Tabs>
+                <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-register">
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Creando cuenta...
+                    </>
+                  ) : (
+                    "Crear Cuenta"
+                  )}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
   );
 }
+
+// Second step of a password login for accounts with two-factor authentication
+function MfaScreen({ mfaToken, onDone, onBack }: { mfaToken: string; onDone: () => void; onBack: () => void }) {
+  const { completeMfaLogin } = useAuth();
+  const { toast } = useToast();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6) {
+      setError(useRecoveryCode ? "Introduce uno de tus códigos de recuperación" : "Introduce el código de 6 dígitos");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await completeMfaLogin(mfaToken, useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+      toast({
+        title: "¡Bienvenido de vuelta! 🌱",
+        description: "Has iniciado sesión correctamente.",
+      });
+      onDone();
+    } catch (error: any) {
+      setError(error.message || "Error al iniciar sesión");
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-4" data-testid="screen-mfa">
+      <div>
+        <h3 className="font-semibold flex items-center">
+          <ShieldCheck className="mr-2 h-4 w-4 text-veg-primary" />
+          Verificación en dos pasos
+        </h3>
+        <p className="text-sm text-gray-500">
+          {useRecoveryCode
+            ? "Introduce uno de los códigos de recuperación que guardaste al activar la verificación."
+            : "Introduce el código de 6 dígitos de tu aplicación de autenticación."}
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-mfa">
+          {error}
+        </div>
+      )}
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="mfa-recovery-code">Código de recuperación</Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              id="mfa-recovery-code"
+              placeholder="xxxx-xxxx-xxxx-xxxx"
+              className="pl-10 font-mono"
+              autoComplete="off"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              data-testid="input-mfa-recovery-code"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-mfa-code">
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-mfa-submit">
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verificando...
+          </>
+        ) : (
+          "Verificar"
+        )}
+      </Button>
+
+      <div className="text-center">
+        <button
+          type="button"
+          className="text-sm text-veg-primary hover:underline"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setError("");
+          }}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? "Usar la aplicación de autenticación" : "Usar un código de recuperación"}
+        </button>
+      </div>
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack} data-testid="button-mfa-back">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Volver a iniciar sesión
+      </Button>
+    </form>
+  );
+}
+
+// Buttons for the OpenID Connect providers configured on the server, such as a
+// partner organisation's own identity provider
+function OidcProviderButtons({ action }: { action: "login" | "register" }) {
+  const { data: providers = [] } = useQuery({
+    queryKey: ["/api/auth/oidc/providers"],
+    queryFn: getOidcProviders,
+    staleTime: Infinity,
+  });
+
+  return (
+    <>
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => window.location.href = `/api/auth/oidc/${encodeURIComponent(provider.id)}`}
+          data-testid={`button-oidc-${provider.id}-${action}`}
+        >
+          <KeyRound className="mr-2 h-4 w-4 text-veg-primary" />
+          Continuar con {provider.name}
+        </Button>
+      ))}
+    </>
+  );
+}
+
+// A provider login matched the email of an existing account: the
+// provider is linked only after the user proves the account is theirs
+function LinkAccountScreen({ linkToken, onDone, onMfaRequired }: { linkToken: string; onDone: () => void; onMfaRequired: (challenge: MfaChallenge) => void }) {
+  const { confirmOAuthLink } = useAuth();
+  const { toast } = useToast();
+  const [info, setInfo] = useState<PendingOAuthLinkInfo | null>(null);
+  const [method, setMethod] = useState<"password" | "code">("password");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getPendingOAuthLink(linkToken)
+      .then((pending) => {
+        setInfo(pending);
+        if (!pending.hasPassword) setMethod("code");
+      })
+      .catch((error: Error) => setError(error.message));
+  }, [linkToken]);
+
+  const handleSendCode = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      await sendOAuthLinkCode(linkToken);
+      setCodeSent(true);
+    } catch (error: any) {
+      setError(error.message || "Error al enviar el código");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (method === "password" ? !password : code.length !== 6) {
+      setError(method === "password" ? "La contraseña es requerida" : "Introduce el código de 6 dígitos");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const challenge = await confirmOAuthLink(linkToken, method === "password" ? { password } : { code });
+      if (challenge) {
+        onMfaRequired(challenge);
+        return;
+      }
+      toast({
+        title: `${info!.providerName} vinculado`,
+        description: "Ya puedes iniciar sesión con cualquiera de los dos métodos.",
+      });
+      onDone();
+    } catch (error: any) {
+      setError(error.message || "Error al vincular la cuenta");
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!info) {
+    return (
+      <div className="space-y-4 mt-4" data-testid="screen-link-account">
+        {error ? (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-link-account">
+            {error}
+          </div>
+        ) : (
+          <div className="flex items-center text-sm text-gray-600">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Un momento...
+          </div>
+        )}
+        <Button type="button" variant="ghost" className="w-full" onClick={onDone} data-testid="button-close-link-account">
+          Cerrar
+        </Button>
+      </div>
+    );
+  }
+
+  const { providerName } = info;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-4" data-testid="screen-link-account">
+      <div>
+        <h3 className="font-semibold">Vincula {providerName} a tu cuenta</h3>
+        <p className="text-sm text-gray-500">
+          Ya existe una cuenta VEG21 con {info.email}. Confirma que es tuya para poder entrar también con {providerName}.
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-link-account">
+          {error}
+        </div>
+      )}
+
+      {method === "password" ? (
+        <div className="space-y-2">
+          <Label htmlFor="link-password">Contraseña de VEG21</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              id="link-password"
+              type="password"
+              placeholder="••••••••"
+              className="pl-10"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-link-password"
+            />
+          </div>
+        </div>
+      ) : codeSent ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">Introduce el código que enviamos a {info.email}:</p>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-link-code">
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" className="w-full" onClick={handleSendCode} disabled={isLoading} data-testid="button-send-link-code">
+          <Mail className="mr-2 h-4 w-4" />
+          Enviar código a {info.email}
+        </Button>
+      )}
+
+      {(method === "password" || codeSent) && (
+        <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-confirm-link">
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verificando...
+            </>
+          ) : (
+            `Vincular ${providerName}`
+          )}
+        </Button>
+      )}
+
+      {info.hasPassword && (
+        <div className="text-center">
+          <button
+            type="button"
+            className="text-sm text-veg-primary hover:underline"
+            onClick={() => {
+              setMethod(method === "password" ? "code" : "password");
+              setError("");
+            }}
+            data-testid="button-toggle-link-method"
+          >
+            {method === "password" ? "Prefiero recibir un código por email" : "Usar mi contraseña"}
+          </button>
+        </div>
+      )}
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onDone} data-testid="button-cancel-link">
+        Cancelar
+      </Button>
+    </form>
+  );
+}
+
+function ForgotPasswordScreen({ initialEmail, onBack }: { initialEmail: string; onBack: () => void }) {
+  const [email, setEmail] = useState(initialEmail);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!email.trim()) {
+      setError("El email es requerido");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await requestPasswordReset(email.trim());
+      setSent(true);
+    } catch (error: any) {
+      setError(error.message || "Error al solicitar el cambio de contraseña");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-4" data-testid="screen-forgot-password">
+      <div>
+        <h3 className="font-semibold">¿Olvidaste tu contraseña?</h3>
+        <p className="text-sm text-gray-500">
+          Te enviaremos un enlace para elegir una nueva.
+        </p>
+      </div>
+
+      {sent ? (
+        <div className="text-sm text-green-700 bg-green-50 p-3 rounded-lg flex items-start" data-testid="text-reset-sent">
+          <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          Si existe una cuenta con {email}, recibirás un email con instrucciones en unos minutos.
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-forgot-password">
+              {error}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="forgot-email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="forgot-email"
+                type="email"
+                placeholder="tu@email.com"
+                className="pl-10"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-forgot-email"
+              />
+            </div>
+          </div>
+          <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading} data-testid="button-send-reset">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Enviando...
+              </>
+            ) : (
+              "Enviar enlace"
+            )}
+          </Button>
+        </form>
+      )}
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack} data-testid="button-back-to-login">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Volver a iniciar sesión
+      </Button>
+    </div>
+  );
+}
+
+function ResetPasswordScreen({ token, onDone, onRequestNewLink }: { token: string; onDone: () => void; onRequestNewLink: () => void }) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (password.length < 6) {
+      setError("La contraseña debe tener al menos 6 caracteres");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Las contraseñas no coinciden");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await confirmPasswordReset(token, password);
+      toast({
+        title: "Contraseña actualizada",
+        description: "Ya puedes iniciar sesión con tu nueva contraseña.",
+      });
+      onDone();
+    } catch (error: any) {
+      setError(error.message || "Error al cambiar la contraseña");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-4" data-testid="screen-reset-password">
+      <div>
+        <h3 className="font-semibold">Elige una nueva contraseña</h3>
+        <p className="text-sm text-gray-500">
+          Se cerrará la sesión en todos tus dispositivos.
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-reset-password">
+          {error}{" "}
+          <button type="button" className="underline" onClick={onRequestNewLink}>
+            Solicitar otro enlace
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="reset-password">Nueva contraseña</Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+          <Input
+            id="reset-password"
+            type="password"
+            placeholder="••••••"
+            className="pl-10"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-reset-password"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reset-confirm">Confirmar contraseña</Label>
+        <Input
+          id="reset-confirm"
+          type="password"
+          placeholder="••••••"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          data-testid="input-reset-confirm"
+        />
+      </div>
+
+      <Button type="submit" className="w-full bg-veg-primary hover:bg-veg-primary/90" disabled={isLoading || !token} data-testid="button-reset-password">
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Guardando...
+          </>
+        ) : (
+          "Cambiar contraseña"
+        )}
+      </Button>
+    </form>
+  );
+}
+
+// With a token from the emailed link it confirms the address right away;
+// without one it lets a signed-in user ask for a new link
+function VerifyEmailScreen({ token, onClose }: { token: string | null; onClose: () => void }) {
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<"idle" | "verifying" | "verified" | "sent" | "error">(token ? "verifying" : "idle");
+  const [error, setError] = useState("");
+  const confirmedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || confirmedToken.current === token) return;
+    confirmedToken.current = token;
+    setStatus("verifying");
+    confirmEmailVerification(token)
+      .then(async () => {
+        setStatus("verified");
+        await refreshUser();
+      })
+      .catch((error: Error) => {
+        setError(error.message);
+        setStatus("error");
+      });
+  }, [token, refreshUser]);
+
+  const handleResend = async () => {
+    setError("");
+    setStatus("verifying");
+    try {
+      await requestEmailVerification();
+      setStatus("sent");
+    } catch (error: any) {
+      setError(error.message || "Error al enviar el email de verificación");
+      setStatus("error");
+    }
+  };
+
+  const canResend = !!user?.email && !user.emailVerifiedAt;
+
+  return (
+    <div className="space-y-4 mt-4" data-testid="screen-verify-email">
+      <h3 className="font-semibold">Verifica tu email</h3>
+
+      {status === "verifying" && (
+        <div className="flex items-center text-sm text-gray-600">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Un momento...
+        </div>
+      )}
+
+      {status === "verified" && (
+        <div className="text-sm text-green-700 bg-green-50 p-3 rounded-lg flex items-start" data-testid="text-email-verified">
+          <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          ¡Listo! Tu email quedó verificado.
+        </div>
+      )}
+
+      {status === "sent" && (
+        <div className="text-sm text-green-700 bg-green-50 p-3 rounded-lg flex items-start" data-testid="text-verification-sent">
+          <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          Te enviamos un nuevo enlace a {user?.email}.
+        </div>
+      )}
+
+      {status === "error" && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-verify-email">
+          {error}
+        </div>
+      )}
+
+      {status === "idle" && (
+        <p className="text-sm text-gray-600">
+          {canResend
+            ? `Te enviaremos un enlace a ${user?.email} para confirmar que es tuyo.`
+            : "Inicia sesión para solicitar un nuevo enlace de verificación."}
+        </p>
+      )}
+
+      {(status === "idle" || status === "error") && canResend && (
+        <Button type="button" className="w-full bg-veg-primary hover:bg-veg-primary/90" onClick={handleResend} data-testid="button-resend-verification">
+          <Mail className="mr-2 h-4 w-4" />
+          Enviar enlace de verificación
+        </Button>
+      )}
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onClose} data-testid="button-close-verify">
+        Cerrar
+      </Button>
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ interface Milestone {
 }
 
 interface ChallengeProgressTrackerProps {
-  challengeId: number;
+  challengeId: string;
   challengeName: string;
   currentDay: number;
   totalDays: number;
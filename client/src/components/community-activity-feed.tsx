@@ -12,7 +12,8 @@ import {
   TrendingUp
 } from "lucide-react";
 import { mockWeb3Service, MockTransaction } from "@/lib/mockWeb3";
-import { getUserCheckIns, getAllCheckIns } from "@/components/daily-check-in";
+import { useCheckIns } from "@/lib/check-in-service";
+import { useMyChallenge } from "@/lib/challenge-service";
 import { formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
 
@@ -38,40 +39,37 @@ export function CommunityActivityFeed({
   currentUserId 
 }: CommunityActivityFeedProps) {
   const [activities, setActivities] = useState<CommunityActivity[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Check-ins are refetched when the live event stream reports new ones
+  const { data: checkIns, isLoading } = useCheckIns();
+  const { data: enrollment } = useMyChallenge();
+  const [transactionsVersion, setTransactionsVersion] = useState(0);
 
   useEffect(() => {
-    loadActivities();
-
-    // Refresh activities periodically
-    const interval = setInterval(() => {
-      loadActivities();
-    }, 30000); // Every 30 seconds
-
-    // Listen for new events
+    // Wallet transactions only exist in the local mockWeb3Service
     const handleBalanceUpdate = () => {
-      loadActivities();
+      setTransactionsVersion((version) => version + 1);
     };
 
     mockWeb3Service.on('balance_updated', handleBalanceUpdate);
     mockWeb3Service.on('state_changed', handleBalanceUpdate);
 
     return () => {
-      clearInterval(interval);
       mockWeb3Service.off('balance_updated', handleBalanceUpdate);
       mockWeb3Service.off('state_changed', handleBalanceUpdate);
     };
   }, []);
 
+  useEffect(() => {
+    loadActivities();
+  }, [checkIns, enrollment, transactionsVersion]);
+
   const loadActivities = () => {
     try {
       const communityActivities: CommunityActivity[] = [];
 
-      // Get all check-ins
-      const checkIns = getAllCheckIns();
-      checkIns.forEach((checkIn) => {
-        const userName = localStorage.getItem('veg21_username') || `Usuario ${checkIn.userId.slice(-4)}`;
-        
+      (checkIns ?? []).forEach((checkIn) => {
+        const userName = checkIn.username;
+
         communityActivities.push({
           id: checkIn.id,
           type: 'check_in',
@@ -165,25 +163,17 @@ export function CommunityActivityFeed({
       });
 
       // Check for challenge completions
-      const challengeProgress = localStorage.getItem('veg21_challenge_progress');
-      if (challengeProgress) {
-        try {
-          const progress = JSON.parse(challengeProgress);
-          if (progress.progress?.completedDays?.length === 21) {
-            const userName = localStorage.getItem('veg21_username') || 'Un usuario';
-            communityActivities.push({
-              id: 'challenge_complete',
-              type: 'challenge_complete',
-              userId: currentUserId || 'demo',
-              userName,
-              amount: 50,
-              description: `completó el desafío de 21 días y ganó 50 VEG21 tokens`,
-              timestamp: new Date(progress.progress.lastCheckInDate || Date.now())
-            });
-          }
-        } catch (error) {
-          console.error('Error parsing challenge progress:', error);
-        }
+      if (enrollment?.status === 'completed') {
+        const userName = localStorage.getItem('veg21_username') || 'Un usuario';
+        communityActivities.push({
+          id: 'challenge_complete',
+          type: 'challenge_complete',
+          userId: currentUserId || 'demo',
+          userName,
+          amount: 50,
+          description: `completó el desafío de 21 días y ganó 50 VEG21 tokens`,
+          timestamp: new Date(enrollment.completedAt || enrollment.startDate)
+        });
       }
 
       // Sort by most recent first
@@ -195,8 +185,6 @@ export function CommunityActivityFeed({
       setActivities(sorted.slice(0, 50));
     } catch (error) {
       console.error('Failed to load community activities:', error);
-    } finally {
-      setIsLoading(false);
     }
   };
 
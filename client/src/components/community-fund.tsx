@@ -8,50 +8,22 @@ import { MessageModal } from "./message-modal";
 import { useWallet } from "@/hooks/use-wallet";
 import { useMockWeb3, useContributions } from "@/hooks/use-mock-web3";
 import { formatTokenAmount, formatTxHash } from "@/lib/mockWeb3";
+import { useCharities } from "@/lib/charity-service";
 
-interface Charity {
-  id: number;
-  name: string;
-  description: string;
+// Donations and votes are only tallied locally for now
+interface CharityTally {
   donations: number;
   votes: number;
-  image: string;
 }
 
-const charities: Charity[] = [
-  {
-    id: 1,
-    name: "Santuario Esperanza Animal",
-    description: "Refugio para animales de granja rescatados. Proporcionamos cuidado médico, alimentación y un hogar seguro para más de 200 animales.",
-    donations: 3247,
-    votes: 156,
-    image: "https://images.unsplash.com/photo-1560114928-40f1f1eb26a0?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400"
-  },
-  {
-    id: 2,
-    name: "Centro de Rescate Silvestre",
-    description: "Rehabilitación y liberación de fauna silvestre. Trabajamos en la conservación de especies nativas y educación ambiental.",
-    donations: 2891,
-    votes: 89,
-    image: "https://images.unsplash.com/photo-1547036967-23d11aacaee0?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400"
-  },
-  {
-    id: 3,
-    name: "Rescate Marino Pacífico",
-    description: "Protección de la vida marina y limpieza de océanos. Rescatamos especies afectadas por contaminación plástica.",
-    donations: 6709,
-    votes: 234,
-    image: "https://images.unsplash.com/photo-1544551763-46a013bb70d5?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400"
-  }
-];
+const emptyTally: CharityTally = { donations: 0, votes: 0 };
 
 export function CommunityFund() {
-  const [totalDonated, setTotalDonated] = useState(12847);
-  const [charityData, setCharityData] = useState(charities);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  const [donatingTo, setDonatingTo] = useState<number | null>(null);
-  const [votingFor, setVotingFor] = useState<number | null>(null);
+  const { data: charityData = [], isLoading, isError: hasError, refetch } = useCharities();
+  const [tallies, setTallies] = useState<Record<string, CharityTally>>({});
+  const totalDonated = Object.values(tallies).reduce((sum, tally) => sum + tally.donations, 0);
+  const [donatingTo, setDonatingTo] = useState<string | null>(null);
+  const [votingFor, setVotingFor] = useState<string | null>(null);
   const [customAmount, setCustomAmount] = useState<string>('50');
   const [showContributionHistory, setShowContributionHistory] = useState(false);
   const [modalState, setModalState] = useState<{
@@ -92,12 +64,7 @@ export function CommunityFund() {
       <h3 className="text-xl font-semibold text-gray-800 mb-2">Error al cargar las organizaciones</h3>
       <p className="text-gray-600 mb-6">No pudimos cargar la información de las organizaciones benéficas. Por favor, intenta de nuevo.</p>
       <Button
-        onClick={() => {
-          setHasError(false);
-          setIsLoading(true);
-          // Simulate retry
-          setTimeout(() => setIsLoading(false), 1000);
-        }}
+        onClick={() => refetch()}
         className="bg-gradient-to-r from-veg-primary to-veg-secondary text-white hover:from-veg-secondary hover:to-veg-primary"
       >
         Intentar de Nuevo
@@ -120,7 +87,7 @@ export function CommunityFund() {
     setModalState({ isOpen: true, type, title, message });
   };
 
-  const handleDonation = async (charityId: number, amount?: number) => {
+  const handleDonation = async (charityId: string, amount?: number) => {
     // In development mode with mock Web3, we only need mockWeb3 to be initialized
     const canDonate = import.meta.env.DEV ? mockWeb3.isInitialized : (isConnected && mockWeb3.isInitialized);
     
@@ -147,15 +114,13 @@ export function CommunityFund() {
 
     try {
       // Use mock Web3 service for contribution
-      const transaction = await contribute(charityId.toString(), donationAmount);
+      const transaction = await contribute(charityId, donationAmount);
       
       // Update local charity data
-      setTotalDonated(prev => prev + donationAmount);
-      setCharityData(prev => prev.map(charity => 
-        charity.id === charityId 
-          ? { ...charity, donations: charity.donations + donationAmount }
-          : charity
-      ));
+      setTallies(prev => {
+        const tally = prev[charityId] ?? emptyTally;
+        return { ...prev, [charityId]: { ...tally, donations: tally.donations + donationAmount } };
+      });
 
       const charity = charityData.find(c => c.id === charityId);
       showMessage('success', '¡Donación Exitosa!', 
@@ -170,7 +135,7 @@ export function CommunityFund() {
     }
   };
 
-  const handleVote = async (charityId: number) => {
+  const handleVote = async (charityId: string) => {
     // Check localStorage fallback for demo mode (handles state sync race condition)
     const isDemoActive = localStorage.getItem('veg21_demo') === 'true';
     if (!isConnected && !isDemoActive) {
@@ -184,11 +149,10 @@ export function CommunityFund() {
       // Simulate voting process
       await new Promise(resolve => setTimeout(resolve, 1000));
 
-      setCharityData(prev => prev.map(charity => 
-        charity.id === charityId 
-          ? { ...charity, votes: charity.votes + 1 }
-          : charity
-      ));
+      setTallies(prev => {
+        const tally = prev[charityId] ?? emptyTally;
+        return { ...prev, [charityId]: { ...tally, votes: tally.votes + 1 } };
+      });
 
       showMessage('success', '¡Voto Registrado!', 'Tu voto de confianza ha sido registrado exitosamente.');
     } catch (error) {
@@ -268,7 +232,7 @@ export function CommunityFund() {
               </h3>
               <div className="space-y-3 max-h-64 overflow-y-auto">
                 {contributions.slice().reverse().map((contribution) => {
-                  const charity = charityData.find(c => c.id.toString() === contribution.charityId);
+                  const charity = charityData.find(c => c.id === contribution.charityId);
                   return (
                     <div key={contribution.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                       <div>
@@ -316,7 +280,7 @@ export function CommunityFund() {
               {charityData.map((charity) => (
               <div key={charity.id} className="bg-white rounded-2xl p-8 shadow-lg border border-green-100 hover:shadow-xl transition-all duration-300">
                 <img 
-                  src={charity.image} 
+                  src={charity.imageUrl ?? undefined} 
                   alt={charity.name}
                   className="w-full h-48 object-cover rounded-xl mb-6" 
                 />
@@ -333,12 +297,12 @@ export function CommunityFund() {
                 <div className="space-y-4 mb-6">
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Donaciones recibidas:</span>
-                    <span className="text-lg font-bold text-veg-primary">{charity.donations.toLocaleString()} VEG21</span>
+                    <span className="text-lg font-bold text-veg-primary">{(tallies[charity.id] ?? emptyTally).donations.toLocaleString()} VEG21</span>
                   </div>
                   
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Votos de confianza:</span>
-                    <span className="text-sm font-semibold text-veg-secondary">{charity.votes}</span>
+                    <span className="text-sm font-semibold text-veg-secondary">{(tallies[charity.id] ?? emptyTally).votes}</span>
                   </div>
                 </div>
                 
@@ -7,90 +7,40 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { useWallet } from "@/hooks/use-wallet";
 import { useToast } from "@/hooks/use-toast";
+import { useAddCheckInComment, useCreateCheckIn, type DailyCheckIn } from "@/lib/check-in-service";
+import type { UploadedMedia } from "@/lib/media-service";
+import { ImageUpload } from "@/components/image-upload";
 import { 
-  Camera, 
-  Upload, 
-  X, 
   Heart, 
   MessageCircle, 
   ThumbsUp,
   CheckCircle2,
   Calendar,
-  Image as ImageIcon,
-  Video,
   Users
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
 
-export interface DailyCheckIn {
-  id: string;
-  day: number;
-  userId: string;
-  username: string;
-  description: string;
-  imageUrl?: string;
-  timestamp: string;
-  likes: number;
-  likedBy: string[];
-  approvals: number;
-  approvedBy: string[];
-  comments: CheckInComment[];
-}
-
-export interface CheckInComment {
-  id: string;
-  authorId: string;
-  authorName: string;
-  content: string;
-  timestamp: string;
-}
+export type { DailyCheckIn, CheckInComment } from "@/lib/check-in-service";
 
 interface DailyCheckInModalProps {
   isOpen: boolean;
   onClose: () => void;
+  challengeId: string;
   day: number;
   onCheckInComplete: (checkIn: DailyCheckIn) => void;
 }
 
-const CHECKINS_STORAGE_KEY = 'veg21_daily_checkins';
-
-export function DailyCheckInModal({ isOpen, onClose, day, onCheckInComplete }: DailyCheckInModalProps) {
-  const { formattedAddress } = useWallet();
+export function DailyCheckInModal({ isOpen, onClose, challengeId, day, onCheckInComplete }: DailyCheckInModalProps) {
   const { toast } = useToast();
+  const createCheckIn = useCreateCheckIn();
   
   const [description, setDescription] = useState('');
-  const [mockImageUrl, setMockImageUrl] = useState('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [uploadType, setUploadType] = useState<'photo' | 'video' | null>(null);
-
-  const handleMockUpload = (type: 'photo' | 'video') => {
-    setUploadType(type);
-    // Simulate image upload with a placeholder
-    const placeholderImages = [
-      'https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=800',
-      'https://images.unsplash.com/photo-1540189549336-e6e99c3679fe?w=800',
-      'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800',
-      'https://images.unsplash.com/photo-1567620905732-2d1ec7ab7445?w=800',
-      'https://images.unsplash.com/photo-1490645935967-10de6ba17061?w=800'
-    ];
-    const randomImage = placeholderImages[Math.floor(Math.random() * placeholderImages.length)];
-    setMockImageUrl(randomImage);
-    
-    toast({
-      title: `${type === 'photo' ? 'Foto' : 'Video'} cargada`,
-      description: `Tu ${type === 'photo' ? 'foto' : 'video'} se ha cargado exitosamente (simulado)`,
-    });
-  };
+  const [image, setImage] = useState<UploadedMedia | null>(null);
+  const isSubmitting = createCheckIn.isPending;
 
-  const handleRemoveImage = () => {
-    setMockImageUrl('');
-    setUploadType(null);
-  };
-
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!description.trim()) {
       toast({
         variant: "destructive",
@@ -100,29 +50,13 @@ export function DailyCheckInModal({ isOpen, onClose, day, onCheckInComplete }: D
       return;
     }
 
-    setIsSubmitting(true);
-
     try {
-      const checkIn: DailyCheckIn = {
-        id: `checkin_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const { checkIn } = await createCheckIn.mutateAsync({
+        challengeId,
         day,
-        userId: formattedAddress || 'anonymous',
-        username: localStorage.getItem('veg21_username') || `Usuario ${formattedAddress?.slice(-4) || '????'}`,
         description,
-        imageUrl: mockImageUrl || undefined,
-        timestamp: new Date().toISOString(),
-        likes: 0,
-        likedBy: [],
-        approvals: 0,
-        approvedBy: [],
-        comments: []
-      };
-
-      // Save to localStorage
-      const stored = localStorage.getItem(CHECKINS_STORAGE_KEY);
-      const checkIns: DailyCheckIn[] = stored ? JSON.parse(stored) : [];
-      checkIns.push(checkIn);
-      localStorage.setItem(CHECKINS_STORAGE_KEY, JSON.stringify(checkIns));
+        mediaId: image?.id
+      });
 
       onCheckInComplete(checkIn);
       
@@ -133,18 +67,15 @@ export function DailyCheckInModal({ isOpen, onClose, day, onCheckInComplete }: D
 
       // Reset form
       setDescription('');
-      setMockImageUrl('');
-      setUploadType(null);
+      setImage(null);
       onClose();
     } catch (error) {
       console.error('Failed to submit check-in:', error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "No se pudo registrar tu check-in. Inténtalo de nuevo.",
+        description: error instanceof Error ? error.message : "No se pudo registrar tu check-in. Inténtalo de nuevo.",
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -192,64 +123,7 @@ export function DailyCheckInModal({ isOpen, onClose, day, onCheckInComplete }: D
                 Sube una prueba (opcional)
               </Label>
               
-              {!mockImageUrl ? (
-                <div className="grid grid-cols-2 gap-3">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => handleMockUpload('photo')}
-                    className="h-24 flex flex-col items-center justify-center space-y-2 hover:bg-veg-primary/5 hover:border-veg-primary"
-                    data-testid="button-upload-photo"
-                  >
-                    <Camera className="w-8 h-8 text-veg-primary" />
-                    <span className="text-sm font-medium">Subir Foto</span>
-                  </Button>
-                  
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => handleMockUpload('video')}
-                    className="h-24 flex flex-col items-center justify-center space-y-2 hover:bg-veg-primary/5 hover:border-veg-primary"
-                    data-testid="button-upload-video"
-                  >
-                    <Video className="w-8 h-8 text-veg-primary" />
-                    <span className="text-sm font-medium">Subir Video</span>
-                  </Button>
-                </div>
-              ) : (
-                <div className="relative border-2 border-veg-primary/30 rounded-lg overflow-hidden">
-                  <img 
-                    src={mockImageUrl} 
-                    alt="Check-in preview" 
-                    className="w-full h-64 object-cover"
-                  />
-                  <div className="absolute top-2 right-2 flex items-center space-x-2">
-                    <Badge className="bg-white/90 text-veg-primary">
-                      {uploadType === 'photo' ? <ImageIcon className="w-3 h-3 mr-1" /> : <Video className="w-3 h-3 mr-1" />}
-                      {uploadType === 'photo' ? 'Foto' : 'Video'}
-                    </Badge>
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      onClick={handleRemoveImage}
-                      className="h-8 w-8 p-0"
-                      data-testid="button-remove-image"
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-3">
-                    <p className="text-xs text-white">
-                      Vista previa de tu {uploadType === 'photo' ? 'foto' : 'video'}
-                    </p>
-                  </div>
-                </div>
-              )}
-              
-              <p className="text-xs text-gray-500">
-                <Upload className="w-3 h-3 inline mr-1" />
-                Modo simulado: Las imágenes se cargan de forma ficticia para demostración
-              </p>
+              <ImageUpload value={image} onChange={setImage} testId="photo" />
             </div>
           </div>
 
@@ -288,116 +162,6 @@ export function DailyCheckInModal({ isOpen, onClose, day, onCheckInComplete }: D
   );
 }
 
-// Utility functions for check-ins
-export function getAllCheckIns(): DailyCheckIn[] {
-  try {
-    const stored = localStorage.getItem(CHECKINS_STORAGE_KEY);
-    if (!stored) return [];
-    
-    const checkIns: DailyCheckIn[] = JSON.parse(stored);
-    return checkIns.sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-  } catch (error) {
-    console.error('Failed to get check-ins:', error);
-    return [];
-  }
-}
-
-export function getUserCheckIns(userId: string): DailyCheckIn[] {
-  try {
-    const allCheckIns = getAllCheckIns();
-    return allCheckIns.filter(checkIn => checkIn.userId === userId);
-  } catch (error) {
-    console.error('Failed to get user check-ins:', error);
-    return [];
-  }
-}
-
-export function likeCheckIn(checkInId: string, userId: string): boolean {
-  try {
-    const stored = localStorage.getItem(CHECKINS_STORAGE_KEY);
-    if (!stored) return false;
-    
-    const checkIns: DailyCheckIn[] = JSON.parse(stored);
-    const checkIn = checkIns.find(c => c.id === checkInId);
-    
-    if (!checkIn) return false;
-    
-    if (checkIn.likedBy.includes(userId)) {
-      // Unlike
-      checkIn.likedBy = checkIn.likedBy.filter(id => id !== userId);
-      checkIn.likes = checkIn.likedBy.length;
-    } else {
-      // Like
-      checkIn.likedBy.push(userId);
-      checkIn.likes = checkIn.likedBy.length;
-    }
-    
-    localStorage.setItem(CHECKINS_STORAGE_KEY, JSON.stringify(checkIns));
-    return true;
-  } catch (error) {
-    console.error('Failed to like check-in:', error);
-    return false;
-  }
-}
-
-export function approveCheckIn(checkInId: string, userId: string): boolean {
-  try {
-    const stored = localStorage.getItem(CHECKINS_STORAGE_KEY);
-    if (!stored) return false;
-    
-    const checkIns: DailyCheckIn[] = JSON.parse(stored);
-    const checkIn = checkIns.find(c => c.id === checkInId);
-    
-    if (!checkIn) return false;
-    
-    if (checkIn.approvedBy.includes(userId)) {
-      // Un-approve
-      checkIn.approvedBy = checkIn.approvedBy.filter(id => id !== userId);
-      checkIn.approvals = checkIn.approvedBy.length;
-    } else {
-      // Approve
-      checkIn.approvedBy.push(userId);
-      checkIn.approvals = checkIn.approvedBy.length;
-    }
-    
-    localStorage.setItem(CHECKINS_STORAGE_KEY, JSON.stringify(checkIns));
-    return true;
-  } catch (error) {
-    console.error('Failed to approve check-in:', error);
-    return false;
-  }
-}
-
-export function addCheckInComment(checkInId: string, authorId: string, authorName: string, content: string): boolean {
-  try {
-    const stored = localStorage.getItem(CHECKINS_STORAGE_KEY);
-    if (!stored) return false;
-    
-    const checkIns: DailyCheckIn[] = JSON.parse(stored);
-    const checkIn = checkIns.find(c => c.id === checkInId);
-    
-    if (!checkIn) return false;
-    
-    const comment: CheckInComment = {
-      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      authorId,
-      authorName,
-      content,
-      timestamp: new Date().toISOString()
-    };
-    
-    checkIn.comments.push(comment);
-    
-    localStorage.setItem(CHECKINS_STORAGE_KEY, JSON.stringify(checkIns));
-    return true;
-  } catch (error) {
-    console.error('Failed to add comment:', error);
-    return false;
-  }
-}
-
 // Component to display check-ins
 interface CheckInListProps {
   checkIns: DailyCheckIn[];
@@ -410,14 +174,18 @@ export function CheckInList({ checkIns, currentUserId, onLike, onApprove }: Chec
   const [commentInputs, setCommentInputs] = useState<Record<string, string>>({});
   const [expandedComments, setExpandedComments] = useState<Record<string, boolean>>({});
 
-  const handleAddComment = (checkInId: string) => {
+  const addComment = useAddCheckInComment();
+
+  const handleAddComment = async (checkInId: string) => {
     const content = commentInputs[checkInId]?.trim();
-    if (!content) return;
+    if (!content || addComment.isPending) return;
 
-    const username = localStorage.getItem('veg21_username') || `Usuario ${currentUserId?.slice(-4) || '????'}`;
-    addCheckInComment(checkInId, currentUserId, username, content);
-    
-    setCommentInputs(prev => ({ ...prev, [checkInId]: '' }));
+    try {
+      await addComment.mutateAsync({ checkInId, content });
+      setCommentInputs(prev => ({ ...prev, [checkInId]: '' }));
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+    }
   };
 
   if (checkIns.length === 0) {
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { Wallet, Leaf, AlertCircle, RefreshCw, ExternalLink, Coins, Trophy, Home, User, Users, Network, LogOut, LogIn } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Wallet, Leaf, AlertCircle, RefreshCw, ExternalLink, Coins, Trophy, Home, User, Users, Network, LogOut, LogIn, MailCheck, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/hooks/use-wallet";
 import { useAuth } from "@/hooks/use-auth";
@@ -8,17 +8,45 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import { formatTokenAmount } from "@/lib/mockWeb3";
 import { Link, useLocation } from "wouter";
 import { DemoWalletButton } from "@/components/demo-wallet-button";
-import { AuthModal } from "@/components/auth-modal";
+import { AuthModal, type AuthModalView } from "@/components/auth-modal";
+import { NotificationBell } from "@/components/notification-bell";
 import { DEFAULT_NETWORK } from "@/config/chainConfig";
 import { useToast } from "@/hooks/use-toast";
+import { hasRole } from "@shared/schema";
 
 export function Header() {
-  const { isConnected: isWalletConnected, isConnecting, connectWallet, disconnectWallet, formattedAddress, error, retryConnection, clearError, mockWeb3, isDemoMode } = useWallet();
-  const { isAuthenticated, user, logout, isLoading: authLoading } = useAuth();
-  const [location] = useLocation();
+  const { isConnected: isWalletConnected, isConnecting, connectWallet, signInWithEthereum, disconnectWallet, formattedAddress, error, retryConnection, clearError, mockWeb3, isDemoMode } = useWallet();
+  const { isAuthenticated, user, logout, isLoading: authLoading, pendingMfaChallenge, clearPendingMfaChallenge } = useAuth();
+  const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authModalTab, setAuthModalTab] = useState<"login" | "register">("login");
+  const [authModalView, setAuthModalView] = useState<AuthModalView>("auth");
+  const [authModalToken, setAuthModalToken] = useState<string | null>(null);
+
+  // Password reset and email verification links, and provider logins waiting
+  // to be linked to an existing account, land on the app with their token
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const resetToken = urlParams.get('reset_token');
+    const verifyToken = urlParams.get('verify_token');
+    const linkToken = urlParams.get('link_token');
+    if (!resetToken && !verifyToken && !linkToken) return;
+
+    window.history.replaceState({}, '', window.location.pathname);
+    setAuthModalView(resetToken ? "reset" : verifyToken ? "verify" : "link");
+    setAuthModalToken(resetToken ?? verifyToken ?? linkToken);
+    setShowAuthModal(true);
+  }, []);
+
+  // A provider login on an account with two-factor authentication
+  useEffect(() => {
+    if (!pendingMfaChallenge) return;
+    setAuthModalView("mfa");
+    setAuthModalToken(pendingMfaChallenge.mfaToken);
+    setShowAuthModal(true);
+    clearPendingMfaChallenge();
+  }, [pendingMfaChallenge, clearPendingMfaChallenge]);
 
   const handleWalletClick = async () => {
     if (isWalletConnected) {
@@ -46,11 +74,19 @@ export function Header() {
 
   const openLogin = () => {
     setAuthModalTab("login");
+    setAuthModalView("auth");
     setShowAuthModal(true);
   };
 
   const openRegister = () => {
     setAuthModalTab("register");
+    setAuthModalView("auth");
+    setShowAuthModal(true);
+  };
+
+  const openVerifyEmail = () => {
+    setAuthModalView("verify");
+    setAuthModalToken(null);
     setShowAuthModal(true);
   };
 
@@ -138,6 +174,8 @@ export function Header() {
                 </>
               )}
 
+              {isAuthenticated && <NotificationBell />}
+
               {isAuthenticated ? (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -152,6 +190,15 @@ export function Header() {
                       <p className="text-xs text-gray-500">{user?.email}</p>
                     </div>
                     <DropdownMenuSeparator />
+                    {user?.email && !user.emailVerifiedAt && (
+                      <>
+                        <DropdownMenuItem onClick={openVerifyEmail} data-testid="menu-verify-email">
+                          <MailCheck className="w-4 h-4 mr-2" />
+                          Verificar email
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
                     {!isWalletConnected && (
                       <>
                         <DropdownMenuItem onClick={handleWalletClick} data-testid="menu-connect-wallet">
@@ -170,6 +217,15 @@ export function Header() {
                         <DropdownMenuSeparator />
                       </>
                     )}
+                    {user && hasRole(user, "admin") && (
+                      <>
+                        <DropdownMenuItem onClick={() => setLocation("/admin")} data-testid="menu-admin">
+                          <ShieldCheck className="w-4 h-4 mr-2" />
+                          Administración
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
                     <DropdownMenuItem onClick={handleLogout} className="text-red-600" data-testid="menu-logout">
                       <LogOut className="w-4 h-4 mr-2" />
                       Cerrar Sesión
@@ -218,7 +274,14 @@ export function Header() {
         </div>
       )}
 
-      <AuthModal isOpen={showAuthModal} onClose={() => setShowAuthModal(false)} defaultTab={authModalTab} />
+      <AuthModal
+        isOpen={showAuthModal}
+        onClose={() => setShowAuthModal(false)}
+        defaultTab={authModalTab}
+        defaultView={authModalView}
+        token={authModalToken}
+        onWalletSignIn={signInWithEthereum}
+      />
     </div>
   );
 }
@@ -0,0 +1,92 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ACCEPTED_IMAGE_TYPES, checkImageFile, useUploadMedia, type UploadedMedia } from "@/lib/media-service";
+import { Camera, Loader2, X } from "lucide-react";
+
+interface ImageUploadProps {
+  value: UploadedMedia | null;
+  onChange: (media: UploadedMedia | null) => void;
+  label?: string;
+  testId?: string;
+}
+
+// Picks an image, uploads it right away and shows its thumbnail. The parent
+// keeps the uploaded media and sends its id with the check-in or post.
+export function ImageUpload({ value, onChange, label = "Subir Foto", testId = "image" }: ImageUploadProps) {
+  const { toast } = useToast();
+  const uploadMedia = useUploadMedia();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const problem = checkImageFile(file);
+    if (problem) {
+      toast({ variant: "destructive", title: "Imagen no válida", description: problem });
+      return;
+    }
+    uploadMedia.mutate(file, {
+      onSuccess: (media) => onChange(media),
+      onError: (error) => {
+        toast({ variant: "destructive", title: "No se pudo subir la imagen", description: error.message });
+      },
+    });
+  };
+
+  if (value) {
+    return (
+      <div className="relative border-2 border-veg-primary/30 rounded-lg overflow-hidden">
+        <img
+          src={value.thumbnailUrl}
+          alt="Vista previa"
+          className="w-full h-64 object-cover"
+          data-testid={`img-${testId}-preview`}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="destructive"
+          onClick={() => onChange(null)}
+          className="absolute top-2 right-2 h-8 w-8 p-0"
+          data-testid={`button-remove-${testId}`}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES}
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+        data-testid={`input-${testId}-file`}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploadMedia.isPending}
+        className="w-full h-24 flex flex-col items-center justify-center space-y-2 hover:bg-veg-primary/5 hover:border-veg-primary"
+        data-testid={`button-upload-${testId}`}
+      >
+        {uploadMedia.isPending ? (
+          <Loader2 className="w-8 h-8 text-veg-primary animate-spin" />
+        ) : (
+          <Camera className="w-8 h-8 text-veg-primary" />
+        )}
+        <span className="text-sm font-medium">{uploadMedia.isPending ? "Subiendo..." : label}</span>
+      </Button>
+      <p className="text-xs text-gray-500">
+        JPEG, PNG o WebP. Quitamos la ubicación y demás metadatos de la foto.
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, type ComponentType } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getLinkedProviders } from "@/lib/auth";
+import type { LinkedIdentity, OAuthProvider } from "@shared/schema";
+import { KeyRound, Lock, Wallet, Loader2 } from "lucide-react";
+import { SiGoogle, SiFacebook } from "react-icons/si";
+
+export const PROVIDERS_KEY = "/api/auth/providers";
+
+type Icon = ComponentType<{ className?: string }>;
+
+const METHOD_ICONS: Record<string, Icon> = {
+  password: Lock,
+  google: SiGoogle,
+  facebook: SiFacebook,
+  wallet: Wallet,
+};
+
+// OpenID Connect providers have no brand icon of their own
+function methodIcon(provider: string): Icon {
+  return METHOD_ICONS[provider] ?? KeyRound;
+}
+
+// The ways the user can sign in, with unlinking for the OAuth and OpenID
+// Connect providers. The wallet is unlinked from the wallet menu.
+export function LinkedProviders() {
+  const { user, unlinkProvider } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [unlinking, setUnlinking] = useState<OAuthProvider | null>(null);
+
+  const { data: providers = [], isLoading } = useQuery({
+    queryKey: [PROVIDERS_KEY, user?.id],
+    queryFn: getLinkedProviders,
+    enabled: !!user,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const handleUnlink = async ({ provider, name }: LinkedIdentity) => {
+    setUnlinking(provider);
+    try {
+      const updated = await unlinkProvider(provider);
+      queryClient.setQueryData<LinkedIdentity[]>([PROVIDERS_KEY, user.id], updated);
+      toast({ title: `${name} desvinculado` });
+    } catch (error: any) {
+      toast({ title: "No se pudo desvincular", description: error.message, variant: "destructive" });
+    } finally {
+      setUnlinking(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm" data-testid="card-linked-providers">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5 text-veg-primary" />
+          <span>Métodos de acceso</span>
+        </CardTitle>
+        <CardDescription>
+          Las formas en que puedes iniciar sesión en tu cuenta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Cargando...
+          </div>
+        )}
+        {providers.map((identity) => {
+          const Icon = methodIcon(identity.provider);
+          const provider = identity.provider;
+          return (
+            <div key={provider} className="flex items-center justify-between" data-testid={`row-provider-${provider}`}>
+              <div className="flex items-center space-x-3">
+                <Icon className="w-4 h-4 text-gray-600" />
+                <span className="text-sm">{identity.name}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge variant={identity.linked ? "default" : "secondary"}>
+                  {identity.linked ? "Vinculado" : "No vinculado"}
+                </Badge>
+                {identity.type === "oauth" && identity.linked && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!identity.canUnlink || unlinking !== null}
+                    title={identity.canUnlink ? undefined : "Es tu único método de acceso"}
+                    onClick={() => handleUnlink(identity)}
+                    data-testid={`button-unlink-${provider}`}
+                  >
+                    {unlinking === provider && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Desvincular
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { Bell, CheckCheck } from "lucide-react";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications, type UserNotification } from "@/lib/notification-service";
+
+function describe(notification: UserNotification): string {
+  const actor = notification.actorName;
+  const day = notification.checkInDay ? ` del día ${notification.checkInDay}` : "";
+  switch (notification.type) {
+    case "check_in_liked":
+      return `A ${actor} le gustó tu check-in${day}`;
+    case "check_in_commented":
+      return `${actor} comentó tu check-in${day}`;
+    case "check_in_approved":
+      return `${actor} validó tu check-in${day}`;
+    case "post_commented":
+      return notification.postTitle ? `${actor} comentó "${notification.postTitle}"` : `${actor} comentó tu post`;
+  }
+}
+
+// Bell with the unread count; opening an entry marks it read and goes to
+// where it happened
+export function NotificationBell() {
+  const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const { data } = useNotifications({ enabled: isAuthenticated });
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.read) markRead.mutate(notification.id);
+    setLocation(notification.postId ? "/community" : "/profile");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notificaciones" data-testid="button-notifications">
+          <Bell className="w-5 h-5 text-gray-700" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center" data-testid="badge-unread-notifications">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notificaciones</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-veg-primary"
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Marcar todo como leído
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500" data-testid="text-no-notifications">
+            No tienes notificaciones
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className="flex items-start space-x-2 py-2"
+                data-testid={`notification-${notification.id}`}
+              >
+                <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${notification.read ? "bg-transparent" : "bg-veg-primary"}`} />
+                <div className="min-w-0">
+                  <p className={`text-sm ${notification.read ? "text-gray-600" : "font-medium text-gray-900"}`}>
+                    {describe(notification)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(notification.timestamp), { addSuffix: true, locale: es })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
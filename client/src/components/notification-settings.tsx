@@ -0,0 +1,63 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useNotificationPreferences, useUpdateNotificationPreferences, type NotificationType } from "@/lib/notification-service";
+import { notificationTypes } from "@shared/schema";
+import { Bell } from "lucide-react";
+
+const typeLabels: Record<NotificationType, string> = {
+  check_in_liked: "Me gusta en tus check-ins",
+  check_in_commented: "Comentarios en tus check-ins",
+  check_in_approved: "Validaciones de tus check-ins",
+  post_commented: "Comentarios en tus posts",
+};
+
+// Which in-app notifications the user wants to receive
+export function NotificationSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: preferences } = useNotificationPreferences({ enabled: !!user });
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  if (!user) {
+    return null;
+  }
+
+  const handleChange = (type: NotificationType, enabled: boolean) => {
+    updatePreferences.mutate({ [type]: enabled }, {
+      onError: (error) => {
+        toast({ title: "No se pudieron guardar tus preferencias", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm" data-testid="card-notification-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="w-5 h-5 text-veg-primary" />
+          <span>Notificaciones</span>
+        </CardTitle>
+        <CardDescription>
+          Elige de qué actividad sobre tus publicaciones quieres enterarte
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notificationTypes.map((type) => (
+          <div key={type} className="flex items-center justify-between">
+            <Label htmlFor={`notification-${type}`}>{typeLabels[type]}</Label>
+            <Switch
+              id={`notification-${type}`}
+              checked={preferences?.[type] ?? true}
+              onCheckedChange={(enabled) => handleChange(type, enabled)}
+              disabled={!preferences || updatePreferences.isPending}
+              data-testid={`switch-notification-${type}`}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
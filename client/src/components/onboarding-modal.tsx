@@ -6,15 +6,10 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Leaf, Utensils, Coffee, Heart, CheckCircle, User, Mail, MapPin, ChefHat, ArrowRight, ArrowLeft } from "lucide-react";
+import { CheckCircle, User, Mail, MapPin, ChefHat, ArrowRight, ArrowLeft } from "lucide-react";
+import { getChallengeIcon, useChallengeCatalog, useEnrollChallenge, type Challenge } from "@/lib/challenge-service";
 
-export interface Challenge {
-  id: string;
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  difficulty: 'Principiante' | 'Intermedio' | 'Avanzado';
-}
+export type { Challenge };
 
 export const STANDARD_REWARD_TOTAL = 600;
 export const MILESTONE_REWARDS = [
@@ -31,38 +26,6 @@ export interface UserRegistrationData {
   dietaryPreference: string;
 }
 
-const AVAILABLE_CHALLENGES: Challenge[] = [
-  {
-    id: 'meat_free_21',
-    title: '21 días sin carne',
-    description: 'Elimina toda la carne de tu dieta por 21 días. Incluye pollo, res, cerdo y pescado.',
-    icon: <Leaf className="w-6 h-6" />,
-    difficulty: 'Principiante'
-  },
-  {
-    id: 'vegan_breakfasts_21',
-    title: '21 días de desayunos veganos',
-    description: 'Comienza tu día con desayunos 100% veganos. Perfecto para principiantes.',
-    icon: <Coffee className="w-6 h-6" />,
-    difficulty: 'Principiante'
-  },
-  {
-    id: 'full_vegan_21',
-    title: '21 días completamente vegano',
-    description: 'Adopta una dieta 100% vegana: sin carne, lácteos, huevos ni miel.',
-    icon: <Heart className="w-6 h-6" />,
-    difficulty: 'Intermedio'
-  },
-  {
-    id: 'zero_waste_vegan_21',
-    title: '21 días vegano zero waste',
-    description: 'Combina veganismo con zero waste. Reduce empaques y desperdicio.',
-    icon: <Utensils className="w-6 h-6" />,
-    difficulty: 'Avanzado'
-  }
-];
-
-const STORAGE_KEY = 'veg21_challenge_progress';
 const ONBOARDING_COMPLETED_KEY = 'veg21_onboarding_completed';
 const USER_REGISTRATION_KEY = 'veg21_user_registration';
 
@@ -74,7 +37,10 @@ interface OnboardingModalProps {
 export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalProps) {
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [selectedChallenge, setSelectedChallenge] = useState<Challenge | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [enrollError, setEnrollError] = useState<string | null>(null);
+  const { data: availableChallenges = [] } = useChallengeCatalog();
+  const enrollChallenge = useEnrollChallenge();
+  const isSubmitting = enrollChallenge.isPending;
   const [registrationData, setRegistrationData] = useState<UserRegistrationData>({
     name: '',
     email: '',
@@ -146,29 +112,17 @@ export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalPr
   const handleConfirmChallenge = async () => {
     if (!selectedChallenge) return;
     
-    setIsSubmitting(true);
+    setEnrollError(null);
     
     try {
-      // Store challenge selection in localStorage
-      const challengeData = {
-        challenge: selectedChallenge,
-        startDate: new Date().toISOString(),
-        progress: {
-          currentDay: 1,
-          completedDays: [],
-          isActive: true
-        }
-      };
-      
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(challengeData));
+      await enrollChallenge.mutateAsync(selectedChallenge.id);
       localStorage.setItem(ONBOARDING_COMPLETED_KEY, 'true');
       
       // Notify parent component
       onChallengeSelect(selectedChallenge);
     } catch (error) {
       console.error('Failed to save challenge selection:', error);
-    } finally {
-      setIsSubmitting(false);
+      setEnrollError(error instanceof Error ? error.message : 'No se pudo guardar tu desafío');
     }
   };
 
@@ -334,47 +288,50 @@ export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalPr
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {AVAILABLE_CHALLENGES.map((challenge) => (
-                  <Card
-                    key={challenge.id}
-                    className={`cursor-pointer transition-all duration-200 hover:shadow-lg ${
-                      selectedChallenge?.id === challenge.id 
-                        ? 'ring-2 ring-veg-primary border-veg-primary' 
-                        : 'hover:border-veg-primary/50'
-                    }`}
-                    onClick={() => handleChallengeSelect(challenge)}
-                    data-testid={`challenge-card-${challenge.id}`}
-                  >
-                    <CardHeader className="pb-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <div className="p-2 bg-veg-primary/10 rounded-lg text-veg-primary">
-                            {challenge.icon}
-                          </div>
-                          <div>
-                            <CardTitle className="text-lg">{challenge.title}</CardTitle>
+                {availableChallenges.filter((challenge) => challenge.status === 'active').map((challenge) => {
+                  const ChallengeIcon = getChallengeIcon(challenge.icon);
+                  return (
+                    <Card
+                      key={challenge.id}
+                      className={`cursor-pointer transition-all duration-200 hover:shadow-lg ${
+                        selectedChallenge?.id === challenge.id 
+                          ? 'ring-2 ring-veg-primary border-veg-primary' 
+                          : 'hover:border-veg-primary/50'
+                      }`}
+                      onClick={() => handleChallengeSelect(challenge)}
+                      data-testid={`challenge-card-${challenge.id}`}
+                    >
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            <div className="p-2 bg-veg-primary/10 rounded-lg text-veg-primary">
+                              <ChallengeIcon className="w-6 h-6" />
+                            </div>
+                            <div>
+                              <CardTitle className="text-lg">{challenge.title}</CardTitle>
+                            </div>
                           </div>
+                          {selectedChallenge?.id === challenge.id && (
+                            <CheckCircle className="w-6 h-6 text-veg-primary" />
+                          )}
                         </div>
-                        {selectedChallenge?.id === challenge.id && (
-                          <CheckCircle className="w-6 h-6 text-veg-primary" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <Badge className={getDifficultyColor(challenge.difficulty)}>
-                          {challenge.difficulty}
-                        </Badge>
-                        <div className="text-sm text-gray-600">
-                          <span className="font-semibold text-veg-primary">{STANDARD_REWARD_TOTAL} VEG21</span>
+                        <div className="flex items-center justify-between">
+                          <Badge className={getDifficultyColor(challenge.difficulty)}>
+                            {challenge.difficulty}
+                          </Badge>
+                          <div className="text-sm text-gray-600">
+                            <span className="font-semibold text-veg-primary">{challenge.rewardAmount} VEG21</span>
+                          </div>
                         </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <CardDescription className="text-gray-600">
-                        {challenge.description}
-                      </CardDescription>
-                    </CardContent>
-                  </Card>
-                ))}
+                      </CardHeader>
+                      <CardContent>
+                        <CardDescription className="text-gray-600">
+                          {challenge.description}
+                        </CardDescription>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
               
               {selectedChallenge && (
@@ -387,8 +344,8 @@ export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalPr
                   </p>
                   <div className="flex items-center justify-between">
                     <div className="text-sm text-gray-600">
-                      <span className="font-medium">Duración:</span> 21 días • 
-                      <span className="font-medium"> Recompensa:</span> {STANDARD_REWARD_TOTAL} VEG21
+                      <span className="font-medium">Duración:</span> {selectedChallenge.durationDays} días • 
+                      <span className="font-medium"> Recompensa:</span> {selectedChallenge.rewardAmount} VEG21
                     </div>
                   </div>
                 </div>
@@ -465,6 +422,12 @@ export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalPr
                   ¡Cada día cuenta!
                 </p>
               </div>
+
+              {enrollError && (
+                <p className="text-sm text-red-600 text-center" data-testid="text-enroll-error">
+                  {enrollError}
+                </p>
+              )}
               
               <div className="flex justify-center pt-4">
                 <Button
@@ -485,32 +448,6 @@ export function OnboardingModal({ isOpen, onChallengeSelect }: OnboardingModalPr
 }
 
 // Utility functions for other components to use
-export function getUserChallenge(): Challenge | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-    
-    const data = JSON.parse(stored);
-    return data.challenge || null;
-  } catch (error) {
-    console.error('Failed to get user challenge:', error);
-    return null;
-  }
-}
-
-export function getChallengeProgress() {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-    
-    const data = JSON.parse(stored);
-    return data.progress || null;
-  } catch (error) {
-    console.error('Failed to get challenge progress:', error);
-    return null;
-  }
-}
-
 export function isOnboardingCompleted(): boolean {
   try {
     return localStorage.getItem(ONBOARDING_COMPLETED_KEY) === 'true';
@@ -520,32 +457,6 @@ export function isOnboardingCompleted(): boolean {
   }
 }
 
-export function updateChallengeProgress(day: number, completed: boolean = true) {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return false;
-    
-    const data = JSON.parse(stored);
-    if (!data.progress) return false;
-    
-    if (completed && !data.progress.completedDays.includes(day)) {
-      data.progress.completedDays.push(day);
-      data.progress.currentDay = Math.min(day + 1, 21);
-    }
-    
-    // Mark challenge as completed if reached day 21
-    if (data.progress.completedDays.length >= 21) {
-      data.progress.isActive = false;
-    }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    return true;
-  } catch (error) {
-    console.error('Failed to update challenge progress:', error);
-    return false;
-  }
-}
-
 export function getUserRegistration(): UserRegistrationData | null {
   try {
     const stored = localStorage.getItem(USER_REGISTRATION_KEY);
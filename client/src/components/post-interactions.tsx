@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { communityService, CommunityPost, Comment } from "@/lib/community-service";
+import { communityService, generateAvatar, useAddComment, useTogglePostLike, CommunityPost } from "@/lib/community-service";
+import { useToast } from "@/hooks/use-toast";
 import { Heart, MessageCircle, Send, X } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
@@ -13,46 +14,50 @@ import { es } from "date-fns/locale";
 interface PostInteractionsProps {
   post: CommunityPost;
   currentUserId: string;
-  onInteraction: () => void;
 }
 
-export function PostInteractions({ post, currentUserId, onInteraction }: PostInteractionsProps) {
+export function PostInteractions({ post, currentUserId }: PostInteractionsProps) {
   const [showComments, setShowComments] = useState(false);
   const [newComment, setNewComment] = useState('');
-  const [isSubmittingComment, setIsSubmittingComment] = useState(false);
-
-  const hasLiked = communityService.hasUserLiked(post.id);
+  const { toast } = useToast();
+  const toggleLike = useTogglePostLike();
+  const addComment = useAddComment();
+  const isSubmittingComment = addComment.isPending;
+
+  const hasLiked = communityService.hasUserLiked(post, currentUserId);
+
+  const requireLogin = () => {
+    toast({
+      title: "Inicia sesión",
+      description: "Necesitas una cuenta para interactuar con la comunidad.",
+      variant: "destructive",
+    });
+  };
 
   const handleLike = () => {
-    if (!currentUserId) return;
-    
-    communityService.toggleLike(post.id, currentUserId);
-    onInteraction(); // Trigger parent refresh
+    if (!currentUserId) {
+      requireLogin();
+      return;
+    }
+    if (toggleLike.isPending) return;
+
+    toggleLike.mutate(post.id, {
+      onError: (error) => console.error('Failed to toggle like:', error),
+    });
   };
 
   const handleAddComment = async () => {
-    if (!newComment.trim() || !currentUserId || isSubmittingComment) return;
-
-    setIsSubmittingComment(true);
+    if (!newComment.trim() || isSubmittingComment) return;
+    if (!currentUserId) {
+      requireLogin();
+      return;
+    }
 
     try {
-      // Get username from localStorage (same pattern as other components)
-      const storedUsername = localStorage.getItem('veg21_username');
-      const authorName = storedUsername || `User_${currentUserId.slice(-4)}`;
-
-      communityService.addComment(
-        post.id,
-        currentUserId,
-        authorName,
-        newComment.trim()
-      );
-
+      await addComment.mutateAsync({ postId: post.id, content: newComment.trim() });
       setNewComment('');
-      onInteraction(); // Trigger parent refresh
     } catch (error) {
       console.error('Failed to add comment:', error);
-    } finally {
-      setIsSubmittingComment(false);
     }
   };
 
@@ -67,15 +72,6 @@ export function PostInteractions({ post, currentUserId, onInteraction }: PostInt
     }
   };
 
-  const generateAvatar = (userId: string): string => {
-    const colors = [
-      'bg-red-500', 'bg-blue-500', 'bg-green-500', 'bg-purple-500', 
-      'bg-pink-500', 'bg-indigo-500', 'bg-yellow-500', 'bg-teal-500'
-    ];
-    const hash = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return colors[hash % colors.length];
-  };
-
   return (
     <div className="space-y-3">
       {/* Interaction Buttons */}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useWallet } from "@/hooks/use-wallet";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -9,8 +9,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { communityService, CreatePostData } from "@/lib/community-service";
-import { ChefHat, Lightbulb, Star, Upload, X } from "lucide-react";
+import { useCreatePost, CreatePostData } from "@/lib/community-service";
+import type { UploadedMedia } from "@/lib/media-service";
+import { ImageUpload } from "@/components/image-upload";
+import { ChefHat, Lightbulb, Star, X } from "lucide-react";
 
 interface RecipeFormProps {
   isOpen: boolean;
@@ -21,17 +23,18 @@ interface RecipeFormProps {
 type PostType = 'recipe' | 'tip' | 'experience';
 
 export function RecipeForm({ isOpen, onClose, onSubmit }: RecipeFormProps) {
-  const { formattedAddress } = useWallet();
+  const { isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const createPost = useCreatePost();
   
   const [formData, setFormData] = useState<CreatePostData>({
     title: '',
     description: '',
     ingredients: '',
     preparationSteps: '',
-    imageUrl: '',
     type: 'recipe'
   });
+  const [image, setImage] = useState<UploadedMedia | null>(null);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -85,20 +88,20 @@ export function RecipeForm({ isOpen, onClose, onSubmit }: RecipeFormProps) {
   };
 
   const handleSubmit = async () => {
-    if (!validateForm() || !formattedAddress) return;
+    if (!validateForm()) return;
+    if (!isAuthenticated) {
+      toast({
+        title: "Inicia sesión",
+        description: "Necesitas una cuenta para publicar en la comunidad.",
+        variant: "destructive",
+      });
+      return;
+    }
 
     setIsSubmitting(true);
     
     try {
-      // Get username from localStorage (same pattern as profile page)
-      const storedUsername = localStorage.getItem('veg21_username');
-      const authorName = storedUsername || `User_${formattedAddress.slice(-4)}`;
-
-      communityService.createPost(
-        formattedAddress,
-        authorName,
-        formData
-      );
+      await createPost.mutateAsync({ ...formData, mediaId: image?.id });
 
       toast({
         title: "¡Post publicado! 🌱",
@@ -116,9 +119,9 @@ export function RecipeForm({ isOpen, onClose, onSubmit }: RecipeFormProps) {
         description: '',
         ingredients: '',
         preparationSteps: '',
-        imageUrl: '',
         type: 'recipe'
       });
+      setImage(null);
       
       onSubmit();
     } catch (error) {
@@ -323,26 +326,10 @@ export function RecipeForm({ isOpen, onClose, onSubmit }: RecipeFormProps) {
             </Card>
           )}
 
-          {/* Mock Image Upload */}
+          {/* Image Upload */}
           <div className="space-y-2">
-            <Label htmlFor="imageUrl">Imagen (opcional)</Label>
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center bg-gray-50">
-              <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-600 text-sm mb-3">
-                Funcionalidad de carga de imagen (simulada)
-              </p>
-              <Input
-                id="imageUrl"
-                value={formData.imageUrl || ''}
-                onChange={(e) => handleInputChange('imageUrl', e.target.value)}
-                placeholder="Ej: mi-receta-vegana.jpg"
-                className="max-w-xs mx-auto"
-                data-testid="input-image-url"
-              />
-              <p className="text-gray-500 text-xs mt-2">
-                Por ahora, ingresa un nombre de archivo para simular la carga
-              </p>
-            </div>
+            <Label>Imagen (opcional)</Label>
+            <ImageUpload value={image} onChange={setImage} label="Subir imagen" testId="post-image" />
           </div>
 
           {/* Action Buttons */}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { setupTwoFactor, regenerateRecoveryCodes, type TwoFactorSetup } from "@/lib/auth";
+import { ShieldCheck, ShieldOff, KeyRound, Copy, Loader2 } from "lucide-react";
+
+type PendingAction = "disable" | "regenerate";
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Enrollment and management of TOTP two-factor authentication for accounts
+// that sign in with email and password
+export function TwoFactorSettings() {
+  const { user, enableTwoFactor, disableTwoFactor } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!user?.email || user.authProvider !== "email") {
+    return null;
+  }
+
+  const isEnabled = !!user.totpEnabledAt;
+
+  const run = async (action: () => Promise<void>) => {
+    setError("");
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (error: any) {
+      setError(error.message || "Error en la verificación en dos pasos");
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    setRecoveryCodes(null);
+    setSetup(await setupTwoFactor());
+  });
+
+  const handleEnable = () => run(async () => {
+    const codes = await enableTwoFactor(code);
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes(codes);
+    toast({
+      title: "Verificación en dos pasos activada",
+      description: "Guarda tus códigos de recuperación en un lugar seguro.",
+    });
+  });
+
+  const handleConfirmAction = () => run(async () => {
+    if (pendingAction === "disable") {
+      await disableTwoFactor({ code });
+      setRecoveryCodes(null);
+      toast({ title: "Verificación en dos pasos desactivada" });
+    } else {
+      setRecoveryCodes(await regenerateRecoveryCodes(code));
+      toast({ title: "Nuevos códigos de recuperación generados" });
+    }
+    setPendingAction(null);
+    setCode("");
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Códigos copiados" });
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm" data-testid="card-two-factor">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-veg-primary" />
+            <span>Verificación en dos pasos</span>
+          </div>
+          <Badge variant={isEnabled ? "default" : "secondary"} data-testid="badge-two-factor-status">
+            {isEnabled ? "Activada" : "Desactivada"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Pide un código de tu aplicación de autenticación además de la contraseña al iniciar sesión
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg" data-testid="error-two-factor">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="bg-amber-50 p-4 rounded-lg space-y-3" data-testid="recovery-codes">
+            <div className="text-sm text-amber-800">
+              Cada código de recuperación sirve una sola vez para entrar si pierdes tu dispositivo.
+              No volverás a verlos: guárdalos ahora.
+            </div>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar códigos
+            </Button>
+          </div>
+        )}
+
+        {!isEnabled && !setup && (
+          <Button onClick={handleStartSetup} disabled={isLoading} className="bg-veg-primary hover:bg-veg-secondary" data-testid="button-start-two-factor">
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+            Activar verificación en dos pasos
+          </Button>
+        )}
+
+        {!isEnabled && setup && (
+          <div className="space-y-4" data-testid="two-factor-setup">
+            <div className="text-sm text-gray-600">
+              Añade VEG21 a tu aplicación de autenticación (Google Authenticator, Authy, 1Password...)
+              con{" "}
+              <a href={setup.otpauthUri} className="text-veg-primary hover:underline" data-testid="link-otpauth">
+                este enlace
+              </a>{" "}
+              o introduciendo la clave manualmente:
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg font-mono text-sm break-all" data-testid="text-totp-secret">
+              {setup.secret.match(/.{1,4}/g)!.join(" ")}
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600">Introduce el código que muestra la aplicación para confirmar:</div>
+              <CodeInput value={code} onChange={setCode} testId="input-two-factor-enable-code" />
+            </div>
+            <div className="flex space-x-2">
+              <Button onClick={handleEnable} disabled={isLoading || code.length !== 6} className="bg-veg-primary hover:bg-veg-secondary" data-testid="button-enable-two-factor">
+                {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Activar
+              </Button>
+              <Button variant="ghost" onClick={() => { setSetup(null); setCode(""); setError(""); }} data-testid="button-cancel-two-factor">
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isEnabled && !pendingAction && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setPendingAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+              <KeyRound className="w-4 h-4 mr-2" />
+              Nuevos códigos de recuperación
+            </Button>
+            <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setPendingAction("disable")} data-testid="button-disable-two-factor">
+              <ShieldOff className="w-4 h-4 mr-2" />
+              Desactivar
+            </Button>
+          </div>
+        )}
+
+        {isEnabled && pendingAction && (
+          <div className="space-y-2">
+            <div className="text-sm text-gray-600">
+              {pendingAction === "disable"
+                ? "Introduce un código de tu aplicación para desactivar la verificación en dos pasos:"
+                : "Introduce un código de tu aplicación para generar nuevos códigos. Los anteriores dejarán de funcionar."}
+            </div>
+            <CodeInput value={code} onChange={setCode} testId="input-two-factor-confirm-code" />
+            <div className="flex space-x-2">
+              <Button onClick={handleConfirmAction} disabled={isLoading || code.length !== 6} className="bg-veg-primary hover:bg-veg-secondary" data-testid="button-confirm-two-factor">
+                {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Confirmar
+              </Button>
+              <Button variant="ghost" onClick={() => { setPendingAction(null); setCode(""); setError(""); }} data-testid="button-cancel-two-factor-action">
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,26 +1,12 @@
-import { useState } from "react";
 import { Trophy, Droplets, Leaf, Heart, Share2, UserPlus, ArrowRight, AlertCircle, RefreshCw } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-
-interface LeaderboardUser {
-  rank: number;
-  username: string;
-  location: string;
-  impactScore: number;
-}
-
-const leaderboard: LeaderboardUser[] = [
-  { rank: 1, username: "@EcoWarrior2024", location: "Barcelona, España", impactScore: 2847 },
-  { rank: 2, username: "@VeganMom_Madrid", location: "Madrid, España", impactScore: 2634 },
-  { rank: 3, username: "@PlantPowerMX", location: "Ciudad de México, México", impactScore: 2391 },
-  { rank: 4, username: "@GreenChef_Buenos", location: "Buenos Aires, Argentina", impactScore: 2156 },
-  { rank: 5, username: "@SustainableSoul", location: "Lima, Perú", impactScore: 1934 },
-];
+import { useLeaderboard, type LeaderboardUser } from "@/lib/leaderboard-service";
 
 export function VeganImpactRanking() {
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>(leaderboard);
+  const { data, isLoading, isError: hasError, refetch } = useLeaderboard(1, 10);
+  const leaderboardData = data?.users ?? [];
+  const currentUser = data?.currentUser ?? null;
 
   const getRankIcon = (rank: number) => {
     if (rank === 1) return "bg-gradient-to-br from-veg-primary to-veg-secondary";
@@ -55,11 +41,7 @@ export function VeganImpactRanking() {
       <h3 className="text-xl font-semibold text-gray-800 mb-2">Error al cargar el ranking</h3>
       <p className="text-gray-600 mb-6">No pudimos cargar la información del ranking. Por favor, intenta de nuevo.</p>
       <Button
-        onClick={() => {
-          setHasError(false);
-          setIsLoading(true);
-          setTimeout(() => setIsLoading(false), 1000);
-        }}
+        onClick={() => refetch()}
         className="bg-gradient-to-r from-veg-primary to-veg-secondary text-white hover:from-veg-secondary hover:to-veg-primary"
       >
         <RefreshCw className="mr-2 h-4 w-4" />
@@ -118,18 +100,18 @@ export function VeganImpactRanking() {
 
                 {/* Normal Data Display */}
                 {!isLoading && !hasError && leaderboardData.length > 0 && leaderboardData.map((user: LeaderboardUser) => (
-                  <div key={user.rank} className="flex items-center justify-between p-4 bg-white rounded-xl border border-green-100 hover:shadow-md transition-all duration-200">
+                  <div key={user.id} className="flex items-center justify-between p-4 bg-white rounded-xl border border-green-100 hover:shadow-md transition-all duration-200">
                     <div className="flex items-center space-x-4">
                       <div className={`w-10 h-10 ${getRankIcon(user.rank)} rounded-full flex items-center justify-center text-white font-bold`}>
                         {user.rank}
                       </div>
                       <div>
                         <p className="font-semibold text-veg-dark">{user.username}</p>
-                        <p className="text-sm text-gray-600">{user.location}</p>
+                        <p className="text-sm text-gray-600">{user.location ?? `${user.completedCheckIns} check-ins`}</p>
                       </div>
                     </div>
                     <div className="text-right">
-                      <p className="text-lg font-bold text-veg-primary">{user.impactScore.toLocaleString()}</p>
+                      <p className="text-lg font-bold text-veg-primary">{Math.round(user.totalScore).toLocaleString()}</p>
                       <p className="text-xs text-gray-500">puntos de impacto</p>
                     </div>
                   </div>
@@ -137,9 +119,11 @@ export function VeganImpactRanking() {
               </div>
 
               <div className="mt-6 text-center">
-                <Button variant="ghost" className="text-veg-primary hover:text-veg-secondary font-semibold">
-                  Ver ranking completo <ArrowRight className="ml-1 h-4 w-4" />
-                </Button>
+                <Link href="/leaderboard">
+                  <Button variant="ghost" className="text-veg-primary hover:text-veg-secondary font-semibold">
+                    Ver ranking completo <ArrowRight className="ml-1 h-4 w-4" />
+                  </Button>
+                </Link>
               </div>
             </div>
           </div>
@@ -148,19 +132,19 @@ export function VeganImpactRanking() {
           <div className="space-y-6">
             {/* Monthly Challenge Stats */}
             <div className="bg-gradient-to-br from-veg-primary to-veg-secondary rounded-2xl p-8 text-white shadow-lg">
-              <h3 className="text-xl font-bold mb-4">Tu Progreso Mensual</h3>
+              <h3 className="text-xl font-bold mb-4">Tu Progreso</h3>
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
-                  <span className="text-green-100">Retos completados:</span>
-                  <span className="text-2xl font-bold">3</span>
+                  <span className="text-green-100">Check-ins completados:</span>
+                  <span className="text-2xl font-bold">{currentUser?.completedCheckIns ?? 0}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-green-100">Tokens ganados:</span>
-                  <span className="text-2xl font-bold">450</span>
+                  <span className="text-2xl font-bold">{Math.round(currentUser?.tokensEarned ?? 0).toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-green-100">Posición actual:</span>
-                  <span className="text-2xl font-bold">#47</span>
+                  <span className="text-2xl font-bold">{currentUser ? `#${currentUser.rank}` : '—'}</span>
                 </div>
               </div>
             </div>
@@ -2,23 +2,50 @@ import { createContext, useContext, useState, useEffect, useCallback, type React
 import { 
   getCurrentUser, 
   loginUser, 
+  completeMfaLogin as authCompleteMfaLogin,
+  loginWithEthereum as authLoginWithEthereum,
+  exchangeOAuthCode,
+  confirmOAuthLink as authConfirmOAuthLink,
+  unlinkProvider as authUnlinkProvider,
   registerUser, 
   logoutUser as authLogout,
   updateUser,
   linkWallet as authLinkWallet,
-  getStoredToken
+  unlinkWallet as authUnlinkWallet,
+  enableTwoFactor as authEnableTwoFactor,
+  disableTwoFactor as authDisableTwoFactor,
+  type MfaChallenge,
+  type SignMessage,
+  getStoredToken,
+  getStoredRefreshToken
 } from "@/lib/auth";
-import type { SafeUser } from "@shared/schema";
+import type { SafeUser, UpdateProfile, TwoFactorVerification, OAuthProvider, LinkedIdentity } from "@shared/schema";
 
 interface AuthContextType {
   user: SafeUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge instead of signing in when the account has
+  // two-factor authentication; finish with completeMfaLogin
+  login: (email: string, password: string) => Promise<MfaChallenge | null>;
+  completeMfaLogin: (mfaToken: string, secondFactor: TwoFactorVerification) => Promise<void>;
+  // Links a provider to an existing account and signs in; like login, may
+  // resolve with a two-factor challenge
+  confirmOAuthLink: (linkToken: string, proof: { password: string } | { code: string }) => Promise<MfaChallenge | null>;
+  // Like login, may resolve with a two-factor challenge
+  loginWithEthereum: (address: string, chainId: number, signMessage: SignMessage) => Promise<MfaChallenge | null>;
+  // Set when a provider login came back from its redirect with a two-factor
+  // challenge, for the auth modal to finish
+  pendingMfaChallenge: MfaChallenge | null;
+  clearPendingMfaChallenge: () => void;
   register: (data: { email: string; password: string; name: string; location?: string; dietaryPreference?: string }) => Promise<void>;
   logout: () => void;
-  updateProfile: (updates: Partial<SafeUser>) => Promise<void>;
-  linkWallet: (walletAddress: string) => Promise<void>;
+  updateProfile: (updates: UpdateProfile) => Promise<void>;
+  linkWallet: (address: string, chainId: number, signMessage: SignMessage) => Promise<void>;
+  unlinkWallet: () => Promise<void>;
+  enableTwoFactor: (code: string) => Promise<string[]>;
+  disableTwoFactor: (secondFactor: TwoFactorVerification) => Promise<void>;
+  unlinkProvider: (provider: OAuthProvider) => Promise<LinkedIdentity[]>;
   refreshUser: () => Promise<void>;
 }
 
@@ -27,6 +54,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<SafeUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [pendingMfaChallenge, setPendingMfaChallenge] = useState<MfaChallenge | null>(null);
 
   const refreshUser = useCallback(async () => {
     try {
@@ -40,15 +68,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
-    const tokenFromUrl = urlParams.get('token');
+    const oauthCode = urlParams.get('code');
     const authError = urlParams.get('auth_error');
     
-    if (tokenFromUrl) {
-      import("@/lib/auth").then(({ setStoredToken }) => {
-        setStoredToken(tokenFromUrl);
-        window.history.replaceState({}, '', window.location.pathname);
-        refreshUser().finally(() => setIsLoading(false));
-      });
+    if (oauthCode) {
+      window.history.replaceState({}, '', window.location.pathname);
+      exchangeOAuthCode(oauthCode)
+        .then((result) => ("mfaRequired" in result ? setPendingMfaChallenge(result) : setUser(result.user)))
+        .catch((error) => console.error("OAuth code exchange failed:", error))
+        .finally(() => setIsLoading(false));
       return;
     }
     
@@ -57,8 +85,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error("OAuth error:", authError);
     }
     
-    const token = getStoredToken();
-    if (token) {
+    if (getStoredToken() || getStoredRefreshToken()) {
       refreshUser().finally(() => setIsLoading(false));
     } else {
       setIsLoading(false);
@@ -67,9 +94,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const login = useCallback(async (email: string, password: string) => {
     const result = await loginUser({ email, password });
+    if ("mfaRequired" in result) {
+      return result;
+    }
+    setUser(result.user);
+    return null;
+  }, []);
+
+  const confirmOAuthLink = useCallback(async (linkToken: string, proof: { password: string } | { code: string }) => {
+    const result = await authConfirmOAuthLink(linkToken, proof);
+    if ("mfaRequired" in result) {
+      return result;
+    }
+    setUser(result.user);
+    return null;
+  }, []);
+
+  const completeMfaLogin = useCallback(async (mfaToken: string, secondFactor: TwoFactorVerification) => {
+    const result = await authCompleteMfaLogin(mfaToken, secondFactor);
+    setUser(result.user);
+  }, []);
+
+  const loginWithEthereum = useCallback(async (address: string, chainId: number, signMessage: SignMessage) => {
+    const result = await authLoginWithEthereum(address, chainId, signMessage);
+    if ("mfaRequired" in result) {
+      return result;
+    }
     setUser(result.user);
+    return null;
   }, []);
 
+  const clearPendingMfaChallenge = useCallback(() => setPendingMfaChallenge(null), []);
+
   const register = useCallback(async (data: { 
     email: string; 
     password: string; 
@@ -86,14 +142,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
   }, []);
 
-  const updateProfile = useCallback(async (updates: Partial<SafeUser>) => {
+  const updateProfile = useCallback(async (updates: UpdateProfile) => {
     const updatedUser = await updateUser(updates);
     setUser(updatedUser);
   }, []);
 
-  const walletLink = useCallback(async (walletAddress: string) => {
-    const updatedUser = await authLinkWallet(walletAddress);
+  const walletLink = useCallback(async (address: string, chainId: number, signMessage: SignMessage) => {
+    const updatedUser = await authLinkWallet(address, chainId, signMessage);
+    setUser(updatedUser);
+  }, []);
+
+  const walletUnlink = useCallback(async () => {
+    const updatedUser = await authUnlinkWallet();
+    setUser(updatedUser);
+  }, []);
+
+  // Resolves with the recovery codes, which are only shown this once
+  const enableTwoFactor = useCallback(async (code: string) => {
+    const { user: updatedUser, recoveryCodes } = await authEnableTwoFactor(code);
+    setUser(updatedUser);
+    return recoveryCodes;
+  }, []);
+
+  const disableTwoFactor = useCallback(async (secondFactor: TwoFactorVerification) => {
+    const updatedUser = await authDisableTwoFactor(secondFactor);
+    setUser(updatedUser);
+  }, []);
+
+  const unlinkProvider = useCallback(async (provider: OAuthProvider) => {
+    const { user: updatedUser, providers } = await authUnlinkProvider(provider);
     setUser(updatedUser);
+    return providers;
   }, []);
 
   return (
@@ -103,10 +182,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         login,
+        completeMfaLogin,
+        confirmOAuthLink,
+        loginWithEthereum,
+        pendingMfaChallenge,
+        clearPendingMfaChallenge,
         register,
         logout,
         updateProfile,
         linkWallet: walletLink,
+        unlinkWallet: walletUnlink,
+        enableTwoFactor,
+        disableTwoFactor,
+        unlinkProvider,
         refreshUser
       }}
     >
@@ -0,0 +1,127 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { LiveEvent } from "@shared/events";
+import { useAuth } from "@/hooks/use-auth";
+import { fetchWithAuth } from "@/lib/auth";
+import { ApiRequestError, readApiError } from "@/lib/api-errors";
+import { COMMUNITY_POSTS_KEY } from "@/lib/community-service";
+import { CHECK_INS_KEY } from "@/lib/check-in-service";
+import { LEADERBOARD_KEY } from "@/lib/leaderboard-service";
+import { NOTIFICATIONS_KEY } from "@/lib/notification-service";
+import { TOKEN_LEDGER_KEY } from "@/lib/token-service";
+
+const EVENTS_URL = "/api/events";
+const MIN_RETRY_MS = 2 * 1000;
+const MAX_RETRY_MS = 60 * 1000;
+
+// Reads the text/event-stream until the server closes it. EventSource cannot
+// send the bearer token, so the stream comes through fetchWithAuth, which also
+// refreshes an expired session before giving up.
+async function readEventStream(signal: AbortSignal, onOpen: () => void, onEvent: (event: LiveEvent) => void): Promise<void> {
+  const response = await fetchWithAuth(EVENTS_URL, { headers: { Accept: "text/event-stream" }, signal });
+  if (!response.ok || !response.body) {
+    throw await readApiError(response, "Error al conectar con las actualizaciones en vivo");
+  }
+  onOpen();
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      // Only data lines matter: the event name repeats the JSON's type, and
+      // lines starting with ":" are heartbeats
+      const data = block.split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
+function invalidateFeeds(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: [COMMUNITY_POSTS_KEY] });
+  queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] });
+  queryClient.invalidateQueries({ queryKey: [LEADERBOARD_KEY] });
+  queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_KEY] });
+  queryClient.invalidateQueries({ queryKey: [TOKEN_LEDGER_KEY] });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Keeps one event stream open while signed in and refetches what each event
+// makes stale, so other users' posts, check-ins and donations, and the user's
+// own token history, show up without a reload. Reconnects with backoff; after
+// a reconnect everything is refetched, since events sent in between are lost.
+export function useLiveEvents() {
+  const { isAuthenticated, refreshUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const controller = new AbortController();
+
+    const handleEvent = (event: LiveEvent) => {
+      switch (event.type) {
+        case "post_created":
+          queryClient.invalidateQueries({ queryKey: [COMMUNITY_POSTS_KEY] });
+          break;
+        case "check_in_created":
+          queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] });
+          queryClient.invalidateQueries({ queryKey: [LEADERBOARD_KEY] });
+          break;
+        case "approval_received":
+          queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] });
+          break;
+        case "donation_made":
+          queryClient.invalidateQueries({ queryKey: [LEADERBOARD_KEY] });
+          queryClient.invalidateQueries({ queryKey: [TOKEN_LEDGER_KEY] });
+          break;
+        case "balance_changed":
+          void refreshUser();
+          queryClient.invalidateQueries({ queryKey: [LEADERBOARD_KEY] });
+          queryClient.invalidateQueries({ queryKey: [TOKEN_LEDGER_KEY] });
+          break;
+        case "notification_created":
+          queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_KEY] });
+          break;
+      }
+    };
+
+    void (async () => {
+      let retryMs = MIN_RETRY_MS;
+      let connected = false;
+      while (!controller.signal.aborted) {
+        try {
+          await readEventStream(controller.signal, () => {
+            if (connected) invalidateFeeds(queryClient);
+            connected = true;
+            retryMs = MIN_RETRY_MS;
+          }, handleEvent);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          // The session is gone; signing in again remounts the effect
+          if (error instanceof ApiRequestError && error.status === 401) return;
+        }
+        await sleep(retryMs, controller.signal);
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [isAuthenticated, queryClient, refreshUser]);
+}
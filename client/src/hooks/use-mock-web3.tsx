@@ -9,6 +9,7 @@ import {
   StakeRecord
 } from '@/lib/mockWeb3';
 import { contractService } from '@/lib/contractService';
+import { recordWalletActivity } from '@/lib/leaderboard-service';
 import { ServiceMode, SERVICE_CONFIG } from '@/config/contracts';
 import { useToast } from '@/hooks/use-toast';
 
@@ -223,6 +224,7 @@ export function useMockWeb3(): UseMockWeb3Return {
       }
       
       await updateStateFromService();
+      void recordWalletActivity('donation', amount, transaction.txHash);
       
       toast({
         title: "¡Donación Exitosa! 🌱",
@@ -289,6 +291,7 @@ export function useMockWeb3(): UseMockWeb3Return {
       }
       
       await updateStateFromService();
+      void recordWalletActivity('stake', amount, transaction.txHash);
       
       toast({
         title: "¡Tokens Apostados!",
@@ -326,6 +329,15 @@ export function useMockWeb3(): UseMockWeb3Return {
       }
       
       await updateStateFromService();
+
+      const stakes = currentServiceMode === ServiceMode.MOCK
+        ? mockWeb3Service.getAllStakes()
+        : await contractService.staking.getAllStakes();
+      const stake = stakes.find(s => s.id === stakeId);
+      if (stake) {
+        void recordWalletActivity('unstake', stake.amount, transaction.txHash);
+        void recordWalletActivity('staking_reward', stake.rewardsEarned, transaction.txHash);
+      }
       
       toast({
         title: "¡Tokens Retirados!",
@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { ethersService } from '@/lib/ethers';
 import { useToast } from '@/hooks/use-toast';
 import { useMockWeb3 } from '@/hooks/use-mock-web3';
+import { useAuth } from '@/hooks/use-auth';
 import { getDefaultNetwork } from '@/config/chainConfig';
 
 export interface WalletError {
@@ -20,6 +21,7 @@ export interface WalletState {
 export function useWallet() {
   const { toast } = useToast();
   const mockWeb3 = useMockWeb3();
+  const { loginWithEthereum } = useAuth();
   
   // Check if demo mode is active
   const isDemoMode = useCallback((): boolean => {
@@ -150,6 +152,37 @@ export function useWallet() {
     };
   }, []);
 
+  // Store a freshly connected wallet and start the Web3 service for it
+  const rememberConnectedWallet = useCallback(async (address: string, isMock: boolean) => {
+    setWalletState({
+      isConnected: true,
+      address,
+      isConnecting: false,
+      error: null,
+    });
+    
+    // Save wallet state to localStorage
+    try {
+      const network = getDefaultNetwork();
+      localStorage.setItem('veg21_wallet', JSON.stringify({
+        address,
+        connected: true,
+        network: isMock ? network.name + '-mock' : network.name
+      }));
+      console.log('Wallet state saved to localStorage:', address, `(${isMock ? 'mock' : 'contract'} mode on ${network.name})`);
+    } catch (error) {
+      console.warn('Failed to save wallet to localStorage:', error);
+    }
+    
+    // Initialize mock Web3 service for the connected wallet
+    try {
+      await mockWeb3.initialize(address);
+    } catch (mockWeb3Error) {
+      console.warn('Failed to initialize mock Web3:', mockWeb3Error);
+      // Don't fail wallet connection if mock Web3 fails
+    }
+  }, [mockWeb3]);
+
   const connectWallet = useCallback(async () => {
     setWalletState(prev => ({ ...prev, isConnecting: true, error: null }));
 
@@ -213,35 +246,7 @@ export function useWallet() {
         });
       }
       
-      const newWalletState = {
-        isConnected: true,
-        address,
-        isConnecting: false,
-        error: null,
-      };
-      
-      setWalletState(newWalletState);
-      
-      // Save wallet state to localStorage
-      try {
-        const network = getDefaultNetwork();
-        localStorage.setItem('veg21_wallet', JSON.stringify({
-          address,
-          connected: true,
-          network: serviceMode === 'mock' ? network.name + '-mock' : network.name
-        }));
-        console.log('Wallet state saved to localStorage:', address, `(${serviceMode} mode on ${network.name})`);
-      } catch (error) {
-        console.warn('Failed to save wallet to localStorage:', error);
-      }
-      
-      // Initialize mock Web3 service for the connected wallet
-      try {
-        await mockWeb3.initialize(address);
-      } catch (mockWeb3Error) {
-        console.warn('Failed to initialize mock Web3:', mockWeb3Error);
-        // Don't fail wallet connection if mock Web3 fails
-      }
+      await rememberConnectedWallet(address, serviceMode === 'mock');
 
       return address;
     } catch (error: any) {
@@ -256,7 +261,42 @@ export function useWallet() {
       showErrorToast(walletError);
       throw error;
     }
-  }, [toast, getErrorFromException, showErrorToast]);
+  }, [toast, getErrorFromException, showErrorToast, rememberConnectedWallet]);
+
+  // One-click login: connect the browser wallet and sign in with a SIWE signature.
+  // Needs a real wallet even in mock mode, since the server verifies the signature.
+  const signInWithEthereum = useCallback(async () => {
+    setWalletState(prev => ({ ...prev, isConnecting: true, error: null }));
+
+    try {
+      const address = await ethersService.connectWallet();
+      const chainId = await ethersService.getCurrentChainId() ?? getDefaultNetwork().chainId;
+      const challenge = await loginWithEthereum(address, chainId, (message) => ethersService.signMessage(address, message));
+      await rememberConnectedWallet(address, mockWeb3.getServiceMode() === 'mock');
+
+      // With two-factor authentication the caller asks for the second factor
+      if (challenge) return challenge;
+
+      toast({
+        title: "Sesión Iniciada",
+        description: "Iniciaste sesión con tu wallet.",
+        variant: "default",
+      });
+
+      return null;
+    } catch (error: any) {
+      const walletError = getErrorFromException(error);
+
+      setWalletState(prev => ({
+        ...prev,
+        isConnecting: false,
+        error: walletError,
+      }));
+
+      showErrorToast(walletError);
+      throw error;
+    }
+  }, [loginWithEthereum, rememberConnectedWallet, mockWeb3, toast, getErrorFromException, showErrorToast]);
 
   const connectDemo = useCallback(async () => {
     console.log('Connecting demo wallet');
@@ -411,6 +451,7 @@ export function useWallet() {
   return {
     ...walletState,
     connectWallet,
+    signInWithEthereum,
     connectDemo,
     disconnectWallet,
     retryConnection,
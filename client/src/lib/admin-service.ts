@@ -0,0 +1,206 @@
+// Admin Service for VEG21 dApp
+// Admin console data through the /api/admin routes, and sending the owner
+// transactions the server prepares from the connected owner wallet
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BrowserProvider, Interface } from 'ethers';
+import { authorizedRequest } from './auth';
+import { CHARITIES_KEY } from './charity-service';
+import { CHALLENGES_KEY } from './challenge-service';
+import { ownerContractAbis, type PreparedTransaction } from '@shared/owner-contracts';
+import type {
+  AdminChainInfo,
+  AdminTransactionRequest,
+  AdminUserPage,
+  Challenge,
+  Charity,
+  InsertCharity,
+  NewChallenge,
+  SafeUser,
+  UpdateChallenge,
+  UpdateCharity,
+} from '@shared/schema';
+
+export type { AdminChainInfo, AdminTransactionRequest, AdminUserPage, PreparedTransaction };
+
+export const ADMIN_CHARITIES_KEY = '/api/admin/charities';
+export const ADMIN_USERS_KEY = '/api/admin/users';
+export const ADMIN_VERIFIERS_KEY = '/api/admin/verifiers';
+export const ADMIN_CHAIN_KEY = '/api/admin/chain';
+
+export async function getAdminCharities(): Promise<Charity[]> {
+  const { charities } = await authorizedRequest<{ charities: Charity[] }>('GET', ADMIN_CHARITIES_KEY, 'Error al obtener las organizaciones');
+  return charities;
+}
+
+export async function createCharity(data: InsertCharity): Promise<Charity> {
+  const { charity } = await authorizedRequest<{ charity: Charity }>('POST', ADMIN_CHARITIES_KEY, 'Error al crear la organización', data);
+  return charity;
+}
+
+export async function updateCharity(id: string, updates: UpdateCharity): Promise<Charity> {
+  const { charity } = await authorizedRequest<{ charity: Charity }>('PATCH', `${ADMIN_CHARITIES_KEY}/${id}`, 'Error al actualizar la organización', updates);
+  return charity;
+}
+
+export async function createChallenge(data: NewChallenge): Promise<Challenge> {
+  const { challenge } = await authorizedRequest<{ challenge: Challenge }>('POST', '/api/admin/challenges', 'Error al crear el desafío', data);
+  return challenge;
+}
+
+export async function updateChallenge(id: string, updates: UpdateChallenge): Promise<Challenge> {
+  const { challenge } = await authorizedRequest<{ challenge: Challenge }>('PATCH', `/api/admin/challenges/${id}`, 'Error al actualizar el desafío', updates);
+  return challenge;
+}
+
+export async function searchUsers(q: string, page = 1, limit = 20): Promise<AdminUserPage> {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+  if (q.trim()) params.set('q', q.trim());
+  return authorizedRequest<AdminUserPage>('GET', `${ADMIN_USERS_KEY}?${params}`, 'Error al buscar usuarios');
+}
+
+export async function setUserActive(id: string, isActive: boolean): Promise<SafeUser> {
+  const { user } = await authorizedRequest<{ user: SafeUser }>('PATCH', `${ADMIN_USERS_KEY}/${id}`, 'Error al actualizar el usuario', { isActive });
+  return user;
+}
+
+export async function getVerifiers(): Promise<SafeUser[]> {
+  const { users } = await authorizedRequest<{ users: SafeUser[] }>('GET', ADMIN_VERIFIERS_KEY, 'Error al obtener los verificadores');
+  return users;
+}
+
+export async function getAdminChain(): Promise<AdminChainInfo> {
+  return authorizedRequest<AdminChainInfo>('GET', ADMIN_CHAIN_KEY, 'Error al obtener la red');
+}
+
+export async function prepareTransaction(request: AdminTransactionRequest): Promise<PreparedTransaction> {
+  const { transaction } = await authorizedRequest<{ transaction: PreparedTransaction }>(
+    'POST',
+    '/api/admin/transactions',
+    'Error al preparar la transacción',
+    request
+  );
+  return transaction;
+}
+
+// Asks the connected wallet (which must be the contract owner) to sign and
+// send a prepared transaction, and waits for it to be mined
+export async function sendPreparedTransaction(transaction: PreparedTransaction): Promise<{ hash: string; logs: readonly { topics: readonly string[]; data: string }[] }> {
+  if (!window.ethereum) {
+    throw new Error('Conecta la wallet propietaria de los contratos');
+  }
+  const provider = new BrowserProvider(window.ethereum);
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) !== transaction.chainId) {
+    throw new Error(`Cambia tu wallet a la red ${transaction.chainId} antes de firmar`);
+  }
+  const signer = await provider.getSigner();
+  const sent = await signer.sendTransaction({ to: transaction.to, data: transaction.data, value: BigInt(transaction.value) });
+  const receipt = await sent.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error('La transacción falló en la red');
+  }
+  return { hash: sent.hash, logs: receipt.logs };
+}
+
+// Prepares, signs and sends an owner transaction. A charity registration also
+// stores the id the contract assigned, read from its CharityRegistered event.
+export async function runOwnerTransaction(request: AdminTransactionRequest): Promise<{ hash: string; transaction: PreparedTransaction }> {
+  const transaction = await prepareTransaction(request);
+  const { hash, logs } = await sendPreparedTransaction(transaction);
+
+  if (request.action === 'registerCharity') {
+    const donations = new Interface(ownerContractAbis.VEG21Donations);
+    for (const log of logs) {
+      const parsed = donations.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === 'CharityRegistered') {
+        await updateCharity(request.charityId, { onChainId: Number(parsed.args.charityId) });
+        break;
+      }
+    }
+  }
+  if (request.action === 'deactivateCharity') {
+    await updateCharity(request.charityId, { isActive: false });
+  }
+
+  return { hash, transaction };
+}
+
+export function useAdminCharities() {
+  return useQuery({
+    queryKey: [ADMIN_CHARITIES_KEY],
+    queryFn: getAdminCharities,
+  });
+}
+
+export function useAdminUsers(q: string, page = 1, limit = 20) {
+  return useQuery({
+    queryKey: [ADMIN_USERS_KEY, q, page, limit],
+    queryFn: () => searchUsers(q, page, limit),
+    staleTime: 10_000,
+  });
+}
+
+export function useVerifiers() {
+  return useQuery({
+    queryKey: [ADMIN_VERIFIERS_KEY],
+    queryFn: getVerifiers,
+  });
+}
+
+export function useAdminChain() {
+  return useQuery({
+    queryKey: [ADMIN_CHAIN_KEY],
+    queryFn: getAdminChain,
+    staleTime: Infinity,
+  });
+}
+
+function useInvalidateCharities() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [ADMIN_CHARITIES_KEY] });
+    queryClient.invalidateQueries({ queryKey: [CHARITIES_KEY] });
+  };
+}
+
+export function useSaveCharity() {
+  const invalidate = useInvalidateCharities();
+  return useMutation({
+    mutationFn: (input: { id: string; data: UpdateCharity } | { id?: undefined; data: InsertCharity }) =>
+      input.id !== undefined ? updateCharity(input.id, input.data) : createCharity(input.data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSaveChallenge() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: NewChallenge }) => {
+      if (!id) return createChallenge(data);
+      const { id: _id, ...updates } = data;
+      return updateChallenge(id, updates);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CHALLENGES_KEY] }),
+  });
+}
+
+export function useSetUserActive() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => setUserActive(id, isActive),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [ADMIN_USERS_KEY] }),
+  });
+}
+
+export function useOwnerTransaction() {
+  const invalidateCharities = useInvalidateCharities();
+  return useMutation({
+    mutationFn: runOwnerTransaction,
+    onSuccess: (_result, request) => {
+      if (request.action === 'registerCharity' || request.action === 'deactivateCharity') {
+        invalidateCharities();
+      }
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import type { z } from "zod";
+import { apiEndpoints, type ApiEndpoint, type ApiEndpoints, type ApiOperation } from "@shared/api";
+import { readApiError } from "./api-errors";
+
+// Typed calls to the routes described in shared/api.ts: the path parameters,
+// query, body and response of each operation are inferred from its schemas.
+
+type PathParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}` ? Param | PathParams<`/${Rest}`>
+  : Path extends `${string}:${infer Param}` ? Param
+  : never;
+
+type SchemaInput<Schema> = Schema extends z.ZodTypeAny ? z.input<Schema> : never;
+
+export type ApiRequest<Operation extends ApiOperation> =
+  ([PathParams<ApiEndpoints[Operation]["path"]>] extends [never]
+    ? {}
+    : { params: Record<PathParams<ApiEndpoints[Operation]["path"]>, string> })
+  & (ApiEndpoints[Operation] extends { body: infer Body } ? { body: SchemaInput<Body> } : {})
+  & (ApiEndpoints[Operation] extends { query: infer Query } ? { query?: SchemaInput<Query> } : {});
+
+export type ApiResponse<Operation extends ApiOperation> =
+  ApiEndpoints[Operation] extends { response: infer Response extends z.ZodTypeAny } ? z.infer<Response> : void;
+
+type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+function buildUrl(path: string, params: Record<string, string> = {}, query: Record<string, unknown> = {}): string {
+  const url = path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name]));
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  }
+  const queryString = search.toString();
+  return queryString ? `${url}?${queryString}` : url;
+}
+
+// Routes with auth "none" go through `anonymous`, so a 401 there (e.g. wrong
+// credentials) never triggers the session refresh `authorized` does.
+// Failures throw an ApiRequestError built from the error envelope.
+export function createApiClient(fetchers: { authorized: Fetcher; anonymous: Fetcher }) {
+  return async function callApi<Operation extends ApiOperation>(
+    operation: Operation,
+    request: ApiRequest<Operation>,
+    fallbackError: string,
+    init: Pick<RequestInit, "keepalive" | "signal"> = {},
+  ): Promise<ApiResponse<Operation>> {
+    const endpoint: ApiEndpoint = apiEndpoints[operation];
+    const { params, query, body } = request as { params?: Record<string, string>; query?: Record<string, unknown>; body?: unknown };
+    const fetcher = endpoint.auth === "none" ? fetchers.anonymous : fetchers.authorized;
+    const response = await fetcher(buildUrl(endpoint.path, params, query), {
+      ...init,
+      method: endpoint.method.toUpperCase(),
+      headers: body !== undefined ? { "Content-Type": "application/json" } : {},
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw await readApiError(response, fallbackError);
+    }
+    return endpoint.response ? response.json() : undefined;
+  };
+}
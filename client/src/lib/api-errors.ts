@@ -0,0 +1,190 @@
+import type { ApiErrorResponse, ErrorCode, ErrorParams, FieldError } from "@shared/errors";
+
+// Text shown for each error code the API returns. The server's message is only
+// used for codes this build does not know yet.
+const errorMessages: Record<ErrorCode, string | ((params: ErrorParams) => string)> = {
+  VALIDATION_FAILED: "Revisa los datos introducidos",
+  MALFORMED_REQUEST: "La solicitud no es válida",
+  AUTH_REQUIRED: "Inicia sesión para continuar",
+  AUTH_TOKEN_INVALID: "Tu sesión expiró. Inicia sesión de nuevo.",
+  FORBIDDEN: "No tienes permiso para realizar esta acción",
+  RATE_LIMITED: ({ retryAfter }) => `Demasiados intentos. ${retryIn(retryAfter)}`,
+  INTERNAL_ERROR: "Algo salió mal. Inténtalo de nuevo más tarde.",
+
+  EMAIL_ALREADY_REGISTERED: "Este email ya está registrado",
+  AUTH_INVALID_CREDENTIALS: "Email o contraseña incorrectos",
+  AUTH_SOCIAL_ACCOUNT: "Esta cuenta usa inicio de sesión social. Usa Google o Facebook para entrar.",
+  ACCOUNT_DEACTIVATED: "Esta cuenta está desactivada. Contacta con el equipo de VEG21.",
+  ACCOUNT_DELETION_SCHEDULED: ({ purgeAt }) =>
+    `Esta cuenta se eliminará el ${formatDate(purgeAt)}. Contacta con el equipo de VEG21 si quieres recuperarla.`,
+  ACCOUNT_LOCKED: ({ retryAfter }) => `Cuenta bloqueada temporalmente por demasiados intentos fallidos. ${retryIn(retryAfter)}`,
+  MFA_CHALLENGE_EXPIRED: "La verificación expiró. Inicia sesión de nuevo.",
+  SECOND_FACTOR_INVALID: "Código de verificación incorrecto",
+  PASSWORD_INVALID: "Contraseña incorrecta",
+  SESSION_INVALID: "Sesión no válida. Inicia sesión de nuevo.",
+  SESSION_REVOKED: "Sesión revocada. Inicia sesión de nuevo.",
+  SESSION_EXPIRED: "Sesión expirada. Inicia sesión de nuevo.",
+  EMAIL_TOKEN_INVALID: "El enlace no es válido o expiró. Solicita uno nuevo.",
+  EMAIL_MISSING: "Tu cuenta no tiene un email asociado",
+  EMAIL_ALREADY_VERIFIED: "Tu email ya está verificado",
+  OAUTH_CODE_INVALID: "El código de inicio de sesión no es válido o expiró",
+  OAUTH_LINK_EXPIRED: "El enlace expiró. Vuelve a iniciar sesión con tu proveedor.",
+  OAUTH_LINK_NO_PASSWORD: "Tu cuenta no tiene contraseña. Usa el código por email.",
+  OAUTH_LINK_CODE_NOT_SENT: "Primero solicita un código por email",
+  OAUTH_LINK_CODE_INVALID: "Código incorrecto",
+  OAUTH_LINK_TOO_MANY_ATTEMPTS: "Demasiados intentos. Vuelve a iniciar sesión con tu proveedor.",
+  OAUTH_IDENTITY_TAKEN: ({ provider }) => `Esta cuenta de ${provider} ya está vinculada a otro usuario`,
+  PROVIDER_NOT_FOUND: "Proveedor de acceso no encontrado",
+  PROVIDER_INVALID: "Proveedor no válido",
+  PROVIDER_NOT_LINKED: ({ provider }) => `No tienes ${provider} vinculado`,
+  PROVIDER_LAST_METHOD: ({ provider }) => `No puedes desvincular ${provider}: es tu único método de acceso`,
+
+  TWO_FACTOR_UNAVAILABLE: "La verificación en dos pasos solo está disponible para cuentas con email y contraseña",
+  TWO_FACTOR_ALREADY_ENABLED: "La verificación en dos pasos ya está activada",
+  TWO_FACTOR_NOT_SET_UP: "Primero configura tu aplicación de autenticación",
+  TWO_FACTOR_NOT_ENABLED: "La verificación en dos pasos no está activada",
+
+  SIWE_MESSAGE_INVALID: "Mensaje de inicio de sesión no válido",
+  SIWE_DOMAIN_MISMATCH: "El mensaje fue firmado para otro dominio",
+  SIWE_URI_MISMATCH: "El mensaje fue firmado para otro sitio",
+  SIWE_CHAIN_MISMATCH: "La wallet está conectada a otra red. Cambia de red y firma de nuevo.",
+  SIWE_STATEMENT_MISMATCH: "El mensaje firmado no corresponde a esta acción",
+  SIWE_ADDRESS_INVALID: "Dirección de wallet no válida (checksum EIP-55)",
+  SIWE_VERSION_UNSUPPORTED: "Versión de mensaje no soportada",
+  SIWE_MESSAGE_EXPIRED: "El mensaje de inicio de sesión expiró. Firma de nuevo.",
+  SIWE_MESSAGE_NOT_YET_VALID: "El mensaje de inicio de sesión aún no es válido. Revisa la hora de tu dispositivo.",
+  SIWE_SIGNATURE_INVALID: "Firma no válida",
+  SIWE_NONCE_INVALID: "El nonce no es válido o ya fue usado. Intenta de nuevo.",
+  WALLET_TAKEN: "Esta wallet ya está vinculada a otra cuenta",
+  WALLET_NOT_LINKED: "No tienes una wallet vinculada",
+  WALLET_LAST_METHOD: "No puedes desvincular la wallet: es tu único método de acceso",
+
+  USER_NOT_FOUND: "Usuario no encontrado",
+  ACCOUNT_DELETION_PENDING: "La eliminación de la cuenta ya está en curso",
+  ACCOUNT_PURGED: "La cuenta ya fue eliminada",
+  ACCOUNT_SELF_DEACTIVATION: "No puedes desactivar tu propia cuenta",
+  ROLE_INVALID: "Rol no válido",
+  ROLE_ALREADY_GRANTED: "El usuario ya tiene ese rol",
+  ROLE_NOT_GRANTED: "El usuario no tiene ese rol",
+  ROLE_SELF_REVOKE: "No puedes quitarte el rol de administrador a ti mismo",
+
+  CHARITY_NOT_FOUND: "Organización no encontrada",
+  CHARITY_ONCHAIN_ID_TAKEN: "Otra organización ya usa ese identificador on-chain",
+  CHARITY_ALREADY_REGISTERED: "La organización ya está registrada on-chain",
+  CHARITY_NOT_REGISTERED: "La organización no está registrada on-chain",
+  CHARITY_WALLET_MISSING: "La organización no tiene wallet",
+  CHALLENGE_ID_TAKEN: "Ya existe un desafío con ese identificador",
+  USER_WALLET_MISSING: "El usuario no tiene wallet vinculada",
+  CHAIN_UNAVAILABLE: ({ contract, network }) => contract
+    ? `Falta la dirección del contrato ${contract} para ${network}`
+    : "Las operaciones on-chain no están disponibles en modo demo",
+
+  POST_TYPE_INVALID: "Tipo de post no válido",
+  POST_NOT_FOUND: "Post no encontrado",
+  COMMENT_PARENT_NOT_FOUND: "El comentario al que respondes ya no existe",
+  CHALLENGE_NOT_FOUND: "Desafío no encontrado",
+  CHALLENGE_NOT_AVAILABLE: "Este desafío aún no está disponible",
+  CHALLENGE_NOT_ENROLLED: "No estás inscrito en este desafío",
+  CHALLENGE_ALREADY_ENROLLED: "Ya estás participando en un desafío. Complétalo antes de unirte a otro",
+  CHECK_IN_WRONG_DAY: ({ day }) => `Solo puedes registrar el día ${day} de este desafío`,
+  CHECK_IN_ALREADY_TODAY: "Ya registraste tu check-in de hoy para este desafío",
+  CHECK_IN_NOT_FOUND: "Check-in no encontrado",
+  CHECK_IN_SELF_APPROVAL: "No puedes validar tu propio check-in",
+  TRANSFER_RECIPIENT_NOT_FOUND: "No hay ninguna cuenta con esa wallet",
+  TRANSFER_TO_SELF: "No puedes transferirte tokens a ti mismo",
+  INSUFFICIENT_BALANCE: "Saldo insuficiente",
+  WALLET_ACTIVITY_UNVERIFIED: "No encontramos esa transacción en la red. Espera a que se confirme e inténtalo de nuevo.",
+  NOTIFICATION_NOT_FOUND: "Notificación no encontrada",
+  EVENT_STREAMS_FULL: "Demasiadas conexiones abiertas. Inténtalo de nuevo más tarde.",
+
+  MEDIA_FILE_MISSING: "Selecciona una imagen",
+  MEDIA_TOO_LARGE: ({ maxBytes }) => `La imagen no puede superar los ${Math.floor(Number(maxBytes) / (1024 * 1024))} MB`,
+  MEDIA_TYPE_UNSUPPORTED: "Formato no admitido. Usa JPEG, PNG o WebP.",
+  MEDIA_UNREADABLE: "No se pudo leer la imagen. Prueba con otra.",
+  MEDIA_NOT_FOUND: "Imagen no encontrada",
+  MEDIA_NOT_OWNED: "Solo puedes usar imágenes que hayas subido tú",
+  MEDIA_ALREADY_USED: "Esta imagen ya se usó en otra publicación. Sube una nueva.",
+};
+
+function retryIn(retryAfter: string | number | undefined): string {
+  const minutes = Math.ceil(Number(retryAfter) / 60);
+  return minutes > 1 ? `Inténtalo de nuevo en ${minutes} minutos.` : "Inténtalo de nuevo en un minuto.";
+}
+
+function formatDate(value: string | number | undefined): string {
+  return value === undefined ? "" : new Date(value).toLocaleDateString("es-ES", { dateStyle: "long" });
+}
+
+const fieldLabels: Record<string, string> = {
+  email: "Email",
+  password: "Contraseña",
+  name: "Nombre",
+  code: "Código",
+  recoveryCode: "Código de recuperación",
+  content: "Contenido",
+  description: "Descripción",
+  location: "Ubicación",
+  walletAddress: "Wallet",
+  amount: "Cantidad",
+};
+
+// Zod's own messages are in English, so the common issues get Spanish text;
+// refinements and literals carry the schema's message, which already is
+function fieldMessage({ field, issue, message, limit }: FieldError): string {
+  const label = fieldLabels[field.split(".").pop() ?? ""] ?? field;
+  switch (issue) {
+    case "invalid_type":
+      return `${label}: es obligatorio o tiene un formato incorrecto`;
+    case "too_small":
+      return `${label}: el mínimo es ${limit}`;
+    case "too_big":
+      return `${label}: el máximo es ${limit}`;
+    case "invalid_string":
+    case "invalid_enum_value":
+    case "invalid_date":
+      return `${label}: el valor no es válido`;
+    default:
+      return message;
+  }
+}
+
+// A failed API call. `code` is INTERNAL_ERROR when the response was not an
+// ApiErrorResponse (e.g. a proxy error page), and may be a code newer than
+// this build.
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ErrorCode | string,
+    readonly params: ErrorParams = {},
+    readonly fields: FieldError[] = [],
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === "string" && code in errorMessages;
+}
+
+// Builds the error for a failed response. fallbackError describes the action
+// that failed and stands in for server errors and unreadable responses.
+export async function readApiError(response: Response, fallbackError: string): Promise<ApiRequestError> {
+  const body: Partial<ApiErrorResponse> | null = await response.json().catch(() => null);
+  const error = body?.error;
+  if (!error || error.code === "INTERNAL_ERROR") {
+    return new ApiRequestError(fallbackError, response.status, "INTERNAL_ERROR");
+  }
+  if (!isErrorCode(error.code)) {
+    return new ApiRequestError(error.message || fallbackError, response.status, error.code);
+  }
+  const params = error.params ?? {};
+  const fields = error.fields ?? [];
+  const text = errorMessages[error.code];
+  let message = typeof text === "function" ? text(params) : text;
+  if (fields.length > 0) {
+    message = `${message}: ${fields.map(fieldMessage).join("; ")}`;
+  }
+  return new ApiRequestError(message, response.status, error.code, params, fields);
+}
@@ -1,23 +1,46 @@
-import { apiRequest } from "./queryClient";
-import type { SafeUser } from "@shared/schema";
+import { getAddress } from "ethers";
+import { buildSiweMessage, SIWE_STATEMENTS } from "@shared/siwe";
+import { ApiRequestError, readApiError } from "./api-errors";
+import { createApiClient } from "./api-client";
+import type { SafeUser, UpdateProfile, TwoFactorVerification, OAuthProvider, LinkedIdentity, PendingOAuthLinkInfo, OidcProviderSummary, AccountDeletionRequest } from "@shared/schema";
 
 const TOKEN_KEY = "veg21_auth_token";
+const REFRESH_TOKEN_KEY = "veg21_refresh_token";
 
 export interface AuthResponse {
   user: SafeUser;
   token: string;
+  refreshToken: string;
+}
+
+// Returned by the password step of a login when the account has two-factor
+// authentication; the token is traded with a code through completeMfaLogin
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
 }
 
 export function getStoredToken(): string | null {
   return localStorage.getItem(TOKEN_KEY);
 }
 
-export function setStoredToken(token: string): void {
+export function getStoredRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function setStoredTokens(token: string, refreshToken: string): void {
   localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
 }
 
 export function removeStoredToken(): void {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
 }
 
 export function getAuthHeaders(): HeadersInit {
@@ -28,6 +51,59 @@ export function getAuthHeaders(): HeadersInit {
   return {};
 }
 
+// Typed calls for the routes in shared/api.ts
+const api = createApiClient({ authorized: fetchWithAuth, anonymous: fetch });
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Trades the stored refresh token for a new pair. Concurrent callers share one
+// request, since the server rotates the token and would treat a second use as
+// a replay. Clears the session when the refresh token is no longer valid.
+export function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = getStoredRefreshToken();
+      if (!refreshToken) return false;
+      try {
+        const result = await api("refreshSession", { body: { refreshToken } }, "Error al renovar la sesión");
+        setStoredTokens(result.token, result.refreshToken);
+        return true;
+      } catch (error) {
+        if (error instanceof ApiRequestError && error.status === 401) removeStoredToken();
+        return false;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// fetch with the stored bearer token; on a 401 the session is refreshed once
+// and the request retried with the new access token
+export async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, { ...init, headers: { ...init.headers, ...getAuthHeaders() } });
+  const response = await send();
+  if (response.status !== 401 || !getStoredRefreshToken()) {
+    return response;
+  }
+  return (await refreshSession()) ? send() : response;
+}
+
+// JSON request with the stored bearer token; throws an ApiRequestError on failure
+export async function authorizedRequest<T>(method: string, url: string, fallbackError: string, data?: unknown): Promise<T> {
+  const response = await fetchWithAuth(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined
+  });
+  if (!response.ok) {
+    throw await readApiError(response, fallbackError);
+  }
+  const result = await response.json();
+  return result;
+}
+
 export async function registerUser(data: {
   email: string;
   password: string;
@@ -35,84 +111,202 @@ export async function registerUser(data: {
   location?: string;
   dietaryPreference?: string;
 }): Promise<AuthResponse> {
-  const response = await apiRequest("POST", "/api/auth/register", data);
-  const result = await response.json();
-  if (!response.ok) {
-    throw new Error(result.error || "Error al registrar");
-  }
-  setStoredToken(result.token);
+  const result = await api("register", { body: data }, "Error al registrar");
+  setStoredTokens(result.token, result.refreshToken);
   return result;
 }
 
 export async function loginUser(data: {
   email: string;
   password: string;
-}): Promise<AuthResponse> {
-  const response = await apiRequest("POST", "/api/auth/login", data);
-  const result = await response.json();
-  if (!response.ok) {
-    throw new Error(result.error || "Error al iniciar sesión");
+}): Promise<AuthResponse | MfaChallenge> {
+  const result = await api("login", { body: data }, "Error al iniciar sesión");
+  if ("mfaRequired" in result) {
+    return result;
+  }
+  setStoredTokens(result.token, result.refreshToken);
+  return result;
+}
+
+export async function completeMfaLogin(mfaToken: string, secondFactor: TwoFactorVerification): Promise<AuthResponse> {
+  const result = await api("completeMfaLogin", { body: { mfaToken, ...secondFactor } }, "Error al iniciar sesión");
+  setStoredTokens(result.token, result.refreshToken);
+  return result;
+}
+
+// Completes a Google/Facebook login: the server redirects back with a
+// single-use code that is traded for the session tokens, or for an MFA
+// challenge with two-factor authentication
+export async function exchangeOAuthCode(code: string): Promise<AuthResponse | MfaChallenge> {
+  const result = await api("exchangeOAuthCode", { body: { code } }, "Error al iniciar sesión");
+  if (!("mfaRequired" in result)) {
+    setStoredTokens(result.token, result.refreshToken);
+  }
+  return result;
+}
+
+// A provider login whose email matches an existing account comes back with a
+// link token; the user then proves they own the account to link the provider
+export async function getPendingOAuthLink(linkToken: string): Promise<PendingOAuthLinkInfo> {
+  return api("getPendingOAuthLink", { body: { linkToken } }, "Error al obtener la vinculación pendiente");
+}
+
+export async function sendOAuthLinkCode(linkToken: string): Promise<void> {
+  await api("sendOAuthLinkCode", { body: { linkToken } }, "Error al enviar el código");
+}
+
+export async function confirmOAuthLink(linkToken: string, proof: { password: string } | { code: string }): Promise<AuthResponse | MfaChallenge> {
+  const result = await api("confirmOAuthLink", { body: { linkToken, ...proof } }, "Error al vincular la cuenta");
+  if (!("mfaRequired" in result)) {
+    setStoredTokens(result.token, result.refreshToken);
+  }
+  return result;
+}
+
+export async function getLinkedProviders(): Promise<LinkedIdentity[]> {
+  const { providers } = await api("listProviders", {}, "Error al obtener los métodos de acceso");
+  return providers;
+}
+
+export async function unlinkProvider(provider: OAuthProvider): Promise<{ user: SafeUser; providers: LinkedIdentity[] }> {
+  return api("unlinkProvider", { params: { provider } }, "Error al desvincular el proveedor");
+}
+
+// OpenID Connect providers configured on the server, offered next to Google and Facebook
+export async function getOidcProviders(): Promise<OidcProviderSummary[]> {
+  const { providers } = await api("listOidcProviders", {}, "Error al obtener los proveedores de acceso");
+  return providers;
+}
+
+export type SignMessage = (message: string) => Promise<string>;
+
+// Fetch a nonce and have the wallet sign an EIP-4361 message for this site
+async function signSiweMessage(address: string, chainId: number, statement: string, signMessage: SignMessage, fallbackError: string) {
+  const { nonce } = await api("getSiweNonce", {}, fallbackError);
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address: getAddress(address),
+    statement,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await signMessage(message);
+  return { message, signature };
+}
+
+// Sign-In With Ethereum: exchange a wallet signature for a session token, or
+// for an MFA challenge with two-factor authentication
+export async function loginWithEthereum(address: string, chainId: number, signMessage: SignMessage): Promise<AuthResponse | MfaChallenge> {
+  const fallbackError = "Error al iniciar sesión con wallet";
+  const signed = await signSiweMessage(address, chainId, SIWE_STATEMENTS.login, signMessage, fallbackError);
+  const result = await api("loginWithEthereum", { body: signed }, fallbackError);
+  if (!("mfaRequired" in result)) {
+    setStoredTokens(result.token, result.refreshToken);
   }
-  setStoredToken(result.token);
   return result;
 }
 
 export async function getCurrentUser(): Promise<SafeUser | null> {
-  const token = getStoredToken();
-  if (!token) return null;
-  
+  if (!getStoredToken() && !getStoredRefreshToken()) return null;
+
   try {
-    const response = await fetch("/api/auth/me", {
-      headers: { Authorization: `Bearer ${token}` }
-    });
-    if (!response.ok) {
-      if (response.status === 401) {
-        removeStoredToken();
-        return null;
-      }
-      throw new Error("Error al obtener usuario");
+    const { user } = await api("getCurrentUser", {}, "Error al obtener usuario");
+    return user;
+  } catch (error) {
+    if (error instanceof ApiRequestError && error.status === 401) {
+      removeStoredToken();
     }
-    const data = await response.json();
-    return data.user;
-  } catch {
     return null;
   }
 }
 
-export async function updateUser(updates: Partial<SafeUser>): Promise<SafeUser> {
-  const token = getStoredToken();
-  const response = await fetch("/api/auth/me", {
-    method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`
-    },
-    body: JSON.stringify(updates)
-  });
-  const result = await response.json();
-  if (!response.ok) {
-    throw new Error(result.error || "Error al actualizar");
-  }
-  return result.user;
+export async function updateUser(updates: UpdateProfile): Promise<SafeUser> {
+  const { user } = await api("updateCurrentUser", { body: updates }, "Error al actualizar");
+  return user;
 }
 
-export async function linkWallet(walletAddress: string): Promise<SafeUser> {
-  const token = getStoredToken();
-  const response = await fetch("/api/auth/link-wallet", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`
-    },
-    body: JSON.stringify({ walletAddress })
-  });
-  const result = await response.json();
+// The server answers the same whether or not the email has an account
+export async function requestPasswordReset(email: string): Promise<void> {
+  await api("requestPasswordReset", { body: { email } }, "Error al solicitar el cambio de contraseña");
+}
+
+export async function confirmPasswordReset(token: string, password: string): Promise<void> {
+  await api("confirmPasswordReset", { body: { token, password } }, "Error al cambiar la contraseña");
+}
+
+export async function requestEmailVerification(): Promise<void> {
+  await api("requestEmailVerification", {}, "Error al enviar el email de verificación");
+}
+
+export async function confirmEmailVerification(token: string): Promise<SafeUser> {
+  const { user } = await api("confirmEmailVerification", { body: { token } }, "Error al verificar el email");
+  return user;
+}
+
+export async function setupTwoFactor(): Promise<TwoFactorSetup> {
+  return api("setupTwoFactor", {}, "Error al configurar la verificación en dos pasos");
+}
+
+export async function enableTwoFactor(code: string): Promise<{ user: SafeUser; recoveryCodes: string[] }> {
+  return api("enableTwoFactor", { body: { code } }, "Error al activar la verificación en dos pasos");
+}
+
+export async function disableTwoFactor(secondFactor: TwoFactorVerification): Promise<SafeUser> {
+  const { user } = await api("disableTwoFactor", { body: secondFactor }, "Error al desactivar la verificación en dos pasos");
+  return user;
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const { recoveryCodes } = await api("regenerateRecoveryCodes", { body: { code } }, "Error al generar los códigos de recuperación");
+  return recoveryCodes;
+}
+
+// Proves control of the wallet with a signature before attaching it to the account
+export async function linkWallet(address: string, chainId: number, signMessage: SignMessage): Promise<SafeUser> {
+  const fallbackError = "Error al vincular wallet";
+  const signed = await signSiweMessage(address, chainId, SIWE_STATEMENTS.linkWallet, signMessage, fallbackError);
+  const { user } = await api("linkWallet", { body: signed }, fallbackError);
+  return user;
+}
+
+export async function unlinkWallet(): Promise<SafeUser> {
+  const { user } = await api("unlinkWallet", {}, "Error al desvincular wallet");
+  return user;
+}
+
+// Downloads the personal data export as a file named by the server
+export async function downloadAccountData(format: "json" | "zip"): Promise<void> {
+  const response = await fetchWithAuth(`/api/account/export?format=${format}`);
   if (!response.ok) {
-    throw new Error(result.error || "Error al vincular wallet");
+    throw await readApiError(response, "Error al exportar tus datos");
   }
-  return result.user;
+  const filename = /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") ?? "")?.[1] ?? `veg21-datos.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
+// Signs the account out everywhere; returns when its data will be purged
+export async function deleteAccount(request: AccountDeletionRequest): Promise<Date> {
+  const { purgeAt } = await api("deleteAccount", { body: request }, "Error al eliminar la cuenta");
+  removeStoredToken();
+  return new Date(purgeAt);
+}
+
+// Revokes the session on the server without waiting for it; the local tokens
+// are dropped either way
 export function logoutUser(): void {
+  const refreshToken = getStoredRefreshToken();
+  if (refreshToken) {
+    // The tokens are dropped here either way, and the refresh token expires on
+    // its own if the server never hears of the logout
+    api("logout", { body: { refreshToken } }, "Error al cerrar sesión", { keepalive: true }).catch(() => {});
+  }
   removeStoredToken();
 }
@@ -0,0 +1,82 @@
+// Challenge Service for VEG21 dApp
+// Challenge catalog and the signed-in user's enrollment through the /api/challenges routes
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Coffee, Heart, Leaf, Utensils, type LucideIcon } from 'lucide-react';
+import { authorizedRequest, getStoredToken } from './auth';
+import type { Challenge, ChallengeCatalogEntry, ChallengeEnrollment, ChallengeProgress } from '@shared/schema';
+
+export type { Challenge, ChallengeCatalogEntry, ChallengeEnrollment, ChallengeProgress };
+
+export const CHALLENGES_KEY = '/api/challenges';
+export const MY_CHALLENGE_KEY = '/api/challenges/me';
+
+const CHALLENGE_ICONS: Record<string, LucideIcon> = {
+  leaf: Leaf,
+  coffee: Coffee,
+  heart: Heart,
+  utensils: Utensils,
+};
+
+export function getChallengeIcon(icon: string): LucideIcon {
+  return CHALLENGE_ICONS[icon] ?? Leaf;
+}
+
+export async function getChallengeCatalog(): Promise<ChallengeCatalogEntry[]> {
+  const { challenges } = await authorizedRequest<{ challenges: ChallengeCatalogEntry[] }>('GET', CHALLENGES_KEY, 'Error al obtener desafíos');
+  return challenges;
+}
+
+// The signed-in user's active enrollment, or null when signed out or not enrolled
+export async function getMyChallenge(): Promise<ChallengeEnrollment | null> {
+  if (!getStoredToken()) return null;
+  const { enrollment } = await authorizedRequest<{ enrollment: ChallengeEnrollment | null }>('GET', MY_CHALLENGE_KEY, 'Error al obtener tu desafío');
+  return enrollment;
+}
+
+export async function getUserChallenge(): Promise<Challenge | null> {
+  const enrollment = await getMyChallenge();
+  return enrollment?.challenge ?? null;
+}
+
+export async function getChallengeProgress(): Promise<ChallengeProgress | null> {
+  const enrollment = await getMyChallenge();
+  return enrollment?.progress ?? null;
+}
+
+export async function enrollInChallenge(challengeId: string): Promise<ChallengeEnrollment> {
+  const { enrollment } = await authorizedRequest<{ enrollment: ChallengeEnrollment }>(
+    'POST',
+    `${CHALLENGES_KEY}/${challengeId}/enroll`,
+    'Error al unirse al desafío'
+  );
+  return enrollment;
+}
+
+export function useChallengeCatalog() {
+  return useQuery({
+    queryKey: [CHALLENGES_KEY],
+    queryFn: getChallengeCatalog,
+    staleTime: 60_000,
+  });
+}
+
+export function useMyChallenge(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: [MY_CHALLENGE_KEY],
+    queryFn: getMyChallenge,
+    staleTime: 30_000,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useEnrollChallenge() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (challengeId: string) => enrollInChallenge(challengeId),
+    onSuccess: (enrollment) => {
+      queryClient.setQueryData([MY_CHALLENGE_KEY], enrollment);
+      queryClient.invalidateQueries({ queryKey: [CHALLENGES_KEY] });
+    },
+  });
+}
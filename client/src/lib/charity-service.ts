@@ -0,0 +1,23 @@
+// Charity Service for VEG21 dApp
+// Active charities for the community fund, managed from the admin console
+
+import { useQuery } from '@tanstack/react-query';
+import { authorizedRequest } from './auth';
+import type { Charity } from '@shared/schema';
+
+export type { Charity };
+
+export const CHARITIES_KEY = '/api/charities';
+
+export async function getCharities(): Promise<Charity[]> {
+  const { charities } = await authorizedRequest<{ charities: Charity[] }>('GET', CHARITIES_KEY, 'Error al obtener las organizaciones');
+  return charities;
+}
+
+export function useCharities() {
+  return useQuery({
+    queryKey: [CHARITIES_KEY],
+    queryFn: getCharities,
+    staleTime: 60_000,
+  });
+}
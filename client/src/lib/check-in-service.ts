@@ -0,0 +1,104 @@
+// Check-in Service for VEG21 dApp
+// Daily challenge check-ins, likes, approvals and comments through the /api/check-ins routes
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { authorizedRequest } from './auth';
+import { MY_CHALLENGE_KEY } from './challenge-service';
+import type { DailyCheckIn, CheckInComment, ChallengeEnrollment } from '@shared/schema';
+
+export type { DailyCheckIn, CheckInComment };
+
+export interface CreateCheckInData {
+  challengeId: string;
+  day: number;
+  description: string;
+  mediaId?: string;
+}
+
+export const CHECK_INS_KEY = '/api/check-ins';
+
+// Get all check-ins, newest first
+export async function getAllCheckIns(): Promise<DailyCheckIn[]> {
+  const { checkIns } = await authorizedRequest<{ checkIns: DailyCheckIn[] }>('GET', CHECK_INS_KEY, 'Error al obtener check-ins');
+  return checkIns;
+}
+
+export async function getUserCheckIns(userId: string): Promise<DailyCheckIn[]> {
+  const { checkIns } = await authorizedRequest<{ checkIns: DailyCheckIn[] }>(
+    'GET',
+    `${CHECK_INS_KEY}?userId=${encodeURIComponent(userId)}`,
+    'Error al obtener check-ins'
+  );
+  return checkIns;
+}
+
+// Registering the check-in completes the day; the server returns the updated enrollment
+export async function createCheckIn(data: CreateCheckInData): Promise<{ checkIn: DailyCheckIn; enrollment: ChallengeEnrollment }> {
+  return authorizedRequest<{ checkIn: DailyCheckIn; enrollment: ChallengeEnrollment }>('POST', CHECK_INS_KEY, 'Error al registrar check-in', data);
+}
+
+// Toggle like, returns the new like state
+export async function likeCheckIn(checkInId: string): Promise<boolean> {
+  const { liked } = await authorizedRequest<{ liked: boolean }>('POST', `${CHECK_INS_KEY}/${checkInId}/like`, 'Error al dar like');
+  return liked;
+}
+
+// Toggle approval, returns the new approval state
+export async function approveCheckIn(checkInId: string): Promise<boolean> {
+  const { approved } = await authorizedRequest<{ approved: boolean }>('POST', `${CHECK_INS_KEY}/${checkInId}/approve`, 'Error al validar check-in');
+  return approved;
+}
+
+export async function addCheckInComment(checkInId: string, content: string): Promise<CheckInComment> {
+  const { comment } = await authorizedRequest<{ comment: CheckInComment }>(
+    'POST',
+    `${CHECK_INS_KEY}/${checkInId}/comments`,
+    'Error al comentar',
+    { content }
+  );
+  return comment;
+}
+
+export function useCheckIns(userId?: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: [CHECK_INS_KEY, userId ?? 'all'],
+    queryFn: () => (userId ? getUserCheckIns(userId) : getAllCheckIns()),
+    staleTime: 30_000,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCreateCheckIn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateCheckInData) => createCheckIn(data),
+    onSuccess: ({ enrollment }) => {
+      queryClient.setQueryData([MY_CHALLENGE_KEY], enrollment);
+      queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] });
+    },
+  });
+}
+
+export function useLikeCheckIn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (checkInId: string) => likeCheckIn(checkInId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] }),
+  });
+}
+
+export function useApproveCheckIn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (checkInId: string) => approveCheckIn(checkInId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] }),
+  });
+}
+
+export function useAddCheckInComment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ checkInId, content }: { checkInId: string; content: string }) => addCheckInComment(checkInId, content),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CHECK_INS_KEY] }),
+  });
+}
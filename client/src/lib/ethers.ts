@@ -1,3 +1,4 @@
+import { hexlify, toUtf8Bytes } from 'ethers';
 import { getDefaultNetwork, switchToNetwork, type ChainConfig } from '@/config/chainConfig';
 
 declare global {
@@ -259,6 +260,20 @@ export class EthersService {
     window.ethereum.removeAllListeners('chainChanged');
   }
 
+  /**
+   * Ask the wallet to sign a plain-text message (EIP-191 personal_sign)
+   */
+  async signMessage(address: string, message: string): Promise<string> {
+    if (!window.ethereum) {
+      throw new Error('MetaMask is not installed!');
+    }
+
+    return window.ethereum.request({
+      method: 'personal_sign',
+      params: [hexlify(toUtf8Bytes(message)), address],
+    });
+  }
+
   formatAddress(address: string): string {
     if (!address) return '';
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
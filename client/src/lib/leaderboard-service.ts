@@ -0,0 +1,34 @@
+// Leaderboard Service for VEG21 dApp
+// Global ranking from /api/leaderboard and reporting of wallet activity that feeds it
+
+import { useQuery } from '@tanstack/react-query';
+import { authorizedRequest, getStoredToken } from './auth';
+import type { GlobalImpactStats, LeaderboardPage, LeaderboardUser, WalletActivityType } from '@shared/schema';
+
+export type { GlobalImpactStats, LeaderboardPage, LeaderboardUser, WalletActivityType };
+
+export const LEADERBOARD_KEY = '/api/leaderboard';
+
+export async function getLeaderboard(page = 1, limit = 20): Promise<LeaderboardPage> {
+  return authorizedRequest<LeaderboardPage>('GET', `${LEADERBOARD_KEY}?page=${page}&limit=${limit}`, 'Error al obtener el ranking');
+}
+
+// Reports a confirmed donation or staking movement. The server checks the
+// transaction on-chain before it counts towards the ranking; the on-chain action
+// already succeeded, so a failure here is only logged.
+export async function recordWalletActivity(type: WalletActivityType, amount: number, txHash: string): Promise<void> {
+  if (!getStoredToken() || amount <= 0) return;
+  try {
+    await authorizedRequest('POST', '/api/wallet/activity', 'Error al registrar actividad', { type, amount, txHash });
+  } catch (error) {
+    console.warn('Failed to record wallet activity:', error);
+  }
+}
+
+export function useLeaderboard(page = 1, limit = 20) {
+  return useQuery({
+    queryKey: [LEADERBOARD_KEY, page, limit],
+    queryFn: () => getLeaderboard(page, limit),
+    staleTime: 30_000,
+  });
+}
@@ -0,0 +1,44 @@
+// Media Service for VEG21 dApp
+// Image uploads for check-ins and posts through the /api/media routes
+
+import { useMutation } from '@tanstack/react-query';
+import { fetchWithAuth } from './auth';
+import { readApiError } from './api-errors';
+import { MAX_MEDIA_UPLOAD_BYTES, mediaMimeTypes, type UploadedMedia } from '@shared/schema';
+
+export type { UploadedMedia };
+
+export const MEDIA_KEY = '/api/media';
+
+// Value for the accept attribute of a file input
+export const ACCEPTED_IMAGE_TYPES = mediaMimeTypes.join(',');
+
+// Rejects what the server would refuse anyway before sending the bytes. The
+// server checks the file contents, not the browser's guess of its type.
+export function checkImageFile(file: File): string | undefined {
+  if (!(mediaMimeTypes as readonly string[]).includes(file.type)) {
+    return 'Formato no admitido. Usa JPEG, PNG o WebP.';
+  }
+  if (file.size > MAX_MEDIA_UPLOAD_BYTES) {
+    return `La imagen no puede superar los ${MAX_MEDIA_UPLOAD_BYTES / (1024 * 1024)} MB`;
+  }
+  return undefined;
+}
+
+// Uploads an image; its id can then go in a new check-in or post
+export async function uploadMedia(file: File): Promise<UploadedMedia> {
+  const body = new FormData();
+  body.append('file', file);
+  const response = await fetchWithAuth(MEDIA_KEY, { method: 'POST', body });
+  if (!response.ok) {
+    throw await readApiError(response, 'Error al subir la imagen');
+  }
+  const { media } = await response.json();
+  return media;
+}
+
+export function useUploadMedia() {
+  return useMutation({
+    mutationFn: (file: File) => uploadMedia(file),
+  });
+}
@@ -0,0 +1,86 @@
+// Notification Service for VEG21 dApp
+// In-app notifications and their per-type preferences through the /api/notifications routes
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { authorizedRequest } from './auth';
+import type { NotificationPage, NotificationPreferences, NotificationType, UserNotification } from '@shared/schema';
+
+export type { NotificationPage, NotificationPreferences, NotificationType, UserNotification };
+
+export const NOTIFICATIONS_KEY = '/api/notifications';
+export const NOTIFICATION_PREFERENCES_KEY = '/api/notifications/preferences';
+
+// Latest notifications, newest first, with the total still unread
+export async function getNotifications(limit = 20): Promise<NotificationPage> {
+  return authorizedRequest<NotificationPage>('GET', `${NOTIFICATIONS_KEY}?limit=${limit}`, 'Error al obtener notificaciones');
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  await authorizedRequest('POST', `${NOTIFICATIONS_KEY}/${notificationId}/read`, 'Error al marcar la notificación');
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await authorizedRequest('POST', `${NOTIFICATIONS_KEY}/read-all`, 'Error al marcar las notificaciones');
+}
+
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  const { preferences } = await authorizedRequest<{ preferences: NotificationPreferences }>(
+    'GET',
+    NOTIFICATION_PREFERENCES_KEY,
+    'Error al obtener las preferencias'
+  );
+  return preferences;
+}
+
+// Only the types sent change; returns every type's setting
+export async function updateNotificationPreferences(changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+  const { preferences } = await authorizedRequest<{ preferences: NotificationPreferences }>(
+    'PATCH',
+    NOTIFICATION_PREFERENCES_KEY,
+    'Error al guardar las preferencias',
+    changes
+  );
+  return preferences;
+}
+
+// New ones arrive through the live event stream, which invalidates this query
+export function useNotifications(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: [NOTIFICATIONS_KEY],
+    queryFn: () => getNotifications(),
+    staleTime: 60_000,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (notificationId: string) => markNotificationRead(notificationId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_KEY] }),
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => markAllNotificationsRead(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_KEY] }),
+  });
+}
+
+export function useNotificationPreferences(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: [NOTIFICATION_PREFERENCES_KEY],
+    queryFn: getNotificationPreferences,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (changes: Partial<NotificationPreferences>) => updateNotificationPreferences(changes),
+    onSuccess: (preferences) => queryClient.setQueryData([NOTIFICATION_PREFERENCES_KEY], preferences),
+  });
+}
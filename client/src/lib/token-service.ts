@@ -0,0 +1,28 @@
+// Token Service for VEG21 dApp
+// The user's token balance and its history from the server-side ledger
+
+import { useQuery } from '@tanstack/react-query';
+import { authorizedRequest } from './auth';
+import type { TokenLedgerEntry, TokenLedgerEntryType } from '@shared/schema';
+
+export type { TokenLedgerEntry, TokenLedgerEntryType };
+
+export interface TokenLedger {
+  balance: number;
+  // Newest first
+  entries: TokenLedgerEntry[];
+}
+
+export const TOKEN_LEDGER_KEY = '/api/tokens/ledger';
+
+export async function getTokenLedger(): Promise<TokenLedger> {
+  return authorizedRequest<TokenLedger>('GET', TOKEN_LEDGER_KEY, 'Error al obtener el historial de tokens');
+}
+
+export function useTokenLedger(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: [TOKEN_LEDGER_KEY],
+    queryFn: getTokenLedger,
+    enabled: options.enabled ?? true,
+  });
+}
@@ -0,0 +1,703 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Building2, ChevronLeft, ChevronRight, Coins, Link2, Loader2, Pencil, Plus, Search, ShieldAlert, ShieldCheck, Target, Users } from "lucide-react";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useChallengeCatalog, getChallengeIcon } from "@/lib/challenge-service";
+import {
+  useAdminChain,
+  useAdminCharities,
+  useAdminUsers,
+  useOwnerTransaction,
+  useSaveChallenge,
+  useSaveCharity,
+  useSetUserActive,
+  useVerifiers,
+  type AdminTransactionRequest,
+} from "@/lib/admin-service";
+import {
+  challengeDifficulties,
+  challengeStatuses,
+  hasRole,
+  onChainChallengeTypes,
+  type Challenge,
+  type Charity,
+  type NewChallenge,
+  type SafeUser,
+} from "@shared/schema";
+import { MAX_STAKING_REWARD_RATE_BASIS_POINTS } from "@shared/owner-contracts";
+
+const USERS_PAGE_SIZE = 20;
+
+const CHALLENGE_STATUS_LABELS: Record<string, string> = {
+  active: "Activo",
+  upcoming: "Próximamente",
+  retired: "Retirado",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Inténtalo de nuevo";
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Prepares an owner transaction on the server and sends it from the connected
+// wallet. Disabled in demo mode, where the server has no network.
+function useOwnerAction() {
+  const { toast } = useToast();
+  const { data: chain } = useAdminChain();
+  const ownerTransaction = useOwnerTransaction();
+
+  const run = (request: AdminTransactionRequest) => {
+    ownerTransaction.mutate(request, {
+      onSuccess: ({ hash, transaction }) => {
+        toast({ title: "Transacción confirmada", description: `${transaction.description} (${shortAddress(hash)})` });
+      },
+      onError: (error) => {
+        toast({ title: "No se pudo completar la transacción", description: errorMessage(error), variant: "destructive" });
+      },
+    });
+  };
+
+  return {
+    run,
+    available: chain?.chainId != null,
+    pending: ownerTransaction.isPending,
+  };
+}
+
+const emptyCharity = { name: "", description: "", imageUrl: "", walletAddress: "" };
+
+function CharitiesTab() {
+  const { toast } = useToast();
+  const { data: charities = [], isLoading } = useAdminCharities();
+  const saveCharity = useSaveCharity();
+  const ownerAction = useOwnerAction();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyCharity);
+  const [showForm, setShowForm] = useState(false);
+
+  const openForm = (charity?: Charity) => {
+    setEditingId(charity?.id ?? null);
+    setForm(charity
+      ? { name: charity.name, description: charity.description, imageUrl: charity.imageUrl ?? "", walletAddress: charity.walletAddress ?? "" }
+      : emptyCharity);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const data = {
+      name: form.name,
+      description: form.description,
+      imageUrl: form.imageUrl.trim() || null,
+      walletAddress: form.walletAddress.trim() || null,
+    };
+    saveCharity.mutate(editingId ? { id: editingId, data } : { data }, {
+      onSuccess: () => {
+        toast({ title: editingId ? "Organización actualizada" : "Organización creada" });
+        setShowForm(false);
+      },
+      onError: (error) => toast({ title: "No se pudo guardar", description: errorMessage(error), variant: "destructive" }),
+    });
+  };
+
+  const toggleActive = (charity: Charity) => {
+    saveCharity.mutate({ id: charity.id, data: { isActive: !charity.isActive } }, {
+      onError: (error) => toast({ title: "No se pudo actualizar", description: errorMessage(error), variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm()} data-testid="button-new-charity">
+          <Plus className="w-4 h-4 mr-2" />
+          Nueva organización
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? "Editar organización" : "Nueva organización"}</CardTitle>
+            <CardDescription>Los cambios de nombre o wallet no se reflejan on-chain en organizaciones ya registradas.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="charity-name">Nombre</Label>
+                <Input id="charity-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} data-testid="input-charity-name" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="charity-description">Descripción</Label>
+                <Textarea id="charity-description" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-charity-description" />
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="charity-image">URL de imagen</Label>
+                  <Input id="charity-image" value={form.imageUrl} onChange={(e) => setForm({ ...form, imageUrl: e.target.value })} data-testid="input-charity-image" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="charity-wallet">Wallet de la organización</Label>
+                  <Input id="charity-wallet" placeholder="0x..." value={form.walletAddress} onChange={(e) => setForm({ ...form, walletAddress: e.target.value })} data-testid="input-charity-wallet" />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>Cancelar</Button>
+                <Button type="submit" disabled={saveCharity.isPending} data-testid="button-save-charity">
+                  {saveCharity.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Guardar
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-veg-primary" /></div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {charities.map((charity) => (
+            <Card key={charity.id} data-testid={`admin-charity-${charity.id}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg">{charity.name}</CardTitle>
+                  <div className="flex gap-1 shrink-0">
+                    {charity.onChainId !== null && <Badge variant="outline">On-chain #{charity.onChainId}</Badge>}
+                    <Badge variant={charity.isActive ? "default" : "secondary"}>{charity.isActive ? "Activa" : "Inactiva"}</Badge>
+                  </div>
+                </div>
+                <CardDescription className="line-clamp-2">{charity.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-xs text-gray-500">
+                  Wallet: {charity.walletAddress ? shortAddress(charity.walletAddress) : "sin configurar"}
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openForm(charity)} data-testid={`button-edit-charity-${charity.id}`}>
+                    <Pencil className="w-3 h-3 mr-1" />
+                    Editar
+                  </Button>
+                  {charity.onChainId === null ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!ownerAction.available || ownerAction.pending || !charity.walletAddress}
+                      onClick={() => ownerAction.run({ action: "registerCharity", charityId: charity.id })}
+                      data-testid={`button-register-charity-${charity.id}`}
+                    >
+                      <Link2 className="w-3 h-3 mr-1" />
+                      Registrar on-chain
+                    </Button>
+                  ) : charity.isActive && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600"
+                      disabled={!ownerAction.available || ownerAction.pending}
+                      onClick={() => ownerAction.run({ action: "deactivateCharity", charityId: charity.id })}
+                      data-testid={`button-deactivate-charity-${charity.id}`}
+                    >
+                      Desactivar on-chain
+                    </Button>
+                  )}
+                  <div className="flex items-center gap-2 ml-auto">
+                    <Label htmlFor={`charity-active-${charity.id}`} className="text-xs text-gray-600">Visible</Label>
+                    <Switch id={`charity-active-${charity.id}`} checked={charity.isActive} onCheckedChange={() => toggleActive(charity)} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const emptyChallenge: NewChallenge = {
+  id: "",
+  title: "",
+  description: "",
+  difficulty: "Principiante",
+  icon: "leaf",
+  onChainType: onChainChallengeTypes.MeatFree,
+  durationDays: 21,
+  rewardAmount: 600,
+  status: "active",
+};
+
+function ChallengesTab() {
+  const { toast } = useToast();
+  const { data: challenges = [], isLoading } = useChallengeCatalog();
+  const saveChallenge = useSaveChallenge();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<NewChallenge>(emptyChallenge);
+  const [showForm, setShowForm] = useState(false);
+
+  const openForm = (challenge?: Challenge) => {
+    setEditingId(challenge?.id ?? null);
+    setForm(challenge
+      ? {
+          id: challenge.id,
+          title: challenge.title,
+          description: challenge.description,
+          difficulty: challenge.difficulty as NewChallenge["difficulty"],
+          icon: challenge.icon,
+          onChainType: challenge.onChainType as NewChallenge["onChainType"],
+          durationDays: challenge.durationDays,
+          rewardAmount: challenge.rewardAmount,
+          status: challenge.status as NewChallenge["status"],
+        }
+      : emptyChallenge);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveChallenge.mutate({ id: editingId ?? undefined, data: form }, {
+      onSuccess: () => {
+        toast({ title: editingId ? "Desafío actualizado" : "Desafío creado" });
+        setShowForm(false);
+      },
+      onError: (error) => toast({ title: "No se pudo guardar", description: errorMessage(error), variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm()} data-testid="button-new-challenge">
+          <Plus className="w-4 h-4 mr-2" />
+          Nuevo desafío
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? "Editar desafío" : "Nuevo desafío"}</CardTitle>
+            <CardDescription>El tipo on-chain determina qué desafío del contrato VEG21Rewards se usa al verificar.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="challenge-id">Identificador</Label>
+                  <Input id="challenge-id" value={form.id} disabled={!!editingId} placeholder="mi_desafio" onChange={(e) => setForm({ ...form, id: e.target.value })} data-testid="input-challenge-id" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="challenge-title">Título</Label>
+                  <Input id="challenge-title" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} data-testid="input-challenge-title" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="challenge-description">Descripción</Label>
+                <Textarea id="challenge-description" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-challenge-description" />
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Dificultad</Label>
+                  <Select value={form.difficulty} onValueChange={(value) => setForm({ ...form, difficulty: value as NewChallenge["difficulty"] })}>
+                    <SelectTrigger data-testid="select-challenge-difficulty"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {challengeDifficulties.map((difficulty) => <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Tipo on-chain</Label>
+                  <Select value={String(form.onChainType)} onValueChange={(value) => setForm({ ...form, onChainType: Number(value) as NewChallenge["onChainType"] })}>
+                    <SelectTrigger data-testid="select-challenge-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(onChainChallengeTypes).map(([name, value]) => <SelectItem key={name} value={String(value)}>{name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Estado</Label>
+                  <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as NewChallenge["status"] })}>
+                    <SelectTrigger data-testid="select-challenge-status"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {challengeStatuses.map((status) => <SelectItem key={status} value={status}>{CHALLENGE_STATUS_LABELS[status]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="challenge-icon">Icono</Label>
+                  <Input id="challenge-icon" value={form.icon} onChange={(e) => setForm({ ...form, icon: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="challenge-duration">Duración (días)</Label>
+                  <Input id="challenge-duration" type="number" min={1} value={form.durationDays} onChange={(e) => setForm({ ...form, durationDays: Number(e.target.value) })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="challenge-reward">Recompensa (VEG21)</Label>
+                  <Input id="challenge-reward" type="number" min={0} value={form.rewardAmount} onChange={(e) => setForm({ ...form, rewardAmount: Number(e.target.value) })} />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>Cancelar</Button>
+                <Button type="submit" disabled={saveChallenge.isPending} data-testid="button-save-challenge">
+                  {saveChallenge.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Guardar
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-veg-primary" /></div>
+      ) : (
+        <div className="space-y-3">
+          {challenges.map((challenge) => {
+            const Icon = getChallengeIcon(challenge.icon);
+            return (
+              <Card key={challenge.id} data-testid={`admin-challenge-${challenge.id}`}>
+                <CardContent className="flex items-center gap-4 py-4">
+                  <Icon className="w-6 h-6 text-veg-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">{challenge.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {challenge.id} · {challenge.difficulty} · {challenge.durationDays} días · {challenge.rewardAmount} VEG21 · {challenge.participants} participantes
+                    </p>
+                  </div>
+                  <Badge variant={challenge.status === "active" ? "default" : "secondary"}>
+                    {CHALLENGE_STATUS_LABELS[challenge.status] ?? challenge.status}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => openForm(challenge)} data-testid={`button-edit-challenge-${challenge.id}`}>
+                    <Pencil className="w-3 h-3 mr-1" />
+                    Editar
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UsersTab() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useAdminUsers(query, page, USERS_PAGE_SIZE);
+  const setUserActive = useSetUserActive();
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setQuery(search);
+    setPage(1);
+  };
+
+  const toggleActive = (user: SafeUser) => {
+    setUserActive.mutate({ id: user.id, isActive: !user.isActive }, {
+      onSuccess: (updated) => toast({ title: updated.isActive ? "Cuenta reactivada" : "Cuenta desactivada", description: updated.name }),
+      onError: (error) => toast({ title: "No se pudo actualizar", description: errorMessage(error), variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <Input placeholder="Nombre, email o wallet" value={search} onChange={(e) => setSearch(e.target.value)} data-testid="input-user-search" />
+        <Button type="submit" variant="outline" data-testid="button-user-search">
+          <Search className="w-4 h-4" />
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-veg-primary" /></div>
+      ) : (
+        <div className="space-y-3">
+          {data?.users.length === 0 && <p className="text-center text-gray-500 py-8">No se encontraron usuarios</p>}
+          {data?.users.map((user) => (
+            <Card key={user.id} data-testid={`admin-user-${user.id}`}>
+              <CardContent className="flex items-center gap-4 py-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{user.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {user.email ?? "sin email"}{user.walletAddress && ` · ${shortAddress(user.walletAddress)}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  {user.roles.map((role) => <Badge key={role} variant="outline">{role}</Badge>)}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className={user.isActive ? "text-red-600" : ""}
+                  disabled={user.id === currentUser?.id || setUserActive.isPending}
+                  onClick={() => toggleActive(user)}
+                  data-testid={`button-toggle-user-${user.id}`}
+                >
+                  {user.isActive ? "Desactivar" : "Reactivar"}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-600">Página {page} de {totalPages}</span>
+          <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VerifiersTab() {
+  const { data: verifiers = [], isLoading } = useVerifiers();
+  const ownerAction = useOwnerAction();
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Los verificadores se asignan con el rol <Badge variant="outline">verifier</Badge>. Para que puedan aprobar desafíos on-chain,
+        su wallet también debe estar autorizada en VEG21Rewards.
+      </p>
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-veg-primary" /></div>
+      ) : verifiers.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No hay usuarios con el rol de verificador</p>
+      ) : (
+        <div className="space-y-3">
+          {verifiers.map((verifier) => (
+            <Card key={verifier.id} data-testid={`admin-verifier-${verifier.id}`}>
+              <CardContent className="flex items-center gap-4 py-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{verifier.name}</p>
+                  <p className="text-xs text-gray-500">{verifier.walletAddress ? shortAddress(verifier.walletAddress) : "sin wallet vinculada"}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!ownerAction.available || ownerAction.pending || !verifier.walletAddress}
+                  onClick={() => ownerAction.run({ action: "addVerifier", userId: verifier.id })}
+                  data-testid={`button-add-verifier-${verifier.id}`}
+                >
+                  Autorizar on-chain
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600"
+                  disabled={!ownerAction.available || ownerAction.pending || !verifier.walletAddress}
+                  onClick={() => ownerAction.run({ action: "removeVerifier", userId: verifier.id })}
+                  data-testid={`button-remove-verifier-${verifier.id}`}
+                >
+                  Retirar on-chain
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ContractsTab() {
+  const { data: chain } = useAdminChain();
+  const ownerAction = useOwnerAction();
+  const [dailyReward, setDailyReward] = useState("10");
+  const [completionBonus, setCompletionBonus] = useState("100");
+  const [ratePercent, setRatePercent] = useState("5");
+
+  const submitRewards = (event: FormEvent) => {
+    event.preventDefault();
+    ownerAction.run({ action: "setRewardAmounts", dailyReward: Number(dailyReward), completionBonus: Number(completionBonus) });
+  };
+
+  const submitRate = (event: FormEvent) => {
+    event.preventDefault();
+    ownerAction.run({ action: "setRewardRate", rateBasisPoints: Math.round(Number(ratePercent) * 100) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Red</CardTitle>
+          <CardDescription>
+            {chain?.chainId != null
+              ? `${chain.networkName} (chain ${chain.chainId}). Las transacciones se firman con la wallet propietaria de los contratos.`
+              : "Modo demo: las operaciones on-chain están desactivadas."}
+          </CardDescription>
+        </CardHeader>
+        {chain && (
+          <CardContent className="space-y-1 text-sm">
+            {Object.entries(chain.contracts).map(([contract, address]) => (
+              <p key={contract} className="flex justify-between">
+                <span className="text-gray-600">{contract}</span>
+                <span className="font-mono text-xs">{address ? shortAddress(address) : "sin desplegar"}</span>
+              </p>
+            ))}
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recompensas de desafíos</CardTitle>
+            <CardDescription>VEG21Rewards.setRewardAmounts, en tokens VEG21</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={submitRewards} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="daily-reward">Recompensa diaria</Label>
+                <Input id="daily-reward" type="number" min={1} value={dailyReward} onChange={(e) => setDailyReward(e.target.value)} data-testid="input-daily-reward" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="completion-bonus">Bono por completar</Label>
+                <Input id="completion-bonus" type="number" min={1} value={completionBonus} onChange={(e) => setCompletionBonus(e.target.value)} data-testid="input-completion-bonus" />
+              </div>
+              <Button type="submit" disabled={!ownerAction.available || ownerAction.pending} data-testid="button-set-reward-amounts">
+                {ownerAction.pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Firmar y enviar
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tasa de staking</CardTitle>
+            <CardDescription>VEG21Staking.setRewardRate, máximo {MAX_STAKING_REWARD_RATE_BASIS_POINTS / 100}% anual</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={submitRate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reward-rate">Tasa anual (%)</Label>
+                <Input
+                  id="reward-rate"
+                  type="number"
+                  min={0}
+                  max={MAX_STAKING_REWARD_RATE_BASIS_POINTS / 100}
+                  step="0.01"
+                  value={ratePercent}
+                  onChange={(e) => setRatePercent(e.target.value)}
+                  data-testid="input-reward-rate"
+                />
+              </div>
+              <Button type="submit" disabled={!ownerAction.available || ownerAction.pending} data-testid="button-set-reward-rate">
+                {ownerAction.pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Firmar y enviar
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function Admin() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-veg-light to-green-50">
+        <Header />
+        <div className="flex justify-center py-24"><Loader2 className="w-8 h-8 animate-spin text-veg-primary" /></div>
+      </div>
+    );
+  }
+
+  if (!user || !hasRole(user, "admin")) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-veg-light to-green-50">
+        <Header />
+        <div className="max-w-xl mx-auto py-24 px-4 text-center" data-testid="admin-forbidden">
+          <ShieldAlert className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-veg-dark mb-2">Acceso restringido</h1>
+          <p className="text-gray-600 mb-6">Esta sección solo está disponible para administradores.</p>
+          <Link href="/">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Volver al inicio
+            </Button>
+          </Link>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-veg-light to-green-50">
+      <Header />
+      <main className="max-w-6xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center gap-3 mb-8">
+          <ShieldCheck className="w-8 h-8 text-veg-primary" />
+          <h1 className="text-3xl font-bold text-veg-dark">Administración</h1>
+        </div>
+
+        <Tabs defaultValue="charities" className="space-y-6">
+          <TabsList className="flex flex-wrap h-auto">
+            <TabsTrigger value="charities" data-testid="tab-admin-charities">
+              <Building2 className="w-4 h-4 mr-2" />
+              Organizaciones
+            </TabsTrigger>
+            <TabsTrigger value="challenges" data-testid="tab-admin-challenges">
+              <Target className="w-4 h-4 mr-2" />
+              Desafíos
+            </TabsTrigger>
+            <TabsTrigger value="users" data-testid="tab-admin-users">
+              <Users className="w-4 h-4 mr-2" />
+              Usuarios
+            </TabsTrigger>
+            <TabsTrigger value="verifiers" data-testid="tab-admin-verifiers">
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Verificadores
+            </TabsTrigger>
+            <TabsTrigger value="contracts" data-testid="tab-admin-contracts">
+              <Coins className="w-4 h-4 mr-2" />
+              Contratos
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="charities"><CharitiesTab /></TabsContent>
+          <TabsContent value="challenges"><ChallengesTab /></TabsContent>
+          <TabsContent value="users"><UsersTab /></TabsContent>
+          <TabsContent value="verifiers"><VerifiersTab /></TabsContent>
+          <TabsContent value="contracts"><ContractsTab /></TabsContent>
+        </Tabs>
+      </main>
+      <Footer />
+    </div>
+  );
+}
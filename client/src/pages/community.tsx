@@ -1,12 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useWallet } from "@/hooks/use-wallet";
+import { useAuth } from "@/hooks/use-auth";
 import { Header } from "@/components/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { communityService, CommunityPost } from "@/lib/community-service";
+import { communityService, useCommunityPosts, CommunityPost } from "@/lib/community-service";
 import { RecipeForm } from "@/components/recipe-form";
 import { PostInteractions } from "@/components/post-interactions";
 import { CommunityActivityFeed } from "@/components/community-activity-feed";
@@ -28,36 +29,16 @@ type PostFilter = 'all' | 'recipe' | 'tip' | 'experience';
 
 export default function Community() {
   const { isConnected, formattedAddress } = useWallet();
-  const [posts, setPosts] = useState<CommunityPost[]>([]);
+  const { user } = useAuth();
   const [showRecipeForm, setShowRecipeForm] = useState(false);
   const [filter, setFilter] = useState<PostFilter>('all');
-  const [refreshKey, setRefreshKey] = useState(0);
 
-  // Load posts when component mounts or refreshKey changes
-  useEffect(() => {
-    loadPosts();
-  }, [refreshKey]);
-
-  // Initialize sample data if needed
-  useEffect(() => {
-    communityService.initializeSampleData();
-    loadPosts();
-  }, []);
-
-  const loadPosts = () => {
-    const allPosts = filter === 'all' 
-      ? communityService.getPosts()
-      : communityService.getPostsByType(filter);
-    setPosts(allPosts);
-  };
+  const { data: allPosts = [] } = useCommunityPosts();
+  const { data: filteredPosts = [] } = useCommunityPosts(filter === 'all' ? undefined : filter);
+  const posts = filter === 'all' ? allPosts : filteredPosts;
 
   const handleNewPost = () => {
     setShowRecipeForm(false);
-    setRefreshKey(prev => prev + 1); // Trigger refresh
-  };
-
-  const handleInteraction = () => {
-    setRefreshKey(prev => prev + 1); // Trigger refresh after like/comment
   };
 
   const getPostTypeIcon = (type: CommunityPost['type']) => {
@@ -89,12 +70,12 @@ export default function Community() {
     }
   };
 
-  const communityStats = communityService.getCommunityStats();
+  const communityStats = communityService.getCommunityStats(allPosts);
   
   // In demo/dev mode, allow access without wallet connection
   const isDemoMode = import.meta.env.DEV;
   const canAccessCommunity = isDemoMode || isConnected;
-  const userId = formattedAddress || 'demo_user';
+  const userId = user?.id || '';
 
   if (!canAccessCommunity) {
     return (
@@ -198,7 +179,7 @@ export default function Community() {
             <CommunityActivityFeed 
               maxHeight="400px" 
               showTitle={true}
-              currentUserId={userId}
+              currentUserId={formattedAddress || 'demo_user'}
             />
           </div>
 
@@ -314,8 +295,18 @@ export default function Community() {
                         </div>
                       )}
 
-                      {/* Mock Image Display */}
-                      {post.imageUrl && (
+                      {/* Uploaded image; older posts only carry a file name */}
+                      {post.mediaId ? (
+                        <a href={post.imageUrl} target="_blank" rel="noopener noreferrer" className="block rounded-lg overflow-hidden border border-gray-200">
+                          <img
+                            src={post.thumbnailUrl ?? post.imageUrl}
+                            alt={post.title}
+                            loading="lazy"
+                            className="w-full max-h-96 object-cover"
+                            data-testid={`img-post-${post.id}`}
+                          />
+                        </a>
+                      ) : post.imageUrl && (
                         <div className="bg-gray-100 p-4 rounded-lg border-2 border-dashed border-gray-300 text-center">
                           <div className="text-gray-500 text-sm">
                             📸 Imagen: {post.imageUrl}
@@ -329,7 +320,6 @@ export default function Community() {
                       <PostInteractions 
                         post={post} 
                         currentUserId={userId}
-                        onInteraction={handleInteraction}
                       />
                     </CardContent>
                   </Card>
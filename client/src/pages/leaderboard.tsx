@@ -1,243 +1,32 @@
-import { useState, useEffect } from "react";
-import { Trophy, Medal, Crown, TrendingUp, Coins, Heart, DollarSign, RefreshCw, ArrowLeft } from "lucide-react";
+import { useState } from "react";
+import { Trophy, Medal, Crown, TrendingUp, Coins, Heart, DollarSign, RefreshCw, ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
-import { useWallet } from "@/hooks/use-wallet";
+import { useAuth } from "@/hooks/use-auth";
 import { formatTokenAmount } from "@/lib/mockWeb3";
+import { ethersService } from "@/lib/ethers";
+import { useLeaderboard } from "@/lib/leaderboard-service";
 import { Link } from "wouter";
 
-interface LeaderboardUser {
-  id: string;
-  username: string;
-  address: string;
-  tokensEarned: number;
-  tokensDonated: number;
-  stakingRewards: number;
-  totalScore: number;
-  isCurrentUser?: boolean;
-}
-
-interface GlobalImpactStats {
-  totalRewardsDistributed: number;
-  totalTokensDonated: number;
-  totalTokensStaked: number;
-  totalUsers: number;
-  lastUpdated: Date;
-}
-
-// Storage key for leaderboard persistence
-const LEADERBOARD_STORAGE_KEY = 'veg21_leaderboard_data';
-const IMPACT_STATS_STORAGE_KEY = 'veg21_global_impact_stats';
+const PAGE_SIZE = 20;
 
 export default function Leaderboard() {
-  const { isConnected, mockWeb3, formattedAddress } = useWallet();
-  const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>([]);
-  const [globalStats, setGlobalStats] = useState<GlobalImpactStats | null>(null);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [currentUserRank, setCurrentUserRank] = useState<number | null>(null);
-
-  // Generate mock users for global leaderboard
-  const generateMockUsers = (): LeaderboardUser[] => {
-    const mockUsers: Omit<LeaderboardUser, 'totalScore'>[] = [
-      {
-        id: 'user1',
-        username: 'EcoWarrior2024',
-        address: '0x742d35Cc6C6C3C69D4321e9c1B2A6e3B5F8C9D1a',
-        tokensEarned: 2847,
-        tokensDonated: 892,
-        stakingRewards: 156
-      },
-      {
-        id: 'user2', 
-        username: 'VeganChampion',
-        address: '0x89abcdef12345678901234567890abcdef123456',
-        tokensEarned: 2634,
-        tokensDonated: 756,
-        stakingRewards: 143
-      },
-      {
-        id: 'user3',
-        username: 'PlantPowerMX',
-        address: '0x234567890abcdef1234567890abcdef1234567890',
-        tokensEarned: 2391,
-        tokensDonated: 634,
-        stakingRewards: 127
-      },
-      {
-        id: 'user4',
-        username: 'GreenChef_Buenos',
-        address: '0x345678901234567890abcdef1234567890abcdef',
-        tokensEarned: 2156,
-        tokensDonated: 543,
-        stakingRewards: 98
-      },
-      {
-        id: 'user5',
-        username: 'SustainableSoul',
-        address: '0x456789012345678901234567890abcdef123456789',
-        tokensEarned: 1934,
-        tokensDonated: 487,
-        stakingRewards: 89
-      },
-      {
-        id: 'user6',
-        username: 'EcoFriendly_Lima',
-        address: '0x567890123456789012345678901234567890abcdef',
-        tokensEarned: 1823,
-        tokensDonated: 432,
-        stakingRewards: 76
-      },
-      {
-        id: 'user7',
-        username: 'VeggiePower',
-        address: '0x678901234567890123456789012345678901234567',
-        tokensEarned: 1687,
-        tokensDonated: 389,
-        stakingRewards: 67
-      },
-      {
-        id: 'user8',
-        username: 'AnimalProtector',
-        address: '0x789012345678901234567890123456789012345678',
-        tokensEarned: 1543,
-        tokensDonated: 345,
-        stakingRewards: 54
-      }
-    ];
-
-    return mockUsers.map(user => ({
-      ...user,
-      totalScore: user.tokensEarned + user.tokensDonated + user.stakingRewards
-    }));
-  };
-
-  // Create current user data from mockWeb3
-  const createCurrentUserData = (): LeaderboardUser | null => {
-    if (!isConnected || !mockWeb3.isInitialized) return null;
-
-    const currentUser: LeaderboardUser = {
-      id: 'current',
-      username: 'Tú',
-      address: formattedAddress || 'Tu Wallet',
-      tokensEarned: mockWeb3.totalEarned,
-      tokensDonated: mockWeb3.totalContributed,
-      stakingRewards: mockWeb3.totalStakingRewards,
-      totalScore: mockWeb3.totalEarned + mockWeb3.totalContributed + mockWeb3.totalStakingRewards,
-      isCurrentUser: true
-    };
-
-    return currentUser;
-  };
-
-  // Calculate global impact statistics
-  const calculateGlobalStats = (users: LeaderboardUser[]): GlobalImpactStats => {
-    const totalRewardsDistributed = users.reduce((sum, user) => sum + user.tokensEarned, 0);
-    const totalTokensDonated = users.reduce((sum, user) => sum + user.tokensDonated, 0);
-    const totalTokensStaked = users.reduce((sum, user) => sum + user.stakingRewards, 0) * 20; // Estimate based on rewards
-
-    return {
-      totalRewardsDistributed,
-      totalTokensDonated,
-      totalTokensStaked,
-      totalUsers: users.length,
-      lastUpdated: new Date()
-    };
-  };
-
-  // Load data from localStorage
-  const loadPersistedData = () => {
-    try {
-      const storedLeaderboard = localStorage.getItem(LEADERBOARD_STORAGE_KEY);
-      const storedStats = localStorage.getItem(IMPACT_STATS_STORAGE_KEY);
-
-      if (storedLeaderboard) {
-        const parsed = JSON.parse(storedLeaderboard);
-        return {
-          leaderboard: parsed.map((user: any) => ({
-            ...user,
-            // Don't load current user from storage, always use fresh data
-            ...(user.isCurrentUser ? createCurrentUserData() : {})
-          })),
-          stats: storedStats ? {
-            ...JSON.parse(storedStats),
-            lastUpdated: new Date(JSON.parse(storedStats).lastUpdated)
-          } : null
-        };
-      }
-    } catch (error) {
-      console.warn('Failed to load persisted leaderboard data:', error);
-    }
-
-    return { leaderboard: null, stats: null };
-  };
-
-  // Save data to localStorage
-  const persistData = (users: LeaderboardUser[], stats: GlobalImpactStats) => {
-    try {
-      localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(users));
-      localStorage.setItem(IMPACT_STATS_STORAGE_KEY, JSON.stringify(stats));
-    } catch (error) {
-      console.warn('Failed to persist leaderboard data:', error);
-    }
-  };
-
-  // Update leaderboard data
-  const updateLeaderboardData = () => {
-    const mockUsers = generateMockUsers();
-    const currentUser = createCurrentUserData();
-    
-    let allUsers = [...mockUsers];
-    if (currentUser) {
-      allUsers.push(currentUser);
-    }
-
-    // Sort by total score (highest first)
-    allUsers.sort((a, b) => b.totalScore - a.totalScore);
-
-    // Add rank information and find current user rank
-    const rankedUsers = allUsers.map((user, index) => ({
-      ...user,
-      rank: index + 1
-    }));
-
-    if (currentUser) {
-      const userRank = rankedUsers.findIndex(user => user.isCurrentUser);
-      setCurrentUserRank(userRank >= 0 ? userRank + 1 : null);
-    }
-
-    const stats = calculateGlobalStats(rankedUsers);
-
-    setLeaderboardData(rankedUsers);
-    setGlobalStats(stats);
-    persistData(rankedUsers, stats);
-  };
-
-  // Initialize data on component mount
-  useEffect(() => {
-    const { leaderboard, stats } = loadPersistedData();
-    
-    if (leaderboard && stats) {
-      setLeaderboardData(leaderboard);
-      setGlobalStats(stats);
-      
-      // Find current user rank
-      if (isConnected) {
-        const userRank = leaderboard.findIndex((user: LeaderboardUser) => user.isCurrentUser);
-        setCurrentUserRank(userRank >= 0 ? userRank + 1 : null);
-      }
-    } else {
-      updateLeaderboardData();
-    }
-  }, [isConnected, mockWeb3.isInitialized]);
-
-  // Refresh data
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-    updateLeaderboardData();
-    setIsRefreshing(false);
+  const { user: authUser } = useAuth();
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isError, isFetching, refetch } = useLeaderboard(page, PAGE_SIZE);
+
+  const leaderboardData = (data?.users ?? []).map(user => ({
+    ...user,
+    isCurrentUser: user.id === authUser?.id
+  }));
+  const globalStats = data?.stats ?? null;
+  const currentUserRank = data?.currentUser?.rank ?? null;
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  const handleRefresh = () => {
+    refetch();
   };
 
   // Get rank icon/medal
@@ -368,7 +157,7 @@ export default function Leaderboard() {
           )}
 
           {/* Current User Ranking Highlight */}
-          {isConnected && currentUserRank && (
+          {currentUserRank && (
             <div className="bg-gradient-to-r from-veg-primary to-veg-secondary rounded-2xl p-6 mb-8 text-white">
               <div className="flex items-center justify-between">
                 <div>
@@ -393,13 +182,13 @@ export default function Leaderboard() {
                 </h2>
                 <Button
                   onClick={handleRefresh}
-                  disabled={isRefreshing}
+                  disabled={isFetching}
                   variant="outline"
                   className="border-veg-primary text-veg-primary hover:bg-veg-primary hover:text-white"
                   data-testid="button-refresh-leaderboard"
                 >
-                  <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
-                  {isRefreshing ? 'Actualizando...' : 'Actualizar'}
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                  {isFetching ? 'Actualizando...' : 'Actualizar'}
                 </Button>
               </div>
             </div>
@@ -413,11 +202,27 @@ export default function Leaderboard() {
                     <th className="px-6 py-4 text-right text-sm font-semibold text-gray-600">Tokens Ganados</th>
                     <th className="px-6 py-4 text-right text-sm font-semibold text-gray-600">Tokens Donados</th>
                     <th className="px-6 py-4 text-right text-sm font-semibold text-gray-600">Recompensas Staking</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-600">Check-ins</th>
                     <th className="px-6 py-4 text-right text-sm font-semibold text-gray-600">Puntuación Total</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {leaderboardData.map((user, index) => (
+                  {isLoading && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-gray-500">Cargando ranking...</td>
+                    </tr>
+                  )}
+                  {isError && !isLoading && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-red-500">No pudimos cargar el ranking. Intenta de nuevo.</td>
+                    </tr>
+                  )}
+                  {!isLoading && !isError && leaderboardData.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-gray-500">Aún no hay participantes en el ranking.</td>
+                    </tr>
+                  )}
+                  {leaderboardData.map((user) => (
                     <tr
                       key={user.id}
                       className={`hover:bg-gray-50 transition-colors duration-200 ${
@@ -427,8 +232,8 @@ export default function Leaderboard() {
                     >
                       <td className="px-6 py-4">
                         <div className="flex items-center space-x-3">
-                          {getRankIcon(index + 1, user.isCurrentUser)}
-                          {getRankBadge(index + 1)}
+                          {getRankIcon(user.rank, user.isCurrentUser)}
+                          {getRankBadge(user.rank)}
                         </div>
                       </td>
                       <td className="px-6 py-4">
@@ -441,7 +246,9 @@ export default function Leaderboard() {
                               </Badge>
                             )}
                           </p>
-                          <p className="text-sm text-gray-500 font-mono">{user.address}</p>
+                          <p className="text-sm text-gray-500 font-mono">
+                            {user.address ? ethersService.formatAddress(user.address) : user.location ?? ''}
+                          </p>
                         </div>
                       </td>
                       <td className="px-6 py-4 text-right">
@@ -468,6 +275,9 @@ export default function Leaderboard() {
                           </span>
                         </div>
                       </td>
+                      <td className="px-6 py-4 text-right">
+                        <span className="font-semibold text-gray-900">{user.completedCheckIns}</span>
+                      </td>
                       <td className="px-6 py-4 text-right">
                         <div className="text-lg font-bold text-veg-primary">
                           {formatTokenAmount(user.totalScore, 0)}
@@ -478,12 +288,36 @@ export default function Leaderboard() {
                 </tbody>
               </table>
             </div>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between p-4 border-t border-green-100">
+                <Button
+                  variant="ghost"
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page <= 1 || isFetching}
+                  data-testid="button-leaderboard-prev"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Anterior
+                </Button>
+                <span className="text-sm text-gray-600">Página {page} de {totalPages}</span>
+                <Button
+                  variant="ghost"
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page >= totalPages || isFetching}
+                  data-testid="button-leaderboard-next"
+                >
+                  Siguiente
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </div>
 
           {/* Last Updated Info */}
           {globalStats && (
             <div className="text-center mt-8 text-sm text-gray-500">
-              Última actualización: {globalStats.lastUpdated.toLocaleString('es-ES')}
+              Última actualización: {new Date(globalStats.lastUpdated).toLocaleString('es-ES')}
             </div>
           )}
         </div>
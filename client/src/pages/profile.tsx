@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useWallet } from "@/hooks/use-wallet";
+import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,17 +9,16 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Header } from "@/components/header";
-import { getUserChallenge, getChallengeProgress, updateChallengeProgress, Challenge } from "@/components/onboarding-modal";
-import { 
-  DailyCheckInModal, 
-  CheckInList, 
-  getUserCheckIns, 
-  likeCheckIn, 
-  approveCheckIn,
-  type DailyCheckIn 
-} from "@/components/daily-check-in";
+import { useMyChallenge } from "@/lib/challenge-service";
+import { DailyCheckInModal, CheckInList } from "@/components/daily-check-in";
+import { useCheckIns, useLikeCheckIn, useApproveCheckIn } from "@/lib/check-in-service";
+import { useToast } from "@/hooks/use-toast";
 import { TransactionHistory } from "@/components/transaction-history";
 import { SendVEG21Modal } from "@/components/send-veg21-modal";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { LinkedProviders } from "@/components/linked-providers";
+import { AccountDataSettings } from "@/components/account-data-settings";
+import { NotificationSettings } from "@/components/notification-settings";
 import { 
   User, 
   Edit3, 
@@ -51,26 +51,24 @@ interface UserStats {
   tokensStaked: number;
 }
 
-interface ChallengeProgressData {
-  currentDay: number;
-  completedDays: number[];
-  isActive: boolean;
-}
-
 export default function Profile() {
   const { isConnected, mockWeb3, formattedAddress } = useWallet();
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
   const [username, setUsername] = useState<string>('');
   const [editingUsername, setEditingUsername] = useState(false);
   const [tempUsername, setTempUsername] = useState<string>('');
-  const [currentChallenge, setCurrentChallenge] = useState<Challenge | null>(null);
-  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgressData | null>(null);
+  const { data: enrollment } = useMyChallenge({ enabled: !!user });
+  const currentChallenge = enrollment?.challenge ?? null;
+  const challengeProgress = enrollment?.progress ?? null;
   const [stakeAmount, setStakeAmount] = useState('');
   const [isStaking, setIsStaking] = useState(false);
   const [showStakingDetails, setShowStakingDetails] = useState(false);
   const [showCheckInModal, setShowCheckInModal] = useState(false);
   const [selectedDay, setSelectedDay] = useState<number>(1);
-  const [userCheckIns, setUserCheckIns] = useState<DailyCheckIn[]>([]);
-  const [refreshCheckIns, setRefreshCheckIns] = useState(0);
+  const { data: userCheckIns = [] } = useCheckIns(user?.id, { enabled: !!user });
+  const likeCheckIn = useLikeCheckIn();
+  const approveCheckIn = useApproveCheckIn();
   const [showSendModal, setShowSendModal] = useState(false);
   const [showTransactionHistory, setShowTransactionHistory] = useState(false);
 
@@ -100,29 +98,8 @@ export default function Profile() {
     } catch (error) {
       console.error('Failed to load username:', error);
     }
-
-    // Load challenge data
-    const challenge = getUserChallenge();
-    const progress = getChallengeProgress();
-    
-    setCurrentChallenge(challenge);
-    setChallengeProgress(progress);
-
-    // Load user check-ins
-    if (formattedAddress) {
-      const checkIns = getUserCheckIns(formattedAddress);
-      setUserCheckIns(checkIns);
-    }
   };
 
-  // Reload check-ins when refreshCheckIns changes
-  useEffect(() => {
-    if (formattedAddress) {
-      const checkIns = getUserCheckIns(formattedAddress);
-      setUserCheckIns(checkIns);
-    }
-  }, [refreshCheckIns, formattedAddress]);
-
   // Check for challenge completion and award +50 token completion bonus
   useEffect(() => {
     if (challengeProgress && challengeProgress.completedDays.length === 21 && mockWeb3.isInitialized) {
@@ -250,11 +227,12 @@ export default function Profile() {
     return badges;
   };
 
-  const markDayCompleted = (day: number) => {
-    if (challengeProgress && challengeProgress.completedDays && !challengeProgress.completedDays.includes(day)) {
-      updateChallengeProgress(day, true);
-      loadUserData(); // Refresh data
-    }
+  const showCheckInError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
   };
 
   const generateAvatar = (address: string | null): string => {
@@ -286,28 +264,17 @@ export default function Profile() {
     setShowCheckInModal(true);
   };
 
-  const handleCheckInComplete = (checkIn: DailyCheckIn) => {
-    // Mark the day as completed
-    if (challengeProgress && !challengeProgress.completedDays.includes(checkIn.day)) {
-      updateChallengeProgress(checkIn.day, true);
-    }
-    // Refresh check-ins and challenge data
-    setRefreshCheckIns(prev => prev + 1);
-    loadUserData();
+  const handleCheckInComplete = () => {
+    // The server completed the day and credited its tokens; pick up the new balance
+    void refreshUser();
   };
 
   const handleLikeCheckIn = (checkInId: string) => {
-    if (formattedAddress) {
-      likeCheckIn(checkInId, formattedAddress);
-      setRefreshCheckIns(prev => prev + 1);
-    }
+    likeCheckIn.mutate(checkInId, { onError: showCheckInError });
   };
 
   const handleApproveCheckIn = (checkInId: string) => {
-    if (formattedAddress) {
-      approveCheckIn(checkInId, formattedAddress);
-      setRefreshCheckIns(prev => prev + 1);
-    }
+    approveCheckIn.mutate(checkInId, { onError: showCheckInError });
   };
 
   const userStats = getUserStats();
@@ -653,6 +620,12 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          {/* Account Security */}
+          <LinkedProviders />
+          <TwoFactorSettings />
+          <NotificationSettings />
+          <AccountDataSettings />
+
           {/* Daily Check-ins Section */}
           {currentChallenge && challengeProgress && challengeProgress.isActive && (
             <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm" data-testid="card-check-ins">
@@ -668,7 +641,7 @@ export default function Profile() {
               <CardContent>
                 <CheckInList
                   checkIns={userCheckIns}
-                  currentUserId={formattedAddress || ''}
+                  currentUserId={user?.id || ''}
                   onLike={handleLikeCheckIn}
                   onApprove={handleApproveCheckIn}
                 />
@@ -716,12 +689,15 @@ export default function Profile() {
       </div>
 
       {/* Daily Check-in Modal */}
-      <DailyCheckInModal
-        isOpen={showCheckInModal}
-        onClose={() => setShowCheckInModal(false)}
-        day={selectedDay}
-        onCheckInComplete={handleCheckInComplete}
-      />
+      {currentChallenge && (
+        <DailyCheckInModal
+          isOpen={showCheckInModal}
+          onClose={() => setShowCheckInModal(false)}
+          challengeId={currentChallenge.id}
+          day={selectedDay}
+          onCheckInComplete={handleCheckInComplete}
+        />
+      )}
 
       {/* Send VEG21 Modal */}
       <SendVEG21Modal
@@ -0,0 +1,67 @@
+import { storage } from "../server/storage";
+import { userRoles, type UserRole } from "../shared/schema";
+
+/**
+ * VEG21 Role Management
+ *
+ * Grants or revokes staff roles from the command line, mainly to create the
+ * first admin; after that admins manage roles through /api/admin. Changes are
+ * recorded in role_grant_events with no actor.
+ *
+ * Usage:
+ * - npm run roles -- grant <email> <role> [reason]
+ * - npm run roles -- revoke <email> <role> [reason]
+ * - npm run roles -- list
+ *
+ * Roles: admin, moderator, verifier, minter, pauser
+ *
+ * Needs DATABASE_URL: with in-memory storage the change would be lost when
+ * this process exits.
+ */
+
+const USAGE = "Usage: npm run roles -- grant|revoke <email> <role> [reason] | list";
+
+async function main() {
+  const [command, email, role, ...reasonWords] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set: roles are only kept in the database");
+  }
+
+  if (command === "list") {
+    for (const user of await storage.getUsersWithRoles()) {
+      console.log(`${user.email ?? user.walletAddress ?? user.id}\t${user.roles.join(", ")}`);
+    }
+    return;
+  }
+
+  if ((command !== "grant" && command !== "revoke") || !email || !role) {
+    throw new Error(USAGE);
+  }
+  if (!userRoles.includes(role as UserRole)) {
+    throw new Error(`Unknown role "${role}". Use one of: ${userRoles.join(", ")}`);
+  }
+
+  const user = await storage.getUserByEmail(email);
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  const audit = { actorId: null, reason: reasonWords.join(" ") || null, ipAddress: null };
+  const updated = command === "grant"
+    ? await storage.grantRole(user.id, role as UserRole, audit)
+    : await storage.revokeRole(user.id, role as UserRole, audit);
+
+  if (!updated) {
+    console.log(`${email} ${command === "grant" ? "already has" : "does not have"} the ${role} role`);
+    return;
+  }
+  console.log(`${email} roles: ${updated.roles.join(", ") || "(none)"}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
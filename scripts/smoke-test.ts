@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+
+/**
+ * VEG21 API Smoke Test
+ *
+ * Boots the API routes on in-memory storage and walks the main flow once:
+ * register, log in, enroll in a challenge, check in and read the leaderboard.
+ * Meant as a quick check after a change, not as a test suite.
+ *
+ * Usage:
+ * - npm run test:smoke
+ *
+ * Refuses to run on any other storage, since it writes users and check-ins.
+ */
+
+async function main() {
+  if (process.env.STORAGE_DRIVER !== "memory") {
+    throw new Error("STORAGE_DRIVER must be memory: the smoke test writes to storage");
+  }
+
+  // Imported after the check: storage is chosen when the module loads
+  const { registerRoutes } = await import("../server/routes");
+  const { errorHandler } = await import("../server/errors");
+  const { SIGNUP_BONUS, CHECK_IN_REWARD, MILESTONE_REWARDS } = await import("../server/token-rewards");
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request(method: string, path: string, options: { token?: string; body?: unknown } = {}) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(options.body !== undefined && { "Content-Type": "application/json" }),
+        ...(options.token && { Authorization: `Bearer ${options.token}` }),
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  try {
+    const credentials = { email: "smoke@veg21.test", password: "Sm0ke-test-password!" };
+
+    const registered = await request("POST", "/api/auth/register", { body: { ...credentials, name: "Smoke Test" } });
+    assert.equal(registered.status, 201, JSON.stringify(registered.body));
+    assert.equal(registered.body.user.totalTokens, SIGNUP_BONUS);
+
+    const duplicate = await request("POST", "/api/auth/register", { body: { ...credentials, name: "Smoke Test" } });
+    assert.equal(duplicate.body.error?.code, "EMAIL_ALREADY_REGISTERED");
+
+    const wrongPassword = await request("POST", "/api/auth/login", { body: { ...credentials, password: "not-the-password" } });
+    assert.equal(wrongPassword.status, 401);
+
+    const loggedIn = await request("POST", "/api/auth/login", { body: credentials });
+    assert.equal(loggedIn.status, 200, JSON.stringify(loggedIn.body));
+    const token: string = loggedIn.body.token;
+    assert.ok(token);
+
+    const me = await request("GET", "/api/auth/me", { token });
+    assert.equal(me.body.user.id, registered.body.user.id);
+
+    const { body: catalog } = await request("GET", "/api/challenges");
+    const challenge = catalog.challenges[0];
+    assert.ok(challenge, "the challenge catalog is empty");
+
+    const enrolled = await request("POST", `/api/challenges/${challenge.id}/enroll`, { token });
+    assert.equal(enrolled.status, 201, JSON.stringify(enrolled.body));
+
+    const checkIn = { challengeId: challenge.id, day: 1, description: "Desayuno de avena con fruta" };
+    const checkedIn = await request("POST", "/api/check-ins", { token, body: checkIn });
+    assert.equal(checkedIn.status, 201, JSON.stringify(checkedIn.body));
+    assert.deepEqual(checkedIn.body.enrollment.progress.completedDays, [1]);
+
+    // The next day's check-in has to wait for tomorrow
+    const again = await request("POST", "/api/check-ins", { token, body: { ...checkIn, day: 2 } });
+    assert.equal(again.body.error?.code, "CHECK_IN_ALREADY_TODAY");
+
+    const expectedBalance = SIGNUP_BONUS + CHECK_IN_REWARD + (MILESTONE_REWARDS[1] ?? 0);
+    const ledger = await request("GET", "/api/tokens/ledger", { token });
+    assert.equal(ledger.body.balance, expectedBalance);
+
+    const leaderboard = await request("GET", "/api/leaderboard", { token });
+    assert.equal(leaderboard.status, 200, JSON.stringify(leaderboard.body));
+    assert.equal(leaderboard.body.total, 1);
+    assert.equal(leaderboard.body.users[0].id, registered.body.user.id);
+    assert.equal(leaderboard.body.users[0].completedCheckIns, 1);
+    assert.equal(leaderboard.body.currentUser?.rank, 1);
+
+    console.log("Smoke test passed");
+  } finally {
+    server.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.stack ?? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,31 @@
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@shared/schema";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import { deleteMediaFiles } from "./media";
+
+// Accounts whose deletion was requested more than the grace period ago are
+// purged by a background job in the server process
+
+const GRACE_PERIOD_MS = ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function accountPurgeDate(deletionRequestedAt: Date): Date {
+  return new Date(deletionRequestedAt.getTime() + GRACE_PERIOD_MS);
+}
+
+async function purgeDueAccounts(): Promise<void> {
+  try {
+    const purged = await storage.purgeDeletedAccounts(new Date(Date.now() - GRACE_PERIOD_MS));
+    await deleteMediaFiles(purged.mediaIds);
+    if (purged.accounts > 0) {
+      logger.info("deleted accounts purged", { count: purged.accounts, media: purged.mediaIds.length });
+    }
+  } catch (error) {
+    logger.error("account purge failed", { error });
+  }
+}
+
+export function startAccountPurgeJob(): void {
+  void purgeDueAccounts();
+  setInterval(purgeDueAccounts, PURGE_INTERVAL_MS).unref();
+}
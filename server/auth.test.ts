@@ -0,0 +1,222 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Wallet } from "ethers";
+import { SIWE_STATEMENTS, buildSiweMessage } from "@shared/siwe";
+import { generateSecretToken, hashSecretToken } from "./auth";
+import { chainDeployment } from "./chain";
+import { storage } from "./storage";
+import { generateTotpCode } from "./totp";
+import { nextTestIp, registerTestUser, startTestApp, type TestApp, type TestResponse, type TestUser } from "./test-app";
+
+let app: TestApp;
+
+before(async () => {
+  app = await startTestApp();
+});
+
+after(() => app.close());
+
+// Turns on two-factor authentication the way the profile page does and
+// returns the recovery codes
+async function enableTwoFactor(user: TestUser): Promise<string[]> {
+  const setup = await app.request("POST", "/api/auth/2fa/setup", { token: user.token });
+  assert.equal(setup.status, 200, JSON.stringify(setup.body));
+  const enabled = await app.request("POST", "/api/auth/2fa/enable", {
+    token: user.token,
+    body: { code: generateTotpCode(setup.body.secret) },
+  });
+  assert.equal(enabled.status, 200, JSON.stringify(enabled.body));
+  return enabled.body.recoveryCodes;
+}
+
+// A Sign-In With Ethereum message for the app's default address, signed by the wallet
+async function signInWithWallet(wallet: Wallet) {
+  const { body: { nonce } } = await app.request("GET", "/api/auth/siwe/nonce");
+  const message = buildSiweMessage({
+    domain: "localhost:5000",
+    address: wallet.address,
+    statement: SIWE_STATEMENTS.login,
+    uri: "http://localhost:5000",
+    version: "1",
+    chainId: chainDeployment.network?.chainId ?? 1,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  return { message, signature: await wallet.signMessage(message) };
+}
+
+describe("refresh tokens", () => {
+  it("rotates the refresh token and keeps the session working", async () => {
+    const user = await registerTestUser(app);
+    const refreshed = await app.request("POST", "/api/auth/refresh", { body: { refreshToken: user.refreshToken } });
+    assert.equal(refreshed.status, 200, JSON.stringify(refreshed.body));
+    assert.notEqual(refreshed.body.refreshToken, user.refreshToken);
+
+    const me = await app.request("GET", "/api/auth/me", { token: refreshed.body.token });
+    assert.equal(me.body.user.id, user.id);
+  });
+
+  it("revokes the whole session when a rotated token is reused", async () => {
+    const user = await registerTestUser(app);
+    const rotated = await app.request("POST", "/api/auth/refresh", { body: { refreshToken: user.refreshToken } });
+    assert.equal(rotated.status, 200);
+
+    const replayed = await app.request("POST", "/api/auth/refresh", { body: { refreshToken: user.refreshToken } });
+    assert.equal(replayed.status, 401);
+    assert.equal(replayed.body.error.code, "SESSION_REVOKED");
+
+    // The token handed out by the legitimate rotation is gone too
+    const afterReplay = await app.request("POST", "/api/auth/refresh", { body: { refreshToken: rotated.body.refreshToken } });
+    assert.equal(afterReplay.status, 401);
+    assert.equal(afterReplay.body.error.code, "SESSION_REVOKED");
+  });
+
+  it("stops refreshing after logout", async () => {
+    const user = await registerTestUser(app);
+    const loggedOut = await app.request("POST", "/api/auth/logout", { body: { refreshToken: user.refreshToken } });
+    assert.equal(loggedOut.status, 200);
+
+    const refreshed = await app.request("POST", "/api/auth/refresh", { body: { refreshToken: user.refreshToken } });
+    assert.equal(refreshed.status, 401);
+  });
+});
+
+describe("deactivated accounts", () => {
+  it("refuses access tokens issued before the account was deactivated", async () => {
+    const user = await registerTestUser(app);
+    await storage.updateUser(user.id, { isActive: false });
+
+    const me = await app.request("GET", "/api/auth/me", { token: user.token });
+    assert.equal(me.status, 403);
+    assert.equal(me.body.error.code, "ACCOUNT_DEACTIVATED");
+  });
+});
+
+describe("login limits", () => {
+  it("locks the account after repeated wrong passwords, even for the right one", async () => {
+    const user = await registerTestUser(app);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const failed = await app.request("POST", "/api/auth/login", { body: { email: user.email, password: "wrong-password" } });
+      assert.equal(failed.status, 401);
+    }
+    const locked = await app.request("POST", "/api/auth/login", { body: { email: user.email, password: user.password } });
+    assert.equal(locked.status, 429);
+    assert.equal(locked.body.error.code, "ACCOUNT_LOCKED");
+  });
+
+  it("rate limits registrations per address", async () => {
+    const ip = nextTestIp();
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 11; attempt++) {
+      const { status } = await app.request("POST", "/api/auth/register", {
+        ip,
+        body: { email: `limited${attempt}@veg21.test`, password: "Test-password-123", name: "Limited" },
+      });
+      statuses.push(status);
+    }
+    assert.deepEqual(statuses.slice(0, 10), Array(10).fill(201));
+    assert.equal(statuses[10], 429);
+  });
+
+  it("rate limits wallet sign-in nonces per address", async () => {
+    const ip = nextTestIp();
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 61; attempt++) {
+      statuses.push((await app.request("GET", "/api/auth/siwe/nonce", { ip })).status);
+    }
+    assert.deepEqual(statuses.slice(0, 60), Array(60).fill(200));
+    assert.equal(statuses[60], 429);
+  });
+});
+
+describe("two-factor login", () => {
+  it("answers a correct password with a challenge instead of a session", async () => {
+    const user = await registerTestUser(app);
+    await enableTwoFactor(user);
+
+    const login = await app.request("POST", "/api/auth/login", { body: { email: user.email, password: user.password } });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.mfaRequired, true);
+    assert.equal(login.body.token, undefined);
+    assert.ok(login.body.mfaToken);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const user = await registerTestUser(app);
+    const [recoveryCode] = await enableTwoFactor(user);
+
+    const first = await app.request("POST", "/api/auth/login", { body: { email: user.email, password: user.password } });
+    const completed = await app.request("POST", "/api/auth/login/mfa", { body: { mfaToken: first.body.mfaToken, recoveryCode } });
+    assert.equal(completed.status, 200, JSON.stringify(completed.body));
+    assert.equal(completed.body.user.id, user.id);
+
+    const second = await app.request("POST", "/api/auth/login", { body: { email: user.email, password: user.password } });
+    const reused = await app.request("POST", "/api/auth/login/mfa", { body: { mfaToken: second.body.mfaToken, recoveryCode } });
+    assert.equal(reused.status, 401);
+    assert.equal(reused.body.error.code, "SECOND_FACTOR_INVALID");
+  });
+});
+
+describe("wallet sign-in", () => {
+  it("creates one account for a wallet signing in twice at once", async () => {
+    const wallet = Wallet.createRandom();
+    const [first, second] = await Promise.all([signInWithWallet(wallet), signInWithWallet(wallet)]);
+    const responses = await Promise.all([
+      app.request("POST", "/api/auth/siwe/verify", { body: first }),
+      app.request("POST", "/api/auth/siwe/verify", { body: second }),
+    ]);
+    for (const response of responses) {
+      assert.equal(response.status, 200, JSON.stringify(response.body));
+    }
+    assert.equal(responses[0].body.user.id, responses[1].body.user.id);
+
+    const account = await storage.getUserByWalletAddress(wallet.address);
+    assert.equal(account?.id, responses[0].body.user.id);
+    assert.equal(account?.authProvider, "siwe");
+  });
+});
+
+// Every way to sign in ends in the same challenge once two-factor
+// authentication is on
+describe("two-factor on other sign-in methods", () => {
+  function assertChallenged(response: TestResponse) {
+    assert.equal(response.status, 200, JSON.stringify(response.body));
+    assert.equal(response.body.mfaRequired, true);
+    assert.ok(response.body.mfaToken);
+    assert.equal(response.body.token, undefined);
+    assert.equal(response.body.refreshToken, undefined);
+  }
+
+  it("challenges a Sign-In With Ethereum", async () => {
+    const user = await registerTestUser(app);
+    await enableTwoFactor(user);
+    const wallet = Wallet.createRandom();
+    await storage.linkWallet(user.id, wallet.address);
+
+    assertChallenged(await app.request("POST", "/api/auth/siwe/verify", { body: await signInWithWallet(wallet) }));
+  });
+
+  it("challenges a provider login when its code is exchanged", async () => {
+    const user = await registerTestUser(app);
+    await enableTwoFactor(user);
+    const code = generateSecretToken();
+    await storage.createOAuthCode(hashSecretToken(code), user.id, new Date(Date.now() + 60_000));
+
+    assertChallenged(await app.request("POST", "/api/auth/oauth/exchange", { body: { code } }));
+  });
+
+  it("challenges a provider login linked with the password", async () => {
+    const user = await registerTestUser(app);
+    await enableTwoFactor(user);
+    const linkToken = generateSecretToken();
+    await storage.createPendingOAuthLink({
+      tokenHash: hashSecretToken(linkToken),
+      userId: user.id,
+      provider: "google",
+      providerId: `google-${user.id}`,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    assertChallenged(await app.request("POST", "/api/auth/oauth/link/confirm", { body: { linkToken, password: user.password } }));
+  });
+});
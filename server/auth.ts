@@ -1,9 +1,47 @@
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
 import { type User, type SafeUser } from "@shared/schema";
+import { logger } from "./logger";
 
-const JWT_SECRET = process.env.JWT_SECRET || "veg21-secret-key-change-in-production";
-const JWT_EXPIRES_IN = "7d";
+// Access tokens cannot be revoked, so they are kept short-lived; sessions are
+// extended with refresh tokens, which are stored and can be revoked
+const ACCESS_TOKEN_EXPIRES_IN = "15m";
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Time a user has to enter their second factor after a correct password
+const MFA_TOKEN_EXPIRES_IN = "5m";
+
+// Audiences keep the two kinds of JWT apart: an MFA challenge token must never
+// be accepted as an access token
+const ACCESS_TOKEN_AUDIENCE = "access";
+const MFA_TOKEN_AUDIENCE = "mfa";
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MIN_SECRET_LENGTH = 32;
+
+const JWT_SECRET = resolveJwtSecret();
+
+// Production refuses to start without a real secret. Elsewhere a random one is
+// generated per process: access tokens stop verifying on restart and clients
+// get a new one through their refresh token.
+function resolveJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`JWT_SECRET must be set to a random string of at least ${MIN_SECRET_LENGTH} characters in production.`);
+  }
+  if (secret) {
+    logger.warn("JWT_SECRET is too short; using it outside production only", { minLength: MIN_SECRET_LENGTH, env: process.env.NODE_ENV });
+    return secret;
+  }
+  logger.warn("JWT_SECRET is not set; using a random secret, sessions will need a refresh after a restart", { env: process.env.NODE_ENV });
+  return randomBytes(48).toString("hex");
+}
 
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
@@ -13,27 +51,55 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
-export function generateToken(user: User): string {
+export function generateAccessToken(user: User): string {
   return jwt.sign(
-    { 
-      userId: user.id, 
+    {
+      userId: user.id,
       email: user.email,
       name: user.name
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN, audience: ACCESS_TOKEN_AUDIENCE }
   );
 }
 
-export function verifyToken(token: string): { userId: string; email: string; name: string } | null {
+// exp is the token's expiry in epoch seconds, as jsonwebtoken sets it
+export function verifyToken(token: string): { userId: string; email: string | null; name: string; exp: number } | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; email: string; name: string };
+    const decoded = jwt.verify(token, JWT_SECRET, { audience: ACCESS_TOKEN_AUDIENCE }) as { userId: string; email: string | null; name: string; exp: number };
     return decoded;
   } catch {
     return null;
   }
 }
 
+// Proves the password step of a login succeeded; exchanged together with a
+// second factor for a session
+export function generateMfaToken(user: User): string {
+  return jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: MFA_TOKEN_EXPIRES_IN, audience: MFA_TOKEN_AUDIENCE });
+}
+
+export function verifyMfaToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, { audience: MFA_TOKEN_AUDIENCE }) as { userId: string };
+    return decoded.userId;
+  } catch {
+    return null;
+  }
+}
+
+// Opaque random token for refresh tokens and emailed links
+export function generateSecretToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// For random server-issued secrets (refresh tokens, OAuth codes, email links). They carry
+// 256 bits of entropy, so a fast hash is enough to keep a database leak from
+// exposing usable tokens
+export function hashSecretToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 export function extractTokenFromHeader(authHeader: string | undefined): string | null {
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return null;
@@ -0,0 +1,187 @@
+import { Interface, JsonRpcProvider, formatUnits, getAddress, parseUnits } from "ethers";
+import { ownerContractAbis, type OwnerContract, type PreparedTransaction } from "@shared/owner-contracts";
+import type { WalletActivityType } from "@shared/schema";
+import type { ErrorParams } from "@shared/errors";
+import { ConflictError } from "./errors";
+import { logger } from "./logger";
+
+// The network and contract addresses the server works against, from the same
+// VEG21_MODE and VITE_<NETWORK>_<CONTRACT>_ADDRESS variables the client is
+// built with (see .env.example)
+
+export const deployedContracts = ["VEG21Token", "VEG21Staking", "VEG21Donations", "VEG21Rewards"] as const;
+
+export type DeployedContract = typeof deployedContracts[number];
+
+export interface ChainNetwork {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+}
+
+export interface ChainDeployment {
+  mode: string;
+  // Null in demo mode, where nothing happens on-chain
+  network: ChainNetwork | null;
+  contracts: Record<DeployedContract, string | null>;
+}
+
+interface NetworkDefinition extends ChainNetwork {
+  envPrefix: string;
+}
+
+const CELO_ALFAJORES: NetworkDefinition = {
+  name: "Celo Alfajores",
+  chainId: 44787,
+  rpcUrl: process.env.CELO_ALFAJORES_RPC_URL || "https://alfajores-forno.celo-testnet.org",
+  envPrefix: "CELO_ALFAJORES",
+};
+
+const CELO_MAINNET: NetworkDefinition = {
+  name: "Celo Mainnet",
+  chainId: 42220,
+  rpcUrl: process.env.VITE_CELO_MAINNET_RPC_URL || "https://forno.celo.org",
+  envPrefix: "CELO_MAINNET",
+};
+
+const LOCAL_HARDHAT: NetworkDefinition = {
+  name: "Hardhat Local",
+  chainId: 31337,
+  rpcUrl: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+  envPrefix: "LOCAL",
+};
+
+// Same mode names as client/src/config/contracts.ts
+const NETWORKS_BY_MODE: Record<string, NetworkDefinition | null> = {
+  demo: null,
+  mock: null,
+  "celo-alfajores": CELO_ALFAJORES,
+  "celo-testnet": CELO_ALFAJORES,
+  "celo-mainnet": CELO_MAINNET,
+  celo: CELO_MAINNET,
+  mainnet: CELO_MAINNET,
+  local: LOCAL_HARDHAT,
+};
+
+const CONTRACT_ENV_KEYS: Record<DeployedContract, string> = {
+  VEG21Token: "TOKEN",
+  VEG21Staking: "STAKING",
+  VEG21Donations: "DONATIONS",
+  VEG21Rewards: "REWARDS",
+};
+
+const TOKEN_DECIMALS = 18;
+
+function loadChainDeployment(): ChainDeployment {
+  const mode = (process.env.VEG21_MODE ?? process.env.VITE_VEG21_MODE ?? "demo").toLowerCase();
+  // Unknown modes fall back to demo, as they do in the client
+  if (!(mode in NETWORKS_BY_MODE)) {
+    logger.warn("VEG21_MODE has no server-side network; on-chain operations are disabled", { mode });
+  }
+  const definition = NETWORKS_BY_MODE[mode] ?? null;
+  const contracts = Object.fromEntries(deployedContracts.map((contract) => {
+    const address = definition && process.env[`VITE_${definition.envPrefix}_${CONTRACT_ENV_KEYS[contract]}_ADDRESS`];
+    return [contract, address && /^0x[0-9a-fA-F]{40}$/.test(address) ? address : null];
+  })) as Record<DeployedContract, string | null>;
+
+  return {
+    mode,
+    network: definition && { name: definition.name, chainId: definition.chainId, rpcUrl: definition.rpcUrl },
+    contracts,
+  };
+}
+
+export const chainDeployment = loadChainDeployment();
+
+// Thrown when an on-chain operation is asked for but the deployment cannot
+// take it; the message is meant for the admin
+export class ChainUnavailableError extends ConflictError {
+  constructor(message: string, params?: ErrorParams) {
+    super("CHAIN_UNAVAILABLE", message, params);
+  }
+}
+
+export function tokensToWei(tokens: number): bigint {
+  return parseUnits(String(tokens), TOKEN_DECIMALS);
+}
+
+// Encodes a call to an owner-only contract function. Nothing is signed here:
+// the admin console hands the result to the owner wallet.
+export function prepareOwnerTransaction(
+  contract: OwnerContract,
+  method: string,
+  args: (string | bigint | number)[],
+  description: string,
+): PreparedTransaction {
+  if (!chainDeployment.network) {
+    throw new ChainUnavailableError("Las operaciones on-chain no están disponibles en modo demo");
+  }
+  const to = chainDeployment.contracts[contract];
+  if (!to) {
+    throw new ChainUnavailableError(
+      `Falta la dirección del contrato ${contract} para ${chainDeployment.network.name}`,
+      { contract, network: chainDeployment.network.name },
+    );
+  }
+  return {
+    chainId: chainDeployment.network.chainId,
+    to,
+    data: new Interface(ownerContractAbis[contract]).encodeFunctionData(method, args),
+    value: "0",
+    contract,
+    method,
+    args: args.map(String),
+    description,
+  };
+}
+
+// The event each reported wallet activity must have emitted, and which of its
+// arguments are the user and the amount (see contracts/VEG21Donations.sol and
+// contracts/VEG21Staking.sol)
+const walletActivityEvents: Record<WalletActivityType, { contract: DeployedContract; event: string; amountArg: string }> = {
+  donation: {
+    contract: "VEG21Donations",
+    event: "event DonationMade(address indexed donor, uint256 indexed charityId, uint256 amount, uint256 timestamp)",
+    amountArg: "amount",
+  },
+  stake: { contract: "VEG21Staking", event: "event Staked(address indexed user, uint256 amount)", amountArg: "amount" },
+  unstake: { contract: "VEG21Staking", event: "event Unstaked(address indexed user, uint256 amount)", amountArg: "amount" },
+  staking_reward: { contract: "VEG21Staking", event: "event RewardClaimed(address indexed user, uint256 reward)", amountArg: "reward" },
+};
+
+let provider: JsonRpcProvider | undefined;
+
+function chainProvider(network: ChainNetwork): JsonRpcProvider {
+  provider ??= new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+  return provider;
+}
+
+// Looks the transaction up on the configured chain and returns the amount, in
+// tokens, of the activity's event emitted by our contract for this wallet.
+// Undefined when the transaction is unknown, reverted or has no such event.
+export async function verifyWalletActivity(type: WalletActivityType, txHash: string, walletAddress: string): Promise<number | undefined> {
+  const { network, contracts } = chainDeployment;
+  if (!network) {
+    throw new ChainUnavailableError("Las operaciones on-chain no están disponibles en modo demo");
+  }
+  const { contract, event, amountArg } = walletActivityEvents[type];
+  const address = contracts[contract];
+  if (!address) {
+    throw new ChainUnavailableError(
+      `Falta la dirección del contrato ${contract} para ${network.name}`,
+      { contract, network: network.name },
+    );
+  }
+
+  const receipt = await chainProvider(network).getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) return undefined;
+  const contractInterface = new Interface([event]);
+  for (const log of receipt.logs) {
+    if (getAddress(log.address) !== getAddress(address)) continue;
+    const parsed = contractInterface.parseLog(log);
+    if (parsed && getAddress(parsed.args[0]) === getAddress(walletAddress)) {
+      return Number(formatUnits(parsed.args[amountArg], TOKEN_DECIMALS));
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,38 @@
+import { onChainChallengeTypes, type InsertChallenge } from "@shared/schema";
+
+// Seeded into the challenges table on startup; existing rows are left untouched
+// so admins can edit copy without it being overwritten on the next deploy.
+export const defaultChallenges: InsertChallenge[] = [
+  {
+    id: "meat_free_21",
+    title: "21 días sin carne",
+    description: "Elimina toda la carne de tu dieta por 21 días. Incluye pollo, res, cerdo y pescado.",
+    difficulty: "Principiante",
+    icon: "leaf",
+    onChainType: onChainChallengeTypes.MeatFree,
+  },
+  {
+    id: "vegan_breakfasts_21",
+    title: "21 días de desayunos veganos",
+    description: "Comienza tu día con desayunos 100% veganos. Perfecto para principiantes.",
+    difficulty: "Principiante",
+    icon: "coffee",
+    onChainType: onChainChallengeTypes.VeganMeals,
+  },
+  {
+    id: "full_vegan_21",
+    title: "21 días completamente vegano",
+    description: "Adopta una dieta 100% vegana: sin carne, lácteos, huevos ni miel.",
+    difficulty: "Intermedio",
+    icon: "heart",
+    onChainType: onChainChallengeTypes.FullVegan,
+  },
+  {
+    id: "zero_waste_vegan_21",
+    title: "21 días vegano zero waste",
+    description: "Combina veganismo con zero waste. Reduce empaques y desperdicio.",
+    difficulty: "Avanzado",
+    icon: "utensils",
+    onChainType: onChainChallengeTypes.ZeroWaste,
+  },
+];
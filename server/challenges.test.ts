@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ChallengeEnrollment } from "@shared/schema";
+import { storage } from "./storage";
+import { CHECK_IN_REWARD, MILESTONE_REWARDS, SIGNUP_BONUS, checkInRewardEntries } from "./token-rewards";
+import { registerTestUser, startTestApp, type TestApp } from "./test-app";
+
+let app: TestApp;
+
+before(async () => {
+  app = await startTestApp();
+});
+
+after(() => app.close());
+
+describe("re-enrolling", () => {
+  it("refuses to start over while a challenge is active", async () => {
+    const user = await registerTestUser(app);
+    const { body: catalog } = await app.request("GET", "/api/challenges");
+    const [challenge, other] = catalog.challenges;
+
+    const enrolled = await app.request("POST", `/api/challenges/${challenge.id}/enroll`, { token: user.token });
+    assert.equal(enrolled.status, 201, JSON.stringify(enrolled.body));
+    const checkedIn = await app.request("POST", "/api/check-ins", {
+      token: user.token,
+      body: { challengeId: challenge.id, day: 1, description: "Desayuno de avena con fruta" },
+    });
+    assert.equal(checkedIn.status, 201, JSON.stringify(checkedIn.body));
+
+    for (const target of [challenge, other]) {
+      const again = await app.request("POST", `/api/challenges/${target.id}/enroll`, { token: user.token });
+      assert.equal(again.status, 409);
+      assert.equal(again.body.error.code, "CHALLENGE_ALREADY_ENROLLED");
+    }
+
+    const current = await app.request("GET", "/api/challenges/me", { token: user.token });
+    assert.equal(current.body.enrollment.id, enrolled.body.enrollment.id);
+    assert.deepEqual(current.body.enrollment.progress.completedDays, [1]);
+
+    const ledger = await app.request("GET", "/api/tokens/ledger", { token: user.token });
+    assert.equal(ledger.body.balance, SIGNUP_BONUS + CHECK_IN_REWARD + MILESTONE_REWARDS[1]);
+  });
+
+  it("credits a milestone once per challenge across enrollments", async () => {
+    const user = await registerTestUser(app);
+    const { body: catalog } = await app.request("GET", "/api/challenges");
+    const enrolled = await app.request("POST", `/api/challenges/${catalog.challenges[0].id}/enroll`, { token: user.token });
+    const first: ChallengeEnrollment = enrolled.body.enrollment;
+    const withFirstDay = (enrollment: ChallengeEnrollment): ChallengeEnrollment => ({
+      ...enrollment,
+      progress: { ...enrollment.progress, completedDays: [1] },
+    });
+
+    // A later enrollment in the same challenge reaches the same milestone again
+    const rejoined: ChallengeEnrollment = { ...first, id: "a-later-enrollment" };
+    const credited = await storage.addTokenLedgerEntries(user.id, checkInRewardEntries({ id: "check-in-1", day: 1 }, withFirstDay(first)));
+    const recredited = await storage.addTokenLedgerEntries(user.id, checkInRewardEntries({ id: "check-in-2", day: 1 }, withFirstDay(rejoined)));
+
+    assert.deepEqual(credited.map((entry) => entry.type), ["check_in_reward", "milestone"]);
+    assert.deepEqual(recredited.map((entry) => entry.type), ["check_in_reward"]);
+  });
+});
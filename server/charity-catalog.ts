@@ -0,0 +1,24 @@
+import type { CharitySeed } from "@shared/schema";
+
+// Seeded into the charities table on startup; existing rows are left untouched
+// so admins can edit or deactivate them from the admin console.
+export const defaultCharities: CharitySeed[] = [
+  {
+    id: "santuario_esperanza_animal",
+    name: "Santuario Esperanza Animal",
+    description: "Refugio para animales de granja rescatados. Proporcionamos cuidado médico, alimentación y un hogar seguro para más de 200 animales.",
+    imageUrl: "https://images.unsplash.com/photo-1560114928-40f1f1eb26a0?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400",
+  },
+  {
+    id: "centro_rescate_silvestre",
+    name: "Centro de Rescate Silvestre",
+    description: "Rehabilitación y liberación de fauna silvestre. Trabajamos en la conservación de especies nativas y educación ambiental.",
+    imageUrl: "https://images.unsplash.com/photo-1547036967-23d11aacaee0?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400",
+  },
+  {
+    id: "rescate_marino_pacifico",
+    name: "Rescate Marino Pacífico",
+    description: "Protección de la vida marina y limpieza de océanos. Rescatamos especies afectadas por contaminación plástica.",
+    imageUrl: "https://images.unsplash.com/photo-1544551763-46a013bb70d5?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=400",
+  },
+];
@@ -4,9 +4,11 @@ import ws from "ws";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+// Connections are only opened when the Postgres storage backend is selected,
+// so importing this module never requires DATABASE_URL.
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle(pool);
 }
 
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool);
+export type Database = ReturnType<typeof createDb>;
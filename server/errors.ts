@@ -0,0 +1,135 @@
+import type { Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
+import { logger, requestContext } from "./logger";
+import type { ApiErrorResponse, ErrorCode, ErrorParams, FieldError } from "@shared/errors";
+
+// Errors a route throws to answer with something other than a 500. The error
+// handler turns them into an ApiErrorResponse with the class's status.
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly params?: ErrorParams,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(400, code, message, params);
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(readonly fields: FieldError[]) {
+    super(400, "VALIDATION_FAILED", "Datos inválidos");
+  }
+
+  static fromZodError(error: ZodError): ValidationError {
+    return new ValidationError(error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      issue: issue.code,
+      message: issue.message,
+      ...((issue.code === "too_small" || issue.code === "too_big") && { limit: Number(issue.code === "too_small" ? issue.minimum : issue.maximum) }),
+    })));
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(401, code, message, params);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(403, code, message, params);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(404, code, message, params);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(409, code, message, params);
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(413, code, message, params);
+  }
+}
+
+export class UnsupportedMediaTypeError extends ApiError {
+  constructor(code: ErrorCode, message: string, params?: ErrorParams) {
+    super(415, code, message, params);
+  }
+}
+
+function retryMessage(retryAfterSeconds: number): string {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return minutes <= 1
+    ? "Inténtalo de nuevo en un minuto."
+    : `Inténtalo de nuevo en ${minutes} minutos.`;
+}
+
+// Answered with Retry-After, the header clients and proxies understand
+export class TooManyRequestsError extends ApiError {
+  readonly retryAfter: number;
+
+  // resetAt is the epoch milliseconds at which the client may try again
+  constructor(code: ErrorCode, message: string, resetAt: number) {
+    const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+    super(429, code, `${message} ${retryMessage(retryAfter)}`, { retryAfter });
+    this.retryAfter = retryAfter;
+  }
+}
+
+function toApiError(error: unknown): ApiError | undefined {
+  if (error instanceof ApiError) return error;
+  if (error instanceof ZodError) return ValidationError.fromZodError(error);
+  // body-parser rejects unreadable JSON with a 4xx status
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    return new ApiError(status, "MALFORMED_REQUEST", "La solicitud no es válida");
+  }
+  return undefined;
+}
+
+function sendError(res: Response, error: ApiError) {
+  if (error instanceof TooManyRequestsError) {
+    res.setHeader("Retry-After", String(error.retryAfter));
+  }
+  const body: ApiErrorResponse = {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.params && { params: error.params }),
+      ...(error instanceof ValidationError && { fields: error.fields }),
+    },
+  };
+  return res.status(error.status).json(body);
+}
+
+// Last middleware of the app: answers every error passed to next() with the
+// same envelope. Anything that is not an ApiError is logged and hidden behind
+// a generic 500.
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+  const apiError = toApiError(error);
+  if (apiError) {
+    return sendError(res, apiError);
+  }
+  logger.error("unhandled error", { ...requestContext(req), error });
+  sendError(res, new ApiError(500, "INTERNAL_ERROR", "Error interno del servidor"));
+}
@@ -0,0 +1,103 @@
+import type { Response } from "express";
+import type { LiveEvent } from "@shared/events";
+import { ApiError } from "./errors";
+
+// An open stream: send delivers an event, close ends the response
+interface Subscriber {
+  send: (event: LiveEvent) => void;
+  close: () => void;
+}
+
+// Each stream holds a connection open for as long as it lasts. A user with
+// more tabs than this loses the oldest stream; past the global limit new
+// streams are refused.
+const MAX_STREAMS_PER_USER = 5;
+const MAX_STREAMS = 1000;
+
+// Open event streams by user. Events only reach streams held by this process;
+// a bus backed by Redis or Postgres LISTEN/NOTIFY can replace this one when
+// the app runs on more than one.
+class LiveEventBus {
+  // Sets keep insertion order, so the first subscriber is the oldest
+  private subscribers = new Map<string, Set<Subscriber>>();
+  private count = 0;
+
+  // Returns the function that unsubscribes. Throws when the process already
+  // holds MAX_STREAMS streams.
+  subscribe(userId: string, subscriber: Subscriber): () => void {
+    const userSubscribers = this.subscribers.get(userId) ?? new Set<Subscriber>();
+    if (userSubscribers.size >= MAX_STREAMS_PER_USER) {
+      const oldest = userSubscribers.values().next().value!;
+      this.remove(userId, oldest);
+      oldest.close();
+    } else if (this.count >= MAX_STREAMS) {
+      throw new ApiError(503, "EVENT_STREAMS_FULL", "Demasiadas conexiones abiertas. Inténtalo de nuevo más tarde.");
+    }
+    userSubscribers.add(subscriber);
+    this.subscribers.set(userId, userSubscribers);
+    this.count++;
+    return () => this.remove(userId, subscriber);
+  }
+
+  broadcast(event: LiveEvent): void {
+    for (const userSubscribers of Array.from(this.subscribers.values())) {
+      userSubscribers.forEach((subscriber) => subscriber.send(event));
+    }
+  }
+
+  sendTo(userId: string, event: LiveEvent): void {
+    this.subscribers.get(userId)?.forEach((subscriber) => subscriber.send(event));
+  }
+
+  // Ends every stream of the user, e.g. after their sessions are revoked.
+  // Clients reconnect with a fresh access token if they still have a session.
+  disconnect(userId: string): void {
+    Array.from(this.subscribers.get(userId) ?? []).forEach((subscriber) => {
+      this.remove(userId, subscriber);
+      subscriber.close();
+    });
+  }
+
+  private remove(userId: string, subscriber: Subscriber): void {
+    const userSubscribers = this.subscribers.get(userId);
+    if (!userSubscribers?.delete(subscriber)) return;
+    this.count--;
+    if (userSubscribers.size === 0) this.subscribers.delete(userId);
+  }
+}
+
+export const liveEvents = new LiveEventBus();
+
+// Proxies drop connections that stay silent, so a comment line goes out
+// between events
+const HEARTBEAT_MS = 25 * 1000;
+const RETRY_MS = 5 * 1000;
+
+// Turns the response into a text/event-stream of the user's events until the
+// client disconnects or the access token it was opened with expires
+// (expiresAt, epoch milliseconds). The client then reconnects with a new one.
+export function openEventStream(res: Response, userId: string, expiresAt: number): void {
+  const close = () => res.end();
+  const unsubscribe = liveEvents.subscribe(userId, {
+    send: (event) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+    close,
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Tells nginx-style proxies not to buffer the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+  const expiry = setTimeout(close, Math.max(0, expiresAt - Date.now()));
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    unsubscribe();
+  });
+}
@@ -0,0 +1,120 @@
+import { storage } from "./storage";
+import { chainDeployment, deployedContracts } from "./chain";
+
+// Liveness says the process is up; readiness says it can serve requests,
+// i.e. that the database, the RPC node and the contracts it points at respond
+
+export interface ReadinessCheck {
+  // "database", "rpc" or "contract:<name>"
+  name: string;
+  // "skipped" when the check does not apply, e.g. the chain in demo mode
+  status: "ok" | "fail" | "skipped";
+  latencyMs: number;
+  detail?: string;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  mode: string;
+  checks: ReadinessCheck[];
+}
+
+const CHECK_TIMEOUT_MS = Number(process.env.READINESS_TIMEOUT_MS ?? 3000);
+
+const startedAt = Date.now();
+
+export function uptimeSeconds(): number {
+  return Math.floor((Date.now() - startedAt) / 1000);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No response after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs the probe and times it. A probe throws to fail and returns a detail
+// (or nothing) to pass.
+async function runCheck(name: string, probe: () => Promise<string | void>): Promise<ReadinessCheck> {
+  const start = performance.now();
+  const latency = () => Math.round((performance.now() - start) * 10) / 10;
+  try {
+    const detail = await withTimeout(probe(), CHECK_TIMEOUT_MS);
+    return { name, status: "ok", latencyMs: latency(), ...(detail && { detail }) };
+  } catch (error) {
+    return { name, status: "fail", latencyMs: latency(), detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function skipped(name: string, detail: string): ReadinessCheck {
+  return { name, status: "skipped", latencyMs: 0, detail };
+}
+
+async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`RPC node answered ${response.status}`);
+  }
+  const body: { result?: T; error?: { message?: string } } = await response.json();
+  if (body.error || body.result === undefined) {
+    throw new Error(`RPC error: ${body.error?.message ?? "empty result"}`);
+  }
+  return body.result;
+}
+
+async function checkChain(): Promise<ReadinessCheck[]> {
+  const { network, contracts } = chainDeployment;
+  if (!network) {
+    const detail = `No chain in ${chainDeployment.mode} mode`;
+    return [skipped("rpc", detail), ...deployedContracts.map((contract) => skipped(`contract:${contract}`, detail))];
+  }
+
+  // The node URL may embed an API key, so it is not part of the report
+  const rpc = await runCheck("rpc", async () => {
+    const chainId = Number(await rpcCall<string>(network.rpcUrl, "eth_chainId", []));
+    if (chainId !== network.chainId) {
+      throw new Error(`RPC node is on chain ${chainId}, expected ${network.chainId} (${network.name})`);
+    }
+    return `${network.name} (${chainId})`;
+  });
+  if (rpc.status === "fail") {
+    return [rpc, ...deployedContracts.map((contract) => skipped(`contract:${contract}`, "RPC node unavailable"))];
+  }
+
+  const contractChecks = await Promise.all(deployedContracts.map((contract) => {
+    const address = contracts[contract];
+    return runCheck(`contract:${contract}`, async () => {
+      if (!address) {
+        throw new Error(`No address configured for ${network.name}`);
+      }
+      const code = await rpcCall<string>(network.rpcUrl, "eth_getCode", [address, "latest"]);
+      if (code === "0x") {
+        throw new Error(`No contract code at ${address}`);
+      }
+      return address;
+    });
+  }));
+  return [rpc, ...contractChecks];
+}
+
+// Every check runs on each call; the node and database are asked directly
+// rather than trusting a cached result
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const [database, chain] = await Promise.all([
+    runCheck("database", () => storage.ping()),
+    checkChain(),
+  ]);
+  const checks = [database, ...chain];
+  return {
+    status: checks.some((check) => check.status === "fail") ? "not_ready" : "ready",
+    mode: chainDeployment.mode,
+    checks,
+  };
+}
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { storage } from "./storage";
+import { registerTestUser, startTestApp, type TestApp } from "./test-app";
+
+let app: TestApp;
+
+before(async () => {
+  app = await startTestApp();
+});
+
+after(() => app.close());
+
+describe("leaderboard ranks", () => {
+  it("gives tied users the same rank and skips the ranks they take up", async () => {
+    const leaders = [await registerTestUser(app, "Leader"), await registerTestUser(app, "Leader")];
+    const trailing = await registerTestUser(app, "Trailing");
+    for (const leader of leaders) {
+      await storage.addTokenLedgerEntries(leader.id, [{ type: "milestone", amount: 50, description: "Hito", referenceId: "tie" }]);
+    }
+
+    const { status, body } = await app.request("GET", "/api/leaderboard", { token: trailing.token });
+    assert.equal(status, 200, JSON.stringify(body));
+    const ranks = Object.fromEntries(body.users.map((entry: { id: string; rank: number }) => [entry.id, entry.rank]));
+    assert.equal(ranks[leaders[0].id], 1);
+    assert.equal(ranks[leaders[1].id], 1);
+    assert.equal(ranks[trailing.id], 3);
+    assert.equal(body.currentUser.rank, 3);
+  });
+});
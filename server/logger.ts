@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requestLogger and echoed in the X-Request-Id response header
+      requestId?: string;
+    }
+  }
+}
+
+type LogLevel = "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+// Keys whose values never reach the logs, at any depth: tokens of every kind
+// (access, refresh, MFA, link, reset), passwords and their hashes, TOTP
+// secrets and codes, emails and auth headers
+const SENSITIVE_KEY = /token|password|secret|email|recovery|authorization|cookie|signature|^code$/i;
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 6;
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1)]));
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...(redact(fields) as LogFields) });
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+// One JSON object per line, so the host's log search can filter on any field
+export const logger = {
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
+
+// The fields that tie a log line to the request behind it
+export function requestContext(req: Request): LogFields {
+  return {
+    requestId: req.requestId,
+    method: req.method,
+    // Without the query string, which can carry OAuth codes
+    path: req.originalUrl.split("?")[0],
+    ...(req.userId && { userId: req.userId }),
+  };
+}
+
+// A proxy or client may send its own ID to correlate its logs with ours; it is
+// only kept when it cannot break the log line or the header
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Tags every request with an ID and logs one line per API call once the
+// response is sent. Bodies are left out: the status and the error handler's
+// own line say what went wrong without copying user data into the logs.
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+  const incoming = req.get("X-Request-Id");
+  req.requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", req.requestId);
+
+  res.on("finish", () => {
+    if (!req.originalUrl.startsWith("/api")) return;
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const level: LogLevel = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+    write(level, "request", {
+      ...requestContext(req),
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10,
+      ip: req.ip,
+    });
+  });
+
+  next();
+}
@@ -0,0 +1,84 @@
+import type { User } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { logger } from "./logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Keeps every message in the mail_outbox table instead of delivering it, so
+// account flows work offline and tests can read what would have been sent
+export class OutboxMailer implements Mailer {
+  constructor(private readonly outbox: Pick<IStorage, "addOutboxMessage">) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.outbox.addOutboxMessage({ recipient: message.to, subject: message.subject, body: message.text });
+    logger.info("mail stored in outbox", { email: message.to, subject: message.subject });
+  }
+}
+
+// MAIL_DRIVER selects the implementation; "outbox" is the only one so far and
+// the default
+function createMailer(): Mailer {
+  const driver = process.env.MAIL_DRIVER ?? "outbox";
+  if (driver !== "outbox") {
+    throw new Error(`Unknown MAIL_DRIVER "${driver}". Use "outbox".`);
+  }
+  return new OutboxMailer(storage);
+}
+
+export const mailer = createMailer();
+
+export function passwordResetEmail(user: User, link: string): MailMessage {
+  return {
+    to: user.email!,
+    subject: "Restablece tu contraseña de VEG21",
+    text: [
+      `Hola ${user.name},`,
+      "",
+      "Recibimos una solicitud para restablecer la contraseña de tu cuenta VEG21.",
+      `Abre este enlace para elegir una nueva (válido durante 1 hora):`,
+      link,
+      "",
+      "Si no fuiste tú, ignora este mensaje: tu contraseña no cambiará.",
+    ].join("\n"),
+  };
+}
+
+export function emailVerificationEmail(user: User, link: string): MailMessage {
+  return {
+    to: user.email!,
+    subject: "Confirma tu email en VEG21",
+    text: [
+      `Hola ${user.name},`,
+      "",
+      "Confirma que este email es tuyo abriendo el siguiente enlace (válido durante 24 horas):",
+      link,
+      "",
+      "Si no creaste una cuenta en VEG21, ignora este mensaje.",
+    ].join("\n"),
+  };
+}
+
+export function oauthLinkCodeEmail(user: User, providerName: string, code: string): MailMessage {
+  return {
+    to: user.email!,
+    subject: `Tu código para vincular ${providerName} a VEG21`,
+    text: [
+      `Hola ${user.name},`,
+      "",
+      `Alguien intenta vincular una cuenta de ${providerName} a tu cuenta VEG21.`,
+      `Si fuiste tú, introduce este código (válido durante 15 minutos):`,
+      "",
+      code,
+      "",
+      "Si no fuiste tú, ignora este mensaje: no se vinculará nada sin el código.",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,58 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Where uploaded images are kept. Keys are generated by the server (media ids
+// plus a suffix), never taken from a request.
+export interface MediaStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Undefined when nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[\w-]+$/;
+
+// One file per key in a directory of the server's disk. Enough for a single
+// instance; an object storage backend can replace it behind MEDIA_DRIVER.
+export class LocalDiskMediaStore implements MediaStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid media key "${key}"`);
+    }
+    return path.join(this.directory, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.filePath(key);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
+  }
+}
+
+// MEDIA_DRIVER selects the implementation; "local" is the only one so far and
+// the default. MEDIA_DIR sets its directory.
+function createMediaStore(): MediaStore {
+  const driver = process.env.MEDIA_DRIVER ?? "local";
+  if (driver !== "local") {
+    throw new Error(`Unknown MEDIA_DRIVER "${driver}". Use "local".`);
+  }
+  return new LocalDiskMediaStore(path.resolve(process.env.MEDIA_DIR ?? "uploads"));
+}
+
+export const mediaStore = createMediaStore();
@@ -0,0 +1,138 @@
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import sharp, { type Sharp } from "sharp";
+import { MAX_MEDIA_UPLOAD_BYTES, mediaUrls, type MediaMimeType, type MediaRow, type UploadedMedia } from "@shared/schema";
+import { storage } from "./storage";
+import { mediaStore } from "./media-store";
+import { logger } from "./logger";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, PayloadTooLargeError, UnsupportedMediaTypeError } from "./errors";
+
+// Longest side, in pixels, of a stored image and of its thumbnail
+const MAX_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 400;
+// A small file can decode to a huge bitmap; sharp refuses anything larger
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_MEDIA_UPLOAD_BYTES, files: 1, fields: 0 },
+}).single("file");
+
+// Reads a multipart/form-data body with a single "file" part into req.file.
+// Multer and busboy only fail on the body itself, e.g. a file over the limit,
+// an extra part or a broken boundary.
+export function mediaUpload(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, (error?: unknown) => {
+    if (!error) return next();
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return next(new PayloadTooLargeError("MEDIA_TOO_LARGE", "La imagen es demasiado grande", { maxBytes: MAX_MEDIA_UPLOAD_BYTES }));
+    }
+    next(new BadRequestError("MALFORMED_REQUEST", "La solicitud no es válida"));
+  });
+}
+
+// Tells the type from the first bytes of the file; the part's Content-Type
+// and file name are whatever the client says
+export function sniffImageType(data: Buffer): MediaMimeType | undefined {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) return "image/png";
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+  return undefined;
+}
+
+function encode(image: Sharp, mimeType: MediaMimeType): Sharp {
+  if (mimeType === "image/png") return image.png({ compressionLevel: 9 });
+  if (mimeType === "image/webp") return image.webp({ quality: 85 });
+  return image.jpeg({ quality: 85, mozjpeg: true });
+}
+
+interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+}
+
+// Decodes the upload and writes a new file of the same type: turned upright
+// per its EXIF orientation, scaled down to MAX_DIMENSION and without any
+// metadata, so the camera, GPS position and other EXIF/XMP data are gone.
+// Thumbnails are WebP whatever the original type.
+async function processImage(input: Buffer, mimeType: MediaMimeType): Promise<ProcessedImage> {
+  try {
+    const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS, autoOrient: true })
+      .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true });
+    const { data, info } = await encode(image, mimeType).toBuffer({ resolveWithObject: true });
+    const thumbnail = await sharp(data)
+      .resize({ width: THUMBNAIL_DIMENSION, height: THUMBNAIL_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+    return { data, width: info.width, height: info.height, thumbnail };
+  } catch {
+    throw new BadRequestError("MEDIA_UNREADABLE", "No se pudo leer la imagen");
+  }
+}
+
+export function thumbnailKey(mediaId: string): string {
+  return `${mediaId}-thumbnail`;
+}
+
+// Validates, cleans and stores an upload, then records it for its owner
+export async function saveUploadedImage(ownerId: string, file: Buffer): Promise<MediaRow> {
+  const mimeType = sniffImageType(file);
+  if (!mimeType) {
+    throw new UnsupportedMediaTypeError("MEDIA_TYPE_UNSUPPORTED", "Formato de imagen no admitido", { accepted: "image/jpeg, image/png, image/webp" });
+  }
+  const image = await processImage(file, mimeType);
+  const id = randomUUID();
+  await mediaStore.put(id, image.data);
+  await mediaStore.put(thumbnailKey(id), image.thumbnail);
+  try {
+    return await storage.createMedia({ id, ownerId, mimeType, width: image.width, height: image.height, byteSize: image.data.length });
+  } catch (error) {
+    await deleteMediaFiles([id]);
+    throw error;
+  }
+}
+
+// Removes the stored files of media whose rows are gone. A failure is only
+// logged, since the image can no longer be reached through the API.
+export async function deleteMediaFiles(mediaIds: string[]): Promise<void> {
+  for (const id of mediaIds) {
+    try {
+      await mediaStore.delete(id);
+      await mediaStore.delete(thumbnailKey(id));
+    } catch (error) {
+      logger.error("media file deletion failed", { mediaId: id, error });
+    }
+  }
+}
+
+// A new check-in or post may only show an image its author uploaded and that
+// nothing else shows yet
+export async function assertMediaAttachable(userId: string, mediaId: string): Promise<void> {
+  const item = await storage.getMedia(mediaId);
+  if (!item) {
+    throw new NotFoundError("MEDIA_NOT_FOUND", "Imagen no encontrada");
+  }
+  if (item.ownerId !== userId) {
+    throw new ForbiddenError("MEDIA_NOT_OWNED", "Solo puedes usar imágenes que hayas subido");
+  }
+  if (await storage.isMediaAttached(mediaId)) {
+    throw new ConflictError("MEDIA_ALREADY_USED", "Esta imagen ya se usó en otra publicación");
+  }
+}
+
+export function toUploadedMedia(item: MediaRow): UploadedMedia {
+  return {
+    id: item.id,
+    mimeType: item.mimeType as MediaMimeType,
+    width: item.width,
+    height: item.height,
+    byteSize: item.byteSize,
+    ...mediaUrls(item.id),
+    createdAt: item.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,22 @@
+import type { Request } from "express";
+import type { InsertNotification } from "@shared/schema";
+import { storage } from "./storage";
+import { liveEvents } from "./events";
+import { logger, requestContext } from "./logger";
+
+// Tells the owner of a check-in or post what someone else did to it, unless
+// the owner turned that type off, and pings their open event streams.
+// Failures are logged: the like or comment that caused it has already happened.
+export async function notify(req: Request, data: InsertNotification): Promise<void> {
+  if (data.userId === data.actorId) return;
+  try {
+    const preferences = await storage.getNotificationPreferences(data.userId);
+    if (!preferences[data.type]) return;
+    const notification = await storage.createNotification(data);
+    if (notification) {
+      liveEvents.sendTo(data.userId, { type: "notification_created", notificationId: notification.id });
+    }
+  } catch (error) {
+    logger.error("notification failed", { ...requestContext(req), type: data.type, error });
+  }
+}
@@ -0,0 +1,137 @@
+import { randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import type { StrategyOptions } from "passport-google-oauth20";
+import type { OAuthProvider, User } from "@shared/schema";
+import { storage } from "./storage";
+import { generateSecretToken, hashSecretToken } from "./auth";
+import { logger, requestContext } from "./logger";
+
+type StateStore = NonNullable<StrategyOptions["store"]>;
+
+// How long the client has to exchange the code from an OAuth redirect
+export const OAUTH_CODE_TTL_MS = 60 * 1000;
+
+// How long a user has to confirm linking a provider to an existing account,
+// and how many wrong passwords or codes end the attempt
+export const OAUTH_LINK_TTL_MS = 15 * 60 * 1000;
+export const MAX_OAUTH_LINK_ATTEMPTS = 5;
+
+const STATE_COOKIE = "veg21_oauth_state";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Single-use code put in the post-login redirect instead of the session tokens
+export function generateOAuthCode(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Six digits, so it can be typed from the email; the attempt limit above keeps
+// it from being guessed
+export function generateOAuthLinkCode(): string {
+  return String(randomInt(0, 1_000_000)).padStart(6, "0");
+}
+
+export function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+type StoreCallback = (err: Error | null, state: string) => void;
+type VerifyCallback = (err: Error | null, ok: boolean, state: string) => void;
+
+// Passport state store that binds the OAuth `state` parameter to the browser
+// that started the login through an httpOnly cookie, so an attacker cannot make
+// a victim complete a login the attacker started (login CSRF). Passport picks
+// the call signature from the function's arity and passes the metadata
+// argument here; it is not needed.
+class CookieStateStore implements StateStore {
+  store(req: Request, callback: StoreCallback): void;
+  store(req: Request, meta: unknown, callback: StoreCallback): void;
+  store(req: Request, metaOrCallback: unknown, callback?: StoreCallback): void {
+    const done = callback ?? (metaOrCallback as StoreCallback);
+    const state = randomBytes(24).toString("base64url");
+    req.res!.cookie(STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: STATE_TTL_MS,
+      path: "/api/auth",
+    });
+    done(null, state);
+  }
+
+  verify(req: Request, state: string, callback: VerifyCallback): void;
+  verify(req: Request, state: string, meta: unknown, callback: VerifyCallback): void;
+  verify(req: Request, state: string, metaOrCallback: unknown, callback?: VerifyCallback): void {
+    const done = callback ?? (metaOrCallback as VerifyCallback);
+    const expected = readCookie(req, STATE_COOKIE);
+    req.res!.clearCookie(STATE_COOKIE, { path: "/api/auth" });
+    const ok = !!expected && typeof state === "string" && state.length === expected.length
+      && timingSafeEqual(Buffer.from(state), Buffer.from(expected));
+    done(null, ok, state);
+  }
+}
+
+export const oauthStateStore = new CookieStateStore();
+
+// What every provider login is reduced to, whatever the protocol
+export interface OAuthProfile {
+  provider: OAuthProvider;
+  // The provider's stable identifier for the user
+  subject: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+}
+
+export type OAuthLoginResult = { user: User } | { pendingLinkToken: string };
+
+// Find-or-create shared by every provider. An identity that is already linked
+// signs in and an unknown email gets a new account. A provider email matching
+// an existing account is never trusted on its own: the identity is only linked
+// once the user proves they own the account through /api/auth/oauth/link/confirm.
+export async function resolveOAuthLogin(profile: OAuthProfile): Promise<OAuthLoginResult> {
+  const linkedUser = await storage.getUserByOAuthIdentity(profile.provider, profile.subject);
+  if (linkedUser) {
+    return { user: linkedUser };
+  }
+
+  const existingUser = await storage.getUserByEmail(profile.email);
+  if (existingUser) {
+    const pendingLinkToken = generateSecretToken();
+    await storage.createPendingOAuthLink({
+      tokenHash: hashSecretToken(pendingLinkToken),
+      userId: existingUser.id,
+      provider: profile.provider,
+      providerId: profile.subject,
+      expiresAt: new Date(Date.now() + OAUTH_LINK_TTL_MS),
+    });
+    return { pendingLinkToken };
+  }
+
+  const user = await storage.createOAuthUser(profile);
+  return { user };
+}
+
+// Last step of a provider login: the browser gets a single-use code for the
+// session, or a link token when an existing account still has to be confirmed
+export async function finishOAuthLogin(res: Response, result: OAuthLoginResult | undefined) {
+  if (!result) {
+    return res.redirect('/?auth_error=no_user');
+  }
+  try {
+    if ("pendingLinkToken" in result) {
+      return res.redirect(`/?${new URLSearchParams({ link_token: result.pendingLinkToken })}`);
+    }
+    const code = generateOAuthCode();
+    await storage.createOAuthCode(hashSecretToken(code), result.user.id, new Date(Date.now() + OAUTH_CODE_TTL_MS));
+    res.redirect(`/?${new URLSearchParams({ code })}`);
+  } catch (error) {
+    logger.error("oauth code failed", { ...requestContext(res.req), error });
+    res.redirect('/?auth_error=session_failed');
+  }
+}
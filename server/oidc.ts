@@ -0,0 +1,292 @@
+import { createHash, createPublicKey, randomBytes, timingSafeEqual, type JsonWebKey, type KeyObject } from "crypto";
+import type { Request, Response } from "express";
+import jwt, { type Algorithm } from "jsonwebtoken";
+import { z } from "zod";
+import { builtInOAuthProviders } from "@shared/schema";
+import { readCookie, type OAuthProfile } from "./oauth";
+
+// Generic OpenID Connect (authorization code flow with PKCE) for identity
+// providers configured at deploy time, such as a partner organisation's own
+// provider or a local mock issuer in development
+
+const FLOW_COOKIE = "veg21_oidc_flow";
+const FLOW_COOKIE_PATH = "/api/auth/oidc";
+const FLOW_TTL_MS = 10 * 60 * 1000;
+
+// Discovery documents and signing keys rarely change; an unknown key id forces
+// a refresh before then
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Only asymmetric signatures: the client secret is never accepted as a key
+const ID_TOKEN_ALGORITHMS: Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+
+// Ids that would clash with other sign-in methods or with the routes
+const RESERVED_PROVIDER_IDS = [...builtInOAuthProviders, "password", "wallet", "providers"];
+
+const oidcProviderConfigSchema = z.object({
+  id: z.string()
+    .regex(/^[a-z0-9-]{1,32}$/, "must be 1-32 lowercase letters, digits or dashes")
+    .refine((id) => !RESERVED_PROVIDER_IDS.includes(id), "is reserved"),
+  name: z.string().min(1),
+  issuer: z.string().url().refine(
+    (issuer) => issuer.startsWith("https://") || process.env.NODE_ENV !== "production",
+    "must use https in production",
+  ),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  scopes: z.array(z.string()).default(["openid", "email", "profile"]),
+  // Claim names to read from the ID token (or the userinfo response) when the
+  // provider does not use the standard ones
+  claims: z.object({
+    subject: z.string().default("sub"),
+    email: z.string().default("email"),
+    emailVerified: z.string().default("email_verified"),
+    name: z.string().default("name"),
+  }).default({}),
+});
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderConfigSchema>;
+
+const discoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string().url(),
+  token_endpoint: z.string().url(),
+  jwks_uri: z.string().url(),
+  userinfo_endpoint: z.string().url().optional(),
+});
+
+type OidcDiscovery = z.infer<typeof discoverySchema>;
+
+const tokenResponseSchema = z.object({
+  id_token: z.string(),
+  access_token: z.string().optional(),
+});
+
+interface OidcFlow {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+  return response.json();
+}
+
+export class OidcProvider {
+  private discovery?: { value: OidcDiscovery; fetchedAt: number };
+  private keys?: { value: Map<string, KeyObject>; fetchedAt: number };
+
+  constructor(readonly config: OidcProviderConfig, private readonly redirectUri: string) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < METADATA_TTL_MS) {
+      return this.discovery.value;
+    }
+    const issuer = this.config.issuer.replace(/\/$/, "");
+    const value = discoverySchema.parse(await fetchJson(`${issuer}/.well-known/openid-configuration`));
+    if (value.issuer.replace(/\/$/, "") !== issuer) {
+      throw new Error(`OIDC provider ${this.id} reports issuer ${value.issuer}`);
+    }
+    this.discovery = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    const find = () => {
+      const keys = this.keys!.value;
+      // Providers with a single key may leave the key id out of the token
+      return kid === undefined && keys.size === 1 ? Array.from(keys.values())[0] : keys.get(kid ?? "");
+    };
+
+    if (this.keys && Date.now() - this.keys.fetchedAt < METADATA_TTL_MS) {
+      const key = find();
+      if (key) return key;
+    }
+
+    const { jwks_uri } = await this.getDiscovery();
+    const { keys } = z.object({ keys: z.array(z.record(z.unknown())) }).parse(await fetchJson(jwks_uri));
+    const value = new Map<string, KeyObject>();
+    for (const jwk of keys) {
+      if (jwk.use !== undefined && jwk.use !== "sig") continue;
+      value.set(typeof jwk.kid === "string" ? jwk.kid : "", createPublicKey({ key: jwk as JsonWebKey, format: "jwk" }));
+    }
+    this.keys = { value, fetchedAt: Date.now() };
+
+    const key = find();
+    if (!key) {
+      throw new Error(`OIDC provider ${this.id} has no signing key ${kid}`);
+    }
+    return key;
+  }
+
+  // Redirects the browser to the provider. State, nonce and the PKCE verifier
+  // are kept in an httpOnly cookie so only this browser can finish the login.
+  async startLogin(res: Response): Promise<void> {
+    const discovery = await this.getDiscovery();
+    const flow: OidcFlow = { providerId: this.id, state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+    res.cookie(FLOW_COOKIE, Buffer.from(JSON.stringify(flow)).toString("base64url"), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: FLOW_TTL_MS,
+      path: FLOW_COOKIE_PATH,
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: this.redirectUri,
+      scope: this.config.scopes.join(" "),
+      state: flow.state,
+      nonce: flow.nonce,
+      code_challenge: createHash("sha256").update(flow.codeVerifier).digest("base64url"),
+      code_challenge_method: "S256",
+    }).toString();
+    res.redirect(url.toString());
+  }
+
+  private readFlow(req: Request): OidcFlow | undefined {
+    const cookie = readCookie(req, FLOW_COOKIE);
+    if (!cookie) return undefined;
+    try {
+      return JSON.parse(Buffer.from(cookie, "base64url").toString("utf8")) as OidcFlow;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Handles the redirect back from the provider: checks the state, exchanges the
+  // code and verifies the ID token before trusting any claim in it
+  async completeLogin(req: Request, res: Response): Promise<OAuthProfile> {
+    const flow = this.readFlow(req);
+    res.clearCookie(FLOW_COOKIE, { path: FLOW_COOKIE_PATH });
+
+    const { state, code, error } = req.query;
+    if (typeof error === "string") {
+      throw new Error(`OIDC provider ${this.id} returned ${error}`);
+    }
+    if (!flow || flow.providerId !== this.id || typeof state !== "string" || !safeEqual(state, flow.state)) {
+      throw new Error("OIDC state mismatch");
+    }
+    if (typeof code !== "string") {
+      throw new Error("OIDC callback without code");
+    }
+
+    const discovery = await this.getDiscovery();
+    const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+    const tokens = tokenResponseSchema.parse(await fetchJson(discovery.token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(credentials).toString("base64")}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: this.redirectUri,
+        code_verifier: flow.codeVerifier,
+      }),
+    }));
+
+    const decoded = jwt.decode(tokens.id_token, { complete: true });
+    if (!decoded) {
+      throw new Error("Malformed ID token");
+    }
+    const key = await this.getSigningKey(decoded.header.kid);
+    const claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: this.config.clientId,
+      nonce: flow.nonce,
+    }) as Record<string, unknown>;
+
+    // Some providers only release the email through the userinfo endpoint
+    const mapping = this.config.claims;
+    if (claims[mapping.email] === undefined && discovery.userinfo_endpoint && tokens.access_token) {
+      const userInfo = z.record(z.unknown()).parse(await fetchJson(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      }));
+      // The userinfo response must describe the same user as the ID token
+      if (userInfo.sub === claims.sub) {
+        Object.assign(claims, { ...userInfo, ...claims });
+      }
+    }
+
+    return this.toProfile(claims);
+  }
+
+  private toProfile(claims: Record<string, unknown>): OAuthProfile {
+    const mapping = this.config.claims;
+    const subject = claims[mapping.subject];
+    const email = claims[mapping.email];
+    const name = claims[mapping.name];
+    const emailVerified = claims[mapping.emailVerified];
+    if (typeof subject !== "string" && typeof subject !== "number") {
+      throw new Error(`No ${mapping.subject} claim in ${this.id} ID token`);
+    }
+    if (typeof email !== "string" || !email.includes("@")) {
+      throw new Error(`No email found in ${this.id} profile`);
+    }
+    return {
+      provider: this.id,
+      subject: String(subject),
+      email: email.toLowerCase(),
+      name: typeof name === "string" && name.trim() ? name.trim() : email.split("@")[0],
+      // Some providers send the flag as a string
+      emailVerified: emailVerified === true || emailVerified === "true",
+    };
+  }
+}
+
+// OIDC_PROVIDERS holds a JSON array of provider configs. A bad entry stops the
+// server at startup rather than failing on the first login.
+export function loadOidcProviderConfigs(raw = process.env.OIDC_PROVIDERS): OidcProviderConfig[] {
+  if (!raw?.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("OIDC_PROVIDERS is not valid JSON");
+  }
+  const result = z.array(oidcProviderConfigSchema).safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.errors.map((issue) => `${issue.path.join(".")} ${issue.message}`).join("; ");
+    throw new Error(`Invalid OIDC_PROVIDERS: ${issues}`);
+  }
+  const ids = result.data.map((config) => config.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid OIDC_PROVIDERS: duplicate id "${duplicate}"`);
+  }
+  return result.data;
+}
+
+export function createOidcProviders(baseUrl: string, configs = loadOidcProviderConfigs()): Map<string, OidcProvider> {
+  return new Map(configs.map((config) => [
+    config.id,
+    new OidcProvider(config, `${baseUrl}/api/auth/oidc/${config.id}/callback`),
+  ]));
+}
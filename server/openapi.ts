@@ -0,0 +1,328 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { apiEndpoints, apiTags, namedApiSchemas, type ApiEndpoint } from "@shared/api";
+import { errorCodes } from "@shared/errors";
+
+// Builds the OpenAPI 3.1 document served at /api/openapi.json from the route
+// contract in shared/api.ts, and the HTML page at /api/docs.
+
+type JsonSchema = Record<string, unknown>;
+
+// Request bodies describe what a client may send (defaults make a field
+// optional); responses describe what it gets back
+type Direction = "input" | "output";
+
+const schemaNames = new Map(Object.entries(namedApiSchemas).map(([name, schema]) => [schema, name]));
+
+function withNull(schema: JsonSchema): JsonSchema {
+  return typeof schema.type === "string"
+    ? { ...schema, type: [schema.type, "null"] }
+    : { anyOf: [schema, { type: "null" }] };
+}
+
+function isOptionalField(schema: z.ZodTypeAny, direction: Direction): boolean {
+  if (schema instanceof z.ZodOptional) return true;
+  if (schema instanceof z.ZodDefault) return direction === "input";
+  if (schema instanceof z.ZodEffects) return isOptionalField(schema.innerType(), direction);
+  return false;
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: "string" };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min": result.minLength = check.value; break;
+      case "max": result.maxLength = check.value; break;
+      case "length": result.minLength = result.maxLength = check.value; break;
+      case "email": result.format = "email"; break;
+      case "url": result.format = "uri"; break;
+      case "uuid": result.format = "uuid"; break;
+      case "datetime": result.format = "date-time"; break;
+      case "regex": result.pattern = check.regex.source; break;
+    }
+  }
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: "number" };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int": result.type = "integer"; break;
+      case "min": result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value; break;
+      case "max": result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value; break;
+    }
+  }
+  return result;
+}
+
+function objectSchema(schema: z.AnyZodObject, direction: Direction): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, field] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+    properties[key] = toJsonSchema(field, direction);
+    if (!isOptionalField(field, direction)) required.push(key);
+  }
+  const result: JsonSchema = { type: "object", properties };
+  if (required.length > 0) result.required = required;
+  if (!(schema._def.catchall instanceof z.ZodNever)) {
+    result.additionalProperties = toJsonSchema(schema._def.catchall, direction);
+  } else if (schema._def.unknownKeys === "strict") {
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+// Covers the Zod types the schemas in shared/ use; anything else is left
+// unconstrained rather than guessed at
+export function toJsonSchema(schema: z.ZodTypeAny, direction: Direction, isComponent = false): JsonSchema {
+  const name = schemaNames.get(schema);
+  if (name && direction === "output" && !isComponent) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap(), direction);
+  if (schema instanceof z.ZodNullable) return withNull(toJsonSchema(schema.unwrap(), direction));
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault(), direction), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType(), direction);
+  if (schema instanceof z.ZodPipeline) return toJsonSchema(direction === "input" ? schema._def.in : schema._def.out, direction);
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  // Dates travel as ISO 8601 strings
+  if (schema instanceof z.ZodDate) return { type: "string", format: "date-time" };
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value, type: typeof schema.value };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, string | number>);
+    return { type: typeof values[0] === "number" ? "integer" : "string", enum: values };
+  }
+  if (schema instanceof z.ZodObject) return objectSchema(schema, direction);
+  if (schema instanceof z.ZodArray) return { type: "array", items: toJsonSchema(schema.element, direction) };
+  if (schema instanceof z.ZodRecord) return { type: "object", additionalProperties: toJsonSchema(schema.valueSchema, direction) };
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return {
+      oneOf: schema.options.map((option: z.ZodTypeAny) => toJsonSchema(option, direction)),
+      discriminator: { propertyName: schema.discriminator },
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: schema.options.map((option: z.ZodTypeAny) => toJsonSchema(option, direction)) };
+  }
+  return {};
+}
+
+const errorResponseSchema: JsonSchema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: {
+      type: "object",
+      required: ["code", "message"],
+      properties: {
+        code: { type: "string", enum: [...errorCodes] },
+        message: { type: "string", description: "Spanish default text; clients show their own text for the code" },
+        params: { type: "object", additionalProperties: { type: ["string", "number"] } },
+        fields: {
+          type: "array",
+          description: "Only for VALIDATION_FAILED",
+          items: {
+            type: "object",
+            required: ["field", "issue", "message"],
+            properties: {
+              field: { type: "string" },
+              issue: { type: "string" },
+              message: { type: "string" },
+              limit: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+function pathParameters(path: string) {
+  return Array.from(path.matchAll(/:(\w+)/g), ([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+function queryParameters(query: z.ZodTypeAny | undefined) {
+  if (!(query instanceof z.ZodObject)) return [];
+  return Object.entries<z.ZodTypeAny>(query.shape).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: !isOptionalField(schema, "input"),
+    schema: toJsonSchema(schema, "input"),
+  }));
+}
+
+function security(auth: ApiEndpoint["auth"]) {
+  if (auth === "bearer") return [{ bearerAuth: [] }];
+  if (auth === "optional") return [{}, { bearerAuth: [] }];
+  return [];
+}
+
+function binaryContent(types: string[] = []) {
+  return Object.fromEntries(types.map((type) => [type, { schema: { type: "string", format: "binary" } }]));
+}
+
+function uploadSchema(field: string) {
+  return { type: "object", required: [field], properties: { [field]: { type: "string", format: "binary" } } };
+}
+
+function requestBody(endpoint: ApiEndpoint) {
+  if (endpoint.upload) {
+    return { required: true, content: { "multipart/form-data": { schema: uploadSchema(endpoint.upload) } } };
+  }
+  if (endpoint.body) {
+    return { required: true, content: { "application/json": { schema: toJsonSchema(endpoint.body, "input") } } };
+  }
+  return undefined;
+}
+
+function operation(operationId: string, endpoint: ApiEndpoint) {
+  const status = endpoint.status ?? (endpoint.response || endpoint.stream || endpoint.alternativeContent ? 200 : 302);
+  const success = endpoint.stream
+    ? {
+      description: "A stream of server-sent events; each data line holds one of these as JSON",
+      content: { "text/event-stream": { schema: toJsonSchema(endpoint.stream, "output") } },
+    }
+    : endpoint.response
+    ? {
+      description: "OK",
+      content: {
+        "application/json": { schema: toJsonSchema(endpoint.response, "output") },
+        ...binaryContent(endpoint.alternativeContent),
+      },
+    }
+    : endpoint.alternativeContent
+    ? { description: "OK", content: binaryContent(endpoint.alternativeContent) }
+    : { description: "Redirect" };
+  const body = requestBody(endpoint);
+
+  return {
+    operationId,
+    tags: [endpoint.tag],
+    summary: endpoint.summary,
+    ...(endpoint.role && { description: `Requires the ${endpoint.role} role.` }),
+    security: security(endpoint.auth),
+    parameters: [...pathParameters(endpoint.path), ...queryParameters(endpoint.query)],
+    ...(body && { requestBody: body }),
+    responses: {
+      [status]: success,
+      default: { $ref: "#/components/responses/Error" },
+    },
+  };
+}
+
+function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [operationId, endpoint] of Object.entries<ApiEndpoint>(apiEndpoints)) {
+    const path = endpoint.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [endpoint.method]: operation(operationId, endpoint) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "VEG21 API",
+      version: "1.0.0",
+      description: "Errors share one shape (see the Error response); match on error.code, which is stable.",
+    },
+    tags: apiTags.map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: {
+        ...Object.fromEntries(Object.entries(namedApiSchemas).map(([name, schema]) => [name, toJsonSchema(schema, "output", true)])),
+        ApiError: errorResponseSchema,
+      },
+      responses: {
+        Error: {
+          description: "Any failure",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/ApiError" } } },
+        },
+      },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+}
+
+export const openApiDocument = buildOpenApiDocument();
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!);
+}
+
+function schemaBlock(title: string, schema: unknown): string {
+  return `<details><summary>${title}</summary><pre>${escapeHtml(JSON.stringify(schema, null, 2))}</pre></details>`;
+}
+
+// A self-contained page, so the docs work offline and without a CDN
+export function renderApiDocsPage(): string {
+  const sections = apiTags.map((tag) => {
+    const operations = Object.entries<ApiEndpoint>(apiEndpoints)
+      .filter(([, endpoint]) => endpoint.tag === tag)
+      .map(([operationId, endpoint]) => {
+        const auth = endpoint.role ? `token, ${endpoint.role} role` : { none: "public", optional: "token optional", bearer: "token" }[endpoint.auth];
+        return `<article id="${operationId}">
+<h3><span class="method ${endpoint.method}">${endpoint.method.toUpperCase()}</span> <code>${escapeHtml(endpoint.path)}</code></h3>
+<p>${escapeHtml(endpoint.summary)} <small>(${auth})</small></p>
+${endpoint.query ? schemaBlock("Query", toJsonSchema(endpoint.query, "input")) : ""}
+${endpoint.body ? schemaBlock("Body", toJsonSchema(endpoint.body, "input")) : ""}
+${endpoint.upload ? schemaBlock("Body (multipart/form-data)", uploadSchema(endpoint.upload)) : ""}
+${endpoint.response ? schemaBlock(`Response ${endpoint.status ?? 200}`, toJsonSchema(endpoint.response, "output")) : ""}
+${!endpoint.response && endpoint.alternativeContent ? `<p>Responds with ${escapeHtml(endpoint.alternativeContent.join(", "))}.</p>` : ""}
+${endpoint.stream ? schemaBlock("Events (text/event-stream)", toJsonSchema(endpoint.stream, "output")) : ""}
+</article>`;
+      });
+    return `<section><h2>${tag}</h2>${operations.join("\n")}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>VEG21 API</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+article { border-top: 1px solid #e5e7eb; padding: 0.5rem 0; }
+h3 { font-size: 1rem; margin: 0.5rem 0; }
+.method { display: inline-block; min-width: 4rem; padding: 0.1rem 0.4rem; border-radius: 4px; color: white; font-size: 0.8rem; text-align: center; }
+.get { background: #2563eb; } .post { background: #16a34a; } .patch { background: #d97706; } .delete { background: #dc2626; }
+pre { background: #f3f4f6; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+summary { cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>VEG21 API</h1>
+<p>Machine-readable version: <a href="/api/openapi.json">/api/openapi.json</a>. Send <code>Authorization: Bearer &lt;token&gt;</code> where a token is needed.
+Errors look like this:</p>
+<pre>${escapeHtml(JSON.stringify({ error: { code: "VALIDATION_FAILED", message: "Datos inválidos", fields: [{ field: "email", issue: "invalid_string", message: "Email no válido" }] } }, null, 2))}</pre>
+${sections.join("\n")}
+${schemaBlock("Shared schemas", openApiDocument.components.schemas)}
+</body>
+</html>`;
+}
+
+const DOCS_ROUTES = ["GET /api/openapi.json", "GET /api/docs"];
+
+// Routes registered on the app that shared/api.ts does not describe, as
+// "METHOD /path". Reads Express 4's router stack.
+export function undocumentedRoutes(app: Express): string[] {
+  const documented = new Set(Object.values<ApiEndpoint>(apiEndpoints).map(({ method, path }) => `${method.toUpperCase()} ${path}`));
+  const stack: { route?: { path: string; methods: Record<string, boolean> } }[] = app._router?.stack ?? [];
+  return stack.flatMap(({ route }) => route
+    ? Object.keys(route.methods).map((method) => `${method.toUpperCase()} ${route.path}`)
+    : [])
+    .filter((route) => route.includes(" /api/") && !route.includes(" /api/dev/") && !DOCS_ROUTES.includes(route) && !documented.has(route));
+}
@@ -0,0 +1,154 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { TooManyRequestsError } from "./errors";
+import { logger, requestContext } from "./logger";
+
+export interface RateLimitCounter {
+  count: number;
+  // Epoch milliseconds at which the window ends and the count starts over
+  resetAt: number;
+}
+
+// Fixed-window counters shared by the rate limiter and the account lockout.
+// A store backed by Redis or the database can replace the in-memory one when
+// the app runs on more than one process.
+export interface RateLimitStore {
+  // Counts a hit against the key, opening a new window if there is none
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  constructor() {
+    // Drop finished windows so keys from one-off clients do not pile up
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of Array.from(this.counters.entries())) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    const counter = current && current.resetAt > now
+      ? { ...current, count: current.count + 1 }
+      : { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | undefined> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > Date.now() ? counter : undefined;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
+
+// RATE_LIMIT_STORE selects the implementation; "memory" is the only one so far
+// and the default
+function createRateLimitStore(): RateLimitStore {
+  const driver = process.env.RATE_LIMIT_STORE ?? "memory";
+  if (driver !== "memory") {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${driver}". Use "memory".`);
+  }
+  return new MemoryRateLimitStore();
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+function secondsUntil(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+export type RateLimitKey = (req: Request) => string | undefined;
+
+export const byIp: RateLimitKey = (req) => req.ip;
+
+// Only for routes behind authMiddleware
+export const byUser: RateLimitKey = (req) => req.userId;
+
+// Normalized email from the request body, to limit attempts per account
+// whatever IPs they come from
+export const byEmail: RateLimitKey = (req) =>
+  typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
+
+interface RateLimitOptions {
+  // Namespaces the counters, so every limit needs its own name
+  name: string;
+  windowMs: number;
+  max: number;
+  key: RateLimitKey;
+  message?: string;
+  store?: RateLimitStore;
+}
+
+// Allows `max` requests per key in each window and fails with a
+// TooManyRequestsError after that.
+// Requests without a key (e.g. no email in the body) are not counted here and
+// are left to the route's validation.
+export function rateLimit({ name, windowMs, max, key, message = "Demasiadas solicitudes.", store = rateLimitStore }: RateLimitOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const value = key(req);
+    if (!value) return next();
+    try {
+      const counter = await store.increment(`${name}:${value}`, windowMs);
+      res.setHeader("RateLimit-Limit", String(max));
+      res.setHeader("RateLimit-Remaining", String(Math.max(0, max - counter.count)));
+      res.setHeader("RateLimit-Reset", String(secondsUntil(counter.resetAt)));
+      if (counter.count > max) {
+        return next(new TooManyRequestsError("RATE_LIMITED", message, counter.resetAt));
+      }
+      next();
+    } catch (error) {
+      // A broken store should not take the routes down with it
+      logger.error("rate limit store failed", { ...requestContext(req), limiter: name, error });
+      next();
+    }
+  };
+}
+
+interface AccountLockoutOptions {
+  name: string;
+  maxFailures: number;
+  // Failures are counted over this window, and an account that reaches the
+  // limit stays locked until the window ends
+  windowMs: number;
+  store?: RateLimitStore;
+}
+
+// Temporarily locks an account after repeated failed sign-in attempts. Keys are
+// whatever identifies the account at that step (email, user id).
+export class AccountLockout {
+  private readonly store: RateLimitStore;
+
+  constructor(private readonly options: AccountLockoutOptions) {
+    this.store = options.store ?? rateLimitStore;
+  }
+
+  private storeKey(key: string): string {
+    return `${this.options.name}:${key.toLowerCase()}`;
+  }
+
+  // Epoch milliseconds at which the lock ends, or null if the account is not locked
+  async lockedUntil(key: string): Promise<number | null> {
+    const counter = await this.store.get(this.storeKey(key));
+    return counter && counter.count >= this.options.maxFailures ? counter.resetAt : null;
+  }
+
+  async recordFailure(key: string): Promise<void> {
+    await this.store.increment(this.storeKey(key), this.options.windowMs);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.reset(this.storeKey(key));
+  }
+}
@@ -1,34 +1,91 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as FacebookStrategy } from "passport-facebook";
 import { storage, toSafeUser } from "./storage";
-import { hashPassword, verifyPassword, generateToken, verifyToken, extractTokenFromHeader } from "./auth";
-import { insertUserSchema, loginSchema } from "@shared/schema";
-import { z } from "zod";
+import { defaultChallenges } from "./challenge-catalog";
+import { defaultCharities } from "./charity-catalog";
+import { chainDeployment, prepareOwnerTransaction, tokensToWei, verifyWalletActivity } from "./chain";
+import { hashPassword, verifyPassword, generateAccessToken, generateMfaToken, verifyMfaToken, generateSecretToken, hashSecretToken, verifyToken, extractTokenFromHeader, REFRESH_TOKEN_TTL_MS, PASSWORD_RESET_TTL_MS, EMAIL_VERIFICATION_TTL_MS } from "./auth";
+import { generateSiweNonce, verifySiweMessage, SIWE_NONCE_TTL_MS } from "./siwe";
+import { generateOAuthLinkCode, oauthStateStore, resolveOAuthLogin, finishOAuthLogin, MAX_OAUTH_LINK_ATTEMPTS, type OAuthLoginResult } from "./oauth";
+import { createOidcProviders } from "./oidc";
+import { accountPurgeDate, startAccountPurgeJob } from "./account-deletion";
+import { createZip } from "./zip";
+import { openApiDocument, renderApiDocsPage, undocumentedRoutes } from "./openapi";
+import { mailer, passwordResetEmail, emailVerificationEmail, oauthLinkCodeEmail } from "./mailer";
+import { rateLimit, byIp, byUser, byEmail, AccountLockout } from "./rate-limit";
+import { logger, requestContext } from "./logger";
+import { checkReadiness, uptimeSeconds } from "./health";
+import { liveEvents, openEventStream } from "./events";
+import { notify } from "./notifications";
+import { mediaUpload, saveUploadedImage, assertMediaAttachable, toUploadedMedia, thumbnailKey } from "./media";
+import { mediaStore } from "./media-store";
+import { BadRequestError, UnauthorizedError, ForbiddenError, NotFoundError, ConflictError, TooManyRequestsError, ValidationError } from "./errors";
+import { generateTotpSecret, buildOtpauthUri, verifyTotpCode, generateRecoveryCodes, normalizeRecoveryCode } from "./totp";
+import { SIWE_STATEMENTS } from "@shared/siwe";
+import type { PreparedTransaction } from "@shared/owner-contracts";
+import { insertUserSchema, updateProfileSchema, loginSchema, refreshTokenSchema, logoutSchema, oauthCodeExchangeSchema, oauthLinkTokenSchema, oauthLinkConfirmSchema, passwordResetRequestSchema, passwordResetConfirmSchema, emailVerificationConfirmSchema, twoFactorCodeSchema, twoFactorVerificationSchema, mfaLoginSchema, siweVerifySchema, insertCommunityPostSchema, insertPostCommentSchema, insertCheckInSchema, insertCheckInCommentSchema, insertWalletActivitySchema, tokenTransferSchema, leaderboardQuerySchema, roleGrantSchema, roleRevokeSchema, roleGrantEventsQuerySchema, accountDeletionSchema, accountExportQuerySchema, insertCharitySchema, updateCharitySchema, insertChallengeSchema, updateChallengeSchema, adminUserQuerySchema, adminUserUpdateSchema, adminTransactionSchema, notificationQuerySchema, notificationPreferencesUpdateSchema, postTypes, userRoles, hasRole, builtInOAuthProviders, builtInOAuthProviderNames, isBuiltInOAuthProvider, type PostType, type User, type UserRole, type OAuthProvider, type LinkedIdentity, type PendingOAuthLinkInfo, type OidcProviderSummary, type EmailTokenPurpose, type TwoFactorVerification, type AdminUserPage, type AdminChainInfo, type AccountExport } from "@shared/schema";
 
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      // Expiry of the access token, epoch milliseconds
+      tokenExpiresAt?: number;
     }
   }
 }
 
-function authMiddleware(req: Request, res: Response, next: NextFunction) {
+// The account is looked up on every request, so deactivating it locks it out
+// at once rather than when the access token expires
+async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   const token = extractTokenFromHeader(req.headers.authorization);
   if (!token) {
-    return res.status(401).json({ error: "No autorizado" });
+    return next(new UnauthorizedError("AUTH_REQUIRED", "No autorizado"));
   }
   
   const decoded = verifyToken(token);
   if (!decoded) {
-    return res.status(401).json({ error: "Token inválido o expirado" });
+    return next(new UnauthorizedError("AUTH_TOKEN_INVALID", "Token inválido o expirado"));
   }
   
-  req.userId = decoded.userId;
-  next();
+  try {
+    const user = await storage.getUser(decoded.userId);
+    if (!user) {
+      throw new UnauthorizedError("AUTH_REQUIRED", "No autorizado");
+    }
+    if (!user.isActive) {
+      throw inactiveAccountError(user);
+    }
+    req.userId = decoded.userId;
+    req.tokenExpiresAt = decoded.exp * 1000;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Goes after authMiddleware. Roles are read from storage on every request, so
+// a revoked role stops working at once rather than when the access token expires.
+// Any one of the listed roles is enough, and admins pass every check.
+function requireRole(...roles: UserRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError("AUTH_REQUIRED", "No autorizado");
+      }
+      if (!roles.some((role) => hasRole(user, role))) {
+        throw new ForbiddenError("FORBIDDEN", "No tienes permiso para realizar esta acción");
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
 }
 
 function optionalAuthMiddleware(req: Request, res: Response, next: NextFunction) {
@@ -42,15 +99,217 @@ function optionalAuthMiddleware(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+// Public URL of the app, used for OAuth callbacks and links in emails. Never
+// derived from the request's Host header, which a client controls.
+const baseUrl = process.env.REPLIT_DEV_DOMAIN
+  ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+  : 'http://localhost:5000';
+
+// A SIWE message must be signed for this site and, outside demo mode, the
+// app's chain
+const siweExpectations = {
+  domain: new URL(baseUrl).host,
+  uri: new URL(baseUrl).origin,
+  chainId: chainDeployment.network?.chainId,
+};
+
+// OpenID Connect providers configured through OIDC_PROVIDERS, keyed by id
+const oidcProviders = createOidcProviders(baseUrl);
+
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Per-IP and per-account limits on the authentication routes
+const loginRateLimits = [
+  rateLimit({ name: "login-ip", windowMs: FIFTEEN_MINUTES_MS, max: 30, key: byIp, message: "Demasiados intentos de inicio de sesión." }),
+  rateLimit({ name: "login-email", windowMs: FIFTEEN_MINUTES_MS, max: 10, key: byEmail, message: "Demasiados intentos de inicio de sesión." }),
+];
+const mfaRateLimit = rateLimit({ name: "login-mfa-ip", windowMs: FIFTEEN_MINUTES_MS, max: 30, key: byIp, message: "Demasiados intentos de verificación." });
+const registerRateLimit = rateLimit({ name: "register-ip", windowMs: ONE_HOUR_MS, max: 10, key: byIp, message: "Demasiados registros desde esta conexión." });
+// Also keeps the routes from being used to flood an inbox
+const passwordResetRateLimits = [
+  rateLimit({ name: "password-reset-ip", windowMs: ONE_HOUR_MS, max: 10, key: byIp, message: "Demasiadas solicitudes de cambio de contraseña." }),
+  rateLimit({ name: "password-reset-email", windowMs: ONE_HOUR_MS, max: 3, key: byEmail, message: "Demasiadas solicitudes de cambio de contraseña." }),
+];
+// Each wallet sign-in takes a nonce and a verification, and every nonce is a stored row
+const siweRateLimit = rateLimit({ name: "siwe-ip", windowMs: FIFTEEN_MINUTES_MS, max: 60, key: byIp, message: "Demasiados intentos de inicio de sesión con wallet." });
+const oauthLinkCodeRateLimit = rateLimit({ name: "oauth-link-code-ip", windowMs: ONE_HOUR_MS, max: 10, key: byIp, message: "Demasiados códigos solicitados." });
+const oauthLinkConfirmRateLimit = rateLimit({ name: "oauth-link-confirm-ip", windowMs: FIFTEEN_MINUTES_MS, max: 30, key: byIp, message: "Demasiados intentos de verificación." });
+const verificationEmailRateLimit = rateLimit({ name: "verify-email-user", windowMs: ONE_HOUR_MS, max: 3, key: byUser, message: "Demasiados emails de verificación." });
+// A stolen access token must not be enough to guess a TOTP code and turn 2FA off
+const twoFactorRateLimit = rateLimit({ name: "2fa-user", windowMs: FIFTEEN_MINUTES_MS, max: 10, key: byUser, message: "Demasiados intentos de verificación." });
+
+// Locks the password step per email and the second step per user after
+// repeated failures
+const loginLockout = new AccountLockout({ name: "login-failures", maxFailures: 5, windowMs: FIFTEEN_MINUTES_MS });
+const mfaLockout = new AccountLockout({ name: "mfa-failures", maxFailures: 5, windowMs: FIFTEEN_MINUTES_MS });
+const DEACTIVATED_ACCOUNT_MESSAGE = "Esta cuenta está desactivada. Contacta con el equipo de VEG21.";
+const accountExportRateLimit = rateLimit({ name: "account-export-user", windowMs: ONE_HOUR_MS, max: 5, key: byUser, message: "Demasiadas exportaciones de datos." });
+// Checks the password and second factor, like turning 2FA off
+const accountDeletionRateLimit = rateLimit({ name: "account-delete-user", windowMs: FIFTEEN_MINUTES_MS, max: 10, key: byUser, message: "Demasiados intentos de verificación." });
+// Every upload is decoded and re-encoded, which costs CPU
+const mediaUploadRateLimit = rateLimit({ name: "media-upload-user", windowMs: ONE_HOUR_MS, max: 60, key: byUser, message: "Demasiadas imágenes subidas." });
+
+// Media ids never point at other content, so a served file can be cached for good
+const MEDIA_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+function inactiveAccountError(user: User): ForbiddenError {
+  if (!user.deletionRequestedAt) {
+    return new ForbiddenError("ACCOUNT_DEACTIVATED", DEACTIVATED_ACCOUNT_MESSAGE);
+  }
+  const purgeAt = accountPurgeDate(user.deletionRequestedAt);
+  const purgeDate = purgeAt.toLocaleDateString("es-ES", { dateStyle: "long" });
+  return new ForbiddenError(
+    "ACCOUNT_DELETION_SCHEDULED",
+    `Esta cuenta se eliminará el ${purgeDate}. Contacta con el equipo de VEG21 si quieres recuperarla.`,
+    { purgeAt: purgeAt.toISOString() },
+  );
+}
+const LOCKED_ACCOUNT_MESSAGE = "Cuenta bloqueada temporalmente por demasiados intentos fallidos.";
+
+// A short-lived access token plus a new refresh token. Rotation keeps the
+// family of the token being replaced; a fresh login starts a new one.
+async function issueSession(user: User, familyId: string = randomUUID()) {
+  const refreshToken = generateSecretToken();
+  await storage.createRefreshToken({
+    userId: user.id,
+    tokenHash: hashSecretToken(refreshToken),
+    familyId,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+  return { token: generateAccessToken(user), refreshToken };
+}
+
+// How every sign-in method ends once it has proven who the user is. With
+// two-factor authentication that only earns a challenge, and the session is
+// issued by /api/auth/login/mfa.
+async function signIn(user: User) {
+  if (user.totpEnabledAt) {
+    return { mfaRequired: true as const, mfaToken: generateMfaToken(user) };
+  }
+  return { user: toSafeUser(user), ...(await issueSession(user)) };
+}
+
+// Emails a single-use link back to the app; the client picks the token up from
+// the query string and confirms it through the matching route
+async function sendEmailToken(user: User, purpose: EmailTokenPurpose) {
+  const token = generateSecretToken();
+  const ttl = purpose === "password_reset" ? PASSWORD_RESET_TTL_MS : EMAIL_VERIFICATION_TTL_MS;
+  await storage.createEmailToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashSecretToken(token),
+    expiresAt: new Date(Date.now() + ttl),
+  });
+  if (purpose === "password_reset") {
+    await mailer.send(passwordResetEmail(user, `${baseUrl}/?${new URLSearchParams({ reset_token: token })}`));
+  } else {
+    await mailer.send(emailVerificationEmail(user, `${baseUrl}/?${new URLSearchParams({ verify_token: token })}`));
+  }
+}
+
+// Checks a code from the authenticator app or uses up a recovery code. Each
+// TOTP code and each recovery code is accepted once.
+async function verifySecondFactor(user: User, { code, recoveryCode }: TwoFactorVerification): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  if (code) {
+    const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+    return step !== null && storage.recordTotpStep(user.id, step);
+  }
+  if (recoveryCode) {
+    return storage.consumeRecoveryCode(user.id, hashSecretToken(normalizeRecoveryCode(recoveryCode)));
+  }
+  return false;
+}
+
+function providerName(provider: OAuthProvider): string {
+  if (isBuiltInOAuthProvider(provider)) return builtInOAuthProviderNames[provider];
+  return oidcProviders.get(provider)?.name ?? provider;
+}
+
+// "password", "wallet" and the ids of the OAuth providers linked to the user
+async function signInMethods(user: User): Promise<string[]> {
+  const methods: string[] = [];
+  if (user.passwordHash) methods.push("password");
+  methods.push(...(await storage.getLinkedOAuthProviders(user.id)));
+  if (user.walletAddress) methods.push("wallet");
+  return methods;
+}
+
+// Every method the user could sign in with on this server, linked or not. A
+// provider that was linked but is no longer configured is still listed so it
+// can be unlinked.
+async function linkedIdentities(user: User): Promise<LinkedIdentity[]> {
+  const linked = await signInMethods(user);
+  const providers = Array.from(new Set<string>([
+    ...builtInOAuthProviders,
+    ...Array.from(oidcProviders.keys()),
+    ...linked.filter((method) => method !== "password" && method !== "wallet"),
+  ]));
+  const identity = (provider: string, name: string, type: LinkedIdentity["type"]): LinkedIdentity => ({
+    provider,
+    name,
+    type,
+    linked: linked.includes(provider),
+    canUnlink: type !== "password" && linked.includes(provider) && linked.length > 1,
+  });
+  return [
+    identity("password", "Email y contraseña", "password"),
+    ...providers.map((provider) => identity(provider, providerName(provider), "oauth")),
+    identity("wallet", "Wallet (Sign-In With Ethereum)", "wallet"),
+  ];
+}
+
+// Calendar day used for the one-check-in-per-day rule (UTC, YYYY-MM-DD)
+function currentCheckInDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Revokes refresh tokens and ends the user's open event streams, which would
+// otherwise keep delivering private events until the client disconnects
+async function revokeSessions(userId: string, filter: { userId?: string; familyId?: string } = { userId }) {
+  await storage.revokeRefreshTokens(filter);
+  liveEvents.disconnect(userId);
+}
+
+// Tells the user's open event streams their new balance after a ledger change
+async function publishBalance(userId: string) {
+  const user = await storage.getUser(userId);
+  if (user) {
+    liveEvents.sendTo(userId, { type: "balance_changed", balance: user.totalTokens ?? 0 });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  app.post("/api/auth/register", async (req, res) => {
+  await storage.seedChallenges(defaultChallenges);
+  await storage.seedCharities(defaultCharities);
+  const openedBalances = await storage.openLedgerBalances();
+  if (openedBalances > 0) {
+    logger.info("opening balances written to the token ledger", { count: openedBalances });
+  }
+  startAccountPurgeJob();
+
+  // Polled by the host's probes, so the answers are never cached
+  app.get("/api/health", (_req, res) => {
+    res.set("Cache-Control", "no-store").json({ status: "ok", uptimeSeconds: uptimeSeconds() });
+  });
+
+  app.get("/api/ready", async (_req, res, next) => {
+    try {
+      const report = await checkReadiness();
+      res.set("Cache-Control", "no-store").status(report.status === "ready" ? 200 : 503).json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/register", registerRateLimit, async (req, res, next) => {
     try {
       const validatedData = insertUserSchema.parse(req.body);
       
       const existingUser = await storage.getUserByEmail(validatedData.email);
       if (existingUser) {
-        return res.status(400).json({ error: "Este email ya está registrado" });
+        throw new BadRequestError("EMAIL_ALREADY_REGISTERED", "Este email ya está registrado");
       }
       
       const passwordHash = await hashPassword(validatedData.password);
@@ -65,229 +324,1507 @@ export async function registerRoutes(app: Express): Promise<Server> {
         currentChallengeId: null,
         challengeStartDate: null,
         challengeDay: 0,
-        totalTokens: 100,
       });
       
-      const token = generateToken(user);
+      const session = await issueSession(user);
+      // Registration succeeds even if the email cannot be sent; it can be requested again
+      await sendEmailToken(user, "email_verification")
+        .catch((error) => logger.error("verification email failed", { ...requestContext(req), error }));
       
       res.status(201).json({
         user: toSafeUser(user),
-        token
+        ...session
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          error: "Datos inválidos", 
-          details: error.errors 
-        });
-      }
-      console.error("Registration error:", error);
-      res.status(500).json({ error: "Error al registrar usuario" });
+      next(error);
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", ...loginRateLimits, async (req, res, next) => {
     try {
       const validatedData = loginSchema.parse(req.body);
       
+      // Checked before the account is looked up, so unknown emails lock the
+      // same way and a lock does not reveal whether an account exists
+      const lockedUntil = await loginLockout.lockedUntil(validatedData.email);
+      if (lockedUntil) {
+        throw new TooManyRequestsError("ACCOUNT_LOCKED", LOCKED_ACCOUNT_MESSAGE, lockedUntil);
+      }
+      
       const user = await storage.getUserByEmail(validatedData.email);
       if (!user) {
-        return res.status(401).json({ error: "Email o contraseña incorrectos" });
+        await loginLockout.recordFailure(validatedData.email);
+        throw new UnauthorizedError("AUTH_INVALID_CREDENTIALS", "Email o contraseña incorrectos");
       }
       
       if (!user.passwordHash) {
-        return res.status(401).json({ error: "Esta cuenta usa inicio de sesión social. Usa Google o Facebook para entrar." });
+        throw new UnauthorizedError("AUTH_SOCIAL_ACCOUNT", "Esta cuenta usa inicio de sesión social. Usa Google o Facebook para entrar.");
       }
       
       const isValid = await verifyPassword(validatedData.password, user.passwordHash);
       if (!isValid) {
-        return res.status(401).json({ error: "Email o contraseña incorrectos" });
+        await loginLockout.recordFailure(validatedData.email);
+        throw new UnauthorizedError("AUTH_INVALID_CREDENTIALS", "Email o contraseña incorrectos");
+      }
+      await loginLockout.reset(validatedData.email);
+      if (!user.isActive) {
+        throw inactiveAccountError(user);
       }
       
-      const token = generateToken(user);
-      
+      res.json(await signIn(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login/mfa", mfaRateLimit, async (req, res, next) => {
+    try {
+      const { mfaToken, ...secondFactor } = mfaLoginSchema.parse(req.body);
+      const userId = verifyMfaToken(mfaToken);
+      if (!userId) {
+        throw new UnauthorizedError("MFA_CHALLENGE_EXPIRED", "La verificación expiró. Inicia sesión de nuevo.");
+      }
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive || !user.totpEnabledAt) {
+        throw new UnauthorizedError("MFA_CHALLENGE_EXPIRED", "La verificación expiró. Inicia sesión de nuevo.");
+      }
+      const lockedUntil = await mfaLockout.lockedUntil(user.id);
+      if (lockedUntil) {
+        throw new TooManyRequestsError("ACCOUNT_LOCKED", LOCKED_ACCOUNT_MESSAGE, lockedUntil);
+      }
+      if (!(await verifySecondFactor(user, secondFactor))) {
+        await mfaLockout.recordFailure(user.id);
+        throw new UnauthorizedError("SECOND_FACTOR_INVALID", "Código de verificación incorrecto");
+      }
+      await mfaLockout.reset(user.id);
+
+      const session = await issueSession(user);
       res.json({
         user: toSafeUser(user),
-        token
+        ...session
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          error: "Datos inválidos", 
-          details: error.errors 
-        });
-      }
-      console.error("Login error:", error);
-      res.status(500).json({ error: "Error al iniciar sesión" });
+      next(error);
     }
   });
 
-  app.get("/api/auth/me", authMiddleware, async (req, res) => {
+  // Starts enrollment: the secret is stored but not enforced until a code from
+  // the authenticator app confirms it through /api/auth/2fa/enable
+  app.post("/api/auth/2fa/setup", authMiddleware, async (req, res, next) => {
     try {
       const user = await storage.getUser(req.userId!);
       if (!user) {
-        return res.status(404).json({ error: "Usuario no encontrado" });
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
       }
-      res.json({ user: toSafeUser(user) });
+      if (!user.email || !user.passwordHash) {
+        throw new BadRequestError("TWO_FACTOR_UNAVAILABLE", "La verificación en dos pasos solo está disponible para cuentas con email y contraseña");
+      }
+      if (user.totpEnabledAt) {
+        throw new BadRequestError("TWO_FACTOR_ALREADY_ENABLED", "La verificación en dos pasos ya está activada");
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totpSecret: secret, totpLastUsedStep: null });
+      res.json({ secret, otpauthUri: buildOtpauthUri(secret, user.email) });
     } catch (error) {
-      console.error("Get user error:", error);
-      res.status(500).json({ error: "Error al obtener usuario" });
+      next(error);
     }
   });
 
-  app.patch("/api/auth/me", authMiddleware, async (req, res) => {
+  // Recovery codes are only ever returned here and when regenerated
+  app.post("/api/auth/2fa/enable", authMiddleware, twoFactorRateLimit, async (req, res, next) => {
     try {
-      const updates: Record<string, any> = {};
-      
-      if (req.body.name) updates.name = req.body.name;
-      if (req.body.location !== undefined) updates.location = req.body.location;
-      if (req.body.dietaryPreference !== undefined) updates.dietaryPreference = req.body.dietaryPreference;
-      if (req.body.currentChallengeId !== undefined) updates.currentChallengeId = req.body.currentChallengeId;
-      if (req.body.challengeStartDate !== undefined) updates.challengeStartDate = new Date(req.body.challengeStartDate);
-      if (req.body.challengeDay !== undefined) updates.challengeDay = req.body.challengeDay;
-      if (req.body.totalTokens !== undefined) updates.totalTokens = req.body.totalTokens;
-      
-      const user = await storage.updateUser(req.userId!, updates);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.userId!);
       if (!user) {
-        return res.status(404).json({ error: "Usuario no encontrado" });
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
       }
-      res.json({ user: toSafeUser(user) });
+      if (user.totpEnabledAt) {
+        throw new BadRequestError("TWO_FACTOR_ALREADY_ENABLED", "La verificación en dos pasos ya está activada");
+      }
+      if (!user.totpSecret) {
+        throw new BadRequestError("TWO_FACTOR_NOT_SET_UP", "Primero configura tu aplicación de autenticación");
+      }
+      if (!(await verifySecondFactor(user, { code }))) {
+        throw new BadRequestError("SECOND_FACTOR_INVALID", "Código de verificación incorrecto");
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const updatedUser = await storage.updateUser(user.id, {
+        totpEnabledAt: new Date(),
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hashSecretToken(normalizeRecoveryCode(recoveryCode))),
+      });
+      res.json({ user: toSafeUser(updatedUser!), recoveryCodes });
     } catch (error) {
-      console.error("Update user error:", error);
-      res.status(500).json({ error: "Error al actualizar usuario" });
+      next(error);
     }
   });
 
-  app.post("/api/auth/link-wallet", authMiddleware, async (req, res) => {
+  app.post("/api/auth/2fa/disable", authMiddleware, twoFactorRateLimit, async (req, res, next) => {
     try {
-      const { walletAddress } = req.body;
-      if (!walletAddress) {
-        return res.status(400).json({ error: "Wallet address requerida" });
+      const secondFactor = twoFactorVerificationSchema.parse(req.body);
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
       }
-      
-      const user = await storage.linkWallet(req.userId!, walletAddress);
+      if (!user.totpEnabledAt) {
+        throw new BadRequestError("TWO_FACTOR_NOT_ENABLED", "La verificación en dos pasos no está activada");
+      }
+      if (!(await verifySecondFactor(user, secondFactor))) {
+        throw new BadRequestError("SECOND_FACTOR_INVALID", "Código de verificación incorrecto");
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        recoveryCodeHashes: [],
+      });
+      res.json({ user: toSafeUser(updatedUser!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces every recovery code, used or not
+  app.post("/api/auth/2fa/recovery-codes", authMiddleware, twoFactorRateLimit, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.userId!);
       if (!user) {
-        return res.status(404).json({ error: "Usuario no encontrado" });
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
       }
-      res.json({ user: toSafeUser(user) });
+      if (!user.totpEnabledAt) {
+        throw new BadRequestError("TWO_FACTOR_NOT_ENABLED", "La verificación en dos pasos no está activada");
+      }
+      if (!(await verifySecondFactor(user, { code }))) {
+        throw new BadRequestError("SECOND_FACTOR_INVALID", "Código de verificación incorrecto");
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hashSecretToken(normalizeRecoveryCode(recoveryCode))),
+      });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/siwe/nonce", siweRateLimit, async (_req, res, next) => {
+    try {
+      const nonce = generateSiweNonce();
+      await storage.createSiweNonce(nonce, new Date(Date.now() + SIWE_NONCE_TTL_MS));
+      res.json({ nonce });
     } catch (error) {
-      console.error("Link wallet error:", error);
-      res.status(500).json({ error: "Error al vincular wallet" });
+      next(error);
     }
   });
 
-  const baseUrl = process.env.REPLIT_DEV_DOMAIN
-    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
-    : 'http://localhost:5000';
+  // Sign-In With Ethereum: the wallet address is the identity, so a first
+  // sign-in creates an account without email or password.
+  app.post("/api/auth/siwe/verify", siweRateLimit, async (req, res, next) => {
+    try {
+      const validatedData = siweVerifySchema.parse(req.body);
 
-  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
-    passport.use(new GoogleStrategy({
-      clientID: process.env.GOOGLE_CLIENT_ID,
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
-      callbackURL: `${baseUrl}/api/auth/google/callback`,
-    }, async (accessToken, refreshToken, profile, done) => {
-      try {
-        const email = profile.emails?.[0]?.value;
-        if (!email) {
-          return done(new Error("No email found in Google profile"), undefined);
-        }
+      const verification = verifySiweMessage(validatedData.message, validatedData.signature, {
+        ...siweExpectations,
+        statement: SIWE_STATEMENTS.login,
+      });
+      if (!verification.ok) {
+        throw new UnauthorizedError(verification.code, verification.error);
+      }
+
+      const nonceValid = await storage.consumeSiweNonce(verification.message.nonce);
+      if (!nonceValid) {
+        throw new UnauthorizedError("SIWE_NONCE_INVALID", "El nonce no es válido o ya fue usado. Intenta de nuevo.");
+      }
 
-        let user = await storage.getUserByGoogleId(profile.id);
-        
+      let user = await storage.getUserByWalletAddress(verification.address);
+      if (!user) {
+        const name = `${verification.address.slice(0, 6)}...${verification.address.slice(-4)}`;
+        // Undefined when another first sign-in with the same wallet got there
+        // before this one; that account is the wallet's
+        user = await storage.createWalletUser(name, verification.address, req.ip)
+          ?? await storage.getUserByWalletAddress(verification.address);
         if (!user) {
-          const existingUser = await storage.getUserByEmail(email);
-          if (existingUser) {
-            user = await storage.linkOAuthProvider(existingUser.id, 'google', profile.id);
-          } else {
-            user = await storage.createOAuthUser({
-              email,
-              name: profile.displayName || email.split('@')[0],
-              googleId: profile.id,
-              authProvider: 'google',
-            });
-          }
+          throw new ConflictError("WALLET_TAKEN", "Esta wallet ya está vinculada a otra cuenta");
         }
+      }
+      if (!user.isActive) {
+        throw inactiveAccountError(user);
+      }
 
-        done(null, user);
-      } catch (error) {
-        done(error as Error, undefined);
+      res.json(await signIn(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Exchanges a refresh token for a new access token and rotates it. A token
+  // that was already rotated or revoked means it leaked or was replayed, so
+  // every session descending from the same login is revoked.
+  app.post("/api/auth/refresh", async (req, res, next) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      const stored = await storage.getRefreshToken(hashSecretToken(refreshToken));
+      if (!stored) {
+        throw new UnauthorizedError("SESSION_INVALID", "Sesión no válida");
+      }
+      if (stored.revokedAt || !(await storage.revokeRefreshToken(stored.id))) {
+        await revokeSessions(stored.userId, { familyId: stored.familyId });
+        throw new UnauthorizedError("SESSION_REVOKED", "Sesión revocada. Inicia sesión de nuevo.");
+      }
+      if (stored.expiresAt <= new Date()) {
+        throw new UnauthorizedError("SESSION_EXPIRED", "Sesión expirada. Inicia sesión de nuevo.");
       }
-    }));
 
-    app.get("/api/auth/google", passport.authenticate('google', { 
-      scope: ['profile', 'email'],
-      session: false 
-    }));
+      const user = await storage.getUser(stored.userId);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError("SESSION_INVALID", "Sesión no válida");
+      }
 
-    app.get("/api/auth/google/callback", 
-      passport.authenticate('google', { session: false, failureRedirect: '/?auth_error=google_failed' }),
-      (req, res) => {
-        const user = req.user as any;
-        if (user) {
-          const token = generateToken(user);
-          res.redirect(`/?token=${token}`);
-        } else {
-          res.redirect('/?auth_error=no_user');
-        }
+      const session = await issueSession(user, stored.familyId);
+      res.json({
+        user: toSafeUser(user),
+        ...session
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Always answers the same way so the route cannot be used to find out which
+  // emails have an account
+  app.post("/api/auth/password-reset/request", ...passwordResetRateLimits, async (req, res, next) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (user && user.isActive) {
+        await sendEmailToken(user, "password_reset");
       }
-    );
-  }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-  if (process.env.FACEBOOK_APP_ID && process.env.FACEBOOK_APP_SECRET) {
-    passport.use(new FacebookStrategy({
-      clientID: process.env.FACEBOOK_APP_ID,
-      clientSecret: process.env.FACEBOOK_APP_SECRET,
-      callbackURL: `${baseUrl}/api/auth/facebook/callback`,
-      profileFields: ['id', 'emails', 'name', 'displayName'],
-    }, async (accessToken, refreshToken, profile, done) => {
-      try {
-        const email = profile.emails?.[0]?.value;
-        if (!email) {
-          return done(new Error("No email found in Facebook profile"), undefined);
-        }
+  // Sets the new password and signs out every existing session. Opening the
+  // emailed link also proves the address belongs to the user.
+  app.post("/api/auth/password-reset/confirm", async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetConfirmSchema.parse(req.body);
+      const userId = await storage.consumeEmailToken(hashSecretToken(token), "password_reset");
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive) {
+        throw new BadRequestError("EMAIL_TOKEN_INVALID", "El enlace no es válido o expiró. Solicita uno nuevo.");
+      }
 
-        let user = await storage.getUserByFacebookId(profile.id);
-        
-        if (!user) {
-          const existingUser = await storage.getUserByEmail(email);
-          if (existingUser) {
-            user = await storage.linkOAuthProvider(existingUser.id, 'facebook', profile.id);
-          } else {
-            user = await storage.createOAuthUser({
-              email,
-              name: profile.displayName || `${profile.name?.givenName || ''} ${profile.name?.familyName || ''}`.trim() || email.split('@')[0],
-              facebookId: profile.id,
-              authProvider: 'facebook',
-            });
-          }
-        }
+      await storage.updateUser(user.id, {
+        passwordHash: await hashPassword(password),
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      });
+      await revokeSessions(user.id);
+      // Proving ownership of the email lifts a lock caused by someone guessing the old password
+      await loginLockout.reset(user.email!);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-        done(null, user);
-      } catch (error) {
-        done(error as Error, undefined);
+  app.post("/api/auth/verify-email/request", authMiddleware, verificationEmailRateLimit, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
       }
-    }));
+      if (!user.email) {
+        throw new BadRequestError("EMAIL_MISSING", "Tu cuenta no tiene un email asociado");
+      }
+      if (user.emailVerifiedAt) {
+        throw new BadRequestError("EMAIL_ALREADY_VERIFIED", "Tu email ya está verificado");
+      }
+      await sendEmailToken(user, "email_verification");
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    app.get("/api/auth/facebook", passport.authenticate('facebook', { 
-      scope: ['email'],
-      session: false 
-    }));
+  // Works without a session so the link can be opened on any device
+  app.post("/api/auth/verify-email/confirm", async (req, res, next) => {
+    try {
+      const { token } = emailVerificationConfirmSchema.parse(req.body);
+      const userId = await storage.consumeEmailToken(hashSecretToken(token), "email_verification");
+      if (!userId) {
+        throw new BadRequestError("EMAIL_TOKEN_INVALID", "El enlace no es válido o expiró. Solicita uno nuevo.");
+      }
+      const user = await storage.updateUser(userId, { emailVerifiedAt: new Date() });
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    app.get("/api/auth/facebook/callback", 
-      passport.authenticate('facebook', { session: false, failureRedirect: '/?auth_error=facebook_failed' }),
-      (req, res) => {
-        const user = req.user as any;
-        if (user) {
-          const token = generateToken(user);
-          res.redirect(`/?token=${token}`);
-        } else {
-          res.redirect('/?auth_error=no_user');
+  // Second half of the Google/Facebook login: the callback redirects with a
+  // single-use code, which the client trades here for the session tokens
+  app.post("/api/auth/oauth/exchange", async (req, res, next) => {
+    try {
+      const { code } = oauthCodeExchangeSchema.parse(req.body);
+      const userId = await storage.consumeOAuthCode(hashSecretToken(code));
+      if (!userId) {
+        throw new UnauthorizedError("OAUTH_CODE_INVALID", "El código de inicio de sesión no es válido o expiró");
+      }
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError("SESSION_INVALID", "Sesión no válida");
+      }
+
+      res.json(await signIn(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/oauth/link/info", async (req, res, next) => {
+    try {
+      const { linkToken } = oauthLinkTokenSchema.parse(req.body);
+      const link = await storage.getPendingOAuthLink(hashSecretToken(linkToken));
+      const user = link ? await storage.getUser(link.userId) : undefined;
+      if (!link || !user || !user.isActive || !user.email) {
+        throw new BadRequestError("OAUTH_LINK_EXPIRED", "El enlace expiró. Vuelve a iniciar sesión con tu proveedor.");
+      }
+      const info: PendingOAuthLinkInfo = {
+        provider: link.provider,
+        providerName: providerName(link.provider),
+        email: user.email,
+        hasPassword: !!user.passwordHash,
+      };
+      res.json(info);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Emails a code to the existing account; asking again replaces the code
+  app.post("/api/auth/oauth/link/send-code", oauthLinkCodeRateLimit, async (req, res, next) => {
+    try {
+      const { linkToken } = oauthLinkTokenSchema.parse(req.body);
+      const tokenHash = hashSecretToken(linkToken);
+      const link = await storage.getPendingOAuthLink(tokenHash);
+      const user = link ? await storage.getUser(link.userId) : undefined;
+      if (!link || !user || !user.isActive || !user.email) {
+        throw new BadRequestError("OAUTH_LINK_EXPIRED", "El enlace expiró. Vuelve a iniciar sesión con tu proveedor.");
+      }
+
+      const code = generateOAuthLinkCode();
+      await storage.setPendingOAuthLinkCode(tokenHash, hashSecretToken(code));
+      await mailer.send(oauthLinkCodeEmail(user, providerName(link.provider), code));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Links the provider once the user proves they own the account, then signs
+  // them in as a normal login would (including the 2FA step)
+  app.post("/api/auth/oauth/link/confirm", oauthLinkConfirmRateLimit, async (req, res, next) => {
+    try {
+      const { linkToken, password, code } = oauthLinkConfirmSchema.parse(req.body);
+      const tokenHash = hashSecretToken(linkToken);
+      const link = await storage.getPendingOAuthLink(tokenHash);
+      const user = link ? await storage.getUser(link.userId) : undefined;
+      if (!link || !user || !user.isActive || !user.email) {
+        throw new BadRequestError("OAUTH_LINK_EXPIRED", "El enlace expiró. Vuelve a iniciar sesión con tu proveedor.");
+      }
+
+      let proven: boolean;
+      if (password) {
+        if (!user.passwordHash) {
+          throw new BadRequestError("OAUTH_LINK_NO_PASSWORD", "Tu cuenta no tiene contraseña. Usa el código por email.");
         }
+        const lockedUntil = await loginLockout.lockedUntil(user.email);
+        if (lockedUntil) {
+          throw new TooManyRequestsError("ACCOUNT_LOCKED", LOCKED_ACCOUNT_MESSAGE, lockedUntil);
+        }
+        proven = await verifyPassword(password, user.passwordHash);
+        if (!proven) await loginLockout.recordFailure(user.email);
+      } else {
+        if (!link.codeHash) {
+          throw new BadRequestError("OAUTH_LINK_CODE_NOT_SENT", "Primero solicita un código por email");
+        }
+        proven = hashSecretToken(code!) === link.codeHash;
       }
-    );
-  }
 
-  app.use(passport.initialize());
+      if (!proven) {
+        const failedAttempts = await storage.recordPendingOAuthLinkFailure(tokenHash);
+        if (failedAttempts >= MAX_OAUTH_LINK_ATTEMPTS) {
+          await storage.consumePendingOAuthLink(tokenHash);
+          throw new UnauthorizedError("OAUTH_LINK_TOO_MANY_ATTEMPTS", "Demasiados intentos. Vuelve a iniciar sesión con tu proveedor.");
+        }
+        throw password
+          ? new UnauthorizedError("PASSWORD_INVALID", "Contraseña incorrecta")
+          : new UnauthorizedError("OAUTH_LINK_CODE_INVALID", "Código incorrecto");
+      }
+
+      if (!(await storage.consumePendingOAuthLink(tokenHash))) {
+        throw new BadRequestError("OAUTH_LINK_EXPIRED", "El enlace expiró. Vuelve a iniciar sesión con tu proveedor.");
+      }
+      if (await storage.getUserByOAuthIdentity(link.provider, link.providerId)) {
+        throw new ConflictError(
+          "OAUTH_IDENTITY_TAKEN",
+          `Esta cuenta de ${providerName(link.provider)} ya está vinculada a otro usuario`,
+          { provider: providerName(link.provider) },
+        );
+      }
+
+      let linkedUser = (await storage.linkOAuthProvider(user.id, link.provider, link.providerId))!;
+      if (password) {
+        await loginLockout.reset(user.email);
+      } else if (!linkedUser.emailVerifiedAt) {
+        linkedUser = (await storage.updateUser(user.id, { emailVerifiedAt: new Date() }))!;
+      }
+
+      res.json(await signIn(linkedUser));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/providers", authMiddleware, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      res.json({ providers: await linkedIdentities(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/auth/providers/:provider", authMiddleware, async (req, res, next) => {
+    try {
+      const provider = req.params.provider;
+      if (provider === "password" || provider === "wallet") {
+        throw new BadRequestError("PROVIDER_INVALID", "Proveedor no válido");
+      }
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      const methods = await signInMethods(user);
+      if (!methods.includes(provider)) {
+        throw new BadRequestError("PROVIDER_NOT_LINKED", `No tienes ${providerName(provider)} vinculado`, { provider: providerName(provider) });
+      }
+      if (methods.length === 1) {
+        throw new BadRequestError(
+          "PROVIDER_LAST_METHOD",
+          `No puedes desvincular ${providerName(provider)}: es tu único método de acceso`,
+          { provider: providerName(provider) },
+        );
+      }
+
+      const updatedUser = (await storage.unlinkOAuthProvider(user.id, provider))!;
+      res.json({ user: toSafeUser(updatedUser), providers: await linkedIdentities(updatedUser) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Revokes the session behind the refresh token. Does not need a valid access
+  // token, so an expired session can still be closed. With { all: true } and a
+  // valid access token every session of the user is revoked.
+  app.post("/api/auth/logout", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const { refreshToken, all } = logoutSchema.parse(req.body ?? {});
+      if (refreshToken) {
+        const stored = await storage.getRefreshToken(hashSecretToken(refreshToken));
+        if (stored) {
+          await revokeSessions(stored.userId, { familyId: stored.familyId });
+        }
+      }
+      if (all && req.userId) {
+        await revokeSessions(req.userId);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/me", authMiddleware, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Token balances and challenge progress are not accepted here: the balance
+  // comes from the token ledger and progress only advances through check-ins
+  app.patch("/api/auth/me", authMiddleware, async (req, res, next) => {
+    try {
+      const updates = updateProfileSchema.parse(req.body);
+      
+      const user = await storage.updateUser(req.userId!, updates);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Personal data export: everything stored about the signed-in user, as one
+  // JSON document or a ZIP with a file per section
+  app.get("/api/account/export", authMiddleware, accountExportRateLimit, async (req, res, next) => {
+    try {
+      const { format } = accountExportQuerySchema.parse(req.query);
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      const exportedAt = new Date();
+      const data: AccountExport = {
+        exportedAt: exportedAt.toISOString(),
+        profile: toSafeUser(user),
+        ...(await storage.getAccountData(user.id)),
+      };
+      const filename = `veg21-datos-${exportedAt.toISOString().slice(0, 10)}`;
+      res.setHeader("Cache-Control", "no-store");
+
+      if (format === "zip") {
+        const { exportedAt: _, ...sections } = data;
+        const entries = Object.entries(sections).map(([section, value]) => ({
+          name: `${section}.json`,
+          data: Buffer.from(JSON.stringify(value, null, 2)),
+        }));
+        // The uploaded images themselves, next to their rows in media.json
+        for (const item of data.media) {
+          const file = await mediaStore.get(item.id);
+          if (file) entries.push({ name: `media/${item.id}.${item.mimeType.split("/")[1]}`, data: file });
+        }
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.zip"`);
+        return res.send(createZip(entries, exportedAt));
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+      res.json(data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Deactivates the account and signs it out everywhere at once. Its personal
+  // data is purged after ACCOUNT_DELETION_GRACE_DAYS; posts and comments stay
+  // under an anonymous author.
+  app.post("/api/account/delete", authMiddleware, accountDeletionRateLimit, async (req, res, next) => {
+    try {
+      const verification = accountDeletionSchema.parse(req.body);
+      const user = await storage.getUser(req.userId!);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError("AUTH_REQUIRED", "No autorizado");
+      }
+      if (user.passwordHash) {
+        if (!verification.password || !(await verifyPassword(verification.password, user.passwordHash))) {
+          throw new BadRequestError("PASSWORD_INVALID", "Contraseña incorrecta");
+        }
+      }
+      if (user.totpEnabledAt && !(await verifySecondFactor(user, verification))) {
+        throw new BadRequestError("SECOND_FACTOR_INVALID", "Código de verificación incorrecto");
+      }
+
+      const deleted = await storage.requestAccountDeletion(user.id);
+      if (!deleted) {
+        throw new ConflictError("ACCOUNT_DELETION_PENDING", "La eliminación de la cuenta ya está en curso");
+      }
+      await revokeSessions(user.id);
+      res.json({ purgeAt: accountPurgeDate(deleted.deletionRequestedAt!).toISOString() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Staff roles. Bootstrap the first admin with `npm run roles -- grant <email> admin`.
+  app.get("/api/admin/roles", authMiddleware, requireRole("admin"), async (_req, res, next) => {
+    try {
+      const users = await storage.getUsersWithRoles();
+      res.json({ users: users.map(toSafeUser) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/roles/events", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const filter = roleGrantEventsQuerySchema.parse(req.query);
+      const events = await storage.getRoleGrantEvents(filter);
+      res.json({ events });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/users/:id/roles", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const { role, reason } = roleGrantSchema.parse(req.body);
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      const user = await storage.grantRole(target.id, role, { actorId: req.userId!, reason: reason ?? null, ipAddress: req.ip ?? null });
+      if (!user) {
+        throw new ConflictError("ROLE_ALREADY_GRANTED", "El usuario ya tiene ese rol");
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/admin/users/:id/roles/:role", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const { reason } = roleRevokeSchema.parse(req.body ?? {});
+      const role = req.params.role as UserRole;
+      if (!userRoles.includes(role)) {
+        throw new BadRequestError("ROLE_INVALID", "Rol no válido");
+      }
+      // Keeps an admin from locking themselves out; another admin can do it
+      if (role === "admin" && req.params.id === req.userId) {
+        throw new BadRequestError("ROLE_SELF_REVOKE", "No puedes quitarte el rol de administrador a ti mismo");
+      }
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      const user = await storage.revokeRole(target.id, role, { actorId: req.userId!, reason: reason || null, ipAddress: req.ip ?? null });
+      if (!user) {
+        throw new BadRequestError("ROLE_NOT_GRANTED", "El usuario no tiene ese rol");
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Admin console. Content edits go straight to the database; on-chain owner
+  // operations are only encoded here and signed by the owner wallet.
+  app.get("/api/admin/users", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const query = adminUserQuerySchema.parse(req.query);
+      const { users, total } = await storage.searchUsers(query);
+      const page: AdminUserPage = { users: users.map(toSafeUser), page: query.page, limit: query.limit, total };
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/admin/users/:id", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const { isActive } = adminUserUpdateSchema.parse(req.body);
+      if (!isActive && req.params.id === req.userId) {
+        throw new BadRequestError("ACCOUNT_SELF_DEACTIVATION", "No puedes desactivar tu propia cuenta");
+      }
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      if (target.deletedAt) {
+        throw new ConflictError("ACCOUNT_PURGED", "La cuenta ya fue eliminada");
+      }
+      // Reactivating an account pending deletion cancels the deletion; the
+      // name it had is gone and the user has to set it again
+      const user = (await storage.updateUser(target.id, isActive ? { isActive, deletionRequestedAt: null } : { isActive }))!;
+      // Signs the account out everywhere; access tokens lapse within minutes
+      if (!isActive) {
+        await revokeSessions(user.id);
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/verifiers", authMiddleware, requireRole("admin"), async (_req, res, next) => {
+    try {
+      const users = await storage.getUsersWithRoles();
+      res.json({ users: users.filter((user) => user.roles.includes("verifier")).map(toSafeUser) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/charities", authMiddleware, requireRole("admin"), async (_req, res, next) => {
+    try {
+      const charities = await storage.getCharities({ includeInactive: true });
+      res.json({ charities });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/charities", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const data = insertCharitySchema.parse(req.body);
+      const charity = await storage.createCharity(data);
+      res.status(201).json({ charity });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/admin/charities/:id", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const updates = updateCharitySchema.parse(req.body);
+      if (updates.onChainId != null) {
+        const charities = await storage.getCharities({ includeInactive: true });
+        if (charities.some((charity) => charity.onChainId === updates.onChainId && charity.id !== req.params.id)) {
+          throw new ConflictError("CHARITY_ONCHAIN_ID_TAKEN", "Otra organización ya usa ese identificador on-chain");
+        }
+      }
+      const charity = await storage.updateCharity(req.params.id, updates);
+      if (!charity) {
+        throw new NotFoundError("CHARITY_NOT_FOUND", "Organización no encontrada");
+      }
+      res.json({ charity });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/challenges", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const data = insertChallengeSchema.parse(req.body);
+      const challenge = await storage.createChallenge(data);
+      if (!challenge) {
+        throw new ConflictError("CHALLENGE_ID_TAKEN", "Ya existe un desafío con ese identificador");
+      }
+      res.status(201).json({ challenge });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/admin/challenges/:id", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const updates = updateChallengeSchema.parse(req.body);
+      const challenge = await storage.updateChallenge(req.params.id, updates);
+      if (!challenge) {
+        throw new NotFoundError("CHALLENGE_NOT_FOUND", "Desafío no encontrado");
+      }
+      res.json({ challenge });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/chain", authMiddleware, requireRole("admin"), (_req, res) => {
+    const { mode, network, contracts } = chainDeployment;
+    const info: AdminChainInfo = {
+      mode,
+      chainId: network?.chainId ?? null,
+      networkName: network?.name ?? null,
+      contracts: {
+        VEG21Donations: contracts.VEG21Donations,
+        VEG21Rewards: contracts.VEG21Rewards,
+        VEG21Staking: contracts.VEG21Staking,
+      },
+    };
+    res.json(info);
+  });
+
+  app.post("/api/admin/transactions", authMiddleware, requireRole("admin"), async (req, res, next) => {
+    try {
+      const request = adminTransactionSchema.parse(req.body);
+      let transaction: PreparedTransaction;
+
+      switch (request.action) {
+        case "registerCharity":
+        case "deactivateCharity": {
+          const charity = await storage.getCharity(request.charityId);
+          if (!charity) {
+            throw new NotFoundError("CHARITY_NOT_FOUND", "Organización no encontrada");
+          }
+          if (request.action === "registerCharity") {
+            if (charity.onChainId !== null) {
+              throw new ConflictError("CHARITY_ALREADY_REGISTERED", "La organización ya está registrada on-chain");
+            }
+            if (!charity.walletAddress) {
+              throw new BadRequestError("CHARITY_WALLET_MISSING", "La organización no tiene wallet");
+            }
+            transaction = prepareOwnerTransaction(
+              "VEG21Donations", "registerCharity", [charity.name, charity.description, charity.walletAddress],
+              `Registrar ${charity.name} en VEG21Donations`,
+            );
+          } else {
+            if (charity.onChainId === null) {
+              throw new ConflictError("CHARITY_NOT_REGISTERED", "La organización no está registrada on-chain");
+            }
+            transaction = prepareOwnerTransaction(
+              "VEG21Donations", "deactivateCharity", [charity.onChainId],
+              `Desactivar ${charity.name} en VEG21Donations`,
+            );
+          }
+          break;
+        }
+        case "addVerifier":
+        case "removeVerifier": {
+          const user = await storage.getUser(request.userId);
+          if (!user) {
+            throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+          }
+          if (!user.walletAddress) {
+            throw new BadRequestError("USER_WALLET_MISSING", "El usuario no tiene wallet vinculada");
+          }
+          const adding = request.action === "addVerifier";
+          transaction = prepareOwnerTransaction(
+            "VEG21Rewards", request.action, [user.walletAddress],
+            `${adding ? "Añadir" : "Quitar"} a ${user.name} como verificador en VEG21Rewards`,
+          );
+          break;
+        }
+        case "setRewardAmounts":
+          transaction = prepareOwnerTransaction(
+            "VEG21Rewards", "setRewardAmounts", [tokensToWei(request.dailyReward), tokensToWei(request.completionBonus)],
+            `Recompensa diaria ${request.dailyReward} VEG21 y bono final ${request.completionBonus} VEG21`,
+          );
+          break;
+        case "setRewardRate":
+          transaction = prepareOwnerTransaction(
+            "VEG21Staking", "setRewardRate", [request.rateBasisPoints],
+            `Tasa de staking del ${request.rateBasisPoints / 100}% anual`,
+          );
+          break;
+      }
+
+      res.json({ transaction });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Linking needs a SIWE signature from the wallet itself, on a nonce from
+  // /api/auth/siwe/nonce, so nobody can claim an address they do not control
+  app.post("/api/auth/link-wallet", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = siweVerifySchema.parse(req.body);
+
+      const verification = verifySiweMessage(validatedData.message, validatedData.signature, {
+        ...siweExpectations,
+        statement: SIWE_STATEMENTS.linkWallet,
+      });
+      if (!verification.ok) {
+        throw new UnauthorizedError(verification.code, verification.error);
+      }
+
+      const nonceValid = await storage.consumeSiweNonce(verification.message.nonce);
+      if (!nonceValid) {
+        throw new UnauthorizedError("SIWE_NONCE_INVALID", "El nonce no es válido o ya fue usado. Intenta de nuevo.");
+      }
+
+      const owner = await storage.getUserByWalletAddress(verification.address);
+      if (owner && owner.id !== req.userId) {
+        throw new ConflictError("WALLET_TAKEN", "Esta wallet ya está vinculada a otra cuenta");
+      }
+      if (owner) {
+        return res.json({ user: toSafeUser(owner) });
+      }
+
+      const linked = await storage.linkWallet(req.userId!, verification.address, req.ip);
+      if (linked === "user_not_found") {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      if (linked === "wallet_taken") {
+        throw new ConflictError("WALLET_TAKEN", "Esta wallet ya está vinculada a otra cuenta");
+      }
+      res.json({ user: toSafeUser(linked) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/auth/link-wallet", authMiddleware, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      if (!user.walletAddress) {
+        throw new BadRequestError("WALLET_NOT_LINKED", "No tienes una wallet vinculada");
+      }
+      if ((await signInMethods(user)).length === 1) {
+        throw new BadRequestError("WALLET_LAST_METHOD", "No puedes desvincular la wallet: es tu único método de acceso");
+      }
+
+      const updatedUser = await storage.unlinkWallet(user.id, req.ip);
+      res.json({ user: toSafeUser(updatedUser!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/events", authMiddleware, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError("AUTH_REQUIRED", "No autorizado");
+      }
+      openEventStream(res, user.id, req.tokenExpiresAt!);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/community/posts", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const type = req.query.type as string | undefined;
+      if (type && !postTypes.includes(type as PostType)) {
+        throw new BadRequestError("POST_TYPE_INVALID", "Tipo de post no válido");
+      }
+      const posts = await storage.getCommunityPosts(type as PostType | undefined);
+      res.json({ posts });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/community/posts/:id", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const post = await storage.getCommunityPost(req.params.id);
+      if (!post) {
+        throw new NotFoundError("POST_NOT_FOUND", "Post no encontrado");
+      }
+      res.json({ post });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/community/posts", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = insertCommunityPostSchema.parse(req.body);
+      if (validatedData.mediaId) {
+        await assertMediaAttachable(req.userId!, validatedData.mediaId);
+      }
+      const post = await storage.createCommunityPost(req.userId!, validatedData);
+      liveEvents.broadcast({ type: "post_created", postId: post.id, authorId: req.userId! });
+      res.status(201).json({ post });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/community/posts/:id/like", authMiddleware, async (req, res, next) => {
+    try {
+      const existing = await storage.getCommunityPost(req.params.id);
+      if (!existing) {
+        throw new NotFoundError("POST_NOT_FOUND", "Post no encontrado");
+      }
+      const liked = await storage.togglePostLike(existing.id, req.userId!);
+      const post = await storage.getCommunityPost(existing.id);
+      res.json({ liked, post });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/community/posts/:id/comments", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = insertPostCommentSchema.parse(req.body);
+      const post = await storage.getCommunityPost(req.params.id);
+      if (!post) {
+        throw new NotFoundError("POST_NOT_FOUND", "Post no encontrado");
+      }
+      if (validatedData.parentId && !post.comments.some((comment) => comment.id === validatedData.parentId)) {
+        throw new BadRequestError("COMMENT_PARENT_NOT_FOUND", "Comentario padre no encontrado");
+      }
+      const comment = await storage.addPostComment(post.id, req.userId!, validatedData.content, validatedData.parentId);
+      await notify(req, { userId: post.authorId, actorId: req.userId!, type: "post_commented", postId: post.id });
+      res.status(201).json({ comment });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/charities", async (_req, res, next) => {
+    try {
+      const charities = await storage.getCharities();
+      res.json({ charities });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/challenges", async (_req, res, next) => {
+    try {
+      const challenges = await storage.getChallenges();
+      res.json({ challenges });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/challenges/me", authMiddleware, async (req, res, next) => {
+    try {
+      const enrollment = await storage.getCurrentEnrollment(req.userId!);
+      res.json({ enrollment: enrollment ?? null });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/challenges/:id", async (req, res, next) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        throw new NotFoundError("CHALLENGE_NOT_FOUND", "Desafío no encontrado");
+      }
+      res.json({ challenge });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/challenges/:id/enroll", authMiddleware, async (req, res, next) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        throw new NotFoundError("CHALLENGE_NOT_FOUND", "Desafío no encontrado");
+      }
+      if (challenge.status !== "active") {
+        throw new BadRequestError("CHALLENGE_NOT_AVAILABLE", "Este desafío aún no está disponible");
+      }
+      // Starting over would restart the day count, so a running challenge has to be finished first
+      const enrollment = await storage.enrollInChallenge(req.userId!, challenge.id);
+      if (!enrollment) {
+        throw new ConflictError("CHALLENGE_ALREADY_ENROLLED", "Ya estás participando en un desafío");
+      }
+      res.status(201).json({ enrollment });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/check-ins", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const checkIns = await storage.getCheckIns({
+        userId: req.query.userId as string | undefined,
+        challengeId: req.query.challengeId as string | undefined,
+      });
+      res.json({ checkIns });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/check-ins/:id", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const checkIn = await storage.getCheckIn(req.params.id);
+      if (!checkIn) {
+        throw new NotFoundError("CHECK_IN_NOT_FOUND", "Check-in no encontrado");
+      }
+      res.json({ checkIn });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/check-ins", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = insertCheckInSchema.parse(req.body);
+      if (validatedData.mediaId) {
+        await assertMediaAttachable(req.userId!, validatedData.mediaId);
+      }
+      const enrollment = await storage.getCurrentEnrollment(req.userId!);
+      if (!enrollment || enrollment.status !== "active" || enrollment.challenge.id !== validatedData.challengeId) {
+        throw new BadRequestError("CHALLENGE_NOT_ENROLLED", "No estás inscrito en este desafío");
+      }
+      if (validatedData.day !== enrollment.progress.currentDay || enrollment.progress.completedDays.includes(validatedData.day)) {
+        throw new BadRequestError(
+          "CHECK_IN_WRONG_DAY",
+          `Solo puedes registrar el día ${enrollment.progress.currentDay} de este desafío`,
+          { day: enrollment.progress.currentDay },
+        );
+      }
+      // The check-in is what completes the day and earns its tokens
+      const recorded = await storage.recordCheckIn(req.userId!, enrollment.id, validatedData, currentCheckInDate());
+      if (!recorded) {
+        throw new ConflictError("CHECK_IN_ALREADY_TODAY", "Ya registraste tu check-in de hoy para este desafío");
+      }
+      liveEvents.broadcast({ type: "check_in_created", checkInId: recorded.checkIn.id, userId: req.userId! });
+      await publishBalance(req.userId!);
+      res.status(201).json(recorded);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/check-ins/:id/like", authMiddleware, async (req, res, next) => {
+    try {
+      const existing = await storage.getCheckIn(req.params.id);
+      if (!existing) {
+        throw new NotFoundError("CHECK_IN_NOT_FOUND", "Check-in no encontrado");
+      }
+      const liked = await storage.toggleCheckInLike(existing.id, req.userId!);
+      if (liked) {
+        await notify(req, { userId: existing.userId, actorId: req.userId!, type: "check_in_liked", checkInId: existing.id });
+      }
+      const checkIn = await storage.getCheckIn(existing.id);
+      res.json({ liked, checkIn });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/check-ins/:id/approve", authMiddleware, async (req, res, next) => {
+    try {
+      const existing = await storage.getCheckIn(req.params.id);
+      if (!existing) {
+        throw new NotFoundError("CHECK_IN_NOT_FOUND", "Check-in no encontrado");
+      }
+      if (existing.userId === req.userId) {
+        throw new ForbiddenError("CHECK_IN_SELF_APPROVAL", "No puedes validar tu propio check-in");
+      }
+      const approved = await storage.toggleCheckInApproval(existing.id, req.userId!);
+      if (approved) {
+        liveEvents.sendTo(existing.userId, { type: "approval_received", checkInId: existing.id, approverId: req.userId! });
+        await notify(req, { userId: existing.userId, actorId: req.userId!, type: "check_in_approved", checkInId: existing.id });
+      }
+      const checkIn = await storage.getCheckIn(existing.id);
+      res.json({ approved, checkIn });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/check-ins/:id/comments", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = insertCheckInCommentSchema.parse(req.body);
+      const checkIn = await storage.getCheckIn(req.params.id);
+      if (!checkIn) {
+        throw new NotFoundError("CHECK_IN_NOT_FOUND", "Check-in no encontrado");
+      }
+      const comment = await storage.addCheckInComment(checkIn.id, req.userId!, validatedData.content);
+      await notify(req, { userId: checkIn.userId, actorId: req.userId!, type: "check_in_commented", checkInId: checkIn.id });
+      res.status(201).json({ comment });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/leaderboard", optionalAuthMiddleware, async (req, res, next) => {
+    try {
+      const query = leaderboardQuerySchema.parse(req.query);
+      const leaderboard = await storage.getLeaderboard(query, req.userId);
+      res.json(leaderboard);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/wallet/activity", authMiddleware, async (req, res, next) => {
+    try {
+      const validatedData = insertWalletActivitySchema.parse(req.body);
+      // With a chain configured the transaction must be there and the amount
+      // is the one it moved; in demo mode the activity is kept unverified
+      let verified = false;
+      if (chainDeployment.network) {
+        const user = await storage.getUser(req.userId!);
+        if (!user?.walletAddress) {
+          throw new BadRequestError("WALLET_NOT_LINKED", "No tienes una wallet vinculada");
+        }
+        const amount = await verifyWalletActivity(validatedData.type, validatedData.txHash, user.walletAddress);
+        if (amount === undefined) {
+          throw new BadRequestError("WALLET_ACTIVITY_UNVERIFIED", "No se encontró esa transacción en la red");
+        }
+        validatedData.amount = amount;
+        verified = true;
+      }
+      if (validatedData.type !== "donation") {
+        await storage.recordWalletActivity(req.userId!, { ...validatedData, verified });
+        return res.status(201).json({ success: true });
+      }
+
+      // The ledger holds whole tokens
+      const tokens = Math.floor(validatedData.amount);
+      if (tokens < 1) {
+        throw new ValidationError([{ field: "amount", issue: "too_small", message: "La donación mínima es de 1 token", limit: 1 }]);
+      }
+      const result = await storage.recordDonation(req.userId!, { ...validatedData, verified }, tokens);
+      if (result === "insufficient_balance") {
+        throw new BadRequestError("INSUFFICIENT_BALANCE", "Saldo insuficiente");
+      }
+      if (result === "recorded") {
+        liveEvents.broadcast({ type: "donation_made", userId: req.userId!, amount: tokens });
+        await publishBalance(req.userId!);
+      }
+      res.status(201).json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/tokens/ledger", authMiddleware, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        throw new NotFoundError("USER_NOT_FOUND", "Usuario no encontrado");
+      }
+      const entries = await storage.getTokenLedger(user.id);
+      res.json({ balance: user.totalTokens ?? 0, entries });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/tokens/transfer", authMiddleware, async (req, res, next) => {
+    try {
+      const { toWalletAddress, amount } = tokenTransferSchema.parse(req.body);
+      const recipient = await storage.getUserByWalletAddress(toWalletAddress);
+      if (!recipient) {
+        throw new NotFoundError("TRANSFER_RECIPIENT_NOT_FOUND", "No hay ninguna cuenta con esa wallet");
+      }
+      if (recipient.id === req.userId) {
+        throw new BadRequestError("TRANSFER_TO_SELF", "No puedes transferirte tokens a ti mismo");
+      }
+      const transferred = await storage.transferTokens(req.userId!, recipient.id, amount);
+      if (!transferred) {
+        throw new BadRequestError("INSUFFICIENT_BALANCE", "Saldo insuficiente");
+      }
+      await Promise.all([publishBalance(req.userId!), publishBalance(recipient.id)]);
+      const user = await storage.getUser(req.userId!);
+      res.json({ user: toSafeUser(user!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Takes one image as the "file" part of a multipart/form-data body. The
+  // returned id is what a new check-in or post sends as mediaId.
+  app.post("/api/media", authMiddleware, mediaUploadRateLimit, mediaUpload, async (req, res, next) => {
+    try {
+      if (!req.file) {
+        throw new BadRequestError("MEDIA_FILE_MISSING", "Falta la imagen");
+      }
+      const item = await saveUploadedImage(req.userId!, req.file.buffer);
+      res.status(201).json({ media: toUploadedMedia(item) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public like the check-ins and posts that show them: an <img> cannot send
+  // the bearer token, and ids are random UUIDs
+  app.get("/api/media/:id", async (req, res, next) => {
+    try {
+      const item = await storage.getMedia(req.params.id);
+      const file = item && await mediaStore.get(item.id);
+      if (!item || !file) {
+        throw new NotFoundError("MEDIA_NOT_FOUND", "Imagen no encontrada");
+      }
+      res.set({ "Content-Type": item.mimeType, "Cache-Control": MEDIA_CACHE_CONTROL, "X-Content-Type-Options": "nosniff" });
+      res.send(file);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/media/:id/thumbnail", async (req, res, next) => {
+    try {
+      const item = await storage.getMedia(req.params.id);
+      const file = item && await mediaStore.get(thumbnailKey(item.id));
+      if (!item || !file) {
+        throw new NotFoundError("MEDIA_NOT_FOUND", "Imagen no encontrada");
+      }
+      res.set({ "Content-Type": "image/webp", "Cache-Control": MEDIA_CACHE_CONTROL, "X-Content-Type-Options": "nosniff" });
+      res.send(file);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/notifications", authMiddleware, async (req, res, next) => {
+    try {
+      const query = notificationQuerySchema.parse(req.query);
+      res.json(await storage.getNotifications(req.userId!, query));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/notifications/read-all", authMiddleware, async (req, res, next) => {
+    try {
+      await storage.markAllNotificationsRead(req.userId!);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authMiddleware, async (req, res, next) => {
+    try {
+      if (!await storage.markNotificationRead(req.userId!, req.params.id)) {
+        throw new NotFoundError("NOTIFICATION_NOT_FOUND", "Notificación no encontrada");
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/notifications/preferences", authMiddleware, async (req, res, next) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.userId!);
+      res.json({ preferences });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/notifications/preferences", authMiddleware, async (req, res, next) => {
+    try {
+      const changes = notificationPreferencesUpdateSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(req.userId!, changes);
+      res.json({ preferences });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Lets developers open the links the outbox mailer stored, without a mail server
+  if (app.get("env") === "development") {
+    app.get("/api/dev/mail-outbox", async (_req, res, next) => {
+      try {
+        const messages = await storage.getOutboxMessages(20);
+        res.json({ messages });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    passport.use(new GoogleStrategy({
+      clientID: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      callbackURL: `${baseUrl}/api/auth/google/callback`,
+      store: oauthStateStore,
+    }, async (accessToken, refreshToken, profile, done) => {
+      try {
+        const email = profile.emails?.[0]?.value;
+        if (!email) {
+          return done(new Error("No email found in Google profile"), undefined);
+        }
+
+        const name = profile.displayName || email.split('@')[0];
+        done(null, await resolveOAuthLogin({ provider: 'google', subject: profile.id, email, name, emailVerified: true }));
+      } catch (error) {
+        done(error as Error, undefined);
+      }
+    }));
+
+    app.get("/api/auth/google", passport.authenticate('google', { 
+      scope: ['profile', 'email'],
+      session: false 
+    }));
+
+    app.get("/api/auth/google/callback", 
+      passport.authenticate('google', { session: false, failureRedirect: '/?auth_error=google_failed' }),
+      (req, res) => finishOAuthLogin(res, req.user as OAuthLoginResult | undefined)
+    );
+  }
+
+  if (process.env.FACEBOOK_APP_ID && process.env.FACEBOOK_APP_SECRET) {
+    passport.use(new FacebookStrategy({
+      clientID: process.env.FACEBOOK_APP_ID,
+      clientSecret: process.env.FACEBOOK_APP_SECRET,
+      callbackURL: `${baseUrl}/api/auth/facebook/callback`,
+      store: oauthStateStore,
+      profileFields: ['id', 'emails', 'name', 'displayName'],
+    }, async (accessToken, refreshToken, profile, done) => {
+      try {
+        const email = profile.emails?.[0]?.value;
+        if (!email) {
+          return done(new Error("No email found in Facebook profile"), undefined);
+        }
+
+        const name = profile.displayName || `${profile.name?.givenName || ''} ${profile.name?.familyName || ''}`.trim() || email.split('@')[0];
+        done(null, await resolveOAuthLogin({ provider: 'facebook', subject: profile.id, email, name, emailVerified: true }));
+      } catch (error) {
+        done(error as Error, undefined);
+      }
+    }));
+
+    app.get("/api/auth/facebook", passport.authenticate('facebook', { 
+      scope: ['email'],
+      session: false 
+    }));
+
+    app.get("/api/auth/facebook/callback", 
+      passport.authenticate('facebook', { session: false, failureRedirect: '/?auth_error=facebook_failed' }),
+      (req, res) => finishOAuthLogin(res, req.user as OAuthLoginResult | undefined)
+    );
+  }
+
+  app.get("/api/auth/oidc/providers", (_req, res) => {
+    const providers: OidcProviderSummary[] = Array.from(oidcProviders.values(), ({ id, name }) => ({ id, name }));
+    res.json({ providers });
+  });
+
+  app.get("/api/auth/oidc/:providerId", async (req, res, next) => {
+    const provider = oidcProviders.get(req.params.providerId);
+    if (!provider) {
+      return next(new NotFoundError("PROVIDER_NOT_FOUND", "Proveedor no encontrado"));
+    }
+    try {
+      await provider.startLogin(res);
+    } catch (error) {
+      logger.error("oidc login failed", { ...requestContext(req), provider: provider.id, error });
+      res.redirect('/?auth_error=oidc_failed');
+    }
+  });
+
+  app.get("/api/auth/oidc/:providerId/callback", async (req, res, next) => {
+    const provider = oidcProviders.get(req.params.providerId);
+    if (!provider) {
+      return next(new NotFoundError("PROVIDER_NOT_FOUND", "Proveedor no encontrado"));
+    }
+    try {
+      await finishOAuthLogin(res, await resolveOAuthLogin(await provider.completeLogin(req, res)));
+    } catch (error) {
+      logger.error("oidc callback failed", { ...requestContext(req), provider: provider.id, error });
+      res.redirect('/?auth_error=oidc_failed');
+    }
+  });
+
+  app.use(passport.initialize());
+
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.get("/api/docs", (_req, res) => {
+    res.type("html").send(renderApiDocsPage());
+  });
+
+  // Keeps shared/api.ts, and with it the OpenAPI document, in step with the routes
+  if (app.get("env") === "development") {
+    const undocumented = undocumentedRoutes(app);
+    if (undocumented.length > 0) {
+      logger.warn("routes missing from shared/api.ts", { routes: undocumented });
+    }
+  }
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,103 @@
+import { randomBytes } from "crypto";
+import { getAddress, verifyMessage } from "ethers";
+import { parseSiweMessage, type SiweMessage } from "@shared/siwe";
+import type { ErrorCode } from "@shared/errors";
+
+// How long an issued nonce can be used to sign in
+export const SIWE_NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Tolerated clock difference between the wallet's device and the server
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export function generateSiweNonce(): string {
+  return randomBytes(16).toString("hex");
+}
+
+export type SiweVerification =
+  | { ok: true; message: SiweMessage; address: string }
+  | { ok: false; code: ErrorCode; error: string };
+
+// What a message must name to be accepted. chainId is left out when the app
+// runs without a network (demo mode), and any chain is then accepted.
+export interface SiweExpectations {
+  domain: string;
+  uri: string;
+  chainId?: number;
+  statement: string;
+}
+
+// Checks the message layout, that it was meant for this site, chain and
+// purpose and is currently valid, and that the signature recovers to the
+// address in the message. The caller is responsible for consuming the nonce.
+export function verifySiweMessage(
+  text: string,
+  signature: string,
+  expected: SiweExpectations,
+): SiweVerification {
+  const message = parseSiweMessage(text);
+  if (!message) {
+    return { ok: false, code: "SIWE_MESSAGE_INVALID", error: "Mensaje de inicio de sesión no válido" };
+  }
+  if (message.domain !== expected.domain) {
+    return { ok: false, code: "SIWE_DOMAIN_MISMATCH", error: "El mensaje fue firmado para otro dominio" };
+  }
+  if (originOf(message.uri) !== originOf(expected.uri)) {
+    return { ok: false, code: "SIWE_URI_MISMATCH", error: "El mensaje fue firmado para otro sitio" };
+  }
+  if (expected.chainId !== undefined && message.chainId !== expected.chainId) {
+    return { ok: false, code: "SIWE_CHAIN_MISMATCH", error: "El mensaje fue firmado para otra red" };
+  }
+  if (message.statement !== expected.statement) {
+    return { ok: false, code: "SIWE_STATEMENT_MISMATCH", error: "El mensaje firmado no corresponde a esta acción" };
+  }
+  if (!isChecksumAddress(message.address)) {
+    return { ok: false, code: "SIWE_ADDRESS_INVALID", error: "Dirección de wallet no válida (checksum EIP-55)" };
+  }
+  if (message.version !== "1") {
+    return { ok: false, code: "SIWE_VERSION_UNSUPPORTED", error: "Versión de mensaje no soportada" };
+  }
+
+  const now = Date.now();
+  const issuedAt = Date.parse(message.issuedAt);
+  if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS || issuedAt < now - SIWE_NONCE_TTL_MS) {
+    return { ok: false, code: "SIWE_MESSAGE_EXPIRED", error: "El mensaje de inicio de sesión expiró" };
+  }
+  if (message.expirationTime && !(Date.parse(message.expirationTime) > now)) {
+    return { ok: false, code: "SIWE_MESSAGE_EXPIRED", error: "El mensaje de inicio de sesión expiró" };
+  }
+  if (message.notBefore && !(Date.parse(message.notBefore) <= now + CLOCK_SKEW_MS)) {
+    return { ok: false, code: "SIWE_MESSAGE_NOT_YET_VALID", error: "El mensaje de inicio de sesión aún no es válido" };
+  }
+
+  let recovered: string;
+  try {
+    recovered = verifyMessage(text, signature);
+  } catch {
+    return { ok: false, code: "SIWE_SIGNATURE_INVALID", error: "Firma no válida" };
+  }
+  if (recovered !== message.address) {
+    return { ok: false, code: "SIWE_SIGNATURE_INVALID", error: "Firma no válida" };
+  }
+
+  return { ok: true, message, address: message.address };
+}
+
+// Clients sign their page's origin; a path or a trailing slash on either side
+// does not matter
+function originOf(uri: string): string | undefined {
+  try {
+    return new URL(uri).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// EIP-4361 requires the EIP-55 mixed-case form; a typo in a checksummed
+// address is then caught instead of silently pointing elsewhere
+export function isChecksumAddress(address: string): boolean {
+  try {
+    return getAddress(address) === address;
+  } catch {
+    return false;
+  }
+}
@@ -1,91 +1,2411 @@
-import { type User, type SafeUser, users } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import {
+  type User,
+  type SafeUser,
+  type PostType,
+  type CommunityPost,
+  type CommunityComment,
+  type InsertCommunityPost,
+  type CommunityPostRow,
+  type PostCommentRow,
+  type PostLikeRow,
+  type DailyCheckIn,
+  type CheckInComment,
+  type CheckInRow,
+  type CheckInCommentRow,
+  type InsertCheckIn,
+  type Challenge,
+  type InsertChallenge,
+  type UserChallenge,
+  type ChallengeEnrollment,
+  type ChallengeCatalogEntry,
+  type EnrollmentStatus,
+  type NewWalletActivity,
+  type WalletActivity,
+  type WalletLinkEvent,
+  type WalletLinkAction,
+  type LeaderboardQuery,
+  type LeaderboardPage,
+  type LeaderboardUser,
+  type NewTokenLedgerEntry,
+  type TokenLedgerEntry,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type EmailTokenPurpose,
+  type InsertEmailToken,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  type OAuthProvider,
+  isBuiltInOAuthProvider,
+  type PendingOAuthLink,
+  type UserIdentity,
+  type InsertPendingOAuthLink,
+  type UserRole,
+  type Charity,
+  type CharitySeed,
+  type InsertCharity,
+  type UpdateCharity,
+  type NewChallenge,
+  type UpdateChallenge,
+  type AdminUserQuery,
+  type AccountData,
+  DELETED_USER_NAME,
+  type RoleGrantEvent,
+  type InsertRoleGrantEvent,
+  type NotificationType,
+  type NotificationRow,
+  type InsertNotification,
+  type NotificationQuery,
+  type NotificationPage,
+  type NotificationPreferences,
+  type UserNotification,
+  type MediaRow,
+  type InsertMedia,
+  notificationTypes,
+  users,
+  communityPosts,
+  postComments,
+  postLikes,
+  checkIns,
+  checkInLikes,
+  checkInApprovals,
+  checkInComments,
+  challenges,
+  userChallenges,
+  walletActivities,
+  siweNonces,
+  walletLinkEvents,
+  tokenLedger,
+  tokenEarningTypes,
+  refreshTokens,
+  oauthCodes,
+  emailTokens,
+  pendingOAuthLinks,
+  userIdentities,
+  mailOutbox,
+  roleGrantEvents,
+  charities,
+  notifications,
+  notificationPreferences,
+  media,
+  mediaUrls,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
+import { createDb, type Database } from "./db";
+import { logger } from "./logger";
+import { checkInRewardEntries, openingBalanceEntry, signupBonusEntry } from "./token-rewards";
+import { and, asc, count, desc, eq, ilike, inArray, isNull, lt, ne, or, sql } from "drizzle-orm";
+
+// Points a completed daily check-in adds to a user's leaderboard score
+const CHECK_IN_SCORE = 10;
+
+type TwoFactorFields = 'totpSecret' | 'totpEnabledAt' | 'totpLastUsedStep' | 'recoveryCodeHashes';
+
+type DeletionFields = 'deletionRequestedAt' | 'deletedAt';
+
+type NewUser = Omit<User, 'id' | 'createdAt' | 'isActive' | 'totalTokens' | 'emailVerifiedAt' | 'roles' | TwoFactorFields | DeletionFields> & Partial<Pick<User, 'emailVerifiedAt'>>;
+
+// What purgeDeletedAccounts removed: the number of accounts, and the media
+// whose files are to be deleted from the media store
+export interface AccountPurgeResult {
+  accounts: number;
+  mediaIds: string[];
+}
+
+// A new check-in and the enrollment whose day it completed
+export interface RecordedCheckIn {
+  checkIn: DailyCheckIn;
+  enrollment: ChallengeEnrollment;
+}
+
+// What recordDonation did: a replayed transaction is not debited again
+export type DonationResult = "recorded" | "duplicate" | "insufficient_balance";
+
+// What linkWallet did: the updated user, or why the wallet was not linked
+export type WalletLinkResult = User | "user_not_found" | "wallet_taken";
+
+// A first Sign-In With Ethereum account: no email or password, only the wallet
+function walletUserData(name: string, walletAddress: string): NewUser {
+  return {
+    email: null,
+    name,
+    passwordHash: null,
+    location: null,
+    dietaryPreference: null,
+    walletAddress,
+    currentChallengeId: null,
+    challengeStartDate: null,
+    challengeDay: 0,
+    googleId: null,
+    facebookId: null,
+    authProvider: "siwe",
+  };
+}
+
+// Postgres reports a unique index violation with this SQLSTATE
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Recorded on the role revocations made when an account is purged
+const ACCOUNT_PURGE_REASON = "Cuenta eliminada";
+
+// What is left of a purged account: enough for its posts and comments to keep
+// an (anonymous) author, nothing that identifies the person
+function purgedUserFields(): Partial<User> {
+  return {
+    email: null,
+    passwordHash: null,
+    name: DELETED_USER_NAME,
+    location: null,
+    dietaryPreference: null,
+    walletAddress: null,
+    currentChallengeId: null,
+    challengeStartDate: null,
+    challengeDay: 0,
+    totalTokens: 0,
+    isActive: false,
+    googleId: null,
+    facebookId: null,
+    authProvider: null,
+    emailVerifiedAt: null,
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    recoveryCodeHashes: [],
+    roles: [],
+    deletedAt: new Date(),
+  };
+}
+
+type NewOAuthUser = {
+  email: string;
+  name: string;
+  provider: OAuthProvider;
+  subject: string;
+  emailVerified: boolean;
+};
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+type WalletLinkAuditEntry = {
+  userId: string;
+  walletAddress: string;
+  action: WalletLinkAction;
+  ipAddress: string | null;
+};
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   getUserByFacebookId(facebookId: string): Promise<User | undefined>;
-  createUser(user: Omit<User, 'id' | 'createdAt' | 'isActive'>): Promise<User>;
-  createOAuthUser(data: { email: string; name: string; googleId?: string; facebookId?: string; authProvider: string }): Promise<User>;
+  getUserByWalletAddress(walletAddress: string): Promise<User | undefined>;
+  createUser(user: NewUser): Promise<User>;
+  getUserByOAuthIdentity(provider: OAuthProvider, subject: string): Promise<User | undefined>;
+  createOAuthUser(data: NewOAuthUser): Promise<User>;
+  // The account of a first Sign-In With Ethereum, created with the wallet
+  // already linked so that losing a race for the wallet leaves no account
+  // behind. Undefined when another account holds the wallet.
+  createWalletUser(name: string, walletAddress: string, ipAddress?: string): Promise<User | undefined>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
-  linkWallet(userId: string, walletAddress: string): Promise<User | undefined>;
-  linkOAuthProvider(userId: string, provider: 'google' | 'facebook', providerId: string): Promise<User | undefined>;
+  linkWallet(userId: string, walletAddress: string, ipAddress?: string): Promise<WalletLinkResult>;
+  unlinkWallet(userId: string, ipAddress?: string): Promise<User | undefined>;
+  linkOAuthProvider(userId: string, provider: OAuthProvider, providerId: string): Promise<User | undefined>;
+  unlinkOAuthProvider(userId: string, provider: OAuthProvider): Promise<User | undefined>;
+  getLinkedOAuthProviders(userId: string): Promise<OAuthProvider[]>;
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+  // Both return the updated user, or undefined when nothing changed (unknown
+  // user, role already held or not held). Changes are recorded in the audit log.
+  grantRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined>;
+  revokeRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined>;
+  getUsersWithRoles(): Promise<User[]>;
+  // Deactivates the account and hides its name from community content; the
+  // rest of its data stays until purgeDeletedAccounts runs after the grace period
+  requestAccountDeletion(userId: string): Promise<User | undefined>;
+  // Purges accounts whose deletion was requested before the given date
+  purgeDeletedAccounts(requestedBefore: Date): Promise<AccountPurgeResult>;
+  getAccountData(userId: string): Promise<AccountData>;
+  getRoleGrantEvents(filter: { userId?: string; limit: number }): Promise<RoleGrantEvent[]>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  // Also deletes the expired nonces, so unused ones do not pile up
+  createSiweNonce(nonce: string, expiresAt: Date): Promise<void>;
+  consumeSiweNonce(nonce: string): Promise<boolean>;
+  createRefreshToken(data: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshToken(tokenHash: string): Promise<RefreshToken | undefined>;
+  revokeRefreshToken(id: string): Promise<boolean>;
+  revokeRefreshTokens(filter: { userId?: string; familyId?: string }): Promise<void>;
+  createOAuthCode(codeHash: string, userId: string, expiresAt: Date): Promise<void>;
+  consumeOAuthCode(codeHash: string): Promise<string | undefined>;
+  createPendingOAuthLink(link: InsertPendingOAuthLink): Promise<void>;
+  getPendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined>;
+  setPendingOAuthLinkCode(tokenHash: string, codeHash: string): Promise<void>;
+  recordPendingOAuthLinkFailure(tokenHash: string): Promise<number>;
+  consumePendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined>;
+  createEmailToken(data: InsertEmailToken): Promise<void>;
+  consumeEmailToken(tokenHash: string, purpose: EmailTokenPurpose): Promise<string | undefined>;
+  addOutboxMessage(message: InsertOutboxMessage): Promise<void>;
+  getOutboxMessages(limit: number): Promise<OutboxMessage[]>;
+  getCommunityPosts(type?: PostType): Promise<CommunityPost[]>;
+  getCommunityPost(id: string): Promise<CommunityPost | undefined>;
+  createCommunityPost(authorId: string, data: InsertCommunityPost): Promise<CommunityPost>;
+  togglePostLike(postId: string, userId: string): Promise<boolean>;
+  addPostComment(postId: string, authorId: string, content: string, parentId?: string): Promise<CommunityComment>;
+  getCheckIns(filter?: { userId?: string; challengeId?: string }): Promise<DailyCheckIn[]>;
+  getCheckIn(id: string): Promise<DailyCheckIn | undefined>;
+  // Stores the check-in, completes its day of the enrollment and credits its
+  // rewards, all or nothing. Undefined when the user already checked in to the
+  // challenge on that date.
+  recordCheckIn(userId: string, enrollmentId: string, data: InsertCheckIn, checkInDate: string): Promise<RecordedCheckIn | undefined>;
+  toggleCheckInLike(checkInId: string, userId: string): Promise<boolean>;
+  toggleCheckInApproval(checkInId: string, userId: string): Promise<boolean>;
+  addCheckInComment(checkInId: string, authorId: string, content: string): Promise<CheckInComment>;
+  seedChallenges(catalog: InsertChallenge[]): Promise<void>;
+  getChallenges(): Promise<ChallengeCatalogEntry[]>;
+  getChallenge(id: string): Promise<Challenge | undefined>;
+  // Undefined when the id is already taken
+  createChallenge(data: NewChallenge): Promise<Challenge | undefined>;
+  updateChallenge(id: string, updates: UpdateChallenge): Promise<Challenge | undefined>;
+  seedCharities(catalog: CharitySeed[]): Promise<void>;
+  getCharities(filter?: { includeInactive?: boolean }): Promise<Charity[]>;
+  getCharity(id: string): Promise<Charity | undefined>;
+  createCharity(data: InsertCharity): Promise<Charity>;
+  updateCharity(id: string, updates: UpdateCharity): Promise<Charity | undefined>;
+  // Newest first; the query matches name, email or wallet address
+  searchUsers(query: AdminUserQuery): Promise<{ users: User[]; total: number }>;
+  getCurrentEnrollment(userId: string): Promise<ChallengeEnrollment | undefined>;
+  // Undefined while the user still has an active enrollment
+  enrollInChallenge(userId: string, challengeId: string): Promise<ChallengeEnrollment | undefined>;
+  // A second report of the same transaction and type is ignored
+  recordWalletActivity(userId: string, data: NewWalletActivity): Promise<void>;
+  // Records the donation and debits its whole tokens from the balance, unless
+  // the balance does not cover them
+  recordDonation(userId: string, data: NewWalletActivity, tokens: number): Promise<DonationResult>;
+  // Writes an opening_balance entry for each account whose stored balance the
+  // ledger does not add up to, i.e. accounts from before the ledger. Runs at
+  // startup, before anything re-derives a balance; returns how many it wrote.
+  openLedgerBalances(): Promise<number>;
+  addTokenLedgerEntries(userId: string, entries: NewTokenLedgerEntry[]): Promise<TokenLedgerEntry[]>;
+  getTokenLedger(userId: string): Promise<TokenLedgerEntry[]>;
+  transferTokens(fromUserId: string, toUserId: string, amount: number): Promise<boolean>;
+  getLeaderboard(query: LeaderboardQuery, currentUserId?: string): Promise<LeaderboardPage>;
+  // Likes and approvals can be toggled, so one of those per actor and check-in
+  // is kept: a repeat returns undefined instead of notifying again
+  createNotification(data: InsertNotification): Promise<NotificationRow | undefined>;
+  // Newest first
+  getNotifications(userId: string, query: NotificationQuery): Promise<NotificationPage>;
+  // False when there is no such notification for this user
+  markNotificationRead(userId: string, id: string): Promise<boolean>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, changes: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+  createMedia(data: InsertMedia): Promise<MediaRow>;
+  getMedia(id: string): Promise<MediaRow | undefined>;
+  // True once a check-in or post shows the image
+  isMediaAttached(id: string): Promise<boolean>;
+  // Resolves once the backend has answered a trivial query; used by the readiness check
+  ping(): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  async ping(): Promise<void> {
+    await this.db.execute(sql`select 1`);
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email.toLowerCase()));
     return user;
   }
 
   async getUserByGoogleId(googleId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.googleId, googleId));
+    const [user] = await this.db.select().from(users).where(eq(users.googleId, googleId));
     return user;
   }
 
   async getUserByFacebookId(facebookId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.facebookId, facebookId));
+    const [user] = await this.db.select().from(users).where(eq(users.facebookId, facebookId));
+    return user;
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(eq(sql`lower(${users.walletAddress})`, walletAddress.toLowerCase()));
     return user;
   }
 
-  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'isActive'>): Promise<User> {
-    const [user] = await db.insert(users).values({
+  async createUser(userData: NewUser): Promise<User> {
+    return this.db.transaction((tx) => this.insertUser(tx, userData));
+  }
+
+  // New accounts start with the signup bonus on their ledger
+  private async insertUser(tx: Transaction, userData: NewUser): Promise<User> {
+    const [user] = await tx.insert(users).values({
       ...userData,
-      email: userData.email.toLowerCase(),
+      email: userData.email?.toLowerCase() ?? null,
     }).returning();
-    return user;
+    await this.insertLedgerEntries(tx, user.id, [signupBonusEntry()]);
+    const [credited] = await tx.select().from(users).where(eq(users.id, user.id));
+    return credited;
+  }
+
+  // The unique index on the address turns a wallet claimed in the meantime
+  // into a rollback of the whole account
+  async createWalletUser(name: string, walletAddress: string, ipAddress?: string): Promise<User | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const user = await this.insertUser(tx, walletUserData(name, walletAddress));
+        await tx.insert(walletLinkEvents).values({ userId: user.id, walletAddress, action: "link", ipAddress: ipAddress ?? null });
+        return user;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) return undefined;
+      throw error;
+    }
   }
 
   async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
-    const [user] = await db.update(users)
+    const [user] = await this.db.update(users)
       .set(updates)
       .where(eq(users.id, id))
       .returning();
     return user;
   }
 
-  async linkWallet(userId: string, walletAddress: string): Promise<User | undefined> {
-    return this.updateUser(userId, { walletAddress });
+  // Replacing a linked wallet is audited as an unlink of the old address followed by a link
+  // The owner check runs in the transaction; two accounts racing for the same
+  // wallet are settled by the unique index on the address
+  async linkWallet(userId: string, walletAddress: string, ipAddress?: string): Promise<WalletLinkResult> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [current] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+        if (!current) return "user_not_found";
+        const [owner] = await tx.select({ id: users.id })
+          .from(users)
+          .where(and(eq(sql`lower(${users.walletAddress})`, walletAddress.toLowerCase()), ne(users.id, userId)));
+        if (owner) return "wallet_taken";
+
+        const [user] = await tx.update(users).set({ walletAddress }).where(eq(users.id, userId)).returning();
+        const events: WalletLinkAuditEntry[] = [];
+        if (current.walletAddress) {
+          events.push({ userId, walletAddress: current.walletAddress, action: "unlink", ipAddress: ipAddress ?? null });
+        }
+        events.push({ userId, walletAddress, action: "link", ipAddress: ipAddress ?? null });
+        await tx.insert(walletLinkEvents).values(events);
+        return user;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) return "wallet_taken";
+      throw error;
+    }
+  }
+
+  async unlinkWallet(userId: string, ipAddress?: string): Promise<User | undefined> {
+    const current = await this.getUser(userId);
+    if (!current?.walletAddress) return current;
+    const user = await this.updateUser(userId, { walletAddress: null });
+    await this.db.insert(walletLinkEvents).values({
+      userId,
+      walletAddress: current.walletAddress,
+      action: "unlink",
+      ipAddress: ipAddress ?? null,
+    });
+    return user;
   }
 
-  async createOAuthUser(data: { email: string; name: string; googleId?: string; facebookId?: string; authProvider: string }): Promise<User> {
-    const [user] = await db.insert(users).values({
-      email: data.email.toLowerCase(),
+  async getUserByOAuthIdentity(provider: OAuthProvider, subject: string): Promise<User | undefined> {
+    if (provider === 'google') return this.getUserByGoogleId(subject);
+    if (provider === 'facebook') return this.getUserByFacebookId(subject);
+    const [row] = await this.db.select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(users.id, userIdentities.userId))
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  async createOAuthUser(data: NewOAuthUser): Promise<User> {
+    const user = await this.createUser({
+      email: data.email,
       name: data.name,
       passwordHash: null,
-      googleId: data.googleId || null,
-      facebookId: data.facebookId || null,
-      authProvider: data.authProvider,
+      googleId: data.provider === 'google' ? data.subject : null,
+      facebookId: data.provider === 'facebook' ? data.subject : null,
+      authProvider: data.provider,
       location: null,
       dietaryPreference: null,
       walletAddress: null,
       currentChallengeId: null,
       challengeStartDate: null,
       challengeDay: 0,
-      totalTokens: 100,
+      emailVerifiedAt: data.emailVerified ? new Date() : null,
+    });
+    if (isBuiltInOAuthProvider(data.provider)) return user;
+    await this.db.insert(userIdentities).values({ userId: user.id, provider: data.provider, subject: data.subject });
+    return user;
+  }
+
+  // Google and Facebook identities are stored on the user row, the rest in user_identities
+  async linkOAuthProvider(userId: string, provider: OAuthProvider, subject: string): Promise<User | undefined> {
+    if (provider === 'google') return this.updateUser(userId, { googleId: subject });
+    if (provider === 'facebook') return this.updateUser(userId, { facebookId: subject });
+    await this.db.insert(userIdentities).values({ userId, provider, subject });
+    return this.getUser(userId);
+  }
+
+  async unlinkOAuthProvider(userId: string, provider: OAuthProvider): Promise<User | undefined> {
+    if (provider === 'google') return this.updateUser(userId, { googleId: null });
+    if (provider === 'facebook') return this.updateUser(userId, { facebookId: null });
+    await this.db.delete(userIdentities)
+      .where(and(eq(userIdentities.userId, userId), eq(userIdentities.provider, provider)));
+    return this.getUser(userId);
+  }
+
+  async getLinkedOAuthProviders(userId: string): Promise<OAuthProvider[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    const identities = await this.db.select({ provider: userIdentities.provider })
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId))
+      .orderBy(asc(userIdentities.createdAt));
+    return [
+      ...(user.googleId ? ['google'] : []),
+      ...(user.facebookId ? ['facebook'] : []),
+      ...identities.map((identity) => identity.provider),
+    ];
+  }
+
+  // True only if the step is newer than the last accepted one, so the same
+  // code cannot complete two logins, even concurrently
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        sql`(${users.totpLastUsedStep} is null or ${users.totpLastUsedStep} < ${step})`,
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async grantRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ roles: sql`array_append(${users.roles}, ${role})` })
+        .where(and(eq(users.id, userId), sql`not (${role} = any(${users.roles}))`))
+        .returning();
+      if (!user) return undefined;
+      await tx.insert(roleGrantEvents).values({ ...audit, userId, role, action: "grant" });
+      return user;
+    });
+  }
+
+  async revokeRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ roles: sql`array_remove(${users.roles}, ${role})` })
+        .where(and(eq(users.id, userId), sql`${role} = any(${users.roles})`))
+        .returning();
+      if (!user) return undefined;
+      await tx.insert(roleGrantEvents).values({ ...audit, userId, role, action: "revoke" });
+      return user;
+    });
+  }
+
+  async getUsersWithRoles(): Promise<User[]> {
+    return this.db.select().from(users)
+      .where(sql`cardinality(${users.roles}) > 0`)
+      .orderBy(asc(users.name));
+  }
+
+  async requestAccountDeletion(userId: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ deletionRequestedAt: new Date(), isActive: false, name: DELETED_USER_NAME })
+      .where(and(eq(users.id, userId), isNull(users.deletionRequestedAt)))
+      .returning();
+    return user;
+  }
+
+  // Posts and comments on posts are kept under the anonymous account, without
+  // their images; check-ins are personal progress and go, along with the
+  // comments others left on them
+  async purgeDeletedAccounts(requestedBefore: Date): Promise<AccountPurgeResult> {
+    const due = await this.db.select().from(users)
+      .where(and(lt(users.deletionRequestedAt, requestedBefore), isNull(users.deletedAt)));
+    const mediaIds: string[] = [];
+    for (const user of due) {
+      await this.db.transaction(async (tx) => {
+        const userId = user.id;
+        await tx.delete(refreshTokens).where(eq(refreshTokens.userId, userId));
+        await tx.delete(oauthCodes).where(eq(oauthCodes.userId, userId));
+        await tx.delete(emailTokens).where(eq(emailTokens.userId, userId));
+        await tx.delete(pendingOAuthLinks).where(eq(pendingOAuthLinks.userId, userId));
+        await tx.delete(userIdentities).where(eq(userIdentities.userId, userId));
+        await tx.delete(walletLinkEvents).where(eq(walletLinkEvents.userId, userId));
+        await tx.delete(walletActivities).where(eq(walletActivities.userId, userId));
+        await tx.delete(tokenLedger).where(eq(tokenLedger.userId, userId));
+        await tx.delete(userChallenges).where(eq(userChallenges.userId, userId));
+        await tx.delete(postLikes).where(eq(postLikes.userId, userId));
+        await tx.delete(checkInLikes).where(eq(checkInLikes.userId, userId));
+        await tx.delete(checkInApprovals).where(eq(checkInApprovals.userId, userId));
+        await tx.delete(checkInComments).where(eq(checkInComments.authorId, userId));
+        await tx.delete(checkIns).where(eq(checkIns.userId, userId));
+        await tx.update(communityPosts).set({ mediaId: null }).where(eq(communityPosts.authorId, userId));
+        const removedMedia = await tx.delete(media).where(eq(media.ownerId, userId)).returning({ id: media.id });
+        mediaIds.push(...removedMedia.map(({ id }) => id));
+        await tx.delete(notifications).where(or(eq(notifications.userId, userId), eq(notifications.actorId, userId)));
+        await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+        if (user.email) {
+          await tx.delete(mailOutbox).where(eq(mailOutbox.recipient, user.email));
+        }
+        if (user.roles.length > 0) {
+          await tx.insert(roleGrantEvents).values(user.roles.map((role) => (
+            { userId, role, action: "revoke", actorId: null, reason: ACCOUNT_PURGE_REASON, ipAddress: null }
+          )));
+        }
+        await tx.update(users).set(purgedUserFields()).where(eq(users.id, userId));
+      });
+    }
+    return { accounts: due.length, mediaIds };
+  }
+
+  async getAccountData(userId: string): Promise<AccountData> {
+    return {
+      linkedIdentities: await this.db.select({ provider: userIdentities.provider, subject: userIdentities.subject, createdAt: userIdentities.createdAt })
+        .from(userIdentities).where(eq(userIdentities.userId, userId)),
+      walletLinks: await this.db.select().from(walletLinkEvents).where(eq(walletLinkEvents.userId, userId)).orderBy(asc(walletLinkEvents.createdAt)),
+      roleEvents: await this.db.select().from(roleGrantEvents).where(eq(roleGrantEvents.userId, userId)).orderBy(asc(roleGrantEvents.createdAt)),
+      posts: await this.db.select().from(communityPosts).where(eq(communityPosts.authorId, userId)).orderBy(asc(communityPosts.createdAt)),
+      postComments: await this.db.select().from(postComments).where(eq(postComments.authorId, userId)).orderBy(asc(postComments.createdAt)),
+      postLikes: await this.db.select().from(postLikes).where(eq(postLikes.userId, userId)),
+      challenges: await this.db.select().from(userChallenges).where(eq(userChallenges.userId, userId)).orderBy(asc(userChallenges.startDate)),
+      checkIns: await this.db.select().from(checkIns).where(eq(checkIns.userId, userId)).orderBy(asc(checkIns.createdAt)),
+      checkInComments: await this.db.select().from(checkInComments).where(eq(checkInComments.authorId, userId)).orderBy(asc(checkInComments.createdAt)),
+      checkInLikes: await this.db.select().from(checkInLikes).where(eq(checkInLikes.userId, userId)),
+      checkInApprovals: await this.db.select().from(checkInApprovals).where(eq(checkInApprovals.userId, userId)),
+      tokenLedger: await this.db.select().from(tokenLedger).where(eq(tokenLedger.userId, userId)).orderBy(asc(tokenLedger.createdAt)),
+      walletActivities: await this.db.select().from(walletActivities).where(eq(walletActivities.userId, userId)).orderBy(asc(walletActivities.createdAt)),
+      notifications: await this.db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(asc(notifications.createdAt)),
+      notificationPreferences: await this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId)),
+      media: await this.db.select().from(media).where(eq(media.ownerId, userId)).orderBy(asc(media.createdAt)),
+    };
+  }
+
+  async getRoleGrantEvents(filter: { userId?: string; limit: number }): Promise<RoleGrantEvent[]> {
+    return this.db.select().from(roleGrantEvents)
+      .where(filter.userId ? eq(roleGrantEvents.userId, filter.userId) : undefined)
+      .orderBy(desc(roleGrantEvents.createdAt))
+      .limit(filter.limit);
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await this.db.update(users)
+      .set({ recoveryCodeHashes: sql`array_remove(${users.recoveryCodeHashes}, ${codeHash})` })
+      .where(and(eq(users.id, userId), sql`${codeHash} = any(${users.recoveryCodeHashes})`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async createSiweNonce(nonce: string, expiresAt: Date): Promise<void> {
+    await this.db.delete(siweNonces).where(lt(siweNonces.expiresAt, new Date()));
+    await this.db.insert(siweNonces).values({ nonce, expiresAt });
+  }
+
+  // Deletes the nonce so it can only be used once; false if unknown or expired
+  async consumeSiweNonce(nonce: string): Promise<boolean> {
+    const [consumed] = await this.db.delete(siweNonces)
+      .where(eq(siweNonces.nonce, nonce))
+      .returning();
+    return !!consumed && consumed.expiresAt > new Date();
+  }
+
+  async createRefreshToken(data: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await this.db.insert(refreshTokens).values(data).returning();
+    return token;
+  }
+
+  async getRefreshToken(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await this.db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // True only for the call that actually revoked it, so two concurrent
+  // refreshes with the same token cannot both rotate it
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const revoked = await this.db.update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  async revokeRefreshTokens(filter: { userId?: string; familyId?: string }): Promise<void> {
+    if (!filter.userId && !filter.familyId) return;
+    await this.db.update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        isNull(refreshTokens.revokedAt),
+        filter.userId ? eq(refreshTokens.userId, filter.userId) : undefined,
+        filter.familyId ? eq(refreshTokens.familyId, filter.familyId) : undefined,
+      ));
+  }
+
+  async createOAuthCode(codeHash: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.db.delete(oauthCodes).where(lt(oauthCodes.expiresAt, new Date()));
+    await this.db.insert(oauthCodes).values({ codeHash, userId, expiresAt });
+  }
+
+  // Deletes the code so it can only be exchanged once; returns its user if it was still valid
+  async consumeOAuthCode(codeHash: string): Promise<string | undefined> {
+    const [consumed] = await this.db.delete(oauthCodes)
+      .where(eq(oauthCodes.codeHash, codeHash))
+      .returning();
+    return consumed && consumed.expiresAt > new Date() ? consumed.userId : undefined;
+  }
+
+  async createPendingOAuthLink(link: InsertPendingOAuthLink): Promise<void> {
+    await this.db.delete(pendingOAuthLinks).where(lt(pendingOAuthLinks.expiresAt, new Date()));
+    await this.db.insert(pendingOAuthLinks).values(link);
+  }
+
+  async getPendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined> {
+    const [link] = await this.db.select().from(pendingOAuthLinks)
+      .where(and(eq(pendingOAuthLinks.tokenHash, tokenHash), sql`${pendingOAuthLinks.expiresAt} > now()`));
+    return link;
+  }
+
+  async setPendingOAuthLinkCode(tokenHash: string, codeHash: string): Promise<void> {
+    await this.db.update(pendingOAuthLinks)
+      .set({ codeHash, failedAttempts: 0 })
+      .where(eq(pendingOAuthLinks.tokenHash, tokenHash));
+  }
+
+  // Returns the number of failed attempts so far, counted atomically
+  async recordPendingOAuthLinkFailure(tokenHash: string): Promise<number> {
+    const [link] = await this.db.update(pendingOAuthLinks)
+      .set({ failedAttempts: sql`${pendingOAuthLinks.failedAttempts} + 1` })
+      .where(eq(pendingOAuthLinks.tokenHash, tokenHash))
+      .returning({ failedAttempts: pendingOAuthLinks.failedAttempts });
+    return link?.failedAttempts ?? 0;
+  }
+
+  // Deletes the pending link so it is applied once; returns it if it was still valid
+  async consumePendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined> {
+    const [link] = await this.db.delete(pendingOAuthLinks)
+      .where(eq(pendingOAuthLinks.tokenHash, tokenHash))
+      .returning();
+    return link && link.expiresAt > new Date() ? link : undefined;
+  }
+
+  async createEmailToken(data: InsertEmailToken): Promise<void> {
+    await this.db.delete(emailTokens)
+      .where(and(eq(emailTokens.userId, data.userId), eq(emailTokens.purpose, data.purpose)));
+    await this.db.insert(emailTokens).values(data);
+  }
+
+  // Deletes the token so the link works once; returns its user if it was still valid
+  async consumeEmailToken(tokenHash: string, purpose: EmailTokenPurpose): Promise<string | undefined> {
+    const [consumed] = await this.db.delete(emailTokens)
+      .where(and(eq(emailTokens.tokenHash, tokenHash), eq(emailTokens.purpose, purpose)))
+      .returning();
+    return consumed && consumed.expiresAt > new Date() ? consumed.userId : undefined;
+  }
+
+  async addOutboxMessage(message: InsertOutboxMessage): Promise<void> {
+    await this.db.insert(mailOutbox).values(message);
+  }
+
+  async getOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+    return this.db.select().from(mailOutbox).orderBy(desc(mailOutbox.createdAt)).limit(limit);
+  }
+
+  async getCommunityPosts(type?: PostType): Promise<CommunityPost[]> {
+    const rows = await this.db.select({ post: communityPosts, authorName: users.name })
+      .from(communityPosts)
+      .innerJoin(users, eq(communityPosts.authorId, users.id))
+      .where(type ? eq(communityPosts.type, type) : undefined)
+      .orderBy(desc(communityPosts.createdAt));
+    return this.hydratePosts(rows);
+  }
+
+  async getCommunityPost(id: string): Promise<CommunityPost | undefined> {
+    const rows = await this.db.select({ post: communityPosts, authorName: users.name })
+      .from(communityPosts)
+      .innerJoin(users, eq(communityPosts.authorId, users.id))
+      .where(eq(communityPosts.id, id));
+    const [post] = await this.hydratePosts(rows);
+    return post;
+  }
+
+  async createCommunityPost(authorId: string, data: InsertCommunityPost): Promise<CommunityPost> {
+    const [post] = await this.db.insert(communityPosts).values({
+      authorId,
+      title: data.title,
+      description: data.description,
+      ingredients: data.ingredients || null,
+      preparationSteps: data.preparationSteps || null,
+      imageUrl: null,
+      mediaId: data.mediaId ?? null,
+      type: data.type,
+    }).returning();
+    return (await this.getCommunityPost(post.id))!;
+  }
+
+  async togglePostLike(postId: string, userId: string): Promise<boolean> {
+    const removed = await this.db.delete(postLikes)
+      .where(and(eq(postLikes.postId, postId), eq(postLikes.userId, userId)))
+      .returning();
+    if (removed.length > 0) {
+      return false;
+    }
+    await this.db.insert(postLikes).values({ postId, userId }).onConflictDoNothing();
+    return true;
+  }
+
+  async addPostComment(postId: string, authorId: string, content: string, parentId?: string): Promise<CommunityComment> {
+    const [comment] = await this.db.insert(postComments).values({
+      postId,
+      authorId,
+      content,
+      parentId: parentId || null,
     }).returning();
+    const author = await this.getUser(authorId);
+    return toCommunityComment(comment, author?.name ?? "");
+  }
+
+  async getCheckIns(filter: { userId?: string; challengeId?: string } = {}): Promise<DailyCheckIn[]> {
+    const rows = await this.db.select({ checkIn: checkIns, username: users.name })
+      .from(checkIns)
+      .innerJoin(users, eq(checkIns.userId, users.id))
+      .where(and(
+        filter.userId ? eq(checkIns.userId, filter.userId) : undefined,
+        filter.challengeId ? eq(checkIns.challengeId, filter.challengeId) : undefined,
+      ))
+      .orderBy(desc(checkIns.createdAt));
+    return this.hydrateCheckIns(rows);
+  }
+
+  async getCheckIn(id: string): Promise<DailyCheckIn | undefined> {
+    const rows = await this.db.select({ checkIn: checkIns, username: users.name })
+      .from(checkIns)
+      .innerJoin(users, eq(checkIns.userId, users.id))
+      .where(eq(checkIns.id, id));
+    const [checkIn] = await this.hydrateCheckIns(rows);
+    return checkIn;
+  }
+
+  // Returns undefined when the user already checked in for this challenge on checkInDate
+  // One transaction, so a failure leaves no check-in behind to block the retry
+  async recordCheckIn(userId: string, enrollmentId: string, data: InsertCheckIn, checkInDate: string): Promise<RecordedCheckIn | undefined> {
+    const recorded = await this.db.transaction(async (tx) => {
+      const [checkIn] = await tx.insert(checkIns).values({
+        userId,
+        challengeId: data.challengeId,
+        day: data.day,
+        checkInDate,
+        description: data.description,
+        imageUrl: null,
+        mediaId: data.mediaId ?? null,
+      }).onConflictDoNothing().returning();
+      if (!checkIn) return undefined;
+      const enrollment = await this.completeChallengeDay(tx, enrollmentId, checkIn.day);
+      await this.insertLedgerEntries(tx, userId, checkInRewardEntries(checkIn, enrollment));
+      return { checkInId: checkIn.id, enrollment };
+    });
+    if (!recorded) return undefined;
+    const checkIn = await this.getCheckIn(recorded.checkInId);
+    return { checkIn: checkIn!, enrollment: recorded.enrollment };
+  }
+
+  async toggleCheckInLike(checkInId: string, userId: string): Promise<boolean> {
+    const removed = await this.db.delete(checkInLikes)
+      .where(and(eq(checkInLikes.checkInId, checkInId), eq(checkInLikes.userId, userId)))
+      .returning();
+    if (removed.length > 0) {
+      return false;
+    }
+    await this.db.insert(checkInLikes).values({ checkInId, userId }).onConflictDoNothing();
+    return true;
+  }
+
+  async toggleCheckInApproval(checkInId: string, userId: string): Promise<boolean> {
+    const removed = await this.db.delete(checkInApprovals)
+      .where(and(eq(checkInApprovals.checkInId, checkInId), eq(checkInApprovals.userId, userId)))
+      .returning();
+    if (removed.length > 0) {
+      return false;
+    }
+    await this.db.insert(checkInApprovals).values({ checkInId, userId }).onConflictDoNothing();
+    return true;
+  }
+
+  async addCheckInComment(checkInId: string, authorId: string, content: string): Promise<CheckInComment> {
+    const [comment] = await this.db.insert(checkInComments).values({
+      checkInId,
+      authorId,
+      content,
+    }).returning();
+    const author = await this.getUser(authorId);
+    return toCheckInComment(comment, author?.name ?? "");
+  }
+
+  async createNotification(data: InsertNotification): Promise<NotificationRow | undefined> {
+    if (data.type === "check_in_liked" || data.type === "check_in_approved") {
+      const [existing] = await this.db.select({ id: notifications.id }).from(notifications).where(and(
+        eq(notifications.userId, data.userId),
+        eq(notifications.type, data.type),
+        eq(notifications.actorId, data.actorId),
+        eq(notifications.checkInId, data.checkInId ?? ""),
+      ));
+      if (existing) return undefined;
+    }
+    const [notification] = await this.db.insert(notifications).values(data).returning();
+    return notification;
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery): Promise<NotificationPage> {
+    const mine = eq(notifications.userId, userId);
+    const rows = await this.db.select({ notification: notifications, actorName: users.name, checkInDay: checkIns.day, postTitle: communityPosts.title })
+      .from(notifications)
+      .innerJoin(users, eq(notifications.actorId, users.id))
+      .leftJoin(checkIns, eq(notifications.checkInId, checkIns.id))
+      .leftJoin(communityPosts, eq(notifications.postId, communityPosts.id))
+      .where(query.unread ? and(mine, isNull(notifications.readAt)) : mine)
+      .orderBy(desc(notifications.createdAt))
+      .limit(query.limit);
+    const [{ unread }] = await this.db.select({ unread: count() }).from(notifications)
+      .where(and(mine, isNull(notifications.readAt)));
+    return {
+      notifications: rows.map(({ notification, actorName, checkInDay, postTitle }) =>
+        toUserNotification(notification, actorName, checkInDay, postTitle)),
+      unreadCount: unread,
+    };
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<boolean> {
+    const [notification] = await this.db.update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning({ id: notifications.id });
+    return Boolean(notification);
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const rows = await this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return toNotificationPreferences(rows);
+  }
+
+  async updateNotificationPreferences(userId: string, changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const rows = Object.entries(changes).map(([type, enabled]) => ({ userId, type, enabled }));
+    if (rows.length > 0) {
+      await this.db.insert(notificationPreferences).values(rows).onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { enabled: sql`excluded.enabled` },
+      });
+    }
+    return this.getNotificationPreferences(userId);
+  }
+
+  async createMedia(data: InsertMedia): Promise<MediaRow> {
+    const [item] = await this.db.insert(media).values(data).returning();
+    return item;
+  }
+
+  async getMedia(id: string): Promise<MediaRow | undefined> {
+    const [item] = await this.db.select().from(media).where(eq(media.id, id));
+    return item;
+  }
+
+  async isMediaAttached(id: string): Promise<boolean> {
+    const [checkIn] = await this.db.select({ id: checkIns.id }).from(checkIns).where(eq(checkIns.mediaId, id)).limit(1);
+    if (checkIn) return true;
+    const [post] = await this.db.select({ id: communityPosts.id }).from(communityPosts).where(eq(communityPosts.mediaId, id)).limit(1);
+    return !!post;
+  }
+
+  async seedChallenges(catalog: InsertChallenge[]): Promise<void> {
+    if (catalog.length === 0) return;
+    await this.db.insert(challenges).values(catalog).onConflictDoNothing();
+  }
+
+  async getChallenges(): Promise<ChallengeCatalogEntry[]> {
+    const rows = await this.db.select().from(challenges).orderBy(asc(challenges.onChainType), asc(challenges.createdAt));
+    const participants = await this.db.select({ challengeId: userChallenges.challengeId, total: count() })
+      .from(userChallenges)
+      .where(eq(userChallenges.status, "active"))
+      .groupBy(userChallenges.challengeId);
+    return rows.map((challenge) => ({
+      ...challenge,
+      participants: participants.find((row) => row.challengeId === challenge.id)?.total ?? 0,
+    }));
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.id, id));
+    return challenge;
+  }
+
+  async createChallenge(data: NewChallenge): Promise<Challenge | undefined> {
+    const [challenge] = await this.db.insert(challenges).values(data).onConflictDoNothing().returning();
+    return challenge;
+  }
+
+  async updateChallenge(id: string, updates: UpdateChallenge): Promise<Challenge | undefined> {
+    const [challenge] = await this.db.update(challenges).set(updates).where(eq(challenges.id, id)).returning();
+    return challenge;
+  }
+
+  async seedCharities(catalog: CharitySeed[]): Promise<void> {
+    if (catalog.length === 0) return;
+    await this.db.insert(charities).values(catalog).onConflictDoNothing();
+  }
+
+  async getCharities(filter: { includeInactive?: boolean } = {}): Promise<Charity[]> {
+    return this.db.select().from(charities)
+      .where(filter.includeInactive ? undefined : eq(charities.isActive, true))
+      .orderBy(asc(charities.createdAt), asc(charities.name));
+  }
+
+  async getCharity(id: string): Promise<Charity | undefined> {
+    const [charity] = await this.db.select().from(charities).where(eq(charities.id, id));
+    return charity;
+  }
+
+  async createCharity(data: InsertCharity): Promise<Charity> {
+    const [charity] = await this.db.insert(charities).values(data).returning();
+    return charity;
+  }
+
+  async updateCharity(id: string, updates: UpdateCharity): Promise<Charity | undefined> {
+    const [charity] = await this.db.update(charities).set(updates).where(eq(charities.id, id)).returning();
+    return charity;
+  }
+
+  async searchUsers({ q, page, limit }: AdminUserQuery): Promise<{ users: User[]; total: number }> {
+    const pattern = q ? `%${q.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const where = pattern
+      ? or(ilike(users.name, pattern), ilike(users.email, pattern), ilike(users.walletAddress, pattern))
+      : undefined;
+    const [{ total }] = await this.db.select({ total: count() }).from(users).where(where);
+    const rows = await this.db.select().from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    return { users: rows, total };
+  }
+
+  // Latest enrollment that was not abandoned, so a finished challenge stays visible
+  async getCurrentEnrollment(userId: string): Promise<ChallengeEnrollment | undefined> {
+    const [row] = await this.db.select({ enrollment: userChallenges, challenge: challenges })
+      .from(userChallenges)
+      .innerJoin(challenges, eq(userChallenges.challengeId, challenges.id))
+      .where(and(eq(userChallenges.userId, userId), ne(userChallenges.status, "abandoned")))
+      .orderBy(desc(userChallenges.startDate))
+      .limit(1);
+    return row ? toChallengeEnrollment(row.enrollment, row.challenge) : undefined;
+  }
+
+  // A user follows one challenge at a time, as on-chain; the partial unique
+  // index on active enrollments turns a second one into a no-op insert
+  async enrollInChallenge(userId: string, challengeId: string): Promise<ChallengeEnrollment | undefined> {
+    const [enrollment] = await this.db.insert(userChallenges)
+      .values({ userId, challengeId })
+      .onConflictDoNothing()
+      .returning();
+    if (!enrollment) return undefined;
+    await this.updateUser(userId, {
+      currentChallengeId: challengeId,
+      challengeStartDate: enrollment.startDate,
+      challengeDay: 1,
+    });
+    return (await this.getCurrentEnrollment(userId))!;
+  }
+
+  async recordWalletActivity(userId: string, data: NewWalletActivity): Promise<void> {
+    await this.db.insert(walletActivities).values({ userId, ...data }).onConflictDoNothing();
+  }
+
+  // Locks the donor's row like transferTokens, so concurrent donations cannot overdraw the balance
+  async recordDonation(userId: string, data: NewWalletActivity, tokens: number): Promise<DonationResult> {
+    return this.db.transaction(async (tx) => {
+      const [donor] = await tx.select({ totalTokens: users.totalTokens })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      const [existing] = await tx.select({ id: walletActivities.id })
+        .from(walletActivities)
+        .where(and(eq(walletActivities.txHash, data.txHash), eq(walletActivities.type, data.type)));
+      if (existing) return "duplicate";
+      if (!donor || (donor.totalTokens ?? 0) < tokens) return "insufficient_balance";
+
+      await tx.insert(walletActivities).values({ userId, ...data });
+      await this.insertLedgerEntries(tx, userId, [
+        { type: "donation", amount: -tokens, description: "Donación al fondo comunitario", referenceId: data.txHash },
+      ]);
+      return "recorded";
+    });
+  }
+
+  // Returns the entries actually written; ones whose reference was already credited are skipped
+  async addTokenLedgerEntries(userId: string, entries: NewTokenLedgerEntry[]): Promise<TokenLedgerEntry[]> {
+    if (entries.length === 0) return [];
+    return this.db.transaction((tx) => this.insertLedgerEntries(tx, userId, entries));
+  }
+
+  async openLedgerBalances(): Promise<number> {
+    const ledgerTotals = this.db.select({
+      userId: tokenLedger.userId,
+      total: sql<number>`sum(${tokenLedger.amount})`.as("total"),
+    }).from(tokenLedger).groupBy(tokenLedger.userId).as("ledger_totals");
+    const difference = sql<number>`coalesce(${users.totalTokens}, 0) - coalesce(${ledgerTotals.total}, 0)`;
+    const unbalanced = await this.db.select({ userId: users.id, amount: difference.mapWith(Number) })
+      .from(users)
+      .leftJoin(ledgerTotals, eq(ledgerTotals.userId, users.id))
+      .where(ne(difference, 0));
+    if (unbalanced.length === 0) return 0;
+    // The fixed reference keeps this to one entry per account
+    const inserted = await this.db.insert(tokenLedger)
+      .values(unbalanced.map(({ userId, amount }) => ({ userId, ...openingBalanceEntry(amount) })))
+      .onConflictDoNothing()
+      .returning({ id: tokenLedger.id });
+    return inserted.length;
+  }
+
+  async getTokenLedger(userId: string): Promise<TokenLedgerEntry[]> {
+    return this.db.select().from(tokenLedger)
+      .where(eq(tokenLedger.userId, userId))
+      .orderBy(desc(tokenLedger.createdAt));
+  }
+
+  // Locks the sender's row so concurrent transfers cannot overdraw the balance
+  async transferTokens(fromUserId: string, toUserId: string, amount: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [sender] = await tx.select({ totalTokens: users.totalTokens })
+        .from(users)
+        .where(eq(users.id, fromUserId))
+        .for("update");
+      if (!sender || (sender.totalTokens ?? 0) < amount) return false;
+
+      const [recipient] = await tx.select({ name: users.name }).from(users).where(eq(users.id, toUserId));
+      const [from] = await tx.select({ name: users.name }).from(users).where(eq(users.id, fromUserId));
+      const referenceId = randomUUID();
+      await this.insertLedgerEntries(tx, fromUserId, [
+        { type: "transfer", amount: -amount, description: `Transferencia a ${recipient?.name ?? "otro usuario"}`, referenceId },
+      ]);
+      await this.insertLedgerEntries(tx, toUserId, [
+        { type: "transfer", amount, description: `Transferencia de ${from?.name ?? "otro usuario"}`, referenceId },
+      ]);
+      return true;
+    });
+  }
+
+  // Scores and ranks every active user in one statement; only the requested
+  // page and the caller's own row come back
+  async getLeaderboard(query: LeaderboardQuery, currentUserId?: string): Promise<LeaderboardPage> {
+    const ledgerTotals = this.db.$with("ledger_totals").as(
+      this.db.select({
+        userId: tokenLedger.userId,
+        earned: sql<number>`coalesce(sum(${tokenLedger.amount}) filter (where ${inArray(tokenLedger.type, [...tokenEarningTypes])}), 0)::int`.as("earned"),
+        donated: sql<number>`coalesce(-sum(${tokenLedger.amount}) filter (where ${eq(tokenLedger.type, "donation")}), 0)::int`.as("donated"),
+      }).from(tokenLedger).groupBy(tokenLedger.userId),
+    );
+    const activityTotals = this.db.$with("activity_totals").as(
+      this.db.select({
+        userId: walletActivities.userId,
+        stakingRewards: sql<number>`coalesce(sum(${walletActivities.amount}) filter (where ${eq(walletActivities.type, "staking_reward")}), 0)::float8`.as("staking_rewards"),
+        staked: sql<number>`coalesce(sum(case ${walletActivities.type} when 'stake' then ${walletActivities.amount} when 'unstake' then -${walletActivities.amount} else 0 end), 0)::float8`.as("staked"),
+      }).from(walletActivities).where(eq(walletActivities.verified, true)).groupBy(walletActivities.userId),
+    );
+    const checkInTotals = this.db.$with("check_in_totals").as(
+      this.db.select({ userId: checkIns.userId, total: sql<number>`count(*)::int`.as("check_ins") })
+        .from(checkIns)
+        .groupBy(checkIns.userId),
+    );
+    const tokensEarned = sql<number>`coalesce(${ledgerTotals.earned}, 0)`;
+    const tokensDonated = sql<number>`coalesce(${ledgerTotals.donated}, 0)`;
+    const stakingRewards = sql<number>`coalesce(${activityTotals.stakingRewards}, 0)`;
+    const completedCheckIns = sql<number>`coalesce(${checkInTotals.total}, 0)`;
+    const totalScore = sql<number>`${tokensEarned} + ${tokensDonated} + ${stakingRewards} + ${completedCheckIns} * ${CHECK_IN_SCORE}`;
+    const ranked = this.db.$with("ranked").as(
+      this.db.select({
+        id: users.id,
+        username: users.name,
+        location: users.location,
+        address: users.walletAddress,
+        tokensEarned: tokensEarned.as("tokens_earned"),
+        tokensDonated: tokensDonated.as("tokens_donated"),
+        stakingRewards: stakingRewards.as("staking_rewards_total"),
+        completedCheckIns: completedCheckIns.as("completed_check_ins"),
+        totalScore: sql<number>`(${totalScore})::float8`.as("total_score"),
+        staked: sql<number>`coalesce(${activityTotals.staked}, 0)`.as("staked_total"),
+        // Ties on score go to the user with more check-ins; users level on both
+        // share a rank, as in toLeaderboardPage
+        rank: sql<number>`(rank() over (order by ${totalScore} desc, ${completedCheckIns} desc))::int`.as("rank"),
+      })
+        .from(users)
+        .leftJoin(ledgerTotals, eq(ledgerTotals.userId, users.id))
+        .leftJoin(activityTotals, eq(activityTotals.userId, users.id))
+        .leftJoin(checkInTotals, eq(checkInTotals.userId, users.id))
+        .where(eq(users.isActive, true)),
+    );
+    const withRanked = () => this.db.with(ledgerTotals, activityTotals, checkInTotals, ranked);
+    const entryFields = {
+      id: ranked.id,
+      rank: ranked.rank,
+      username: ranked.username,
+      location: ranked.location,
+      address: ranked.address,
+      tokensEarned: ranked.tokensEarned,
+      tokensDonated: ranked.tokensDonated,
+      stakingRewards: ranked.stakingRewards,
+      completedCheckIns: ranked.completedCheckIns,
+      totalScore: ranked.totalScore,
+    };
+
+    const pageRows = await withRanked().select(entryFields).from(ranked)
+      .orderBy(asc(ranked.rank), asc(ranked.username), asc(ranked.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+    const [currentUser] = currentUserId
+      ? await withRanked().select(entryFields).from(ranked).where(eq(ranked.id, currentUserId))
+      : [];
+    const [totals] = await withRanked().select({
+      users: sql<number>`count(*)::int`,
+      rewards: sql<number>`coalesce(sum(${ranked.tokensEarned}), 0)::int`,
+      donated: sql<number>`coalesce(sum(${ranked.tokensDonated}), 0)::int`,
+      checkIns: sql<number>`coalesce(sum(${ranked.completedCheckIns}), 0)::int`,
+      staked: sql<number>`coalesce(sum(${ranked.staked}), 0)::float8`,
+    }).from(ranked);
+
+    return {
+      users: pageRows,
+      page: query.page,
+      limit: query.limit,
+      total: totals.users,
+      currentUser: currentUser ?? null,
+      stats: {
+        totalRewardsDistributed: totals.rewards,
+        totalTokensDonated: totals.donated,
+        totalTokensStaked: Math.max(totals.staked, 0),
+        totalCheckIns: totals.checkIns,
+        totalUsers: totals.users,
+        lastUpdated: new Date().toISOString(),
+      },
+    };
+  }
+
+  // Locks the enrollment so concurrent check-ins cannot drop each other's day
+  private async completeChallengeDay(tx: Transaction, enrollmentId: string, day: number): Promise<ChallengeEnrollment> {
+    const [row] = await tx.select({ enrollment: userChallenges, challenge: challenges })
+      .from(userChallenges)
+      .innerJoin(challenges, eq(userChallenges.challengeId, challenges.id))
+      .where(eq(userChallenges.id, enrollmentId))
+      .for("update", { of: userChallenges });
+    if (!row) {
+      throw new Error(`Enrollment ${enrollmentId} not found`);
+    }
+
+    const { enrollment, challenge } = row;
+    if (enrollment.completedDays.includes(day)) {
+      return toChallengeEnrollment(enrollment, challenge);
+    }
+
+    const completedDays = [...enrollment.completedDays, day].sort((a, b) => a - b);
+    const isComplete = completedDays.length >= challenge.durationDays;
+    const [updated] = await tx.update(userChallenges)
+      .set({
+        completedDays,
+        status: isComplete ? "completed" : enrollment.status,
+        completedAt: isComplete ? new Date() : enrollment.completedAt,
+      })
+      .where(eq(userChallenges.id, enrollmentId))
+      .returning();
+    const result = toChallengeEnrollment(updated, challenge);
+    await tx.update(users).set({ challengeDay: result.progress.currentDay }).where(eq(users.id, enrollment.userId));
+    return result;
+  }
+
+  // Writes the entries and re-derives the cached balance from the whole ledger
+  private async insertLedgerEntries(tx: Transaction, userId: string, entries: NewTokenLedgerEntry[]): Promise<TokenLedgerEntry[]> {
+    const inserted = await tx.insert(tokenLedger)
+      .values(entries.map((entry) => ({ ...entry, userId, referenceId: entry.referenceId ?? null })))
+      .onConflictDoNothing()
+      .returning();
+    await tx.update(users)
+      .set({ totalTokens: sql`(select coalesce(sum(${tokenLedger.amount}), 0) from ${tokenLedger} where ${tokenLedger.userId} = ${userId})` })
+      .where(eq(users.id, userId));
+    return inserted;
+  }
+
+  private async hydrateCheckIns(rows: { checkIn: CheckInRow; username: string }[]): Promise<DailyCheckIn[]> {
+    if (rows.length === 0) return [];
+    const checkInIds = rows.map(({ checkIn }) => checkIn.id);
+
+    const likes = await this.db.select().from(checkInLikes).where(inArray(checkInLikes.checkInId, checkInIds));
+    const approvals = await this.db.select().from(checkInApprovals).where(inArray(checkInApprovals.checkInId, checkInIds));
+    const comments = await this.db.select({ comment: checkInComments, authorName: users.name })
+      .from(checkInComments)
+      .innerJoin(users, eq(checkInComments.authorId, users.id))
+      .where(inArray(checkInComments.checkInId, checkInIds))
+      .orderBy(asc(checkInComments.createdAt));
+
+    return rows.map(({ checkIn, username }) => toDailyCheckIn(
+      checkIn,
+      username,
+      likes.filter((like) => like.checkInId === checkIn.id).map((like) => like.userId),
+      approvals.filter((approval) => approval.checkInId === checkIn.id).map((approval) => approval.userId),
+      comments
+        .filter(({ comment }) => comment.checkInId === checkIn.id)
+        .map(({ comment, authorName }) => toCheckInComment(comment, authorName)),
+    ));
+  }
+
+  // Attaches likes and comments to a page of posts with two batched queries
+  private async hydratePosts(rows: { post: CommunityPostRow; authorName: string }[]): Promise<CommunityPost[]> {
+    if (rows.length === 0) return [];
+    const postIds = rows.map(({ post }) => post.id);
+
+    const likes = await this.db.select().from(postLikes).where(inArray(postLikes.postId, postIds));
+    const comments = await this.db.select({ comment: postComments, authorName: users.name })
+      .from(postComments)
+      .innerJoin(users, eq(postComments.authorId, users.id))
+      .where(inArray(postComments.postId, postIds))
+      .orderBy(asc(postComments.createdAt));
+
+    return rows.map(({ post, authorName }) => toCommunityPost(
+      post,
+      authorName,
+      likes.filter((like) => like.postId === post.id).map((like) => like.userId),
+      comments
+        .filter(({ comment }) => comment.postId === post.id)
+        .map(({ comment, authorName }) => toCommunityComment(comment, authorName)),
+    ));
+  }
+}
+
+// Keeps every table in process memory, for offline development, demos and
+// integration tests. It mirrors the constraints DatabaseStorage relies on
+// (unique emails, one check-in per user, challenge and day) and loses all data
+// on restart.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private posts = new Map<string, CommunityPostRow>();
+  private postComments: PostCommentRow[] = [];
+  private postLikes: PostLikeRow[] = [];
+  private checkIns = new Map<string, CheckInRow>();
+  private checkInLikes: (typeof checkInLikes.$inferSelect)[] = [];
+  private checkInApprovals: (typeof checkInApprovals.$inferSelect)[] = [];
+  private checkInComments: CheckInCommentRow[] = [];
+  private challenges = new Map<string, Challenge>();
+  private charities = new Map<string, Charity>();
+  private enrollments = new Map<string, UserChallenge>();
+  private walletActivities: WalletActivity[] = [];
+  private siweNonces = new Map<string, Date>();
+  private walletLinkEvents: WalletLinkEvent[] = [];
+  private roleGrantEvents: RoleGrantEvent[] = [];
+  private tokenLedger: TokenLedgerEntry[] = [];
+  private refreshTokens = new Map<string, RefreshToken>();
+  private oauthCodes = new Map<string, { userId: string; expiresAt: Date }>();
+  private pendingOAuthLinks = new Map<string, PendingOAuthLink>();
+  private userIdentities: UserIdentity[] = [];
+  private emailTokens = new Map<string, InsertEmailToken>();
+  private mailOutbox: OutboxMessage[] = [];
+  private notifications: NotificationRow[] = [];
+  private notificationPreferences = new Map<string, Partial<NotificationPreferences>>();
+  private media = new Map<string, MediaRow>();
+
+  async ping(): Promise<void> {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.email === normalized);
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.googleId === googleId);
+  }
+
+  async getUserByFacebookId(facebookId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.facebookId === facebookId);
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const normalized = walletAddress.toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.walletAddress?.toLowerCase() === normalized);
+  }
+
+  async createUser(userData: NewUser): Promise<User> {
+    if (userData.email && await this.getUserByEmail(userData.email)) {
+      throw new Error(`A user with email ${userData.email} already exists`);
+    }
+    const user: User = {
+      ...userData,
+      id: randomUUID(),
+      email: userData.email?.toLowerCase() ?? null,
+      challengeDay: userData.challengeDay ?? 0,
+      totalTokens: 0,
+      googleId: userData.googleId ?? null,
+      facebookId: userData.facebookId ?? null,
+      authProvider: userData.authProvider ?? "email",
+      emailVerifiedAt: userData.emailVerifiedAt ?? null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      recoveryCodeHashes: [],
+      roles: [],
+      deletionRequestedAt: null,
+      deletedAt: null,
+      isActive: true,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    await this.addTokenLedgerEntries(user.id, [signupBonusEntry()]);
+    return this.users.get(user.id)!;
+  }
+
+  // The check and createUser, which stores an account without an email before
+  // it first yields, run in one tick, so concurrent sign-ins cannot both
+  // create an account for the wallet
+  async createWalletUser(name: string, walletAddress: string, ipAddress?: string): Promise<User | undefined> {
+    const normalized = walletAddress.toLowerCase();
+    if (Array.from(this.users.values()).some((user) => user.walletAddress?.toLowerCase() === normalized)) {
+      return undefined;
+    }
+    const user = await this.createUser(walletUserData(name, walletAddress));
+    this.recordWalletLinkEvent({ userId: user.id, walletAddress, action: "link", ipAddress: ipAddress ?? null });
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    // Like Drizzle's set(), keys explicitly set to undefined are left untouched
+    const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const updated = { ...user, ...defined };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async linkWallet(userId: string, walletAddress: string, ipAddress?: string): Promise<WalletLinkResult> {
+    const current = this.users.get(userId);
+    if (!current) return "user_not_found";
+    const owner = await this.getUserByWalletAddress(walletAddress);
+    if (owner && owner.id !== userId) return "wallet_taken";
+    if (current.walletAddress) {
+      this.recordWalletLinkEvent({ userId, walletAddress: current.walletAddress, action: "unlink", ipAddress: ipAddress ?? null });
+    }
+    this.recordWalletLinkEvent({ userId, walletAddress, action: "link", ipAddress: ipAddress ?? null });
+    return (await this.updateUser(userId, { walletAddress }))!;
+  }
+
+  async unlinkWallet(userId: string, ipAddress?: string): Promise<User | undefined> {
+    const current = this.users.get(userId);
+    if (!current?.walletAddress) return current;
+    this.recordWalletLinkEvent({ userId, walletAddress: current.walletAddress, action: "unlink", ipAddress: ipAddress ?? null });
+    return this.updateUser(userId, { walletAddress: null });
+  }
+
+  async getUserByOAuthIdentity(provider: OAuthProvider, subject: string): Promise<User | undefined> {
+    if (provider === 'google') return this.getUserByGoogleId(subject);
+    if (provider === 'facebook') return this.getUserByFacebookId(subject);
+    const identity = this.userIdentities.find((candidate) => candidate.provider === provider && candidate.subject === subject);
+    return identity ? this.users.get(identity.userId) : undefined;
+  }
+
+  async createOAuthUser(data: NewOAuthUser): Promise<User> {
+    const user = await this.createUser({
+      email: data.email,
+      name: data.name,
+      passwordHash: null,
+      googleId: data.provider === 'google' ? data.subject : null,
+      facebookId: data.provider === 'facebook' ? data.subject : null,
+      authProvider: data.provider,
+      location: null,
+      dietaryPreference: null,
+      walletAddress: null,
+      currentChallengeId: null,
+      challengeStartDate: null,
+      challengeDay: 0,
+      emailVerifiedAt: data.emailVerified ? new Date() : null,
+    });
+    if (isBuiltInOAuthProvider(data.provider)) return user;
+    this.addUserIdentity(user.id, data.provider, data.subject);
     return user;
   }
 
-  async linkOAuthProvider(userId: string, provider: 'google' | 'facebook', providerId: string): Promise<User | undefined> {
-    if (provider === 'google') {
-      return this.updateUser(userId, { googleId: providerId });
-    } else {
-      return this.updateUser(userId, { facebookId: providerId });
+  async linkOAuthProvider(userId: string, provider: OAuthProvider, subject: string): Promise<User | undefined> {
+    if (provider === 'google') return this.updateUser(userId, { googleId: subject });
+    if (provider === 'facebook') return this.updateUser(userId, { facebookId: subject });
+    this.addUserIdentity(userId, provider, subject);
+    return this.users.get(userId);
+  }
+
+  async unlinkOAuthProvider(userId: string, provider: OAuthProvider): Promise<User | undefined> {
+    if (provider === 'google') return this.updateUser(userId, { googleId: null });
+    if (provider === 'facebook') return this.updateUser(userId, { facebookId: null });
+    this.userIdentities = this.userIdentities.filter((identity) => identity.userId !== userId || identity.provider !== provider);
+    return this.users.get(userId);
+  }
+
+  async getLinkedOAuthProviders(userId: string): Promise<OAuthProvider[]> {
+    const user = this.users.get(userId);
+    if (!user) return [];
+    return [
+      ...(user.googleId ? ['google'] : []),
+      ...(user.facebookId ? ['facebook'] : []),
+      ...this.userIdentities.filter((identity) => identity.userId === userId).map((identity) => identity.provider),
+    ];
+  }
+
+  // Enforces the same uniqueness as the user_identities indexes
+  private addUserIdentity(userId: string, provider: OAuthProvider, subject: string) {
+    const taken = this.userIdentities.some((identity) =>
+      identity.provider === provider && (identity.subject === subject || identity.userId === userId));
+    if (taken) {
+      throw new Error(`Identity for ${provider} is already linked`);
+    }
+    this.userIdentities.push({ id: randomUUID(), userId, provider, subject, createdAt: new Date() });
+  }
+
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return false;
+    this.users.set(userId, { ...user, totpLastUsedStep: step });
+    return true;
+  }
+
+  async grantRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.roles.includes(role)) return undefined;
+    const updated = { ...user, roles: [...user.roles, role] };
+    this.users.set(userId, updated);
+    this.roleGrantEvents.push({ ...audit, id: randomUUID(), userId, role, action: "grant", createdAt: new Date() });
+    return updated;
+  }
+
+  async revokeRole(userId: string, role: UserRole, audit: Omit<InsertRoleGrantEvent, "userId" | "role">): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user?.roles.includes(role)) return undefined;
+    const updated = { ...user, roles: user.roles.filter((held) => held !== role) };
+    this.users.set(userId, updated);
+    this.roleGrantEvents.push({ ...audit, id: randomUUID(), userId, role, action: "revoke", createdAt: new Date() });
+    return updated;
+  }
+
+  async getUsersWithRoles(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => user.roles.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async requestAccountDeletion(userId: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.deletionRequestedAt) return undefined;
+    const updated = { ...user, deletionRequestedAt: new Date(), isActive: false, name: DELETED_USER_NAME };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async purgeDeletedAccounts(requestedBefore: Date): Promise<AccountPurgeResult> {
+    const due = Array.from(this.users.values())
+      .filter((user) => user.deletionRequestedAt && user.deletionRequestedAt < requestedBefore && !user.deletedAt);
+    const mediaIds: string[] = [];
+    for (const user of due) {
+      const userId = user.id;
+      const ownedBy = <T extends { userId: string }>(entry: T) => entry.userId === userId;
+      for (const [id, token] of Array.from(this.refreshTokens)) if (ownedBy(token)) this.refreshTokens.delete(id);
+      for (const [hash, code] of Array.from(this.oauthCodes)) if (ownedBy(code)) this.oauthCodes.delete(hash);
+      for (const [hash, token] of Array.from(this.emailTokens)) if (ownedBy(token)) this.emailTokens.delete(hash);
+      for (const [hash, link] of Array.from(this.pendingOAuthLinks)) if (ownedBy(link)) this.pendingOAuthLinks.delete(hash);
+      for (const [id, enrollment] of Array.from(this.enrollments)) if (ownedBy(enrollment)) this.enrollments.delete(id);
+      this.userIdentities = this.userIdentities.filter((identity) => !ownedBy(identity));
+      this.walletLinkEvents = this.walletLinkEvents.filter((event) => !ownedBy(event));
+      this.walletActivities = this.walletActivities.filter((activity) => !ownedBy(activity));
+      this.tokenLedger = this.tokenLedger.filter((entry) => !ownedBy(entry));
+      this.postLikes = this.postLikes.filter((like) => !ownedBy(like));
+      this.checkInLikes = this.checkInLikes.filter((like) => !ownedBy(like));
+      this.checkInApprovals = this.checkInApprovals.filter((approval) => !ownedBy(approval));
+      this.checkInComments = this.checkInComments.filter((comment) => comment.authorId !== userId);
+      for (const [id, checkIn] of Array.from(this.checkIns)) {
+        if (!ownedBy(checkIn)) continue;
+        this.checkIns.delete(id);
+        this.checkInLikes = this.checkInLikes.filter((like) => like.checkInId !== id);
+        this.checkInApprovals = this.checkInApprovals.filter((approval) => approval.checkInId !== id);
+        this.checkInComments = this.checkInComments.filter((comment) => comment.checkInId !== id);
+        this.notifications = this.notifications.filter((notification) => notification.checkInId !== id);
+      }
+      for (const [id, post] of Array.from(this.posts)) {
+        if (post.authorId === userId && post.mediaId) this.posts.set(id, { ...post, mediaId: null });
+      }
+      for (const [id, item] of Array.from(this.media)) {
+        if (item.ownerId !== userId) continue;
+        this.media.delete(id);
+        mediaIds.push(id);
+      }
+      this.notifications = this.notifications.filter((notification) => notification.userId !== userId && notification.actorId !== userId);
+      this.notificationPreferences.delete(userId);
+      if (user.email) {
+        this.mailOutbox = this.mailOutbox.filter((message) => message.recipient !== user.email);
+      }
+      for (const role of user.roles) {
+        this.roleGrantEvents.push({
+          id: randomUUID(), userId, role, action: "revoke", actorId: null, reason: ACCOUNT_PURGE_REASON, ipAddress: null, createdAt: new Date(),
+        });
+      }
+      this.users.set(userId, { ...user, ...purgedUserFields() });
+    }
+    return { accounts: due.length, mediaIds };
+  }
+
+  async getAccountData(userId: string): Promise<AccountData> {
+    const ownedBy = <T extends { userId: string }>(entry: T) => entry.userId === userId;
+    return {
+      linkedIdentities: this.userIdentities.filter(ownedBy).map(({ provider, subject, createdAt }) => ({ provider, subject, createdAt })),
+      walletLinks: this.walletLinkEvents.filter(ownedBy),
+      roleEvents: this.roleGrantEvents.filter(ownedBy),
+      posts: Array.from(this.posts.values()).filter((post) => post.authorId === userId),
+      postComments: this.postComments.filter((comment) => comment.authorId === userId),
+      postLikes: this.postLikes.filter(ownedBy),
+      challenges: Array.from(this.enrollments.values()).filter(ownedBy),
+      checkIns: Array.from(this.checkIns.values()).filter(ownedBy),
+      checkInComments: this.checkInComments.filter((comment) => comment.authorId === userId),
+      checkInLikes: this.checkInLikes.filter(ownedBy),
+      checkInApprovals: this.checkInApprovals.filter(ownedBy),
+      tokenLedger: this.tokenLedger.filter(ownedBy),
+      walletActivities: this.walletActivities.filter(ownedBy),
+      notifications: this.notifications.filter(ownedBy),
+      notificationPreferences: Object.entries(this.notificationPreferences.get(userId) ?? {})
+        .map(([type, enabled]) => ({ userId, type, enabled })),
+      media: Array.from(this.media.values()).filter((item) => item.ownerId === userId),
+    };
+  }
+
+  async getRoleGrantEvents(filter: { userId?: string; limit: number }): Promise<RoleGrantEvent[]> {
+    return this.roleGrantEvents
+      .filter((event) => !filter.userId || event.userId === filter.userId)
+      .reverse()
+      .slice(0, filter.limit);
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user?.recoveryCodeHashes.includes(codeHash)) return false;
+    this.users.set(userId, { ...user, recoveryCodeHashes: user.recoveryCodeHashes.filter((hash) => hash !== codeHash) });
+    return true;
+  }
+
+  async createSiweNonce(nonce: string, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    for (const [stored, storedExpiresAt] of Array.from(this.siweNonces.entries())) {
+      if (storedExpiresAt < now) this.siweNonces.delete(stored);
+    }
+    this.siweNonces.set(nonce, expiresAt);
+  }
+
+  async consumeSiweNonce(nonce: string): Promise<boolean> {
+    const expiresAt = this.siweNonces.get(nonce);
+    this.siweNonces.delete(nonce);
+    return !!expiresAt && expiresAt > new Date();
+  }
+
+  async createRefreshToken(data: InsertRefreshToken): Promise<RefreshToken> {
+    const token: RefreshToken = { ...data, id: randomUUID(), revokedAt: null, createdAt: new Date() };
+    this.refreshTokens.set(token.id, token);
+    return token;
+  }
+
+  async getRefreshToken(tokenHash: string): Promise<RefreshToken | undefined> {
+    return Array.from(this.refreshTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.revokedAt) return false;
+    this.refreshTokens.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+
+  async revokeRefreshTokens(filter: { userId?: string; familyId?: string }): Promise<void> {
+    if (!filter.userId && !filter.familyId) return;
+    for (const token of Array.from(this.refreshTokens.values())) {
+      if (token.revokedAt) continue;
+      if (filter.userId && token.userId !== filter.userId) continue;
+      if (filter.familyId && token.familyId !== filter.familyId) continue;
+      this.refreshTokens.set(token.id, { ...token, revokedAt: new Date() });
+    }
+  }
+
+  async createOAuthCode(codeHash: string, userId: string, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    for (const [stored, code] of Array.from(this.oauthCodes.entries())) {
+      if (code.expiresAt < now) this.oauthCodes.delete(stored);
+    }
+    this.oauthCodes.set(codeHash, { userId, expiresAt });
+  }
+
+  async consumeOAuthCode(codeHash: string): Promise<string | undefined> {
+    const code = this.oauthCodes.get(codeHash);
+    this.oauthCodes.delete(codeHash);
+    return code && code.expiresAt > new Date() ? code.userId : undefined;
+  }
+
+  async createPendingOAuthLink(link: InsertPendingOAuthLink): Promise<void> {
+    const now = new Date();
+    for (const [stored, pending] of Array.from(this.pendingOAuthLinks.entries())) {
+      if (pending.expiresAt < now) this.pendingOAuthLinks.delete(stored);
+    }
+    this.pendingOAuthLinks.set(link.tokenHash, { ...link, codeHash: null, failedAttempts: 0, createdAt: now });
+  }
+
+  async getPendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined> {
+    const link = this.pendingOAuthLinks.get(tokenHash);
+    return link && link.expiresAt > new Date() ? link : undefined;
+  }
+
+  async setPendingOAuthLinkCode(tokenHash: string, codeHash: string): Promise<void> {
+    const link = this.pendingOAuthLinks.get(tokenHash);
+    if (link) this.pendingOAuthLinks.set(tokenHash, { ...link, codeHash, failedAttempts: 0 });
+  }
+
+  async recordPendingOAuthLinkFailure(tokenHash: string): Promise<number> {
+    const link = this.pendingOAuthLinks.get(tokenHash);
+    if (!link) return 0;
+    this.pendingOAuthLinks.set(tokenHash, { ...link, failedAttempts: link.failedAttempts + 1 });
+    return link.failedAttempts + 1;
+  }
+
+  async consumePendingOAuthLink(tokenHash: string): Promise<PendingOAuthLink | undefined> {
+    const link = this.pendingOAuthLinks.get(tokenHash);
+    this.pendingOAuthLinks.delete(tokenHash);
+    return link && link.expiresAt > new Date() ? link : undefined;
+  }
+
+  async createEmailToken(data: InsertEmailToken): Promise<void> {
+    for (const [stored, token] of Array.from(this.emailTokens.entries())) {
+      if (token.userId === data.userId && token.purpose === data.purpose) this.emailTokens.delete(stored);
     }
+    this.emailTokens.set(data.tokenHash, data);
+  }
+
+  async consumeEmailToken(tokenHash: string, purpose: EmailTokenPurpose): Promise<string | undefined> {
+    const token = this.emailTokens.get(tokenHash);
+    if (!token || token.purpose !== purpose) return undefined;
+    this.emailTokens.delete(tokenHash);
+    return token.expiresAt > new Date() ? token.userId : undefined;
+  }
+
+  async addOutboxMessage(message: InsertOutboxMessage): Promise<void> {
+    this.mailOutbox.push({ ...message, id: randomUUID(), createdAt: new Date() });
+  }
+
+  async getOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+    return [...this.mailOutbox].reverse().slice(0, limit);
+  }
+
+  async getCommunityPosts(type?: PostType): Promise<CommunityPost[]> {
+    return Array.from(this.posts.values())
+      .filter((post) => !type || post.type === type)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .flatMap((post) => this.hydratePost(post) ?? []);
+  }
+
+  async getCommunityPost(id: string): Promise<CommunityPost | undefined> {
+    const post = this.posts.get(id);
+    return post ? this.hydratePost(post) : undefined;
+  }
+
+  async createCommunityPost(authorId: string, data: InsertCommunityPost): Promise<CommunityPost> {
+    const post: CommunityPostRow = {
+      id: randomUUID(),
+      authorId,
+      title: data.title,
+      description: data.description,
+      ingredients: data.ingredients || null,
+      preparationSteps: data.preparationSteps || null,
+      imageUrl: null,
+      mediaId: data.mediaId ?? null,
+      type: data.type,
+      createdAt: new Date(),
+    };
+    this.posts.set(post.id, post);
+    return (await this.getCommunityPost(post.id))!;
+  }
+
+  async togglePostLike(postId: string, userId: string): Promise<boolean> {
+    const index = this.postLikes.findIndex((like) => like.postId === postId && like.userId === userId);
+    if (index >= 0) {
+      this.postLikes.splice(index, 1);
+      return false;
+    }
+    this.postLikes.push({ postId, userId, createdAt: new Date() });
+    return true;
+  }
+
+  async addPostComment(postId: string, authorId: string, content: string, parentId?: string): Promise<CommunityComment> {
+    const comment: PostCommentRow = {
+      id: randomUUID(),
+      postId,
+      authorId,
+      parentId: parentId || null,
+      content,
+      createdAt: new Date(),
+    };
+    this.postComments.push(comment);
+    return toCommunityComment(comment, this.users.get(authorId)?.name ?? "");
+  }
+
+  async getCheckIns(filter: { userId?: string; challengeId?: string } = {}): Promise<DailyCheckIn[]> {
+    return Array.from(this.checkIns.values())
+      .filter((checkIn) => !filter.userId || checkIn.userId === filter.userId)
+      .filter((checkIn) => !filter.challengeId || checkIn.challengeId === filter.challengeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .flatMap((checkIn) => this.hydrateCheckIn(checkIn) ?? []);
+  }
+
+  async getCheckIn(id: string): Promise<DailyCheckIn | undefined> {
+    const checkIn = this.checkIns.get(id);
+    return checkIn ? this.hydrateCheckIn(checkIn) : undefined;
+  }
+
+  async recordCheckIn(userId: string, enrollmentId: string, data: InsertCheckIn, checkInDate: string): Promise<RecordedCheckIn | undefined> {
+    const enrollment = this.enrollments.get(enrollmentId);
+    const challenge = enrollment && this.challenges.get(enrollment.challengeId);
+    if (!enrollment || !challenge) {
+      throw new Error(`Enrollment ${enrollmentId} not found`);
+    }
+    const duplicate = Array.from(this.checkIns.values()).some((checkIn) =>
+      checkIn.userId === userId && checkIn.challengeId === data.challengeId && checkIn.checkInDate === checkInDate
+    );
+    if (duplicate) return undefined;
+
+    const checkIn: CheckInRow = {
+      id: randomUUID(),
+      userId,
+      challengeId: data.challengeId,
+      day: data.day,
+      checkInDate,
+      description: data.description,
+      imageUrl: null,
+      mediaId: data.mediaId ?? null,
+      createdAt: new Date(),
+    };
+    this.checkIns.set(checkIn.id, checkIn);
+    const updated = this.completeChallengeDay(enrollment, challenge, checkIn.day);
+    await this.addTokenLedgerEntries(userId, checkInRewardEntries(checkIn, updated));
+    return { checkIn: (await this.getCheckIn(checkIn.id))!, enrollment: updated };
+  }
+
+  async toggleCheckInLike(checkInId: string, userId: string): Promise<boolean> {
+    const index = this.checkInLikes.findIndex((like) => like.checkInId === checkInId && like.userId === userId);
+    if (index >= 0) {
+      this.checkInLikes.splice(index, 1);
+      return false;
+    }
+    this.checkInLikes.push({ checkInId, userId, createdAt: new Date() });
+    return true;
+  }
+
+  async toggleCheckInApproval(checkInId: string, userId: string): Promise<boolean> {
+    const index = this.checkInApprovals.findIndex((approval) => approval.checkInId === checkInId && approval.userId === userId);
+    if (index >= 0) {
+      this.checkInApprovals.splice(index, 1);
+      return false;
+    }
+    this.checkInApprovals.push({ checkInId, userId, createdAt: new Date() });
+    return true;
+  }
+
+  async addCheckInComment(checkInId: string, authorId: string, content: string): Promise<CheckInComment> {
+    const comment: CheckInCommentRow = {
+      id: randomUUID(),
+      checkInId,
+      authorId,
+      content,
+      createdAt: new Date(),
+    };
+    this.checkInComments.push(comment);
+    return toCheckInComment(comment, this.users.get(authorId)?.name ?? "");
+  }
+
+  async createNotification(data: InsertNotification): Promise<NotificationRow | undefined> {
+    if (data.type === "check_in_liked" || data.type === "check_in_approved") {
+      const repeat = this.notifications.some((notification) =>
+        notification.userId === data.userId && notification.type === data.type &&
+        notification.actorId === data.actorId && notification.checkInId === data.checkInId
+      );
+      if (repeat) return undefined;
+    }
+    const notification: NotificationRow = {
+      id: randomUUID(),
+      userId: data.userId,
+      type: data.type,
+      actorId: data.actorId,
+      checkInId: data.checkInId ?? null,
+      postId: data.postId ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.push(notification);
+    return notification;
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery): Promise<NotificationPage> {
+    const mine = this.notifications.filter((notification) => notification.userId === userId);
+    return {
+      notifications: mine
+        .filter((notification) => !query.unread || !notification.readAt)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, query.limit)
+        .map((notification) => toUserNotification(
+          notification,
+          this.users.get(notification.actorId)?.name ?? "",
+          notification.checkInId ? this.checkIns.get(notification.checkInId)?.day ?? null : null,
+          notification.postId ? this.posts.get(notification.postId)?.title ?? null : null,
+        )),
+      unreadCount: mine.filter((notification) => !notification.readAt).length,
+    };
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<boolean> {
+    const notification = this.notifications.find((entry) => entry.id === id && entry.userId === userId);
+    if (!notification) return false;
+    notification.readAt ??= new Date();
+    return true;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    const now = new Date();
+    for (const notification of this.notifications) {
+      if (notification.userId === userId) notification.readAt ??= now;
+    }
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    return { ...toNotificationPreferences([]), ...this.notificationPreferences.get(userId) };
+  }
+
+  async updateNotificationPreferences(userId: string, changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    this.notificationPreferences.set(userId, { ...this.notificationPreferences.get(userId), ...changes });
+    return this.getNotificationPreferences(userId);
+  }
+
+  async createMedia(data: InsertMedia): Promise<MediaRow> {
+    const item: MediaRow = { ...data, createdAt: new Date() };
+    this.media.set(item.id, item);
+    return item;
+  }
+
+  async getMedia(id: string): Promise<MediaRow | undefined> {
+    return this.media.get(id);
+  }
+
+  async isMediaAttached(id: string): Promise<boolean> {
+    return Array.from(this.checkIns.values()).some((checkIn) => checkIn.mediaId === id)
+      || Array.from(this.posts.values()).some((post) => post.mediaId === id);
+  }
+
+  async seedChallenges(catalog: InsertChallenge[]): Promise<void> {
+    for (const entry of catalog) {
+      if (this.challenges.has(entry.id)) continue;
+      this.challenges.set(entry.id, {
+        id: entry.id,
+        title: entry.title,
+        description: entry.description,
+        difficulty: entry.difficulty,
+        icon: entry.icon ?? "leaf",
+        onChainType: entry.onChainType,
+        durationDays: entry.durationDays ?? 21,
+        rewardAmount: entry.rewardAmount ?? 600,
+        status: entry.status ?? "active",
+        createdAt: entry.createdAt ?? new Date(),
+      });
+    }
+  }
+
+  async getChallenges(): Promise<ChallengeCatalogEntry[]> {
+    const enrollments = Array.from(this.enrollments.values());
+    return Array.from(this.challenges.values())
+      .sort((a, b) => a.onChainType - b.onChainType || a.createdAt.getTime() - b.createdAt.getTime())
+      .map((challenge) => ({
+        ...challenge,
+        participants: enrollments.filter((enrollment) => enrollment.challengeId === challenge.id && enrollment.status === "active").length,
+      }));
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    return this.challenges.get(id);
+  }
+
+  async createChallenge(data: NewChallenge): Promise<Challenge | undefined> {
+    if (this.challenges.has(data.id)) return undefined;
+    const challenge: Challenge = { ...data, createdAt: new Date() };
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  async updateChallenge(id: string, updates: UpdateChallenge): Promise<Challenge | undefined> {
+    const challenge = this.challenges.get(id);
+    if (!challenge) return undefined;
+    const updated = { ...challenge, ...updates };
+    this.challenges.set(id, updated);
+    return updated;
+  }
+
+  async seedCharities(catalog: CharitySeed[]): Promise<void> {
+    for (const entry of catalog) {
+      if (this.charities.has(entry.id)) continue;
+      this.charities.set(entry.id, {
+        id: entry.id,
+        name: entry.name,
+        description: entry.description,
+        imageUrl: entry.imageUrl ?? null,
+        walletAddress: entry.walletAddress ?? null,
+        onChainId: entry.onChainId ?? null,
+        isActive: entry.isActive ?? true,
+        createdAt: entry.createdAt ?? new Date(),
+      });
+    }
+  }
+
+  async getCharities(filter: { includeInactive?: boolean } = {}): Promise<Charity[]> {
+    return Array.from(this.charities.values())
+      .filter((charity) => filter.includeInactive || charity.isActive)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.name.localeCompare(b.name));
+  }
+
+  async getCharity(id: string): Promise<Charity | undefined> {
+    return this.charities.get(id);
+  }
+
+  async createCharity(data: InsertCharity): Promise<Charity> {
+    const charity: Charity = {
+      id: randomUUID(),
+      name: data.name,
+      description: data.description,
+      imageUrl: data.imageUrl ?? null,
+      walletAddress: data.walletAddress ?? null,
+      onChainId: null,
+      isActive: true,
+      createdAt: new Date(),
+    };
+    this.charities.set(charity.id, charity);
+    return charity;
+  }
+
+  async updateCharity(id: string, updates: UpdateCharity): Promise<Charity | undefined> {
+    const charity = this.charities.get(id);
+    if (!charity) return undefined;
+    const updated = { ...charity, ...updates };
+    this.charities.set(id, updated);
+    return updated;
+  }
+
+  async searchUsers({ q, page, limit }: AdminUserQuery): Promise<{ users: User[]; total: number }> {
+    const needle = q?.toLowerCase();
+    const matches = Array.from(this.users.values())
+      .filter((user) => !needle || [user.name, user.email, user.walletAddress].some((value) => value?.toLowerCase().includes(needle)))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    return { users: matches.slice((page - 1) * limit, page * limit), total: matches.length };
+  }
+
+  async getCurrentEnrollment(userId: string): Promise<ChallengeEnrollment | undefined> {
+    const [enrollment] = Array.from(this.enrollments.values())
+      .filter((enrollment) => enrollment.userId === userId && enrollment.status !== "abandoned")
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+    const challenge = enrollment && this.challenges.get(enrollment.challengeId);
+    return challenge ? toChallengeEnrollment(enrollment, challenge) : undefined;
+  }
+
+  async enrollInChallenge(userId: string, challengeId: string): Promise<ChallengeEnrollment | undefined> {
+    const active = Array.from(this.enrollments.values())
+      .some((enrollment) => enrollment.userId === userId && enrollment.status === "active");
+    if (active) return undefined;
+    const enrollment: UserChallenge = {
+      id: randomUUID(),
+      userId,
+      challengeId,
+      startDate: new Date(),
+      completedDays: [],
+      status: "active",
+      completedAt: null,
+    };
+    this.enrollments.set(enrollment.id, enrollment);
+    await this.updateUser(userId, {
+      currentChallengeId: challengeId,
+      challengeStartDate: enrollment.startDate,
+      challengeDay: 1,
+    });
+    return (await this.getCurrentEnrollment(userId))!;
+  }
+
+  async recordWalletActivity(userId: string, data: NewWalletActivity): Promise<void> {
+    if (this.walletActivities.some((activity) => activity.txHash === data.txHash && activity.type === data.type)) return;
+    this.walletActivities.push({
+      id: randomUUID(),
+      userId,
+      type: data.type,
+      amount: data.amount,
+      txHash: data.txHash,
+      verified: data.verified,
+      createdAt: new Date(),
+    });
+  }
+
+  async recordDonation(userId: string, data: NewWalletActivity, tokens: number): Promise<DonationResult> {
+    if (this.walletActivities.some((activity) => activity.txHash === data.txHash && activity.type === data.type)) return "duplicate";
+    const donor = this.users.get(userId);
+    if (!donor || (donor.totalTokens ?? 0) < tokens) return "insufficient_balance";
+    await this.recordWalletActivity(userId, data);
+    await this.addTokenLedgerEntries(userId, [
+      { type: "donation", amount: -tokens, description: "Donación al fondo comunitario", referenceId: data.txHash },
+    ]);
+    return "recorded";
+  }
+
+  async addTokenLedgerEntries(userId: string, entries: NewTokenLedgerEntry[]): Promise<TokenLedgerEntry[]> {
+    const inserted: TokenLedgerEntry[] = [];
+    for (const entry of entries) {
+      const referenceId = entry.referenceId ?? null;
+      // Like the unique index, null references never conflict
+      const duplicate = referenceId !== null && this.tokenLedger.some((existing) =>
+        existing.userId === userId && existing.type === entry.type && existing.referenceId === referenceId
+      );
+      if (duplicate) continue;
+      const row: TokenLedgerEntry = { ...entry, id: randomUUID(), userId, referenceId, createdAt: new Date() };
+      this.tokenLedger.push(row);
+      inserted.push(row);
+    }
+    const balance = this.tokenLedger
+      .filter((entry) => entry.userId === userId)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    await this.updateUser(userId, { totalTokens: balance });
+    return inserted;
+  }
+
+  async openLedgerBalances(): Promise<number> {
+    let opened = 0;
+    for (const user of Array.from(this.users.values())) {
+      const amount = (user.totalTokens ?? 0) - this.tokenLedger
+        .filter((entry) => entry.userId === user.id)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      if (amount === 0) continue;
+      opened += (await this.addTokenLedgerEntries(user.id, [openingBalanceEntry(amount)])).length;
+    }
+    return opened;
+  }
+
+  async getTokenLedger(userId: string): Promise<TokenLedgerEntry[]> {
+    return this.tokenLedger
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async transferTokens(fromUserId: string, toUserId: string, amount: number): Promise<boolean> {
+    const sender = this.users.get(fromUserId);
+    const recipient = this.users.get(toUserId);
+    if (!sender || !recipient || (sender.totalTokens ?? 0) < amount) return false;
+    const referenceId = randomUUID();
+    await this.addTokenLedgerEntries(fromUserId, [
+      { type: "transfer", amount: -amount, description: `Transferencia a ${recipient.name}`, referenceId },
+    ]);
+    await this.addTokenLedgerEntries(toUserId, [
+      { type: "transfer", amount, description: `Transferencia de ${sender.name}`, referenceId },
+    ]);
+    return true;
+  }
+
+  async getLeaderboard(query: LeaderboardQuery, currentUserId?: string): Promise<LeaderboardPage> {
+    const earnedTotal = (userId: string) => this.tokenLedger
+      .filter((entry) => entry.userId === userId && (tokenEarningTypes as readonly string[]).includes(entry.type))
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const donatedTotal = (userId: string) => -this.tokenLedger
+      .filter((entry) => entry.userId === userId && entry.type === "donation")
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const verifiedActivities = this.walletActivities.filter((activity) => activity.verified);
+    const activityTotal = (userId: string, type: string) => verifiedActivities
+      .filter((activity) => activity.userId === userId && activity.type === type)
+      .reduce((sum, activity) => sum + activity.amount, 0);
+    const checkIns = Array.from(this.checkIns.values());
+
+    const activeUsers = Array.from(this.users.values()).filter((user) => user.isActive);
+    const entries = activeUsers.map((user) => toLeaderboardEntry(
+      user,
+      earnedTotal(user.id),
+      donatedTotal(user.id),
+      activityTotal(user.id, "staking_reward"),
+      checkIns.filter((checkIn) => checkIn.userId === user.id).length,
+    ));
+    const totalStaked = activeUsers.reduce((sum, user) => sum + activityTotal(user.id, "stake") - activityTotal(user.id, "unstake"), 0);
+
+    return toLeaderboardPage(entries, Math.max(totalStaked, 0), query, currentUserId);
+  }
+
+  private completeChallengeDay(enrollment: UserChallenge, challenge: Challenge, day: number): ChallengeEnrollment {
+    if (enrollment.completedDays.includes(day)) {
+      return toChallengeEnrollment(enrollment, challenge);
+    }
+
+    const completedDays = [...enrollment.completedDays, day].sort((a, b) => a - b);
+    const isComplete = completedDays.length >= challenge.durationDays;
+    const updated: UserChallenge = {
+      ...enrollment,
+      completedDays,
+      status: isComplete ? "completed" : enrollment.status,
+      completedAt: isComplete ? new Date() : enrollment.completedAt,
+    };
+    this.enrollments.set(enrollment.id, updated);
+    const result = toChallengeEnrollment(updated, challenge);
+    const user = this.users.get(enrollment.userId);
+    if (user) {
+      this.users.set(user.id, { ...user, challengeDay: result.progress.currentDay });
+    }
+    return result;
+  }
+
+  private recordWalletLinkEvent(entry: WalletLinkAuditEntry): void {
+    this.walletLinkEvents.push({ ...entry, id: randomUUID(), createdAt: new Date() });
+  }
+
+  // Inner-join semantics: rows whose author no longer exists are skipped
+  private hydratePost(post: CommunityPostRow): CommunityPost | undefined {
+    const author = this.users.get(post.authorId);
+    if (!author) return undefined;
+    return toCommunityPost(
+      post,
+      author.name,
+      this.postLikes.filter((like) => like.postId === post.id).map((like) => like.userId),
+      this.postComments
+        .filter((comment) => comment.postId === post.id)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((comment) => toCommunityComment(comment, this.users.get(comment.authorId)?.name ?? "")),
+    );
+  }
+
+  private hydrateCheckIn(checkIn: CheckInRow): DailyCheckIn | undefined {
+    const user = this.users.get(checkIn.userId);
+    if (!user) return undefined;
+    return toDailyCheckIn(
+      checkIn,
+      user.name,
+      this.checkInLikes.filter((like) => like.checkInId === checkIn.id).map((like) => like.userId),
+      this.checkInApprovals.filter((approval) => approval.checkInId === checkIn.id).map((approval) => approval.userId),
+      this.checkInComments
+        .filter((comment) => comment.checkInId === checkIn.id)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((comment) => toCheckInComment(comment, this.users.get(comment.authorId)?.name ?? "")),
+    );
+  }
+}
+
+function toCommunityComment(comment: PostCommentRow, authorName: string): CommunityComment {
+  return {
+    id: comment.id,
+    authorId: comment.authorId,
+    authorName,
+    content: comment.content,
+    timestamp: comment.createdAt.toISOString(),
+    parentId: comment.parentId ?? undefined,
+  };
+}
+
+// An uploaded image wins over the free-text imageUrl of older rows
+function mediaFields(row: { mediaId: string | null; imageUrl: string | null }): Pick<CommunityPost, "mediaId" | "imageUrl" | "thumbnailUrl"> {
+  if (!row.mediaId) {
+    return { imageUrl: row.imageUrl ?? undefined };
+  }
+  const { url, thumbnailUrl } = mediaUrls(row.mediaId);
+  return { mediaId: row.mediaId, imageUrl: url, thumbnailUrl };
+}
+
+function toCommunityPost(post: CommunityPostRow, authorName: string, likedBy: string[], comments: CommunityComment[]): CommunityPost {
+  return {
+    id: post.id,
+    authorId: post.authorId,
+    authorName,
+    title: post.title,
+    description: post.description,
+    ingredients: post.ingredients ?? undefined,
+    preparationSteps: post.preparationSteps ?? undefined,
+    ...mediaFields(post),
+    type: post.type as PostType,
+    timestamp: post.createdAt.toISOString(),
+    likes: likedBy.length,
+    likedBy,
+    comments,
+  };
+}
+
+function toUserNotification(notification: NotificationRow, actorName: string, checkInDay: number | null, postTitle: string | null): UserNotification {
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    actorId: notification.actorId,
+    actorName,
+    checkInId: notification.checkInId,
+    checkInDay,
+    postId: notification.postId,
+    postTitle,
+    read: notification.readAt !== null,
+    timestamp: notification.createdAt.toISOString(),
+  };
+}
+
+// Every type is on unless a row turns it off
+function toNotificationPreferences(rows: { type: string; enabled: boolean }[]): NotificationPreferences {
+  const preferences = Object.fromEntries(notificationTypes.map((type) => [type, true])) as NotificationPreferences;
+  for (const { type, enabled } of rows) {
+    if (type in preferences) preferences[type as NotificationType] = enabled;
+  }
+  return preferences;
+}
+
+function toCheckInComment(comment: CheckInCommentRow, authorName: string): CheckInComment {
+  return {
+    id: comment.id,
+    authorId: comment.authorId,
+    authorName,
+    content: comment.content,
+    timestamp: comment.createdAt.toISOString(),
+  };
+}
+
+function toDailyCheckIn(
+  checkIn: CheckInRow,
+  username: string,
+  likedBy: string[],
+  approvedBy: string[],
+  comments: CheckInComment[],
+): DailyCheckIn {
+  return {
+    id: checkIn.id,
+    challengeId: checkIn.challengeId,
+    day: checkIn.day,
+    userId: checkIn.userId,
+    username,
+    description: checkIn.description,
+    ...mediaFields(checkIn),
+    timestamp: checkIn.createdAt.toISOString(),
+    likes: likedBy.length,
+    likedBy,
+    approvals: approvedBy.length,
+    approvedBy,
+    comments,
+  };
+}
+
+function toLeaderboardEntry(
+  user: Pick<User, "id" | "name" | "location" | "walletAddress">,
+  tokensEarned: number,
+  tokensDonated: number,
+  stakingRewards: number,
+  completedCheckIns: number,
+): LeaderboardUser {
+  return {
+    id: user.id,
+    rank: 0,
+    username: user.name,
+    location: user.location,
+    address: user.walletAddress,
+    tokensEarned,
+    tokensDonated,
+    stakingRewards,
+    completedCheckIns,
+    totalScore: tokensEarned + tokensDonated + stakingRewards + completedCheckIns * CHECK_IN_SCORE,
+  };
+}
+
+function toChallengeEnrollment(enrollment: UserChallenge, challenge: Challenge): ChallengeEnrollment {
+  const lastCompleted = enrollment.completedDays.length > 0 ? Math.max(...enrollment.completedDays) : 0;
+  return {
+    id: enrollment.id,
+    challenge,
+    startDate: enrollment.startDate.toISOString(),
+    completedAt: enrollment.completedAt?.toISOString() ?? null,
+    status: enrollment.status as EnrollmentStatus,
+    progress: {
+      currentDay: Math.min(lastCompleted + 1, challenge.durationDays),
+      completedDays: enrollment.completedDays,
+      isActive: enrollment.status === "active",
+    },
+  };
+}
+
+// Ranks by score (ties go to the user with more check-ins) and slices the requested page
+function toLeaderboardPage(
+  entries: LeaderboardUser[],
+  totalStaked: number,
+  query: LeaderboardQuery,
+  currentUserId?: string,
+): LeaderboardPage {
+  const sorted = [...entries]
+    .sort((a, b) => b.totalScore - a.totalScore || b.completedCheckIns - a.completedCheckIns || a.username.localeCompare(b.username) || a.id.localeCompare(b.id));
+  // Like SQL rank(): users level on score and check-ins share a rank, and the
+  // next one is ranked by its position
+  const ranked: LeaderboardUser[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const tied = previous && previous.totalScore === entry.totalScore && previous.completedCheckIns === entry.completedCheckIns;
+    ranked.push({ ...entry, rank: tied ? previous.rank : index + 1 });
+  });
+  const offset = (query.page - 1) * query.limit;
+
+  return {
+    users: ranked.slice(offset, offset + query.limit),
+    page: query.page,
+    limit: query.limit,
+    total: ranked.length,
+    currentUser: ranked.find((entry) => entry.id === currentUserId) ?? null,
+    stats: {
+      totalRewardsDistributed: ranked.reduce((sum, entry) => sum + entry.tokensEarned, 0),
+      totalTokensDonated: ranked.reduce((sum, entry) => sum + entry.tokensDonated, 0),
+      totalTokensStaked: totalStaked,
+      totalCheckIns: ranked.reduce((sum, entry) => sum + entry.completedCheckIns, 0),
+      totalUsers: ranked.length,
+      lastUpdated: new Date().toISOString(),
+    },
+  };
+}
+
+// STORAGE_DRIVER selects the backend: "postgres" (requires DATABASE_URL) or
+// "memory". When unset, Postgres is used if DATABASE_URL is present and memory
+// otherwise, except in production where a missing database is an error.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    if (process.env.NODE_ENV === "production" && !process.env.STORAGE_DRIVER) {
+      throw new Error("DATABASE_URL must be set in production. Set STORAGE_DRIVER=memory to run without a database on purpose.");
+    }
+    logger.warn("using in-memory storage; data will be lost when the server restarts", { driver });
+    return new MemStorage();
+  }
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "postgres" or "memory".`);
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
   }
+  return new DatabaseStorage(createDb(process.env.DATABASE_URL));
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
 
 export function toSafeUser(user: User): SafeUser {
-  const { passwordHash, ...safeUser } = user;
+  const { passwordHash, totpSecret, totpLastUsedStep, recoveryCodeHashes, ...safeUser } = user;
   return safeUser;
 }
@@ -0,0 +1,91 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
+
+// Shared by the behaviour tests (server/*.test.ts), which boot the API routes
+// on in-memory storage through `npm test`. Each test file runs in its own
+// process and so starts from empty storage.
+
+export interface TestResponse {
+  status: number;
+  // Parsed JSON; tests read whatever fields they assert on
+  body: any;
+}
+
+export interface RequestOptions {
+  token?: string;
+  body?: unknown;
+  // Client address as the app sees it. Without one every request comes from
+  // a new address, so per-IP rate limits only apply where a test asks for them.
+  ip?: string;
+}
+
+export interface TestApp {
+  request(method: string, path: string, options?: RequestOptions): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+let addressCount = 0;
+
+export function nextTestIp(): string {
+  addressCount++;
+  return `10.${(addressCount >> 16) & 255}.${(addressCount >> 8) & 255}.${addressCount & 255}`;
+}
+
+export async function startTestApp(): Promise<TestApp> {
+  if (process.env.STORAGE_DRIVER !== "memory") {
+    throw new Error("STORAGE_DRIVER must be memory: the tests write to storage");
+  }
+
+  const app = express();
+  // Lets the tests pick the client address through X-Forwarded-For
+  app.set("trust proxy", 1);
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, path, { token, body, ip = nextTestIp() } = {}) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          "X-Forwarded-For": ip,
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : undefined };
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+  token: string;
+  refreshToken: string;
+}
+
+let userCount = 0;
+
+// Registers a new account with its own email and a fixed password
+export async function registerTestUser(app: TestApp, name = "Test User"): Promise<TestUser> {
+  userCount++;
+  const email = `user${userCount}@veg21.test`;
+  const password = "Test-password-123";
+  const { status, body } = await app.request("POST", "/api/auth/register", { body: { email, password, name: `${name} ${userCount}` } });
+  if (status !== 201) {
+    throw new Error(`Registering ${email} failed with ${status}: ${JSON.stringify(body)}`);
+  }
+  return { id: body.user.id, email, password, token: body.token, refreshToken: body.refreshToken };
+}
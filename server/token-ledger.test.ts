@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { storage } from "./storage";
+import { SIGNUP_BONUS } from "./token-rewards";
+import { registerTestUser, startTestApp, type TestApp } from "./test-app";
+
+let app: TestApp;
+
+before(async () => {
+  app = await startTestApp();
+});
+
+after(() => app.close());
+
+async function balanceOf(userId: string): Promise<number> {
+  return (await storage.getUser(userId))!.totalTokens ?? 0;
+}
+
+describe("token ledger", () => {
+  it("credits the signup bonus once", async () => {
+    const user = await registerTestUser(app);
+    const ledger = await app.request("GET", "/api/tokens/ledger", { token: user.token });
+    assert.equal(ledger.body.balance, SIGNUP_BONUS);
+    assert.deepEqual(ledger.body.entries.map((entry: { type: string }) => entry.type), ["signup_bonus"]);
+  });
+
+  it("skips entries whose reference was already credited", async () => {
+    const user = await registerTestUser(app);
+    const entry = { type: "check_in_reward" as const, amount: 5, description: "Check-in", referenceId: "check-in-1" };
+
+    const first = await storage.addTokenLedgerEntries(user.id, [entry]);
+    const replayed = await storage.addTokenLedgerEntries(user.id, [entry]);
+    assert.equal(first.length, 1);
+    assert.equal(replayed.length, 0);
+    assert.equal(await balanceOf(user.id), SIGNUP_BONUS + 5);
+  });
+
+  it("keeps the stored balance equal to the sum of the entries", async () => {
+    const user = await registerTestUser(app);
+    await storage.addTokenLedgerEntries(user.id, [
+      { type: "check_in_reward", amount: 5, description: "Check-in", referenceId: "a" },
+      { type: "milestone", amount: 50, description: "Hito", referenceId: "b" },
+    ]);
+    const entries = await storage.getTokenLedger(user.id);
+    const sum = entries.reduce((total, entry) => total + entry.amount, 0);
+    assert.equal(await balanceOf(user.id), sum);
+  });
+});
+
+describe("token transfers", () => {
+  it("moves tokens between accounts and records both sides", async () => {
+    const sender = await registerTestUser(app);
+    const recipient = await registerTestUser(app);
+    const recipientWallet = "0x52908400098527886E0F7030069857D2E4169EE7";
+    await storage.linkWallet(recipient.id, recipientWallet);
+
+    const transfer = await app.request("POST", "/api/tokens/transfer", {
+      token: sender.token,
+      body: { toWalletAddress: recipientWallet, amount: 30 },
+    });
+    assert.equal(transfer.status, 200, JSON.stringify(transfer.body));
+    assert.equal(transfer.body.user.totalTokens, SIGNUP_BONUS - 30);
+    assert.equal(await balanceOf(recipient.id), SIGNUP_BONUS + 30);
+
+    const sent = (await storage.getTokenLedger(sender.id)).find((entry) => entry.type === "transfer");
+    const received = (await storage.getTokenLedger(recipient.id)).find((entry) => entry.type === "transfer");
+    assert.equal(sent?.amount, -30);
+    assert.equal(received?.amount, 30);
+  });
+
+  it("refuses to overdraw the balance", async () => {
+    const sender = await registerTestUser(app);
+    const recipient = await registerTestUser(app);
+    const recipientWallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+    await storage.linkWallet(recipient.id, recipientWallet);
+
+    const transfer = await app.request("POST", "/api/tokens/transfer", {
+      token: sender.token,
+      body: { toWalletAddress: recipientWallet, amount: SIGNUP_BONUS + 1 },
+    });
+    assert.equal(transfer.status, 400);
+    assert.equal(transfer.body.error.code, "INSUFFICIENT_BALANCE");
+    assert.equal(await balanceOf(sender.id), SIGNUP_BONUS);
+    assert.equal(await balanceOf(recipient.id), SIGNUP_BONUS);
+  });
+});
@@ -0,0 +1,51 @@
+import type { ChallengeEnrollment, DailyCheckIn, NewTokenLedgerEntry } from "@shared/schema";
+
+// Credited once when an account is created
+export const SIGNUP_BONUS = 100;
+
+// Mirrors dailyCheckInReward in contracts/VEG21Rewards.sol
+export const CHECK_IN_REWARD = 5;
+
+// Bonus for reaching a number of completed days, matching the milestones the
+// challenge tracker shows
+export const MILESTONE_REWARDS: Record<number, number> = {
+  1: 50,
+  7: 100,
+  14: 150,
+  21: 300,
+};
+
+export function signupBonusEntry(): NewTokenLedgerEntry {
+  return { type: "signup_bonus", amount: SIGNUP_BONUS, description: "Bono de bienvenida" };
+}
+
+// The one entry that makes the ledger of an account from before the ledger add
+// up to its stored balance
+export function openingBalanceEntry(amount: number): NewTokenLedgerEntry {
+  return { type: "opening_balance", amount, description: "Saldo anterior al historial", referenceId: "opening_balance" };
+}
+
+// Ledger entries earned by a check-in once its day has been marked completed.
+// References are stable, so crediting the same check-in again is a no-op.
+// Milestones are referenced by challenge rather than enrollment: each one is
+// earned once per user and challenge, however often the user joins it.
+export function checkInRewardEntries(checkIn: Pick<DailyCheckIn, "id" | "day">, enrollment: ChallengeEnrollment): NewTokenLedgerEntry[] {
+  const entries: NewTokenLedgerEntry[] = [{
+    type: "check_in_reward",
+    amount: CHECK_IN_REWARD,
+    description: `Check-in día ${checkIn.day}: ${enrollment.challenge.title}`,
+    referenceId: checkIn.id,
+  }];
+
+  const completed = enrollment.progress.completedDays.length;
+  const milestone = MILESTONE_REWARDS[completed];
+  if (milestone) {
+    entries.push({
+      type: "milestone",
+      amount: milestone,
+      description: `Hito de ${completed} ${completed === 1 ? "día" : "días"}: ${enrollment.challenge.title}`,
+      referenceId: `${enrollment.challenge.id}:${completed}`,
+    });
+  }
+  return entries;
+}
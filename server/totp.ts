@@ -0,0 +1,114 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Time-based one-time passwords (RFC 6238) with the parameters every
+// authenticator app supports: HMAC-SHA1, 6 digits, 30 second steps
+const TOTP_ISSUER = "VEG21";
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+// Steps accepted on either side of the current one, to tolerate clock drift
+const TOTP_WINDOW = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// URI for authenticator apps, usually shown as a QR code
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+function generateCode(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// The code an authenticator app shows for the secret at `now`
+export function generateTotpCode(secret: string, now = Date.now()): string {
+  return generateCode(base32Decode(secret), Math.floor(now / 1000 / TOTP_STEP_SECONDS));
+}
+
+// Returns the time step the code belongs to, or null when it does not match
+// any step in the window. Steps at or before lastUsedStep are rejected so a
+// code cannot be used twice.
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null, now = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Codes look like "k3m9-x7qp-a2d5-wz4h": 80 random bits, enough that their
+// unsalted hashes cannot be brute-forced, and still easy to copy by hand
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    base32Encode(randomBytes(10)).toLowerCase().match(/.{4}/g)!.join("-"),
+  );
+}
+
+// Users may type recovery codes in any case and with or without the dash
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
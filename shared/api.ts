@@ -0,0 +1,739 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import { ownerContracts } from "./owner-contracts";
+import { liveEventSchema } from "./events";
+import {
+  users,
+  challenges,
+  charities,
+  tokenLedger,
+  roleGrantEvents,
+  postTypes,
+  enrollmentStatuses,
+  userRoles,
+  insertUserSchema,
+  updateProfileSchema,
+  loginSchema,
+  mfaLoginSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
+  emailVerificationConfirmSchema,
+  twoFactorCodeSchema,
+  twoFactorVerificationSchema,
+  siweVerifySchema,
+  oauthCodeExchangeSchema,
+  oauthLinkTokenSchema,
+  oauthLinkConfirmSchema,
+  accountDeletionSchema,
+  accountExportQuerySchema,
+  roleGrantSchema,
+  roleRevokeSchema,
+  roleGrantEventsQuerySchema,
+  adminUserQuerySchema,
+  adminUserUpdateSchema,
+  insertCharitySchema,
+  updateCharitySchema,
+  insertChallengeSchema,
+  updateChallengeSchema,
+  adminTransactionSchema,
+  insertCommunityPostSchema,
+  insertPostCommentSchema,
+  insertCheckInSchema,
+  insertCheckInCommentSchema,
+  insertWalletActivitySchema,
+  tokenTransferSchema,
+  leaderboardQuerySchema,
+  notificationTypes,
+  notificationQuerySchema,
+  notificationPreferencesUpdateSchema,
+  mediaMimeTypes,
+  type UserRole,
+} from "./schema";
+
+// The HTTP API as data: every route with its request and response schemas.
+// The server builds the OpenAPI document from it (server/openapi.ts) and the
+// web client derives its typed calls from it (client/src/lib/api-client.ts),
+// so a route added to server/routes.ts belongs here too.
+
+// Response bodies. Request bodies reuse the schemas in ./schema.
+
+export const safeUserSchema = createSelectSchema(users).omit({
+  passwordHash: true,
+  totpSecret: true,
+  totpLastUsedStep: true,
+  recoveryCodeHashes: true,
+});
+
+export const authResponseSchema = z.object({
+  user: safeUserSchema,
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+// The password step of a login when the account has two-factor authentication
+export const mfaChallengeSchema = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string(),
+});
+
+const userResponseSchema = z.object({ user: safeUserSchema });
+const usersResponseSchema = z.object({ users: z.array(safeUserSchema) });
+const successSchema = z.object({ success: z.literal(true) });
+
+export const linkedIdentitySchema = z.object({
+  provider: z.string(),
+  name: z.string(),
+  type: z.enum(["password", "oauth", "wallet"]),
+  linked: z.boolean(),
+  canUnlink: z.boolean(),
+});
+
+export const pendingOAuthLinkInfoSchema = z.object({
+  provider: z.string(),
+  providerName: z.string(),
+  email: z.string(),
+  hasPassword: z.boolean(),
+});
+
+export const oidcProviderSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+// The JSON export; the ZIP holds the same sections as one file each
+export const accountExportSchema = z.object({
+  exportedAt: z.string().datetime(),
+  profile: safeUserSchema,
+}).catchall(z.array(z.record(z.unknown())));
+
+export const roleGrantEventSchema = createSelectSchema(roleGrantEvents);
+export const charitySchema = createSelectSchema(charities);
+export const challengeSchema = createSelectSchema(challenges);
+export const tokenLedgerEntrySchema = createSelectSchema(tokenLedger);
+
+export const adminUserPageSchema = z.object({
+  users: z.array(safeUserSchema),
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+});
+
+export const adminChainInfoSchema = z.object({
+  mode: z.string(),
+  chainId: z.number().int().nullable(),
+  networkName: z.string().nullable(),
+  contracts: z.object(Object.fromEntries(ownerContracts.map((contract) => [contract, z.string().nullable()])) as Record<typeof ownerContracts[number], z.ZodNullable<z.ZodString>>),
+});
+
+export const preparedTransactionSchema = z.object({
+  chainId: z.number().int(),
+  to: z.string(),
+  data: z.string(),
+  value: z.string(),
+  contract: z.enum(ownerContracts),
+  method: z.string(),
+  args: z.array(z.string()),
+  description: z.string(),
+});
+
+export const communityCommentSchema = z.object({
+  id: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  content: z.string(),
+  timestamp: z.string().datetime(),
+  parentId: z.string().optional(),
+});
+
+export const communityPostSchema = z.object({
+  id: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  authorAvatar: z.string().optional(),
+  title: z.string(),
+  description: z.string(),
+  ingredients: z.string().optional(),
+  preparationSteps: z.string().optional(),
+  mediaId: z.string().optional(),
+  imageUrl: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+  type: z.enum(postTypes),
+  timestamp: z.string().datetime(),
+  likes: z.number().int(),
+  likedBy: z.array(z.string()),
+  comments: z.array(communityCommentSchema),
+});
+
+export const checkInCommentSchema = z.object({
+  id: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  content: z.string(),
+  timestamp: z.string().datetime(),
+});
+
+export const dailyCheckInSchema = z.object({
+  id: z.string(),
+  challengeId: z.string(),
+  day: z.number().int(),
+  userId: z.string(),
+  username: z.string(),
+  description: z.string(),
+  mediaId: z.string().optional(),
+  imageUrl: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+  timestamp: z.string().datetime(),
+  likes: z.number().int(),
+  likedBy: z.array(z.string()),
+  approvals: z.number().int(),
+  approvedBy: z.array(z.string()),
+  comments: z.array(checkInCommentSchema),
+});
+
+export const challengeEnrollmentSchema = z.object({
+  id: z.string(),
+  challenge: challengeSchema,
+  startDate: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+  status: z.enum(enrollmentStatuses),
+  progress: z.object({
+    currentDay: z.number().int(),
+    completedDays: z.array(z.number().int()),
+    isActive: z.boolean(),
+  }),
+});
+
+export const leaderboardUserSchema = z.object({
+  id: z.string(),
+  rank: z.number().int(),
+  username: z.string(),
+  location: z.string().nullable(),
+  address: z.string().nullable(),
+  tokensEarned: z.number(),
+  tokensDonated: z.number(),
+  stakingRewards: z.number(),
+  completedCheckIns: z.number().int(),
+  totalScore: z.number(),
+});
+
+export const leaderboardPageSchema = z.object({
+  users: z.array(leaderboardUserSchema),
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  currentUser: leaderboardUserSchema.nullable(),
+  stats: z.object({
+    totalRewardsDistributed: z.number(),
+    totalTokensDonated: z.number(),
+    totalTokensStaked: z.number(),
+    totalCheckIns: z.number().int(),
+    totalUsers: z.number().int(),
+    lastUpdated: z.string().datetime(),
+  }),
+});
+
+export const uploadedMediaSchema = z.object({
+  id: z.string(),
+  mimeType: z.enum(mediaMimeTypes),
+  width: z.number().int(),
+  height: z.number().int(),
+  byteSize: z.number().int(),
+  url: z.string(),
+  thumbnailUrl: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export const userNotificationSchema = z.object({
+  id: z.string(),
+  type: z.enum(notificationTypes),
+  actorId: z.string(),
+  actorName: z.string(),
+  checkInId: z.string().nullable(),
+  checkInDay: z.number().int().nullable(),
+  postId: z.string().nullable(),
+  postTitle: z.string().nullable(),
+  read: z.boolean(),
+  timestamp: z.string().datetime(),
+});
+
+const notificationPreferencesSchema = z.object({
+  preferences: z.object(Object.fromEntries(notificationTypes.map((type) => [type, z.boolean()]))),
+});
+
+export const readinessReportSchema = z.object({
+  status: z.enum(["ready", "not_ready"]),
+  mode: z.string(),
+  checks: z.array(z.object({
+    name: z.string(),
+    status: z.enum(["ok", "fail", "skipped"]),
+    latencyMs: z.number(),
+    detail: z.string().optional(),
+  })),
+});
+
+// Shared schemas get a name in the OpenAPI document instead of being inlined
+export const namedApiSchemas: Record<string, z.ZodTypeAny> = {
+  SafeUser: safeUserSchema,
+  AuthResponse: authResponseSchema,
+  MfaChallenge: mfaChallengeSchema,
+  LinkedIdentity: linkedIdentitySchema,
+  Charity: charitySchema,
+  Challenge: challengeSchema,
+  ChallengeEnrollment: challengeEnrollmentSchema,
+  CommunityPost: communityPostSchema,
+  CommunityComment: communityCommentSchema,
+  DailyCheckIn: dailyCheckInSchema,
+  CheckInComment: checkInCommentSchema,
+  LeaderboardUser: leaderboardUserSchema,
+  TokenLedgerEntry: tokenLedgerEntrySchema,
+  RoleGrantEvent: roleGrantEventSchema,
+  UploadedMedia: uploadedMediaSchema,
+  UserNotification: userNotificationSchema,
+  PreparedTransaction: preparedTransactionSchema,
+};
+
+export const apiTags = ["Health", "Auth", "Account", "Events", "Community", "Challenges", "Check-ins", "Media", "Tokens", "Notifications", "Admin"] as const;
+
+export interface ApiEndpoint {
+  method: "get" | "post" | "patch" | "delete";
+  // Express syntax, e.g. /api/check-ins/:id
+  path: string;
+  tag: typeof apiTags[number];
+  summary: string;
+  // "optional" routes answer anonymous requests too, but say more (e.g. what
+  // you liked) with a token
+  auth: "none" | "optional" | "bearer";
+  role?: UserRole;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  // Name of the file part of a multipart/form-data body, sent instead of JSON
+  upload?: string;
+  // JSON body of the success response; absent for redirects and streams
+  response?: z.ZodTypeAny;
+  // Defaults to 200, or 302 without a response
+  status?: number;
+  // Other success content types, e.g. the ZIP export, or the only ones of a
+  // route without a JSON response, e.g. an image
+  alternativeContent?: string[];
+  // For a text/event-stream response, the JSON in each event's data line
+  stream?: z.ZodTypeAny;
+}
+
+function endpoint<const E extends ApiEndpoint>(definition: E): E {
+  return definition;
+}
+
+const postTypeQuerySchema = z.object({ type: z.enum(postTypes).optional() });
+const checkInQuerySchema = z.object({ userId: z.string().optional(), challengeId: z.string().optional() });
+
+export const apiEndpoints = {
+  getHealth: endpoint({
+    method: "get", path: "/api/health", tag: "Health", auth: "none",
+    summary: "Liveness: answers as long as the process is up",
+    response: z.object({ status: z.literal("ok"), uptimeSeconds: z.number().int() }),
+  }),
+  getReadiness: endpoint({
+    method: "get", path: "/api/ready", tag: "Health", auth: "none",
+    summary: "Readiness: checks the database, the RPC node's chain id and the contract code, with each check's latency; answers 503 with the same body when a check fails",
+    response: readinessReportSchema,
+  }),
+
+  register: endpoint({
+    method: "post", path: "/api/auth/register", tag: "Auth", auth: "none", status: 201,
+    summary: "Create an account with email and password",
+    body: insertUserSchema, response: authResponseSchema,
+  }),
+  login: endpoint({
+    method: "post", path: "/api/auth/login", tag: "Auth", auth: "none",
+    summary: "Sign in with email and password; accounts with two-factor authentication get an MFA challenge",
+    body: loginSchema, response: z.union([authResponseSchema, mfaChallengeSchema]),
+  }),
+  completeMfaLogin: endpoint({
+    method: "post", path: "/api/auth/login/mfa", tag: "Auth", auth: "none",
+    summary: "Finish a login with the MFA challenge token and a TOTP or recovery code",
+    body: mfaLoginSchema, response: authResponseSchema,
+  }),
+  refreshSession: endpoint({
+    method: "post", path: "/api/auth/refresh", tag: "Auth", auth: "none",
+    summary: "Trade a refresh token for a new access token and refresh token",
+    body: refreshTokenSchema, response: authResponseSchema,
+  }),
+  logout: endpoint({
+    method: "post", path: "/api/auth/logout", tag: "Auth", auth: "optional",
+    summary: "Revoke the session behind a refresh token, or every session with all: true",
+    body: logoutSchema, response: successSchema,
+  }),
+  getCurrentUser: endpoint({
+    method: "get", path: "/api/auth/me", tag: "Auth", auth: "bearer",
+    summary: "The signed-in user",
+    response: userResponseSchema,
+  }),
+  updateCurrentUser: endpoint({
+    method: "patch", path: "/api/auth/me", tag: "Auth", auth: "bearer",
+    summary: "Change the signed-in user's profile",
+    body: updateProfileSchema, response: userResponseSchema,
+  }),
+  setupTwoFactor: endpoint({
+    method: "post", path: "/api/auth/2fa/setup", tag: "Auth", auth: "bearer",
+    summary: "Start TOTP enrollment",
+    response: twoFactorSetupSchema,
+  }),
+  enableTwoFactor: endpoint({
+    method: "post", path: "/api/auth/2fa/enable", tag: "Auth", auth: "bearer",
+    summary: "Confirm TOTP enrollment with a code; returns the recovery codes",
+    body: twoFactorCodeSchema, response: z.object({ user: safeUserSchema, recoveryCodes: z.array(z.string()) }),
+  }),
+  disableTwoFactor: endpoint({
+    method: "post", path: "/api/auth/2fa/disable", tag: "Auth", auth: "bearer",
+    summary: "Turn two-factor authentication off",
+    body: twoFactorVerificationSchema, response: userResponseSchema,
+  }),
+  regenerateRecoveryCodes: endpoint({
+    method: "post", path: "/api/auth/2fa/recovery-codes", tag: "Auth", auth: "bearer",
+    summary: "Replace every recovery code",
+    body: twoFactorCodeSchema, response: z.object({ recoveryCodes: z.array(z.string()) }),
+  }),
+  getSiweNonce: endpoint({
+    method: "get", path: "/api/auth/siwe/nonce", tag: "Auth", auth: "none",
+    summary: "Single-use nonce for a Sign-In With Ethereum message",
+    response: z.object({ nonce: z.string() }),
+  }),
+  loginWithEthereum: endpoint({
+    method: "post", path: "/api/auth/siwe/verify", tag: "Auth", auth: "none",
+    summary: "Sign in with a signed EIP-4361 message; the first sign-in creates the account. Accounts with two-factor authentication get an MFA challenge",
+    body: siweVerifySchema, response: z.union([authResponseSchema, mfaChallengeSchema]),
+  }),
+  linkWallet: endpoint({
+    method: "post", path: "/api/auth/link-wallet", tag: "Auth", auth: "bearer",
+    summary: "Attach a wallet to the account with a signed EIP-4361 message",
+    body: siweVerifySchema, response: userResponseSchema,
+  }),
+  unlinkWallet: endpoint({
+    method: "delete", path: "/api/auth/link-wallet", tag: "Auth", auth: "bearer",
+    summary: "Detach the wallet, unless it is the only way to sign in",
+    response: userResponseSchema,
+  }),
+  requestPasswordReset: endpoint({
+    method: "post", path: "/api/auth/password-reset/request", tag: "Auth", auth: "none",
+    summary: "Email a password reset link; answers the same whether or not the email has an account",
+    body: passwordResetRequestSchema, response: successSchema,
+  }),
+  confirmPasswordReset: endpoint({
+    method: "post", path: "/api/auth/password-reset/confirm", tag: "Auth", auth: "none",
+    summary: "Set a new password with the emailed token; signs out every session",
+    body: passwordResetConfirmSchema, response: successSchema,
+  }),
+  requestEmailVerification: endpoint({
+    method: "post", path: "/api/auth/verify-email/request", tag: "Auth", auth: "bearer",
+    summary: "Email a verification link",
+    response: successSchema,
+  }),
+  confirmEmailVerification: endpoint({
+    method: "post", path: "/api/auth/verify-email/confirm", tag: "Auth", auth: "none",
+    summary: "Mark the email verified with the emailed token",
+    body: emailVerificationConfirmSchema, response: userResponseSchema,
+  }),
+  listOidcProviders: endpoint({
+    method: "get", path: "/api/auth/oidc/providers", tag: "Auth", auth: "none",
+    summary: "OpenID Connect providers configured on the server",
+    response: z.object({ providers: z.array(oidcProviderSummarySchema) }),
+  }),
+  startGoogleLogin: endpoint({
+    method: "get", path: "/api/auth/google", tag: "Auth", auth: "none",
+    summary: "Browser redirect to Google; only when Google is configured",
+  }),
+  googleCallback: endpoint({
+    method: "get", path: "/api/auth/google/callback", tag: "Auth", auth: "none",
+    summary: "Google redirects here; the app is then opened with oauth_code or oauth_link_token",
+  }),
+  startFacebookLogin: endpoint({
+    method: "get", path: "/api/auth/facebook", tag: "Auth", auth: "none",
+    summary: "Browser redirect to Facebook; only when Facebook is configured",
+  }),
+  facebookCallback: endpoint({
+    method: "get", path: "/api/auth/facebook/callback", tag: "Auth", auth: "none",
+    summary: "Facebook redirects here; the app is then opened with oauth_code or oauth_link_token",
+  }),
+  startOidcLogin: endpoint({
+    method: "get", path: "/api/auth/oidc/:providerId", tag: "Auth", auth: "none",
+    summary: "Browser redirect to an OpenID Connect provider",
+  }),
+  oidcCallback: endpoint({
+    method: "get", path: "/api/auth/oidc/:providerId/callback", tag: "Auth", auth: "none",
+    summary: "The OpenID Connect provider redirects here; the app is then opened with oauth_code or oauth_link_token",
+  }),
+  exchangeOAuthCode: endpoint({
+    method: "post", path: "/api/auth/oauth/exchange", tag: "Auth", auth: "none",
+    summary: "Trade the single-use code from an OAuth redirect for a session, or an MFA challenge with two-factor authentication",
+    body: oauthCodeExchangeSchema, response: z.union([authResponseSchema, mfaChallengeSchema]),
+  }),
+  getPendingOAuthLink: endpoint({
+    method: "post", path: "/api/auth/oauth/link/info", tag: "Auth", auth: "none",
+    summary: "Provider and account behind an OAuth link token",
+    body: oauthLinkTokenSchema, response: pendingOAuthLinkInfoSchema,
+  }),
+  sendOAuthLinkCode: endpoint({
+    method: "post", path: "/api/auth/oauth/link/send-code", tag: "Auth", auth: "none",
+    summary: "Email a code that proves ownership of the existing account",
+    body: oauthLinkTokenSchema, response: successSchema,
+  }),
+  confirmOAuthLink: endpoint({
+    method: "post", path: "/api/auth/oauth/link/confirm", tag: "Auth", auth: "none",
+    summary: "Link the provider with the account's password or the emailed code, then sign in",
+    body: oauthLinkConfirmSchema, response: z.union([authResponseSchema, mfaChallengeSchema]),
+  }),
+  listProviders: endpoint({
+    method: "get", path: "/api/auth/providers", tag: "Auth", auth: "bearer",
+    summary: "Every way to sign in to the account, linked or not",
+    response: z.object({ providers: z.array(linkedIdentitySchema) }),
+  }),
+  unlinkProvider: endpoint({
+    method: "delete", path: "/api/auth/providers/:provider", tag: "Auth", auth: "bearer",
+    summary: "Unlink an OAuth provider, unless it is the only way to sign in",
+    response: z.object({ user: safeUserSchema, providers: z.array(linkedIdentitySchema) }),
+  }),
+
+  exportAccountData: endpoint({
+    method: "get", path: "/api/account/export", tag: "Account", auth: "bearer",
+    summary: "Everything stored about the user, as JSON or (format=zip) a ZIP of one JSON file per section",
+    query: accountExportQuerySchema, response: accountExportSchema, alternativeContent: ["application/zip"],
+  }),
+  deleteAccount: endpoint({
+    method: "post", path: "/api/account/delete", tag: "Account", auth: "bearer",
+    summary: "Deactivate the account now and purge its personal data after the grace period",
+    body: accountDeletionSchema, response: z.object({ purgeAt: z.string().datetime() }),
+  }),
+
+  streamEvents: endpoint({
+    method: "get", path: "/api/events", tag: "Events", auth: "bearer",
+    summary: "Server-sent events for new posts, check-ins and donations, plus approvals and balance changes of the signed-in user",
+    stream: liveEventSchema,
+  }),
+
+  listPosts: endpoint({
+    method: "get", path: "/api/community/posts", tag: "Community", auth: "optional",
+    summary: "Community posts, newest first",
+    query: postTypeQuerySchema, response: z.object({ posts: z.array(communityPostSchema) }),
+  }),
+  getPost: endpoint({
+    method: "get", path: "/api/community/posts/:id", tag: "Community", auth: "optional",
+    summary: "One community post with its comments",
+    response: z.object({ post: communityPostSchema }),
+  }),
+  createPost: endpoint({
+    method: "post", path: "/api/community/posts", tag: "Community", auth: "bearer", status: 201,
+    summary: "Publish a recipe, tip or experience",
+    body: insertCommunityPostSchema, response: z.object({ post: communityPostSchema }),
+  }),
+  togglePostLike: endpoint({
+    method: "post", path: "/api/community/posts/:id/like", tag: "Community", auth: "bearer",
+    summary: "Like a post, or take the like back",
+    response: z.object({ liked: z.boolean(), post: communityPostSchema }),
+  }),
+  commentOnPost: endpoint({
+    method: "post", path: "/api/community/posts/:id/comments", tag: "Community", auth: "bearer", status: 201,
+    summary: "Comment on a post or reply to a comment",
+    body: insertPostCommentSchema, response: z.object({ comment: communityCommentSchema }),
+  }),
+  listCharities: endpoint({
+    method: "get", path: "/api/charities", tag: "Community", auth: "none",
+    summary: "Active charities of the community fund",
+    response: z.object({ charities: z.array(charitySchema) }),
+  }),
+
+  listChallenges: endpoint({
+    method: "get", path: "/api/challenges", tag: "Challenges", auth: "none",
+    summary: "The challenge catalog with participant counts",
+    response: z.object({ challenges: z.array(challengeSchema.extend({ participants: z.number().int() })) }),
+  }),
+  getMyEnrollment: endpoint({
+    method: "get", path: "/api/challenges/me", tag: "Challenges", auth: "bearer",
+    summary: "The signed-in user's active enrollment, if any",
+    response: z.object({ enrollment: challengeEnrollmentSchema.nullable() }),
+  }),
+  getChallenge: endpoint({
+    method: "get", path: "/api/challenges/:id", tag: "Challenges", auth: "none",
+    summary: "One challenge of the catalog",
+    response: z.object({ challenge: challengeSchema }),
+  }),
+  enrollInChallenge: endpoint({
+    method: "post", path: "/api/challenges/:id/enroll", tag: "Challenges", auth: "bearer", status: 201,
+    summary: "Start a challenge; refused while another one is active",
+    response: z.object({ enrollment: challengeEnrollmentSchema }),
+  }),
+
+  listCheckIns: endpoint({
+    method: "get", path: "/api/check-ins", tag: "Check-ins", auth: "optional",
+    summary: "Check-ins, optionally of one user or challenge",
+    query: checkInQuerySchema, response: z.object({ checkIns: z.array(dailyCheckInSchema) }),
+  }),
+  getCheckIn: endpoint({
+    method: "get", path: "/api/check-ins/:id", tag: "Check-ins", auth: "optional",
+    summary: "One check-in with its comments",
+    response: z.object({ checkIn: dailyCheckInSchema }),
+  }),
+  createCheckIn: endpoint({
+    method: "post", path: "/api/check-ins", tag: "Check-ins", auth: "bearer", status: 201,
+    summary: "Record today's check-in for the active challenge and credit its tokens",
+    body: insertCheckInSchema, response: z.object({ checkIn: dailyCheckInSchema, enrollment: challengeEnrollmentSchema }),
+  }),
+  toggleCheckInLike: endpoint({
+    method: "post", path: "/api/check-ins/:id/like", tag: "Check-ins", auth: "bearer",
+    summary: "Like a check-in, or take the like back",
+    response: z.object({ liked: z.boolean(), checkIn: dailyCheckInSchema }),
+  }),
+  toggleCheckInApproval: endpoint({
+    method: "post", path: "/api/check-ins/:id/approve", tag: "Check-ins", auth: "bearer",
+    summary: "Validate someone else's check-in, or take the validation back",
+    response: z.object({ approved: z.boolean(), checkIn: dailyCheckInSchema }),
+  }),
+  commentOnCheckIn: endpoint({
+    method: "post", path: "/api/check-ins/:id/comments", tag: "Check-ins", auth: "bearer", status: 201,
+    summary: "Comment on a check-in",
+    body: insertCheckInCommentSchema, response: z.object({ comment: checkInCommentSchema }),
+  }),
+
+  uploadMedia: endpoint({
+    method: "post", path: "/api/media", tag: "Media", auth: "bearer", status: 201,
+    summary: "Upload a JPEG, PNG or WebP image for a check-in or post; it is stored without metadata, with a thumbnail",
+    upload: "file", response: z.object({ media: uploadedMediaSchema }),
+  }),
+  getMedia: endpoint({
+    method: "get", path: "/api/media/:id", tag: "Media", auth: "none",
+    summary: "An uploaded image",
+    alternativeContent: [...mediaMimeTypes],
+  }),
+  getMediaThumbnail: endpoint({
+    method: "get", path: "/api/media/:id/thumbnail", tag: "Media", auth: "none",
+    summary: "The WebP thumbnail of an uploaded image, at most 400 px per side",
+    alternativeContent: ["image/webp"],
+  }),
+
+  getLeaderboard: endpoint({
+    method: "get", path: "/api/leaderboard", tag: "Tokens", auth: "optional",
+    summary: "Users ranked by impact, with the caller's own entry when signed in",
+    query: leaderboardQuerySchema, response: leaderboardPageSchema,
+  }),
+  recordWalletActivity: endpoint({
+    method: "post", path: "/api/wallet/activity", tag: "Tokens", auth: "bearer", status: 201,
+    summary: "Report a confirmed donation or staking transaction",
+    body: insertWalletActivitySchema, response: successSchema,
+  }),
+  getTokenLedger: endpoint({
+    method: "get", path: "/api/tokens/ledger", tag: "Tokens", auth: "bearer",
+    summary: "The user's token balance and its history",
+    response: z.object({ balance: z.number().int(), entries: z.array(tokenLedgerEntrySchema) }),
+  }),
+  transferTokens: endpoint({
+    method: "post", path: "/api/tokens/transfer", tag: "Tokens", auth: "bearer",
+    summary: "Send tokens to the account behind a wallet address",
+    body: tokenTransferSchema, response: userResponseSchema,
+  }),
+
+  listNotifications: endpoint({
+    method: "get", path: "/api/notifications", tag: "Notifications", auth: "bearer",
+    summary: "Likes, approvals and comments others left on the user's content, newest first, with the unread count",
+    query: notificationQuerySchema, response: z.object({ notifications: z.array(userNotificationSchema), unreadCount: z.number().int() }),
+  }),
+  markAllNotificationsRead: endpoint({
+    method: "post", path: "/api/notifications/read-all", tag: "Notifications", auth: "bearer",
+    summary: "Mark every notification read",
+    response: successSchema,
+  }),
+  markNotificationRead: endpoint({
+    method: "post", path: "/api/notifications/:id/read", tag: "Notifications", auth: "bearer",
+    summary: "Mark one notification read",
+    response: successSchema,
+  }),
+  getNotificationPreferences: endpoint({
+    method: "get", path: "/api/notifications/preferences", tag: "Notifications", auth: "bearer",
+    summary: "Which notification types the user gets; all are on until switched off",
+    response: notificationPreferencesSchema,
+  }),
+  updateNotificationPreferences: endpoint({
+    method: "patch", path: "/api/notifications/preferences", tag: "Notifications", auth: "bearer",
+    summary: "Switch notification types on or off; types left out keep their setting",
+    body: notificationPreferencesUpdateSchema, response: notificationPreferencesSchema,
+  }),
+
+  listStaff: endpoint({
+    method: "get", path: "/api/admin/roles", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Users with at least one staff role",
+    response: usersResponseSchema,
+  }),
+  listRoleEvents: endpoint({
+    method: "get", path: "/api/admin/roles/events", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Role grants and revocations, newest first",
+    query: roleGrantEventsQuerySchema, response: z.object({ events: z.array(roleGrantEventSchema) }),
+  }),
+  grantRole: endpoint({
+    method: "post", path: "/api/admin/users/:id/roles", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Grant a staff role",
+    body: roleGrantSchema, response: userResponseSchema,
+  }),
+  revokeRole: endpoint({
+    method: "delete", path: "/api/admin/users/:id/roles/:role", tag: "Admin", auth: "bearer", role: "admin",
+    summary: `Revoke a staff role (${userRoles.join(", ")})`,
+    body: roleRevokeSchema, response: userResponseSchema,
+  }),
+  searchUsers: endpoint({
+    method: "get", path: "/api/admin/users", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Search users by name, email or wallet",
+    query: adminUserQuerySchema, response: adminUserPageSchema,
+  }),
+  updateUserStatus: endpoint({
+    method: "patch", path: "/api/admin/users/:id", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Deactivate or reactivate an account; reactivating cancels a pending deletion",
+    body: adminUserUpdateSchema, response: userResponseSchema,
+  }),
+  listVerifiers: endpoint({
+    method: "get", path: "/api/admin/verifiers", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Users with the verifier role",
+    response: usersResponseSchema,
+  }),
+  listAllCharities: endpoint({
+    method: "get", path: "/api/admin/charities", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Every charity, active or not",
+    response: z.object({ charities: z.array(charitySchema) }),
+  }),
+  createCharity: endpoint({
+    method: "post", path: "/api/admin/charities", tag: "Admin", auth: "bearer", role: "admin", status: 201,
+    summary: "Add a charity",
+    body: insertCharitySchema, response: z.object({ charity: charitySchema }),
+  }),
+  updateCharity: endpoint({
+    method: "patch", path: "/api/admin/charities/:id", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Edit, deactivate or set the on-chain id of a charity",
+    body: updateCharitySchema, response: z.object({ charity: charitySchema }),
+  }),
+  createChallenge: endpoint({
+    method: "post", path: "/api/admin/challenges", tag: "Admin", auth: "bearer", role: "admin", status: 201,
+    summary: "Add a challenge to the catalog",
+    body: insertChallengeSchema, response: z.object({ challenge: challengeSchema }),
+  }),
+  updateChallenge: endpoint({
+    method: "patch", path: "/api/admin/challenges/:id", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Edit a challenge of the catalog",
+    body: updateChallengeSchema, response: z.object({ challenge: challengeSchema }),
+  }),
+  getChainInfo: endpoint({
+    method: "get", path: "/api/admin/chain", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Network and contract addresses the server prepares owner transactions for",
+    response: adminChainInfoSchema,
+  }),
+  prepareTransaction: endpoint({
+    method: "post", path: "/api/admin/transactions", tag: "Admin", auth: "bearer", role: "admin",
+    summary: "Encode an owner-only contract call for the owner wallet to sign",
+    body: adminTransactionSchema, response: z.object({ transaction: preparedTransactionSchema }),
+  }),
+};
+
+export type ApiEndpoints = typeof apiEndpoints;
+export type ApiOperation = keyof ApiEndpoints;
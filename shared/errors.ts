@@ -0,0 +1,141 @@
+// Stable error codes returned by the API. Clients match on the code and show
+// their own text for it; the message next to it is the server's Spanish
+// default and may change.
+
+export const errorCodes = [
+  // Any route
+  "VALIDATION_FAILED",
+  "MALFORMED_REQUEST",
+  "AUTH_REQUIRED",
+  "AUTH_TOKEN_INVALID",
+  "FORBIDDEN",
+  "RATE_LIMITED",
+  "INTERNAL_ERROR",
+
+  // Sign-in and sessions
+  "EMAIL_ALREADY_REGISTERED",
+  "AUTH_INVALID_CREDENTIALS",
+  "AUTH_SOCIAL_ACCOUNT",
+  "ACCOUNT_DEACTIVATED",
+  "ACCOUNT_DELETION_SCHEDULED",
+  "ACCOUNT_LOCKED",
+  "MFA_CHALLENGE_EXPIRED",
+  "SECOND_FACTOR_INVALID",
+  "PASSWORD_INVALID",
+  "SESSION_INVALID",
+  "SESSION_REVOKED",
+  "SESSION_EXPIRED",
+  "EMAIL_TOKEN_INVALID",
+  "EMAIL_MISSING",
+  "EMAIL_ALREADY_VERIFIED",
+  "OAUTH_CODE_INVALID",
+  "OAUTH_LINK_EXPIRED",
+  "OAUTH_LINK_NO_PASSWORD",
+  "OAUTH_LINK_CODE_NOT_SENT",
+  "OAUTH_LINK_CODE_INVALID",
+  "OAUTH_LINK_TOO_MANY_ATTEMPTS",
+  "OAUTH_IDENTITY_TAKEN",
+  "PROVIDER_NOT_FOUND",
+  "PROVIDER_INVALID",
+  "PROVIDER_NOT_LINKED",
+  "PROVIDER_LAST_METHOD",
+
+  // Two-factor authentication
+  "TWO_FACTOR_UNAVAILABLE",
+  "TWO_FACTOR_ALREADY_ENABLED",
+  "TWO_FACTOR_NOT_SET_UP",
+  "TWO_FACTOR_NOT_ENABLED",
+
+  // Sign-In With Ethereum and wallets
+  "SIWE_MESSAGE_INVALID",
+  "SIWE_DOMAIN_MISMATCH",
+  "SIWE_URI_MISMATCH",
+  "SIWE_CHAIN_MISMATCH",
+  "SIWE_STATEMENT_MISMATCH",
+  "SIWE_ADDRESS_INVALID",
+  "SIWE_VERSION_UNSUPPORTED",
+  "SIWE_MESSAGE_EXPIRED",
+  "SIWE_MESSAGE_NOT_YET_VALID",
+  "SIWE_SIGNATURE_INVALID",
+  "SIWE_NONCE_INVALID",
+  "WALLET_TAKEN",
+  "WALLET_NOT_LINKED",
+  "WALLET_LAST_METHOD",
+
+  // Accounts and roles
+  "USER_NOT_FOUND",
+  "ACCOUNT_DELETION_PENDING",
+  "ACCOUNT_PURGED",
+  "ACCOUNT_SELF_DEACTIVATION",
+  "ROLE_INVALID",
+  "ROLE_ALREADY_GRANTED",
+  "ROLE_NOT_GRANTED",
+  "ROLE_SELF_REVOKE",
+
+  // Admin console and contracts
+  "CHARITY_NOT_FOUND",
+  "CHARITY_ONCHAIN_ID_TAKEN",
+  "CHARITY_ALREADY_REGISTERED",
+  "CHARITY_NOT_REGISTERED",
+  "CHARITY_WALLET_MISSING",
+  "CHALLENGE_ID_TAKEN",
+  "USER_WALLET_MISSING",
+  "CHAIN_UNAVAILABLE",
+
+  // Community, challenges and tokens
+  "POST_TYPE_INVALID",
+  "POST_NOT_FOUND",
+  "COMMENT_PARENT_NOT_FOUND",
+  "CHALLENGE_NOT_FOUND",
+  "CHALLENGE_NOT_AVAILABLE",
+  "CHALLENGE_NOT_ENROLLED",
+  "CHALLENGE_ALREADY_ENROLLED",
+  "CHECK_IN_WRONG_DAY",
+  "CHECK_IN_ALREADY_TODAY",
+  "CHECK_IN_NOT_FOUND",
+  "CHECK_IN_SELF_APPROVAL",
+  "TRANSFER_RECIPIENT_NOT_FOUND",
+  "TRANSFER_TO_SELF",
+  "INSUFFICIENT_BALANCE",
+  "WALLET_ACTIVITY_UNVERIFIED",
+  "NOTIFICATION_NOT_FOUND",
+  "EVENT_STREAMS_FULL",
+
+  // Media uploads
+  "MEDIA_FILE_MISSING",
+  "MEDIA_TOO_LARGE",
+  "MEDIA_TYPE_UNSUPPORTED",
+  "MEDIA_UNREADABLE",
+  "MEDIA_NOT_FOUND",
+  "MEDIA_NOT_OWNED",
+  "MEDIA_ALREADY_USED",
+] as const;
+
+export type ErrorCode = typeof errorCodes[number];
+
+// Values a client needs to build its own message, e.g. retryAfter (seconds)
+// for RATE_LIMITED or provider for PROVIDER_NOT_LINKED
+export type ErrorParams = Record<string, string | number>;
+
+// One failed check of a request body or query string, mapped from a Zod issue
+export interface FieldError {
+  // Dotted path to the value, e.g. "email" or "items.0.name"
+  field: string;
+  // The Zod issue code, e.g. "too_small" or "invalid_string"
+  issue: string;
+  // Zod's message, or the schema's own when it sets one
+  message: string;
+  // Bound of a too_small or too_big issue
+  limit?: number;
+}
+
+// The body of every error response
+export interface ApiErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    params?: ErrorParams;
+    // Only for VALIDATION_FAILED
+    fields?: FieldError[];
+  };
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Events pushed to signed-in clients over GET /api/events. They say what
+// changed, not the new state: clients refetch whatever they show for it.
+
+export const liveEventSchema = z.discriminatedUnion("type", [
+  // To everyone
+  z.object({ type: z.literal("post_created"), postId: z.string(), authorId: z.string() }),
+  z.object({ type: z.literal("check_in_created"), checkInId: z.string(), userId: z.string() }),
+  z.object({ type: z.literal("donation_made"), userId: z.string(), amount: z.number().int() }),
+  // Only to the user concerned
+  z.object({ type: z.literal("approval_received"), checkInId: z.string(), approverId: z.string() }),
+  z.object({ type: z.literal("balance_changed"), balance: z.number().int() }),
+  z.object({ type: z.literal("notification_created"), notificationId: z.string() }),
+]);
+
+export type LiveEvent = z.infer<typeof liveEventSchema>;
+export type LiveEventType = LiveEvent["type"];
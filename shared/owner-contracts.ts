@@ -0,0 +1,40 @@
+// Owner-only functions of the deployed contracts (see contracts/*.sol). The
+// server encodes calls to them for the admin console, and the owner wallet
+// signs and sends the result; the ABI JSON under client/src/contracts predates
+// these functions.
+
+export const ownerContracts = ["VEG21Donations", "VEG21Rewards", "VEG21Staking"] as const;
+
+export type OwnerContract = typeof ownerContracts[number];
+
+export const ownerContractAbis: Record<OwnerContract, string[]> = {
+  VEG21Donations: [
+    "function registerCharity(string name, string description, address wallet)",
+    "function deactivateCharity(uint256 charityId)",
+    "event CharityRegistered(uint256 indexed charityId, string name, address wallet)",
+  ],
+  VEG21Rewards: [
+    "function addVerifier(address verifier)",
+    "function removeVerifier(address verifier)",
+    "function setRewardAmounts(uint256 newDailyReward, uint256 newCompletionBonus)",
+  ],
+  VEG21Staking: [
+    "function setRewardRate(uint256 newRateBasisPoints)",
+  ],
+};
+
+// VEG21Staking.setRewardRate rejects anything above 50%
+export const MAX_STAKING_REWARD_RATE_BASIS_POINTS = 5000;
+
+// An unsigned transaction for the owner wallet. Amounts are decimal strings so
+// uint256 values survive JSON.
+export interface PreparedTransaction {
+  chainId: number;
+  to: string;
+  data: string;
+  value: string;
+  contract: OwnerContract;
+  method: string;
+  args: string[];
+  description: string;
+}
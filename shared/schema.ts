@@ -1,11 +1,13 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, doublePrecision, date, primaryKey, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MAX_STAKING_REWARD_RATE_BASIS_POINTS, type OwnerContract } from "./owner-contracts";
 
 export const users = pgTable("users", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
-  email: text("email").notNull().unique(),
+  // Null for accounts created with Sign-In With Ethereum
+  email: text("email").unique(),
   passwordHash: text("password_hash"),
   name: text("name").notNull(),
   location: text("location"),
@@ -14,14 +16,400 @@ export const users = pgTable("users", {
   currentChallengeId: text("current_challenge_id"),
   challengeStartDate: timestamp("challenge_start_date"),
   challengeDay: integer("challenge_day").default(0),
-  totalTokens: integer("total_tokens").default(100),
+  // Cached balance: always the sum of the user's token_ledger entries
+  totalTokens: integer("total_tokens").default(0),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   googleId: text("google_id"),
   facebookId: text("facebook_id"),
   authProvider: text("auth_provider").default("email"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // TOTP two-factor authentication. The secret is stored on setup and only
+  // enforced once totpEnabledAt is set; the last accepted time step stops a
+  // code from being replayed within its window.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default(sql`'{}'::text[]`),
+  // Entries of userRoles; changed only through grantRole/revokeRole so every
+  // change lands in role_grant_events
+  roles: text("roles").array().notNull().default(sql`'{}'::text[]`),
+  // Set when the user asks to delete the account. Personal data is purged
+  // once the grace period has passed, leaving an anonymous row (deletedAt set)
+  // so community posts and comments keep an author.
+  deletionRequestedAt: timestamp("deletion_requested_at"),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  // A wallet can back at most one account, whatever the letter case it was stored with
+  uniqueIndex("users_wallet_address_idx").on(sql`lower(${table.walletAddress})`),
+]);
+
+// Single-use nonces handed out for Sign-In With Ethereum messages
+export const siweNonces = pgTable("siwe_nonces", {
+  nonce: varchar("nonce", { length: 64 }).primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Expired nonces are deleted each time a new one is issued
+  index("siwe_nonces_expires_at_idx").on(table.expiresAt),
+]);
+
+// Refresh tokens are opaque random strings; only their SHA-256 hash is stored.
+// Each refresh rotates the token within its family, and presenting a rotated
+// token again revokes the whole family.
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  familyId: varchar("family_id", { length: 36 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes handed to the browser after an OAuth login, exchanged for
+// session tokens so those never appear in a URL. Stored hashed, like refresh tokens.
+export const oauthCodes = pgTable("oauth_codes", {
+  codeHash: varchar("code_hash", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const emailTokenPurposes = ["password_reset", "email_verification"] as const;
+
+// Single-use tokens sent by email to reset a password or verify the address.
+// Stored hashed; requesting a new one replaces the previous token.
+export const emailTokens = pgTable("email_tokens", {
+  tokenHash: varchar("token_hash", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  purpose: text("purpose").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Providers with their own passport strategy and a column on users. Any other
+// provider id refers to an OpenID Connect provider from OIDC_PROVIDERS, whose
+// identities live in user_identities.
+export const builtInOAuthProviders = ["google", "facebook"] as const;
+
+export const builtInOAuthProviderNames: Record<typeof builtInOAuthProviders[number], string> = {
+  google: "Google",
+  facebook: "Facebook",
+};
+
+export function isBuiltInOAuthProvider(provider: string): provider is typeof builtInOAuthProviders[number] {
+  return (builtInOAuthProviders as readonly string[]).includes(provider);
+}
+
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  provider: text("provider").notNull(),
+  // The provider's stable identifier for the user (the `sub` claim by default)
+  subject: text("subject").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("user_identities_provider_subject_idx").on(table.provider, table.subject),
+  uniqueIndex("user_identities_user_provider_idx").on(table.userId, table.provider),
+]);
+
+// An OAuth identity whose email matches an existing account. It is linked only
+// after the user proves they own that account, with its password or a code
+// emailed to it; the browser holds the token, only its hash is stored.
+export const pendingOAuthLinks = pgTable("pending_oauth_links", {
+  tokenHash: varchar("token_hash", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  provider: text("provider").notNull(),
+  providerId: text("provider_id").notNull(),
+  // Set when the user asks for a code by email
+  codeHash: varchar("code_hash", { length: 64 }),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Messages written by the default outbox mailer instead of being delivered
+export const mailOutbox = pgTable("mail_outbox", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const walletLinkActions = ["link", "unlink"] as const;
+
+// Audit trail of wallet addresses attached to and removed from accounts
+export const walletLinkEvents = pgTable("wallet_link_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  walletAddress: text("wallet_address").notNull(),
+  action: text("action").notNull(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Staff roles. Each one mirrors a permission of the deployed contracts so the
+// API and the chain agree on who may do what; "moderator" is the only one
+// that exists off-chain alone. Granting a role here does not touch the
+// contracts: the matching transaction still has to be sent from an owner wallet.
+export const userRoles = ["admin", "moderator", "verifier", "minter", "pauser"] as const;
+
+export const userRoleNames: Record<typeof userRoles[number], string> = {
+  admin: "Administrador",
+  moderator: "Moderador",
+  verifier: "Verificador",
+  minter: "Emisor de tokens",
+  pauser: "Pausa del token",
+};
+
+// Contract permission each role corresponds to
+export const onChainRoles: Record<typeof userRoles[number], { contract: "VEG21Token" | "VEG21Rewards"; role: string }[]> = {
+  admin: [
+    { contract: "VEG21Token", role: "DEFAULT_ADMIN_ROLE" },
+    { contract: "VEG21Rewards", role: "owner" },
+  ],
+  moderator: [],
+  verifier: [{ contract: "VEG21Rewards", role: "isVerifier" }],
+  minter: [{ contract: "VEG21Token", role: "MINTER_ROLE" }],
+  pauser: [{ contract: "VEG21Token", role: "PAUSER_ROLE" }],
+};
+
+// Admins pass every role check, as the contract owner does on-chain
+export function hasRole(user: { roles: string[] }, role: typeof userRoles[number]): boolean {
+  return user.roles.includes(role) || user.roles.includes("admin");
+}
+
+export const roleGrantActions = ["grant", "revoke"] as const;
+
+// Audit trail of roles given to and taken from users
+export const roleGrantEvents = pgTable("role_grant_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  role: text("role").notNull(),
+  action: text("action").notNull(),
+  // Null when the change was made from the command line
+  actorId: varchar("actor_id", { length: 36 }).references(() => users.id),
+  reason: text("reason"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const postTypes = ["recipe", "tip", "experience"] as const;
+
+// Mirrors the ChallengeType enum in contracts/VEG21Rewards.sol; values are the
+// enum ordinals passed to startChallenge() on-chain.
+export const onChainChallengeTypes = {
+  MeatFree: 0,
+  VeganMeals: 1,
+  FullVegan: 2,
+  ZeroWaste: 3,
+} as const;
+
+export const challengeDifficulties = ["Principiante", "Intermedio", "Avanzado"] as const;
+export const challengeStatuses = ["active", "upcoming", "retired"] as const;
+export const enrollmentStatuses = ["active", "completed", "abandoned"] as const;
+export const walletActivityTypes = ["donation", "stake", "unstake", "staking_reward"] as const;
+// opening_balance carries over the stored balance of accounts created before
+// the ledger existed
+export const tokenLedgerEntryTypes = ["signup_bonus", "opening_balance", "check_in_reward", "milestone", "donation", "transfer"] as const;
+// Entries that mint new tokens, as opposed to moving existing ones
+export const tokenEarningTypes = ["signup_bonus", "opening_balance", "check_in_reward", "milestone"] as const;
+
+export const challenges = pgTable("challenges", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  difficulty: text("difficulty").notNull(),
+  icon: text("icon").notNull().default("leaf"),
+  onChainType: integer("on_chain_type").notNull(),
+  durationDays: integer("duration_days").notNull().default(21),
+  rewardAmount: integer("reward_amount").notNull().default(600),
+  status: text("status").notNull().default("active"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const userChallenges = pgTable("user_challenges", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  challengeId: varchar("challenge_id", { length: 64 }).notNull().references(() => challenges.id),
+  startDate: timestamp("start_date").defaultNow().notNull(),
+  completedDays: integer("completed_days").array().notNull().default(sql`'{}'::integer[]`),
+  status: text("status").notNull().default("active"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  // One active challenge per user, as on-chain
+  uniqueIndex("user_challenges_active_user_idx").on(table.userId).where(sql`${table.status} = 'active'`),
+]);
+
+// Organisations users can donate to. The list is managed from the admin
+// console; onChainId is the VEG21Donations charity id, set once the owner
+// wallet has registered the charity on-chain.
+export const charities = pgTable("charities", {
+  id: varchar("id", { length: 64 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  imageUrl: text("image_url"),
+  walletAddress: text("wallet_address"),
+  onChainId: integer("on_chain_id").unique(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Donations and staking movements reported by the wallet layer after a
+// confirmed transaction. verified is set once the transaction was found on the
+// configured chain, from the user's wallet, with the matching contract event;
+// the amount is then the event's. Only verified rows count on the leaderboard,
+// so nothing reported in demo mode does.
+export const walletActivities = pgTable("wallet_activities", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: text("type").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  txHash: text("tx_hash"),
+  verified: boolean("verified").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // An unstake and the reward it pays out share a transaction
+  uniqueIndex("wallet_activities_tx_type_idx").on(table.txHash, table.type),
+]);
+
+// Every change to a user's token balance. Credits are positive and debits
+// negative; the reference (check-in, milestone, tx hash, transfer) makes
+// crediting the same event twice a no-op.
+export const tokenLedger = pgTable("token_ledger", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: text("type").notNull(),
+  amount: integer("amount").notNull(),
+  description: text("description").notNull(),
+  referenceId: text("reference_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("token_ledger_user_type_reference_idx").on(table.userId, table.type, table.referenceId),
+]);
+
+export const mediaMimeTypes = ["image/jpeg", "image/png", "image/webp"] as const;
+
+// Largest file POST /api/media accepts
+export const MAX_MEDIA_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Images uploaded through POST /api/media. The stored file is the re-encoded
+// image, without EXIF or other metadata; it and its thumbnail live in the media
+// store (server/media-store.ts) under the row's id. A check-in or post can use
+// an image its author uploaded, and each image only once.
+export const media = pgTable("media", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id", { length: 36 }).notNull().references(() => users.id),
+  mimeType: text("mime_type").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  byteSize: integer("byte_size").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("media_owner_idx").on(table.ownerId),
+]);
+
+export const communityPosts = pgTable("community_posts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  ingredients: text("ingredients"),
+  preparationSteps: text("preparation_steps"),
+  // Free text from before uploads existed; new posts reference mediaId instead
+  imageUrl: text("image_url"),
+  mediaId: varchar("media_id", { length: 36 }).references(() => media.id),
+  type: text("type").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const postComments = pgTable("post_comments", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  postId: varchar("post_id", { length: 36 }).notNull().references(() => communityPosts.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+  parentId: varchar("parent_id", { length: 36 }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const postLikes = pgTable("post_likes", {
+  postId: varchar("post_id", { length: 36 }).notNull().references(() => communityPosts.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.postId, table.userId] }),
+]);
+
+// One row per user, challenge and calendar day (UTC); the unique index is what
+// makes the check-in history trustworthy across clients.
+export const checkIns = pgTable("check_ins", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  challengeId: text("challenge_id").notNull(),
+  day: integer("day").notNull(),
+  checkInDate: date("check_in_date", { mode: "string" }).notNull(),
+  description: text("description").notNull(),
+  // Free text from before uploads existed; new check-ins reference mediaId instead
+  imageUrl: text("image_url"),
+  mediaId: varchar("media_id", { length: 36 }).references(() => media.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("check_ins_user_challenge_date_idx").on(table.userId, table.challengeId, table.checkInDate),
+]);
+
+export const checkInLikes = pgTable("check_in_likes", {
+  checkInId: varchar("check_in_id", { length: 36 }).notNull().references(() => checkIns.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.checkInId, table.userId] }),
+]);
+
+export const checkInApprovals = pgTable("check_in_approvals", {
+  checkInId: varchar("check_in_id", { length: 36 }).notNull().references(() => checkIns.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.checkInId, table.userId] }),
+]);
+
+export const checkInComments = pgTable("check_in_comments", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  checkInId: varchar("check_in_id", { length: 36 }).notNull().references(() => checkIns.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationTypes = ["check_in_liked", "check_in_commented", "check_in_approved", "post_commented"] as const;
+
+// Tells a user that someone else liked, approved or commented on their
+// content. A notification goes with the check-in or post it is about.
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: text("type").notNull(),
+  actorId: varchar("actor_id", { length: 36 }).notNull().references(() => users.id),
+  checkInId: varchar("check_in_id", { length: 36 }).references(() => checkIns.id, { onDelete: "cascade" }),
+  postId: varchar("post_id", { length: 36 }).references(() => communityPosts.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// One row per type the user has switched; types without a row are on
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: text("type").notNull(),
+  enabled: boolean("enabled").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.type] }),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   name: true,
@@ -33,13 +421,509 @@ export const insertUserSchema = createInsertSchema(users).pick({
   name: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
 });
 
+// The only fields users may change on their own account; balances and
+// challenge progress are maintained by the server
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").optional(),
+  location: z.string().trim().max(100, "La ubicación no puede exceder 100 caracteres").nullable().optional(),
+  dietaryPreference: z.string().trim().max(50, "Preferencia no válida").nullable().optional(),
+});
+
 export const loginSchema = z.object({
   email: z.string().email("Email no válido"),
   password: z.string().min(1, "La contraseña es requerida"),
 });
 
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "El código debe tener 6 dígitos");
+
+// Either a code from the authenticator app or one of the recovery codes
+const secondFactorSchema = z.object({
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1, "El código de recuperación es requerido").max(32).optional(),
+});
+
+const hasOneSecondFactor = (data: z.infer<typeof secondFactorSchema>) => !!data.code !== !!data.recoveryCode;
+const secondFactorMessage = { message: "Indica un código de verificación o un código de recuperación", path: ["code"] };
+
+// Typed by the user to confirm an account deletion
+export const ACCOUNT_DELETION_CONFIRMATION = "ELIMINAR";
+
+// Days between a deletion request and the purge of the account's personal
+// data; until then an admin can still restore the account
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+// Shown instead of the name of an account that is being or has been deleted
+export const DELETED_USER_NAME = "Usuario eliminado";
+
+// The password is required for accounts that have one, and a second factor
+// when two-factor authentication is on
+export const accountDeletionSchema = secondFactorSchema.extend({
+  password: z.string().max(128).optional(),
+  confirmation: z.literal(ACCOUNT_DELETION_CONFIRMATION, {
+    errorMap: () => ({ message: `Escribe ${ACCOUNT_DELETION_CONFIRMATION} para confirmar` }),
+  }),
+});
+
+export const accountExportQuerySchema = z.object({
+  format: z.enum(["json", "zip"]).default("json"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorVerificationSchema = secondFactorSchema.refine(hasOneSecondFactor, secondFactorMessage);
+
+export const mfaLoginSchema = secondFactorSchema.extend({
+  mfaToken: z.string().min(1, "La sesión de verificación no es válida").max(1024),
+}).refine(hasOneSecondFactor, secondFactorMessage);
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "El token de sesión es requerido").max(256),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email("Email no válido"),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "El enlace no es válido").max(256),
+  password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
+});
+
+export const emailVerificationConfirmSchema = z.object({
+  token: z.string().min(1, "El enlace no es válido").max(256),
+});
+
+export const oauthCodeExchangeSchema = z.object({
+  code: z.string().min(1, "El código es requerido").max(256),
+});
+
+export const oauthLinkTokenSchema = z.object({
+  linkToken: z.string().min(1, "El enlace no es válido").max(256),
+});
+
+// Ownership of the existing account is proven with its password or the emailed code
+export const oauthLinkConfirmSchema = oauthLinkTokenSchema.extend({
+  password: z.string().min(1, "La contraseña es requerida").optional(),
+  code: z.string().trim().regex(/^\d{6}$/, "El código debe tener 6 dígitos").optional(),
+}).refine((data) => !!data.password !== !!data.code, {
+  message: "Indica tu contraseña o el código que te enviamos por email",
+  path: ["password"],
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().max(256).optional(),
+  all: z.boolean().optional(),
+});
+
+export const siweVerifySchema = z.object({
+  message: z.string().min(1, "El mensaje es requerido").max(4096, "Mensaje demasiado largo"),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Firma no válida"),
+});
+
+export const insertCommunityPostSchema = createInsertSchema(communityPosts).pick({
+  title: true,
+  description: true,
+  ingredients: true,
+  preparationSteps: true,
+}).extend({
+  title: z.string().trim().min(5, "El título debe tener al menos 5 caracteres").max(100, "El título no puede exceder 100 caracteres"),
+  description: z.string().trim().min(10, "La descripción debe tener al menos 10 caracteres").max(500, "La descripción no puede exceder 500 caracteres"),
+  type: z.enum(postTypes),
+  mediaId: z.string().uuid("Imagen no válida").optional(),
+});
+
+export const insertPostCommentSchema = z.object({
+  content: z.string().trim().min(1, "El comentario no puede estar vacío").max(1000, "El comentario no puede exceder 1000 caracteres"),
+  parentId: z.string().optional(),
+});
+
+export const insertCheckInSchema = createInsertSchema(checkIns).pick({
+  challengeId: true,
+}).extend({
+  challengeId: z.string().min(1, "El desafío es requerido"),
+  day: z.number().int().min(1, "Día no válido").max(21, "Día no válido"),
+  description: z.string().trim().min(1, "Por favor describe tu progreso del día").max(500, "La descripción no puede exceder 500 caracteres"),
+  mediaId: z.string().uuid("Imagen no válida").optional(),
+});
+
+export const insertWalletActivitySchema = z.object({
+  type: z.enum(walletActivityTypes),
+  amount: z.number().positive("El monto debe ser mayor a 0"),
+  txHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Hash de transacción no válido"),
+});
+
+export const tokenTransferSchema = z.object({
+  toWalletAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Dirección de wallet no válida"),
+  amount: z.number().int("El monto debe ser un número entero").positive("El monto debe ser mayor a 0"),
+});
+
+export const leaderboardQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const walletAddressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Dirección de wallet no válida");
+
+export const insertCharitySchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(120, "El nombre no puede exceder 120 caracteres"),
+  description: z.string().trim().min(1, "La descripción es requerida").max(1000, "La descripción no puede exceder 1000 caracteres"),
+  imageUrl: z.string().trim().url("URL de imagen no válida").nullable().optional(),
+  walletAddress: walletAddressSchema.nullable().optional(),
+});
+
+export const updateCharitySchema = insertCharitySchema.partial().extend({
+  isActive: z.boolean().optional(),
+  onChainId: z.number().int().min(0).nullable().optional(),
+});
+
+export const insertChallengeSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{3,64}$/, "El identificador solo admite minúsculas, números y guiones bajos"),
+  title: z.string().trim().min(3, "El título debe tener al menos 3 caracteres").max(120, "El título no puede exceder 120 caracteres"),
+  description: z.string().trim().min(1, "La descripción es requerida").max(1000, "La descripción no puede exceder 1000 caracteres"),
+  difficulty: z.enum(challengeDifficulties),
+  icon: z.string().trim().min(1).max(32).default("leaf"),
+  onChainType: z.nativeEnum(onChainChallengeTypes),
+  durationDays: z.number().int().min(1).max(365).default(21),
+  rewardAmount: z.number().int().min(0).default(600),
+  status: z.enum(challengeStatuses).default("active"),
+});
+
+export const updateChallengeSchema = insertChallengeSchema.omit({ id: true }).partial();
+
+export const adminUserQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const adminUserUpdateSchema = z.object({
+  isActive: z.boolean(),
+});
+
+// On-chain owner operations the admin console can prepare. Charities and
+// verifiers are referenced by id and resolved on the server, so the encoded
+// call always matches what the database holds.
+export const adminTransactionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("registerCharity"), charityId: z.string() }),
+  z.object({ action: z.literal("deactivateCharity"), charityId: z.string() }),
+  z.object({ action: z.literal("addVerifier"), userId: z.string() }),
+  z.object({ action: z.literal("removeVerifier"), userId: z.string() }),
+  z.object({
+    action: z.literal("setRewardAmounts"),
+    // Whole VEG21 tokens; converted to wei with 18 decimals
+    dailyReward: z.number().int().positive("La recompensa diaria debe ser mayor a 0"),
+    completionBonus: z.number().int().positive("El bono debe ser mayor a 0"),
+  }),
+  z.object({
+    action: z.literal("setRewardRate"),
+    rateBasisPoints: z.number().int().min(0).max(MAX_STAKING_REWARD_RATE_BASIS_POINTS, "La tasa no puede superar el 50%"),
+  }),
+]);
+
+export const roleGrantSchema = z.object({
+  role: z.enum(userRoles),
+  reason: z.string().trim().max(500, "El motivo no puede exceder 500 caracteres").optional(),
+});
+
+// DELETE body; clients may send none at all
+export const roleRevokeSchema = z.object({
+  reason: z.string().trim().max(500, "El motivo no puede exceder 500 caracteres").optional(),
+});
+
+export const roleGrantEventsQuerySchema = z.object({
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const insertCheckInCommentSchema = z.object({
+  content: z.string().trim().min(1, "El comentario no puede estar vacío").max(1000, "El comentario no puede exceder 1000 caracteres"),
+});
+
+export const notificationQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Only the types being switched; the rest keep their setting
+export const notificationPreferencesUpdateSchema = z.record(z.enum(notificationTypes), z.boolean());
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type LoginUser = z.infer<typeof loginSchema>;
+export type TwoFactorVerification = z.infer<typeof twoFactorVerificationSchema>;
+export type AccountDeletionRequest = z.infer<typeof accountDeletionSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = Pick<RefreshToken, "userId" | "tokenHash" | "familyId" | "expiresAt">;
+export type EmailTokenPurpose = typeof emailTokenPurposes[number];
+export type InsertEmailToken = Omit<typeof emailTokens.$inferSelect, "createdAt"> & { purpose: EmailTokenPurpose };
+export type BuiltInOAuthProvider = typeof builtInOAuthProviders[number];
+// A built-in provider or the id of a configured OpenID Connect provider
+export type OAuthProvider = string;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type PendingOAuthLink = typeof pendingOAuthLinks.$inferSelect;
+export type InsertPendingOAuthLink = Pick<PendingOAuthLink, "tokenHash" | "userId" | "provider" | "providerId" | "expiresAt">;
+export type OutboxMessage = typeof mailOutbox.$inferSelect;
+export type InsertOutboxMessage = Pick<OutboxMessage, "recipient" | "subject" | "body">;
+export type SiweVerifyRequest = z.infer<typeof siweVerifySchema>;
+export type WalletLinkAction = typeof walletLinkActions[number];
+export type WalletLinkEvent = typeof walletLinkEvents.$inferSelect;
+export type UserRole = typeof userRoles[number];
+export type RoleGrantAction = typeof roleGrantActions[number];
+export type RoleGrantEvent = typeof roleGrantEvents.$inferSelect;
+export type InsertRoleGrantEvent = Pick<RoleGrantEvent, "userId" | "role" | "actorId" | "reason" | "ipAddress">;
 export type User = typeof users.$inferSelect;
 
-export type SafeUser = Omit<User, 'passwordHash'>;
+export type SafeUser = Omit<User, 'passwordHash' | 'totpSecret' | 'totpLastUsedStep' | 'recoveryCodeHashes'>;
+
+export type PostType = typeof postTypes[number];
+export type InsertCommunityPost = z.infer<typeof insertCommunityPostSchema>;
+export type InsertPostComment = z.infer<typeof insertPostCommentSchema>;
+export type CommunityPostRow = typeof communityPosts.$inferSelect;
+export type PostCommentRow = typeof postComments.$inferSelect;
+export type PostLikeRow = typeof postLikes.$inferSelect;
+
+export type Charity = typeof charities.$inferSelect;
+export type InsertCharity = z.infer<typeof insertCharitySchema>;
+export type UpdateCharity = z.infer<typeof updateCharitySchema>;
+export type CharitySeed = typeof charities.$inferInsert & { id: string };
+export type NewChallenge = z.infer<typeof insertChallengeSchema>;
+export type UpdateChallenge = z.infer<typeof updateChallengeSchema>;
+export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
+export type AdminTransactionRequest = z.infer<typeof adminTransactionSchema>;
+export type Challenge = typeof challenges.$inferSelect;
+export type InsertChallenge = typeof challenges.$inferInsert;
+export type UserChallenge = typeof userChallenges.$inferSelect;
+export type ChallengeDifficulty = typeof challengeDifficulties[number];
+export type EnrollmentStatus = typeof enrollmentStatuses[number];
+export type WalletActivityType = typeof walletActivityTypes[number];
+export type InsertWalletActivity = z.infer<typeof insertWalletActivitySchema>;
+export type WalletActivity = typeof walletActivities.$inferSelect;
+export type NewWalletActivity = InsertWalletActivity & { verified: boolean };
+export type TokenLedgerEntryType = typeof tokenLedgerEntryTypes[number];
+export type TokenLedgerEntry = typeof tokenLedger.$inferSelect;
+export type NewTokenLedgerEntry = Pick<TokenLedgerEntry, "type" | "amount" | "description"> & { type: TokenLedgerEntryType; referenceId?: string | null };
+export type TokenTransfer = z.infer<typeof tokenTransferSchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
+export type CheckInRow = typeof checkIns.$inferSelect;
+export type CheckInCommentRow = typeof checkInComments.$inferSelect;
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationRow = typeof notifications.$inferSelect;
+export type InsertNotification = Pick<NotificationRow, "userId" | "actorId"> & Partial<Pick<NotificationRow, "checkInId" | "postId">> & { type: NotificationType };
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>;
+export type NotificationPreferences = Record<NotificationType, boolean>;
+export type NotificationPreferenceRow = typeof notificationPreferences.$inferSelect;
+export type MediaMimeType = typeof mediaMimeTypes[number];
+export type MediaRow = typeof media.$inferSelect;
+export type InsertMedia = Omit<MediaRow, "createdAt"> & { mimeType: MediaMimeType };
+
+// API shapes: posts and comments joined with their author's name
+export interface CommunityComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  timestamp: string;
+  parentId?: string;
+}
+
+export interface CommunityPost {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorAvatar?: string;
+  title: string;
+  description: string;
+  ingredients?: string;
+  preparationSteps?: string;
+  mediaId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  type: PostType;
+  timestamp: string;
+  likes: number;
+  likedBy: string[];
+  comments: CommunityComment[];
+}
+
+export interface CheckInComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  timestamp: string;
+}
+
+export interface DailyCheckIn {
+  id: string;
+  challengeId: string;
+  day: number;
+  userId: string;
+  username: string;
+  description: string;
+  mediaId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  timestamp: string;
+  likes: number;
+  likedBy: string[];
+  approvals: number;
+  approvedBy: string[];
+  comments: CheckInComment[];
+}
+
+export interface UploadedMedia {
+  id: string;
+  mimeType: MediaMimeType;
+  width: number;
+  height: number;
+  byteSize: number;
+  url: string;
+  thumbnailUrl: string;
+  createdAt: string;
+}
+
+// Where GET /api/media serves an uploaded image and its thumbnail
+export function mediaUrls(mediaId: string): { url: string; thumbnailUrl: string } {
+  return { url: `/api/media/${mediaId}`, thumbnailUrl: `/api/media/${mediaId}/thumbnail` };
+}
+
+// A notification joined with who did it and what it is about
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  actorId: string;
+  actorName: string;
+  checkInId: string | null;
+  checkInDay: number | null;
+  postId: string | null;
+  postTitle: string | null;
+  read: boolean;
+  timestamp: string;
+}
+
+export interface NotificationPage {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+export interface ChallengeProgress {
+  currentDay: number;
+  completedDays: number[];
+  isActive: boolean;
+}
+
+// A user's enrollment joined with its catalog entry
+export interface ChallengeEnrollment {
+  id: string;
+  challenge: Challenge;
+  startDate: string;
+  completedAt: string | null;
+  status: EnrollmentStatus;
+  progress: ChallengeProgress;
+}
+
+export interface ChallengeCatalogEntry extends Challenge {
+  participants: number;
+}
+
+// Everything stored about a user besides the profile itself, for the personal
+// data export
+export interface AccountData {
+  linkedIdentities: Pick<UserIdentity, "provider" | "subject" | "createdAt">[];
+  walletLinks: WalletLinkEvent[];
+  roleEvents: RoleGrantEvent[];
+  posts: CommunityPostRow[];
+  postComments: PostCommentRow[];
+  postLikes: PostLikeRow[];
+  challenges: UserChallenge[];
+  checkIns: CheckInRow[];
+  checkInComments: CheckInCommentRow[];
+  checkInLikes: (typeof checkInLikes.$inferSelect)[];
+  checkInApprovals: (typeof checkInApprovals.$inferSelect)[];
+  tokenLedger: TokenLedgerEntry[];
+  walletActivities: WalletActivity[];
+  notifications: NotificationRow[];
+  notificationPreferences: NotificationPreferenceRow[];
+  media: MediaRow[];
+}
+
+export interface AccountExport extends AccountData {
+  exportedAt: string;
+  profile: SafeUser;
+}
+
+export interface AdminUserPage {
+  users: SafeUser[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+// Network the server prepares owner transactions for; chainId is null in demo
+// mode, where nothing is sent on-chain
+export interface AdminChainInfo {
+  mode: string;
+  chainId: number | null;
+  networkName: string | null;
+  contracts: Record<OwnerContract, string | null>;
+}
+
+export interface LeaderboardUser {
+  id: string;
+  rank: number;
+  username: string;
+  location: string | null;
+  address: string | null;
+  tokensEarned: number;
+  tokensDonated: number;
+  stakingRewards: number;
+  completedCheckIns: number;
+  totalScore: number;
+}
+
+export interface GlobalImpactStats {
+  totalRewardsDistributed: number;
+  totalTokensDonated: number;
+  totalTokensStaked: number;
+  totalCheckIns: number;
+  totalUsers: number;
+  lastUpdated: string;
+}
+
+export interface LeaderboardPage {
+  users: LeaderboardUser[];
+  page: number;
+  limit: number;
+  total: number;
+  currentUser: LeaderboardUser | null;
+  stats: GlobalImpactStats;
+}
+
+// A way to sign in to an account. OAuth providers are unlinked through
+// /api/auth/providers, the wallet through /api/auth/link-wallet.
+export interface LinkedIdentity {
+  // "password", "wallet" or an OAuth provider id
+  provider: string;
+  name: string;
+  type: "password" | "oauth" | "wallet";
+  linked: boolean;
+  // Never true for the password, nor for the last remaining way to sign in
+  canUnlink: boolean;
+}
+
+// What the browser needs to ask for proof before linking a provider
+export interface PendingOAuthLinkInfo {
+  provider: OAuthProvider;
+  providerName: string;
+  email: string;
+  hasPassword: boolean;
+}
+
+// An OpenID Connect provider the login screen offers
+export interface OidcProviderSummary {
+  id: string;
+  name: string;
+}
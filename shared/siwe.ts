@@ -0,0 +1,120 @@
+// Sign-In With Ethereum (EIP-4361) messages. The client builds the message the
+// wallet signs; the server parses the same text back before verifying it.
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+// The statement says what a signature is for, so a login signature cannot be
+// replayed to link a wallet and vice versa
+export const SIWE_STATEMENTS = {
+  login: "Inicia sesión en VEG21 con tu wallet.",
+  linkWallet: "Vincula esta wallet a tu cuenta VEG21.",
+} as const;
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+const FIELD_LABELS = {
+  uri: "URI",
+  version: "Version",
+  chainId: "Chain ID",
+  nonce: "Nonce",
+  issuedAt: "Issued At",
+  expirationTime: "Expiration Time",
+  notBefore: "Not Before",
+  requestId: "Request ID",
+} as const;
+
+export function buildSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ""];
+  if (message.statement) {
+    lines.push(message.statement, "");
+  }
+  lines.push(
+    `${FIELD_LABELS.uri}: ${message.uri}`,
+    `${FIELD_LABELS.version}: ${message.version}`,
+    `${FIELD_LABELS.chainId}: ${message.chainId}`,
+    `${FIELD_LABELS.nonce}: ${message.nonce}`,
+    `${FIELD_LABELS.issuedAt}: ${message.issuedAt}`,
+  );
+  if (message.expirationTime) lines.push(`${FIELD_LABELS.expirationTime}: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`${FIELD_LABELS.notBefore}: ${message.notBefore}`);
+  if (message.requestId) lines.push(`${FIELD_LABELS.requestId}: ${message.requestId}`);
+  if (message.resources?.length) {
+    lines.push("Resources:", ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join("\n");
+}
+
+// Returns null when the text does not follow the EIP-4361 layout
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split("\n");
+  if (lines.length < 8 || !lines[0].endsWith(HEADER_SUFFIX) || lines[2] !== "") {
+    return null;
+  }
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1];
+  if (!domain || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return null;
+  }
+
+  let index = 3;
+  let statement: string | undefined;
+  if (!lines[index].startsWith(`${FIELD_LABELS.uri}: `)) {
+    statement = lines[index];
+    if (lines[index + 1] !== "") return null;
+    index += 2;
+  }
+
+  const fields: Partial<Record<keyof typeof FIELD_LABELS, string>> = {};
+  for (const [key, label] of Object.entries(FIELD_LABELS) as [keyof typeof FIELD_LABELS, string][]) {
+    const line = lines[index];
+    if (line?.startsWith(`${label}: `)) {
+      fields[key] = line.slice(label.length + 2);
+      index++;
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === "Resources:") {
+    resources = [];
+    for (index++; index < lines.length && lines[index].startsWith("- "); index++) {
+      resources.push(lines[index].slice(2));
+    }
+  }
+
+  if (index !== lines.length || !fields.uri || !fields.version || !fields.chainId || !fields.nonce || !fields.issuedAt) {
+    return null;
+  }
+  const chainId = Number(fields.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: fields.version,
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}